@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BaseAgentsServer } from '../../../lib/agents/server';
+import { parseCostBasisMethod } from '../../../lib/trading/cost-basis';
+
+// Global server instance (shared with agents route)
+declare global {
+  var agentServer: BaseAgentsServer | undefined;
+}
+
+/**
+ * GET /api/pnl?userId=&token=&method=fifo|lifo|average - Realized and unrealized PnL per token
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const method = parseCostBasisMethod(params.get('method'));
+
+    if (params.get('method') && !method) {
+      return NextResponse.json({
+        error: 'method must be one of fifo, lifo, average'
+      }, { status: 400 });
+    }
+
+    const tradingAgent = global.agentServer?.getAgent('TradingAgent');
+    if (!tradingAgent) {
+      return NextResponse.json({
+        error: 'Agent server is not running. Please start the agent server first.',
+        suggestion: 'Use the system status to start agents'
+      }, { status: 503 });
+    }
+
+    const report = await tradingAgent.getPnlReport({
+      userId: params.get('userId') || undefined,
+      token: params.get('token') || undefined,
+      method,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error computing PnL:', error);
+    return NextResponse.json({
+      error: 'Failed to compute PnL',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
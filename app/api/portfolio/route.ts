@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BaseAgentsServer } from '../../../lib/agents/server';
+
+// Global server instance (shared with agents route)
+declare global {
+  var agentServer: BaseAgentsServer | undefined;
+}
+
+/**
+ * GET /api/portfolio?address=0x... - Get priced holdings and performance metrics
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const address = request.nextUrl.searchParams.get('address') || undefined;
+
+    if (address && !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json({
+        error: 'Invalid wallet address'
+      }, { status: 400 });
+    }
+
+    const tradingAgent = global.agentServer?.getAgent('TradingAgent');
+    if (!tradingAgent) {
+      return NextResponse.json({
+        error: 'Agent server is not running. Please start the agent server first.',
+        suggestion: 'Use the system status to start agents'
+      }, { status: 503 });
+    }
+
+    const portfolio = await tradingAgent.getPortfolio(address);
+
+    return NextResponse.json({
+      success: true,
+      data: portfolio,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error getting portfolio:', error);
+    return NextResponse.json({
+      error: 'Failed to get portfolio',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
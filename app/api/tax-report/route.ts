@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BaseAgentsServer } from '../../../lib/agents/server';
+import { parseCostBasisMethod } from '../../../lib/trading/cost-basis';
+import { taxYearRange } from '../../../lib/trading/tax-report';
+
+// Global server instance (shared with agents route)
+declare global {
+  var agentServer: BaseAgentsServer | undefined;
+}
+
+/**
+ * GET /api/tax-report?year=2025 (or from=&to=)&format=8949|koinly&method=&wallet=&userId= - Download a tax CSV
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const year = params.get('year') ? Number(params.get('year')) : undefined;
+    const format = params.get('format') || '8949';
+    const method = parseCostBasisMethod(params.get('method'));
+
+    if (year !== undefined && (!Number.isInteger(year) || year < 2009)) {
+      return NextResponse.json({
+        error: 'year must be a calendar year, e.g. 2025'
+      }, { status: 400 });
+    }
+
+    const range = year !== undefined
+      ? taxYearRange(year)
+      : { from: new Date(params.get('from') || ''), to: params.get('to') ? new Date(params.get('to')!) : new Date() };
+    if (isNaN(range.from.getTime()) || isNaN(range.to.getTime()) || range.from >= range.to) {
+      return NextResponse.json({
+        error: 'Invalid date range',
+        suggestion: 'Pass year=2025, or from and to as ISO dates, e.g. 2025-01-01'
+      }, { status: 400 });
+    }
+
+    if (format !== '8949' && format !== 'koinly') {
+      return NextResponse.json({
+        error: 'format must be one of 8949, koinly'
+      }, { status: 400 });
+    }
+
+    if (params.get('method') && !method) {
+      return NextResponse.json({
+        error: 'method must be one of fifo, lifo, average'
+      }, { status: 400 });
+    }
+
+    const wallet = params.get('wallet') || undefined;
+    if (wallet && !/^0x[a-fA-F0-9]{40}$/.test(wallet)) {
+      return NextResponse.json({
+        error: 'Invalid wallet address'
+      }, { status: 400 });
+    }
+
+    const tradingAgent = global.agentServer?.getAgent('TradingAgent');
+    if (!tradingAgent) {
+      return NextResponse.json({
+        error: 'Agent server is not running. Please start the agent server first.',
+        suggestion: 'Use the system status to start agents'
+      }, { status: 503 });
+    }
+
+    const report = await tradingAgent.getTaxReport({
+      ...range,
+      format,
+      method,
+      wallet,
+      userId: params.get('userId') || undefined,
+    });
+
+    return new NextResponse(report.csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${report.filename}"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error building tax report:', error);
+    return NextResponse.json({
+      error: 'Failed to build tax report',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BaseAgentsServer } from '../../../lib/agents/server';
+
+// Global server instance (shared with agents route)
+declare global {
+  var agentServer: BaseAgentsServer | undefined;
+}
+
+/**
+ * GET /api/trades?userId=&token=&from=&to=&status=&limit= - Query the trade history ledger
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const from = params.get('from') ? new Date(params.get('from')!) : undefined;
+    const to = params.get('to') ? new Date(params.get('to')!) : undefined;
+    const limit = params.get('limit') ? Number(params.get('limit')) : undefined;
+    const status = params.get('status') || undefined;
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json({
+        error: 'Invalid date range',
+        suggestion: 'Use ISO dates, e.g. 2025-01-31'
+      }, { status: 400 });
+    }
+
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > 500)) {
+      return NextResponse.json({
+        error: 'limit must be an integer between 1 and 500'
+      }, { status: 400 });
+    }
+
+    if (status && !['pending', 'confirmed', 'failed', 'unconfirmed'].includes(status)) {
+      return NextResponse.json({
+        error: 'status must be one of pending, confirmed, failed, unconfirmed'
+      }, { status: 400 });
+    }
+
+    const tradingAgent = global.agentServer?.getAgent('TradingAgent');
+    if (!tradingAgent) {
+      return NextResponse.json({
+        error: 'Agent server is not running. Please start the agent server first.',
+        suggestion: 'Use the system status to start agents'
+      }, { status: 503 });
+    }
+
+    const trades = await tradingAgent.getTradeHistory({
+      userId: params.get('userId') || undefined,
+      token: params.get('token') || undefined,
+      status: status as 'pending' | 'confirmed' | 'failed' | 'unconfirmed' | undefined,
+      from,
+      to,
+      limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: trades,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error getting trade history:', error);
+    return NextResponse.json({
+      error: 'Failed to get trade history',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -2,15 +2,19 @@
 
 interface ActionButtonsProps {
   actions: any[];
+  onSendMessage?: (content: string) => void;
 }
 
-export function ActionButtons({ actions }: ActionButtonsProps) {
+export function ActionButtons({ actions, onSendMessage }: ActionButtonsProps) {
   const handleAction = (action: any) => {
     console.log('Action clicked:', action);
     // Handle different action types
     switch (action.type) {
       case 'transaction':
-        // Handle transaction approval
+        // Approval is a "confirm <id>" reply routed back to the proposing agent
+        if (action.payload?.proposalId) {
+          onSendMessage?.(`confirm ${action.payload.proposalId}`);
+        }
         break;
       case 'miniapp':
         // Launch mini-app
@@ -23,19 +27,35 @@ export function ActionButtons({ actions }: ActionButtonsProps) {
     }
   };
 
+  const handleCancel = (action: any) => {
+    onSendMessage?.(`cancel ${action.payload.proposalId}`);
+  };
+
   return (
     <div className="flex flex-wrap gap-2">
       {actions.map((action, index) => (
-        <button
-          key={index}
-          onClick={() => handleAction(action)}
-          className="bg-white/20 hover:bg-white/30 text-white text-sm px-3 py-1 rounded-lg border border-white/30 transition-colors"
-        >
-          {action.type === 'transaction' && '💰 Approve Transaction'}
-          {action.type === 'miniapp' && '🚀 Launch App'}
-          {action.type === 'notification' && '🔔 View Details'}
-        </button>
+        <div key={index} className="flex flex-wrap gap-2">
+          {action.type === 'transaction' && action.payload?.summary && (
+            <p className="w-full text-white/80 text-xs">{action.payload.summary}</p>
+          )}
+          <button
+            onClick={() => handleAction(action)}
+            className="bg-white/20 hover:bg-white/30 text-white text-sm px-3 py-1 rounded-lg border border-white/30 transition-colors"
+          >
+            {action.type === 'transaction' && '💰 Approve Transaction'}
+            {action.type === 'miniapp' && '🚀 Launch App'}
+            {action.type === 'notification' && '🔔 View Details'}
+          </button>
+          {action.type === 'transaction' && action.payload?.proposalId && (
+            <button
+              onClick={() => handleCancel(action)}
+              className="bg-white/10 hover:bg-white/20 text-white text-sm px-3 py-1 rounded-lg border border-white/30 transition-colors"
+            >
+              🚫 Cancel
+            </button>
+          )}
+        </div>
       ))}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -208,7 +208,7 @@ export function ChatInterface({ selectedAgent, walletAddress, conversationId }:
       {/* Messages Area */}
       <div className="flex-1 flex flex-col min-h-0">
         <div className="flex-1 overflow-y-auto p-4">
-          <MessageList messages={messages} />
+          <MessageList messages={messages} onSendMessage={handleSendMessage} />
           {isTyping && <AgentTyping agentName={selectedAgent} />}
           <div ref={messagesEndRef} />
         </div>
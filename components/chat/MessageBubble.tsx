@@ -5,9 +5,10 @@ import { ActionButtons } from './ActionButtons';
 
 interface MessageBubbleProps {
   message: Message;
+  onSendMessage?: (content: string) => void;
 }
 
-export function MessageBubble({ message }: MessageBubbleProps) {
+export function MessageBubble({ message, onSendMessage }: MessageBubbleProps) {
   const isUser = message.sender === 'user';
   
   return (
@@ -42,7 +43,7 @@ export function MessageBubble({ message }: MessageBubbleProps) {
           
           {message.actions && message.actions.length > 0 && (
             <div className="mt-3">
-              <ActionButtons actions={message.actions} />
+              <ActionButtons actions={message.actions} onSendMessage={onSendMessage} />
             </div>
           )}
         </div>
@@ -5,13 +5,14 @@ import { MessageBubble } from './MessageBubble';
 
 interface MessageListProps {
   messages: Message[];
+  onSendMessage?: (content: string) => void;
 }
 
-export function MessageList({ messages }: MessageListProps) {
+export function MessageList({ messages, onSendMessage }: MessageListProps) {
   return (
     <div className="space-y-4">
       {messages.map((message) => (
-        <MessageBubble key={message.id} message={message} />
+        <MessageBubble key={message.id} message={message} onSendMessage={onSendMessage} />
       ))}
     </div>
   );
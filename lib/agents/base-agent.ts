@@ -3,6 +3,7 @@ import { BaseLanguageModel } from '@langchain/core/language_models/base';
 import { ChatOpenAI } from '@langchain/openai';
 import { DynamicStructuredTool } from '@langchain/core/tools';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { RunnableConfig } from '@langchain/core/runnables';
 import { EventEmitter } from 'events';
 import winston from 'winston';
 import {
@@ -238,6 +239,30 @@ Current context: You are responding to a message in a conversation. Consider the
     this.userMemory.set(userId, updatedMemory);
   }
 
+  /**
+   * Resolve the user and conversation a tool call originates from.
+   * Agents pass these through the `configurable` field when invoking their react agent.
+   */
+  protected getToolContext(config?: RunnableConfig): { userId: string; conversationId: string } {
+    return {
+      userId: config?.configurable?.user_id || 'anonymous',
+      conversationId: config?.configurable?.thread_id || 'default',
+    };
+  }
+
+  /**
+   * Push an unsolicited message into a conversation (delivered over XMTP by the server)
+   */
+  protected notifyConversation(conversationId: string, message: string, metadata?: Record<string, any>): void {
+    this.emit('conversationMessage', {
+      agentName: this.config.name,
+      conversationId,
+      message,
+      metadata,
+      timestamp: new Date(),
+    });
+  }
+
   /**
    * Create a response for delegation to another agent
    */
@@ -10,6 +10,7 @@ import {
   BaseAgentConfig,
   AgentError,
 } from '../types';
+import { PendingTransactionStore, parseConfirmationCommand } from '../transactions/pending-transactions';
 
 /**
  * MasterAgent orchestrates all other agents in the system
@@ -19,10 +20,12 @@ export class MasterAgent extends BaseAgent {
   private routingRules: RoutingRule[];
   private registeredAgents: Map<string, BaseAgent> = new Map();
   private agentConfigs: Map<string, BaseAgentConfig> = new Map();
+  private pendingTransactions?: PendingTransactionStore;
 
-  constructor(config: MasterAgentConfig) {
+  constructor(config: MasterAgentConfig, pendingTransactions?: PendingTransactionStore) {
     super(config);
     this.routingRules = config.routingRules.sort((a, b) => b.priority - a.priority);
+    this.pendingTransactions = pendingTransactions;
   }
 
   /**
@@ -170,6 +173,13 @@ export class MasterAgent extends BaseAgent {
     context: AgentContext
   ): Promise<string | null> {
     const messageContent = message.content.toLowerCase();
+
+    // Confirmations go back to whichever agent made the proposal
+    const command = parseConfirmationCommand(messageContent);
+    const proposal = command && this.pendingTransactions?.get(command.id);
+    if (proposal && this.registeredAgents.has(proposal.agentName)) {
+      return proposal.agentName;
+    }
     
     // Check routing rules in priority order
     for (const rule of this.routingRules) {
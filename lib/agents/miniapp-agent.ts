@@ -12,6 +12,16 @@ import {
   MiniAppDefinition,
   MiniAppSession,
 } from '../types';
+import { PriceService, createPriceService } from '../trading/price-service';
+import { TokenScanner, describeTokenScan } from '../trading/token-scanner';
+import { findNetworkMention, getNetwork } from '../trading/networks';
+
+export interface MiniAppAgentDependencies {
+  priceService?: PriceService;
+  tokenScanner?: TokenScanner;
+}
+
+const TOKEN_ADDRESS = /0x[a-fA-F0-9]{40}/;
 
 /**
  * MiniAppAgent handles launching and managing mini-applications within conversations
@@ -20,9 +30,13 @@ export class MiniAppAgent extends BaseAgent {
   private availableApps: Map<string, MiniAppDefinition> = new Map();
   private activeSessions: Map<string, MiniAppSession> = new Map();
   private userSessions: Map<string, string[]> = new Map(); // userId -> sessionIds
+  private priceService: PriceService;
+  private tokenScanner: TokenScanner;
 
-  constructor(config: MiniAppAgentConfig) {
+  constructor(config: MiniAppAgentConfig, dependencies: MiniAppAgentDependencies = {}) {
     super(config);
+    this.priceService = dependencies.priceService || createPriceService(this.logger);
+    this.tokenScanner = dependencies.tokenScanner || new TokenScanner({ logger: this.logger });
     this.initializeApps();
   }
 
@@ -116,8 +130,28 @@ export class MiniAppAgent extends BaseAgent {
           to: z.string(),
         }),
         func: async ({ amount, from, to }) => {
-          const result = await this.convertCurrency(amount, from, to);
-          return `${amount} ${from} = ${result.amount} ${to} (Rate: ${result.rate})`;
+          try {
+            const result = await this.convertCurrency(amount, from, to);
+            return `${amount} ${from} = ${result.amount} ${to} (Rate: ${result.rate})`;
+          } catch (error) {
+            return `Could not convert ${from} to ${to}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'scan_token',
+        description: 'Scan a token contract for safety: metadata, owner, upgradeable proxy and mint/pause/blacklist functions, with a risk score',
+        schema: z.object({
+          address: z.string().describe('Token contract address'),
+          network: z.string().optional().describe('Network id, e.g. base-mainnet; defaults to the configured network'),
+        }),
+        func: async ({ address, network }) => {
+          try {
+            return describeTokenScan(await this.tokenScanner.scan(address, getNetwork(network)));
+          } catch (error) {
+            return `Could not scan ${address}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
         },
       }),
 
@@ -148,6 +182,8 @@ export class MiniAppAgent extends BaseAgent {
       return await this.handleConversion(message, context);
     } else if (this.isPollRequest(content)) {
       return await this.handlePoll(message, context);
+    } else if (this.isScanRequest(content)) {
+      return await this.handleScan(message, context);
     }
 
     // Process with LLM for complex tool requests
@@ -163,7 +199,7 @@ export class MiniAppAgent extends BaseAgent {
     const content = typeof message.content === 'string' ? message.content.toLowerCase() : '';
     const miniappKeywords = [
       'app', 'tool', 'launch', 'open', 'calculate', 'convert', 'poll', 
-      'calculator', 'converter', 'utility', 'mini-app', 'miniapp'
+      'calculator', 'converter', 'utility', 'mini-app', 'miniapp', 'scan'
     ];
     
     return miniappKeywords.some(keyword => content.includes(keyword));
@@ -348,6 +384,8 @@ export class MiniAppAgent extends BaseAgent {
         return this.handleConverterInteraction(session, action, data);
       case 'poll-creator':
         return this.handlePollInteraction(session, userId, action, data);
+      case 'token-scanner':
+        return this.handleScannerInteraction(session, action, data);
       default:
         return { success: false, message: 'Unknown app interaction' };
     }
@@ -374,15 +412,19 @@ export class MiniAppAgent extends BaseAgent {
     return { success: false, message: 'Invalid calculator action' };
   }
 
-  private handleConverterInteraction(
+  private async handleConverterInteraction(
     session: MiniAppSession, 
     action: string, 
     data?: Record<string, any>
-  ): { success: boolean; message: string; newState?: Record<string, any> } {
+  ): Promise<{ success: boolean; message: string; newState?: Record<string, any> }> {
     if (action === 'convert' && data?.amount && data?.from && data?.to) {
-      // Mock conversion rate - in production would use real API
-      const rate = this.getMockConversionRate(data.from, data.to);
-      const result = data.amount * rate;
+      let result: number;
+      let rate: number;
+      try {
+        ({ amount: result, rate } = await this.convertCurrency(data.amount, data.from, data.to));
+      } catch (error) {
+        return { success: false, message: error instanceof Error ? error.message : 'Conversion failed' };
+      }
       
       return {
         success: true,
@@ -414,6 +456,28 @@ export class MiniAppAgent extends BaseAgent {
     return { success: false, message: 'Invalid poll action' };
   }
 
+  private async handleScannerInteraction(
+    session: MiniAppSession, 
+    action: string, 
+    data?: Record<string, any>
+  ): Promise<{ success: boolean; message: string; newState?: Record<string, any> }> {
+    if (action === 'scan' && data?.address) {
+      try {
+        const report = await this.tokenScanner.scan(data.address, getNetwork(data.network));
+        const history = [report, ...(session.state.scans || []).filter((scan: { address: string }) => scan.address !== report.address)];
+        return {
+          success: true,
+          message: describeTokenScan(report),
+          newState: { lastScan: report, scans: history.slice(0, 10) }
+        };
+      } catch (error) {
+        return { success: false, message: error instanceof Error ? error.message : 'Scan failed' };
+      }
+    }
+    
+    return { success: false, message: 'Invalid scanner action' };
+  }
+
   private async closeApp(sessionId: string, userId: string): Promise<void> {
     const session = this.activeSessions.get(sessionId);
     if (!session) {
@@ -463,23 +527,7 @@ export class MiniAppAgent extends BaseAgent {
   }
 
   private async convertCurrency(amount: number, from: string, to: string): Promise<{ amount: number; rate: number }> {
-    const rate = this.getMockConversionRate(from, to);
-    return {
-      amount: amount * rate,
-      rate,
-    };
-  }
-
-  private getMockConversionRate(from: string, to: string): number {
-    // Mock conversion rates - in production would use real price APIs
-    const rates: Record<string, Record<string, number>> = {
-      'USD': { 'ETH': 0.0003, 'BTC': 0.000015, 'EUR': 0.85 },
-      'ETH': { 'USD': 3500, 'BTC': 0.05, 'EUR': 2975 },
-      'BTC': { 'USD': 67000, 'ETH': 20, 'EUR': 56950 },
-      'EUR': { 'USD': 1.18, 'ETH': 0.00034, 'BTC': 0.000018 },
-    };
-
-    return rates[from.toUpperCase()]?.[to.toUpperCase()] || 1;
+    return this.priceService.convert(amount, from, to);
   }
 
   private async createPoll(question: string, options: string[], conversationId: string): Promise<{ id: string; question: string; options: string[] }> {
@@ -508,6 +556,10 @@ export class MiniAppAgent extends BaseAgent {
     return ['poll', 'vote', 'survey', 'voting'].some(word => content.includes(word));
   }
 
+  private isScanRequest(content: string): boolean {
+    return ['scan', 'rug', 'honeypot', 'is this token safe'].some(word => content.includes(word)) && TOKEN_ADDRESS.test(content);
+  }
+
   private async handleAppRequest(message: DecodedMessage, context: AgentContext): Promise<AgentResponse> {
     const apps = await this.listApps();
     const appList = apps.map(app => `${app.icon} **${app.name}**: ${app.description}`).join('\n');
@@ -557,6 +609,23 @@ export class MiniAppAgent extends BaseAgent {
     };
   }
 
+  private async handleScan(message: DecodedMessage, context: AgentContext): Promise<AgentResponse> {
+    const content = typeof message.content === 'string' ? message.content : '';
+    const address = content.match(TOKEN_ADDRESS)?.[0];
+    try {
+      const report = await this.tokenScanner.scan(address!, findNetworkMention(content));
+      return {
+        message: `🔍 **Token Scan**\n\n${describeTokenScan(report)}`,
+        metadata: { handledBy: 'miniapp-scanner', riskScore: report.riskScore, riskLevel: report.riskLevel }
+      };
+    } catch (error) {
+      return {
+        message: `❌ Could not scan ${address}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        metadata: { handledBy: 'miniapp-scanner-error' }
+      };
+    }
+  }
+
   protected getSystemPrompt(): string {
     return `You are a MiniApp Agent specialized in launching and managing mini-applications within conversations.
 
@@ -572,7 +641,7 @@ Available mini-apps:
 - Currency Converter: Fiat and crypto conversion
 - Poll Creator: Group voting and surveys
 - Expense Tracker: Shared expense management
-- Token Scanner: Smart contract analysis
+- Token Scanner: Token contract safety checks (owner, upgradeable proxy, mint/pause/blacklist functions) with a risk score (scan_token)
 - NFT Viewer: NFT collection browsing
 
 You help users:
@@ -8,6 +8,14 @@ import { GameAgent } from './game-agent';
 import { SocialAgent } from './social-agent';
 import { MiniAppAgent } from './miniapp-agent';
 import { XMTPClientManager } from '../xmtp/client';
+import { PendingTransactionStore } from '../transactions/pending-transactions';
+import { TradeLedger } from '../transactions/trade-ledger';
+import { TransactionTracker } from '../transactions/transaction-tracker';
+import { TransactionSimulator, createTransactionSimulator } from '../transactions/simulator';
+import { createTradeHistoryStore } from '../storage/trade-history';
+import { SqliteUserPreferencesStore } from '../storage/user-preferences';
+import { PriceService, createPriceService } from '../trading/price-service';
+import { TokenScanner } from '../trading/token-scanner';
 import {
   MasterAgentConfig,
   UtilityAgentConfig,
@@ -18,6 +26,7 @@ import {
   AgentContext,
   SystemHealth,
   AgentHealth,
+  UserPreferencesStore,
 } from '../types';
 
 // Load environment variables
@@ -31,6 +40,13 @@ export class BaseAgentsServer extends EventEmitter {
   private xmtpClient: XMTPClientManager;
   private masterAgent?: MasterAgent;
   private agents: Map<string, any> = new Map();
+  private pendingTransactions: PendingTransactionStore;
+  private tradeLedger?: TradeLedger;
+  private transactionTracker?: TransactionTracker;
+  private priceService: PriceService;
+  private tokenScanner: TokenScanner;
+  private simulator?: TransactionSimulator;
+  private userPreferences: UserPreferencesStore;
   private isRunning = false;
   private healthCheckInterval?: NodeJS.Timeout;
 
@@ -38,6 +54,14 @@ export class BaseAgentsServer extends EventEmitter {
     super();
     this.logger = this.createLogger();
     this.xmtpClient = new XMTPClientManager();
+    this.pendingTransactions = new PendingTransactionStore({
+      logger: this.logger,
+      defaultTtlMs: Number(process.env.PENDING_TRANSACTION_TTL_MS) || 10 * 60 * 1000,
+    });
+    this.priceService = createPriceService(this.logger);
+    this.tokenScanner = new TokenScanner({ logger: this.logger });
+    this.simulator = createTransactionSimulator(this.priceService, this.logger);
+    this.userPreferences = new SqliteUserPreferencesStore();
     this.setupEventListeners();
   }
 
@@ -51,11 +75,20 @@ export class BaseAgentsServer extends EventEmitter {
       // Validate environment variables
       this.validateEnvironment();
 
+      // Open the trade history store shared by all agents that move funds, and follow their transactions to confirmation
+      this.transactionTracker = new TransactionTracker({
+        logger: this.logger,
+        pollIntervalMs: Number(process.env.TX_POLL_INTERVAL_MS) || undefined,
+        timeoutMs: Number(process.env.TX_CONFIRMATION_TIMEOUT_MS) || undefined,
+      });
+      this.tradeLedger = new TradeLedger({ store: createTradeHistoryStore(), logger: this.logger, tracker: this.transactionTracker });
+
       // Initialize XMTP client
       await this.xmtpClient.initialize();
 
       // Initialize all agents
       await this.initializeAgents();
+      this.setupAgentNotifications();
 
       // Start XMTP message stream
       this.startMessageStream();
@@ -63,6 +96,9 @@ export class BaseAgentsServer extends EventEmitter {
       // Start health monitoring
       this.startHealthMonitoring();
 
+      // Keep following transactions a previous run left pending
+      await this.tradeLedger.resumeTracking();
+
       this.isRunning = true;
       this.logger.info('✅ BasedAgents Server started successfully');
       this.emit('started');
@@ -145,12 +181,12 @@ export class BaseAgentsServer extends EventEmitter {
           { pattern: /game|play|bet|trivia/i, agent: 'GameAgent', priority: 80 },
           { pattern: /event|plan|payment|split/i, agent: 'UtilityAgent', priority: 85 },
           { pattern: /news|social|content|trending/i, agent: 'SocialAgent', priority: 75 },
-          { pattern: /app|tool|calculate|convert/i, agent: 'MiniAppAgent', priority: 70 },
+          { pattern: /app|tool|calculate|convert|scan/i, agent: 'MiniAppAgent', priority: 70 },
         ],
         fallbackAgent: 'UtilityAgent',
         maxConversations: 1000,
       };
-      this.masterAgent = new MasterAgent(masterConfig);
+      this.masterAgent = new MasterAgent(masterConfig, this.pendingTransactions);
       await this.masterAgent.initialize();
       this.agents.set('MasterAgent', this.masterAgent);
       console.log('[BaseAgentsServer] MasterAgent initialized and registered.');
@@ -173,7 +209,14 @@ export class BaseAgentsServer extends EventEmitter {
         maxParticipants: 50,
         defaultCurrency: 'USDC',
       };
-      const utilityAgent = new UtilityAgent(utilityConfig);
+      const utilityAgent = new UtilityAgent(utilityConfig, {
+        pendingTransactions: this.pendingTransactions,
+        tradeLedger: this.tradeLedger,
+        transactionTracker: this.transactionTracker,
+        priceService: this.priceService,
+        simulator: this.simulator ?? null,
+        userPreferences: this.userPreferences,
+      });
       await utilityAgent.initialize();
       await this.masterAgent.registerAgent(utilityAgent);
       this.agents.set('UtilityAgent', utilityAgent);
@@ -190,10 +233,19 @@ export class BaseAgentsServer extends EventEmitter {
         priority: 90,
         supportedNetworks: ['base-mainnet', 'ethereum'],
         maxTransactionValue: 100000, // $100k USD
+        maxDailyValue: 250000, // $250k USD rolling 24h
         riskTolerance: 'medium',
         tradingPairs: ['ETH/USDC', 'BTC/USDC', 'USDC/DAI'],
       };
-      const tradingAgent = new TradingAgent(tradingConfig);
+      const tradingAgent = new TradingAgent(tradingConfig, {
+        pendingTransactions: this.pendingTransactions,
+        tradeLedger: this.tradeLedger,
+        transactionTracker: this.transactionTracker,
+        priceService: this.priceService,
+        simulator: this.simulator ?? null,
+        tokenScanner: this.tokenScanner,
+        userPreferences: this.userPreferences,
+      });
       await tradingAgent.initialize();
       await this.masterAgent.registerAgent(tradingAgent);
       this.agents.set('TradingAgent', tradingAgent);
@@ -237,7 +289,7 @@ export class BaseAgentsServer extends EventEmitter {
         moderationLevel: 'moderate',
         personalizedContent: true,
       };
-      const socialAgent = new SocialAgent(socialConfig);
+      const socialAgent = new SocialAgent(socialConfig, { priceService: this.priceService });
       await socialAgent.initialize();
       await this.masterAgent.registerAgent(socialAgent);
       this.agents.set('SocialAgent', socialAgent);
@@ -259,7 +311,10 @@ export class BaseAgentsServer extends EventEmitter {
         sandboxMode: false,
         maxAppsPerConversation: 5,
       };
-      const miniappAgent = new MiniAppAgent(miniappConfig);
+      const miniappAgent = new MiniAppAgent(miniappConfig, {
+        priceService: this.priceService,
+        tokenScanner: this.tokenScanner,
+      });
       await miniappAgent.initialize();
       await this.masterAgent.registerAgent(miniappAgent);
       this.agents.set('MiniAppAgent', miniappAgent);
@@ -275,6 +330,25 @@ export class BaseAgentsServer extends EventEmitter {
     }
   }
 
+  /**
+   * Deliver messages that agents push outside of a request/response cycle
+   */
+  private setupAgentNotifications(): void {
+    for (const agent of this.agents.values()) {
+      agent.on('conversationMessage', async (data: { agentName: string; conversationId: string; message: string }) => {
+        try {
+          await this.xmtpClient.sendMessage(data.conversationId, data.message);
+        } catch (error) {
+          this.logger.error('Failed to deliver agent notification', {
+            error,
+            agentName: data.agentName,
+            conversationId: data.conversationId,
+          });
+        }
+      });
+    }
+  }
+
   /**
    * Start listening for XMTP messages
    */
@@ -346,7 +420,7 @@ export class BaseAgentsServer extends EventEmitter {
         userId: message.senderInboxId,
         conversationId: message.conversationId,
         messageHistory: [message], // In production, would fetch conversation history
-        userPreferences: undefined, // Would fetch from database
+        userPreferences: await this.userPreferences.get(message.senderInboxId),
         agentMemory: {},
       };
 
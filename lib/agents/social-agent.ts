@@ -25,6 +25,11 @@ import {
   UserPreferences,
   EngagementMetrics,
 } from '../types';
+import { PriceService, createPriceService } from '../trading/price-service';
+
+export interface SocialAgentDependencies {
+  priceService?: PriceService;
+}
 
 /**
  * Production-grade SocialAgent with real content curation and blockchain tipping
@@ -39,9 +44,11 @@ export class SocialAgent extends BaseAgent {
   private contentSources: Map<string, ContentSource> = new Map();
   private curatedContent: Map<string, CuratedContent[]> = new Map();
   private userPreferences: Map<string, UserPreferences> = new Map();
+  private priceService: PriceService;
 
-  constructor(config: SocialAgentConfig) {
+  constructor(config: SocialAgentConfig, dependencies: SocialAgentDependencies = {}) {
     super(config);
+    this.priceService = dependencies.priceService || createPriceService(this.logger);
     this.initializeContentSources();
   }
 
@@ -441,26 +448,16 @@ Return analysis as JSON with:
    */
   private async getTokenSentiment(token: string): Promise<{ score: number; source: string }> {
     try {
-      // Use CoinGecko for sentiment data
-      const response = await axios.get(`https://api.coingecko.com/api/v3/coins/${token.toLowerCase()}`, {
-        params: { localization: false, tickers: false, market_data: true, community_data: true }
-      });
-
-      const data = response.data;
-      let score = 50; // neutral default
-
-      // Calculate sentiment based on price change and social metrics
-      if (data.market_data) {
-        const priceChange24h = data.market_data.price_change_percentage_24h || 0;
-        const priceChange7d = data.market_data.price_change_percentage_7d || 0;
-        
-        score = 50 + (priceChange24h * 2) + (priceChange7d * 0.5);
-        score = Math.max(0, Math.min(100, score));
+      // Market sentiment from the shared price feed's 24h change
+      const quote = await this.priceService.getQuote(token);
+      if (!quote || quote.stale || quote.change24h === undefined) {
+        return { score: 50, source: 'Default' };
       }
 
+      const score = Math.max(0, Math.min(100, 50 + quote.change24h * 2));
       return {
         score: Math.round(score),
-        source: 'CoinGecko Market Data'
+        source: `${quote.source} market data`
       };
     } catch (error) {
       this.logger.warn('Error fetching token sentiment', { error, token });
@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { TradingAgent } from './trading-agent';
+import { PriceService } from '../trading/price-service';
+import { FixturePriceSource } from '../trading/price-source';
+import { PendingTransactionStore } from '../transactions/pending-transactions';
+import { TradingAgentConfig } from '../types';
+
+const config: TradingAgentConfig = {
+  name: 'TradingAgent',
+  description: 'Trading agent under test',
+  capabilities: [],
+  version: '1.0.0',
+  isActive: true,
+  priority: 90,
+  supportedNetworks: [],
+  maxTransactionValue: 100000,
+  maxDailyValue: 250000,
+  riskTolerance: 'medium',
+  tradingPairs: ['ETH/USDC'],
+};
+
+function toolNamed(agent: TradingAgent, name: string): DynamicStructuredTool {
+  const tool = (agent as unknown as { tools: DynamicStructuredTool[] }).tools.find(t => t.name === name);
+  if (!tool) throw new Error(`No tool ${name}`);
+  return tool;
+}
+
+describe('TradingAgent orders', () => {
+  beforeAll(() => {
+    process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-key';
+    process.env.SQLITE_DATABASE_PATH = ':memory:';
+    process.env.TRADE_HISTORY_STORE = 'memory';
+  });
+
+  test('a limit buy is checked as a quote-to-token swap and proposed', async () => {
+    const logger = winston.createLogger({ silent: true });
+    const pendingTransactions = new PendingTransactionStore({ logger });
+    const agent = new TradingAgent(config, {
+      pendingTransactions,
+      priceService: new PriceService({ providers: [new FixturePriceSource({ ETH: 2000, USDC: 1 })], logger }),
+      simulator: null,
+    });
+
+    const result = JSON.parse(await toolNamed(agent, 'place_limit_order').invoke(
+      { side: 'buy', token: 'ETH', amount: 0.5, limitPrice: 1800 },
+      { configurable: { user_id: 'user', thread_id: 'conversation' } }
+    ));
+
+    expect(result.status).toBe('awaiting_confirmation');
+    const proposal = pendingTransactions.get(result.proposalId);
+    expect(proposal?.metadata?.intent).toMatchObject({ fromToken: 'USDC', toToken: 'ETH', amount: 900 });
+  });
+});
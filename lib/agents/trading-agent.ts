@@ -1,11 +1,13 @@
 // NOTE: This agent now uses only CdpV2EvmWalletProvider for wallet management (Coinbase AgentKit v2)
 import { DecodedMessage } from '@xmtp/browser-sdk';
-import { DynamicStructuredTool } from '@langchain/core/tools';
+import { DynamicStructuredTool, StructuredTool } from '@langchain/core/tools';
+import { RunnableConfig } from '@langchain/core/runnables';
 import { z } from 'zod';
 import { BaseAgent } from './base-agent';
 import { 
   AgentKit,
   CdpV2EvmWalletProvider,
+  EvmWalletProvider,
   wethActionProvider,
   walletActionProvider,
   erc20ActionProvider,
@@ -27,29 +29,272 @@ import {
   AgentResponse,
   Portfolio,
   TokenBalance,
-  TradeRequest,
-  PriceAlert,
   PerformanceMetrics,
+  PriceAlertStore,
+  PriceAlertTrigger,
+  PolicyViolationError,
+  TradeHistoryQuery,
+  TradeRecord,
+  TransactionIntent,
+  TradeExecution,
+  DcaPlan,
+  DcaPlanStore,
+  ConditionalOrder,
+  ConditionalOrderStore,
+  PendingTransaction,
+  PolicyViolation,
+  SimulationFailedError,
+  SimulationResult,
+  SwapQuote,
+  SwapQuoteError,
+  TradeRequest,
+  TrackedTransaction,
+  CostBasisMethod,
+  PnlReport,
+  AllocationProfile,
+  AllocationProfileStore,
+  RebalancePlan,
+  TokenScanReport,
+  CandleStore,
+  PortfolioSnapshotStore,
+  ApprovalRegistry,
+  UserPreferences,
+  UserPreferencesStore,
 } from '../types';
-import axios from 'axios';
+import { PriceAlertEngine } from '../trading/price-alerts';
+import { FixturePriceSource } from '../trading/price-source';
+import { PriceService, createPriceService } from '../trading/price-service';
+import { BuyAndHoldStrategy, ConditionalOrderStrategy, DcaStrategy, Strategy, runBacktest } from '../trading/backtester';
+import { findCandleFile, loadCandles } from '../trading/ohlcv';
+import { CandleCollector, parseCandleIntervals } from '../trading/candle-collector';
+import { computeIndicators, describeIndicators } from '../trading/indicators';
+import { PaperTradingAccounts, TradingMode, createPaperSwapTool, parseStartingBalances } from '../trading/paper-trading';
+import { PortfolioService } from '../trading/portfolio';
+import { PnlService, parseCostBasisMethod } from '../trading/cost-basis';
+import { TaxReport, TaxReportFormat, buildTaxReport, taxYearRange } from '../trading/tax-report';
+import { SpendingPolicy } from '../trading/spending-policy';
+import { DcaFillEvent, DcaScheduler } from '../trading/dca-scheduler';
+import { Holding, Rebalancer, planRebalance } from '../trading/rebalancer';
+import { ConditionalOrderEngine, OrderEvent, isSellOrder } from '../trading/conditional-orders';
+import { SwapAggregator, createSwapAggregator, describeMinimumOut, formatQuoteTable } from '../trading/swap-aggregator';
+import { TokenScanner, describeTokenScan, isUnknownTokenAddress } from '../trading/token-scanner';
+import { ApprovalManager, describeApprovals, revokeApprovalData } from '../trading/approvals';
+import {
+  SWAP_ACTION,
+  describeTransactionIntent,
+  extractTransactionIntent,
+  isValueMovingAction,
+} from '../transactions/intents';
+import {
+  PendingTransactionStore,
+  parseConfirmationCommand,
+  toTransactionAction,
+} from '../transactions/pending-transactions';
+import { TradeLedger } from '../transactions/trade-ledger';
+import { TransactionTracker, describeTransactionOutcome } from '../transactions/transaction-tracker';
+import { TransactionSimulator, createTransactionSimulator, describeSimulation } from '../transactions/simulator';
+import { createTradeHistoryStore } from '../storage/trade-history';
+import { SqliteDcaPlanStore } from '../storage/dca-plans';
+import { SqliteConditionalOrderStore } from '../storage/orders';
+import { SqliteAllocationProfileStore } from '../storage/allocations';
+import { SqliteCandleStore } from '../storage/candles';
+import { SqlitePortfolioSnapshotStore } from '../storage/portfolio-snapshots';
+import { SqliteApprovalRegistry } from '../storage/approvals';
+import { SqlitePriceAlertStore } from '../storage/price-alerts';
+import { DEFAULT_USER_PREFERENCES, SqliteUserPreferencesStore } from '../storage/user-preferences';
+import { NetworkInfo, getNetwork, resolveNetworks } from '../trading/networks';
+
+export interface TradingAgentDependencies {
+  priceService?: PriceService;
+  pendingTransactions?: PendingTransactionStore;
+  tradeLedger?: TradeLedger;
+  transactionTracker?: TransactionTracker;
+  dcaPlans?: DcaPlanStore;
+  conditionalOrders?: ConditionalOrderStore;
+  allocationProfiles?: AllocationProfileStore;
+  paperAccounts?: PaperTradingAccounts;
+  simulator?: TransactionSimulator | null; // null disables simulation
+  swapAggregator?: SwapAggregator; // for the default network
+  tokenScanner?: TokenScanner;
+  candleStore?: CandleStore;
+  approvalRegistry?: ApprovalRegistry;
+  portfolioSnapshots?: PortfolioSnapshotStore;
+  priceAlerts?: PriceAlertStore;
+  userPreferences?: UserPreferencesStore;
+}
+
+/**
+ * Wallet and AgentKit instance the agent holds on one network
+ */
+interface NetworkWallet {
+  network: NetworkInfo;
+  walletProvider: EvmWalletProvider;
+  agentKit: AgentKit;
+  tools: Map<string, StructuredTool>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ORDER_LABELS: Record<ConditionalOrder['type'], string> = {
+  limit_buy: 'Limit buy',
+  limit_sell: 'Limit sell',
+  stop_loss: 'Stop-loss',
+  take_profit: 'Take-profit',
+};
 
 /**
  * Production-grade TradingAgent with real blockchain operations via Coinbase AgentKit
  * Uses createReactAgent for proper LLM + tool integration
  */
 export class TradingAgent extends BaseAgent {
-  private agentKit?: AgentKit;
-  private walletProvider?: CdpV2EvmWalletProvider;
+  private defaultNetwork: NetworkInfo;
+  private supportedNetworks: NetworkInfo[];
+  private networks: Map<string, NetworkWallet> = new Map();
   private walletAddress?: string;
   private reactAgent?: ReturnType<typeof createReactAgent>;
   private memory?: MemorySaver;
   private llmModel?: ChatOpenAI;
-  private portfolios: Map<string, Portfolio> = new Map();
-  private priceAlerts: Map<string, PriceAlert> = new Map();
-  private tradeHistory: Map<string, TradeRequest[]> = new Map();
+  private portfolios: PortfolioService;
+  private pnl: PnlService;
+  private tradeLedger: TradeLedger;
+  private transactionTracker: TransactionTracker;
+  private tradingConfig: TradingAgentConfig;
+  private priceService: PriceService;
+  private priceAlerts: PriceAlertEngine;
+  private spendingPolicy: SpendingPolicy;
+  private paperPolicy: SpendingPolicy;
+  private paperAccounts: PaperTradingAccounts;
+  private liveTradingAvailable = true;
+  private pendingTransactions: PendingTransactionStore;
+  private simulators: Map<string, TransactionSimulator> = new Map();
+  private swapAggregators: Map<string, SwapAggregator> = new Map();
+  private dcaScheduler: DcaScheduler;
+  private orders: ConditionalOrderEngine;
+  private rebalancer: Rebalancer;
+  private tokenScanner: TokenScanner;
+  private candleStore: CandleStore;
+  private candles: CandleCollector;
+  private approvals: ApprovalManager;
+  private userPreferences: UserPreferencesStore;
 
-  constructor(config: TradingAgentConfig) {
+  constructor(config: TradingAgentConfig, dependencies: TradingAgentDependencies = {}) {
     super(config);
+    const priceSource = dependencies.priceService || createPriceService(this.logger);
+    this.priceService = priceSource;
+    this.tradingConfig = config;
+    // The default network comes first: its wallet address is reused on the others
+    this.defaultNetwork = getNetwork(process.env.NETWORK_ID);
+    const { networks, unknown } = resolveNetworks([this.defaultNetwork.id, ...config.supportedNetworks]);
+    if (unknown.length > 0) {
+      this.logger.warn('Ignoring unsupported networks in config', { networks: unknown });
+    }
+    this.supportedNetworks = networks;
+    this.priceAlerts = new PriceAlertEngine({
+      store: dependencies.priceAlerts || new SqlitePriceAlertStore(),
+      priceSource,
+      logger: this.logger,
+      pollIntervalMs: Number(process.env.PRICE_ALERT_POLL_INTERVAL_MS) || 60000,
+    });
+    this.priceAlerts.on('triggered', (trigger: PriceAlertTrigger) => this.deliverPriceAlert(trigger));
+    this.userPreferences = dependencies.userPreferences || new SqliteUserPreferencesStore();
+    this.pnl = new PnlService({
+      priceSource,
+      logger: this.logger,
+      defaultMethod: parseCostBasisMethod(process.env.COST_BASIS_METHOD),
+    });
+    this.portfolios = new PortfolioService({
+      priceSource,
+      store: dependencies.portfolioSnapshots || new SqlitePortfolioSnapshotStore(),
+      logger: this.logger,
+      networkIds: this.supportedNetworks.map(network => network.id),
+      snapshotIntervalMs: Number(process.env.PORTFOLIO_SNAPSHOT_INTERVAL_MS) || 60 * 60 * 1000,
+      // Only the agent wallet's trades are in the ledger
+      pnlSource: async address =>
+        this.walletAddress && address.toLowerCase() === this.walletAddress.toLowerCase() ? this.getPnlReport({}) : undefined,
+    });
+    this.spendingPolicy = new SpendingPolicy({ config, priceSource, logger: this.logger });
+    this.paperAccounts = dependencies.paperAccounts || new PaperTradingAccounts({
+      priceSource: process.env.PAPER_PRICE_FIXTURE
+        ? new PriceService({ providers: [FixturePriceSource.fromFile(process.env.PAPER_PRICE_FIXTURE)], logger: this.logger })
+        : priceSource,
+      logger: this.logger,
+      defaultMode: process.env.TRADING_MODE === 'paper' ? 'paper' : 'live',
+      startingBalances: parseStartingBalances(process.env.PAPER_STARTING_BALANCES),
+    });
+    // Same limits as live trading, but paper trades count towards their own daily total
+    this.paperPolicy = new SpendingPolicy({ config, priceSource, logger: this.logger });
+    this.pendingTransactions = dependencies.pendingTransactions || new PendingTransactionStore({ logger: this.logger });
+    this.transactionTracker = dependencies.transactionTracker || new TransactionTracker({ logger: this.logger });
+    this.transactionTracker.on('confirmed', (tracked: TrackedTransaction) => this.deliverTransactionEvent('confirmed', tracked));
+    this.transactionTracker.on('failed', (tracked: TrackedTransaction) => this.deliverTransactionEvent('failed', tracked));
+    this.transactionTracker.on('timeout', (tracked: TrackedTransaction) => this.deliverTransactionEvent('timeout', tracked));
+    this.tradeLedger = dependencies.tradeLedger || new TradeLedger({
+      store: createTradeHistoryStore(),
+      logger: this.logger,
+      tracker: this.transactionTracker,
+    });
+    this.approvals = new ApprovalManager({
+      registry: dependencies.approvalRegistry || new SqliteApprovalRegistry(),
+      logger: this.logger,
+      logLookbackBlocks: Number(process.env.APPROVAL_LOG_LOOKBACK_BLOCKS) || undefined,
+    });
+    const simulator = dependencies.simulator === undefined
+      ? createTransactionSimulator(priceSource, this.logger)
+      : dependencies.simulator || undefined;
+    for (const network of this.supportedNetworks) {
+      const isDefault = network.id === this.defaultNetwork.id;
+      const networkSimulator = isDefault ? simulator : simulator && createTransactionSimulator(priceSource, this.logger, network);
+      if (networkSimulator) {
+        this.simulators.set(network.id, networkSimulator);
+      }
+      this.swapAggregators.set(network.id, (isDefault && dependencies.swapAggregator) || createSwapAggregator({
+        priceSource,
+        logger: this.logger,
+        network,
+        // The paper-only swap tool cannot trade, so it is no quote source
+        tradeTool: () => this.liveTradingAvailable ? this.networks.get(network.id)?.tools.get(SWAP_ACTION) : undefined,
+        wallet: () => this.liveTradingAvailable ? this.networks.get(network.id)?.walletProvider : undefined,
+        onApproval: approval => {
+          this.approvals.record({ ...approval, network: network.id, owner: this.walletAddress! }).catch(error => {
+            this.logger.warn('Could not record token approval', { error, ...approval });
+          });
+        },
+      }));
+    }
+    this.dcaScheduler = new DcaScheduler({
+      store: dependencies.dcaPlans || new SqliteDcaPlanStore(),
+      logger: this.logger,
+      executeFill: plan => this.executeDcaFill(plan),
+      pollIntervalMs: Number(process.env.DCA_POLL_INTERVAL_MS) || 60000,
+    });
+    this.dcaScheduler.on('filled', (event: DcaFillEvent) => this.deliverDcaEvent('filled', event));
+    this.dcaScheduler.on('failed', (event: DcaFillEvent) => this.deliverDcaEvent('failed', event));
+    this.dcaScheduler.on('paused', (event: DcaFillEvent) => this.deliverDcaEvent('paused', event));
+    this.orders = new ConditionalOrderEngine({
+      store: dependencies.conditionalOrders || new SqliteConditionalOrderStore(),
+      priceSource,
+      logger: this.logger,
+      executeOrder: (order, price) => this.executeConditionalOrder(order, price),
+      pollIntervalMs: Number(process.env.ORDER_POLL_INTERVAL_MS) || 30000,
+    });
+    this.orders.on('filled', (event: OrderEvent) => this.deliverOrderEvent('filled', event));
+    this.orders.on('failed', (event: OrderEvent) => this.deliverOrderEvent('failed', event));
+    this.tokenScanner = dependencies.tokenScanner || new TokenScanner({ logger: this.logger });
+    this.rebalancer = new Rebalancer({
+      store: dependencies.allocationProfiles || new SqliteAllocationProfileStore(),
+      logger: this.logger,
+      checkProfile: profile => this.checkAllocation(profile),
+      pollIntervalMs: Number(process.env.REBALANCE_POLL_INTERVAL_MS) || 60000,
+    });
+    this.candleStore = dependencies.candleStore || new SqliteCandleStore();
+    this.candles = new CandleCollector({
+      store: this.candleStore,
+      priceSource,
+      logger: this.logger,
+      tokens: (process.env.CANDLE_TOKENS || 'ETH,BTC').split(',').map(token => token.trim()).filter(Boolean),
+      intervals: parseCandleIntervals(process.env.CANDLE_INTERVALS),
+      pollIntervalMs: Number(process.env.CANDLE_POLL_INTERVAL_MS) || 60000,
+    });
   }
 
   /**
@@ -65,51 +310,27 @@ export class TradingAgent extends BaseAgent {
         temperature: 0.1,
       });
 
-      // Configure CDP V2 EVM Wallet Provider with real credentials
-      const cdpWalletConfig = {
-        apiKeyId: process.env.CDP_API_KEY_ID!,
-        apiKeySecret: process.env.CDP_API_KEY_SECRET!,
-        walletSecret: process.env.CDP_WALLET_SECRET!,
-        idempotencyKey: process.env.IDEMPOTENCY_KEY,
-        address: process.env.ADDRESS as `0x${string}` | undefined,
-        networkId: process.env.NETWORK_ID!,
-      };
+      // Without CDP credentials a paper-mode deployment runs entirely on a simulated wallet
+      const paperOnly = this.paperAccounts.defaultMode === 'paper' && !process.env.CDP_API_KEY_ID;
+      this.liveTradingAvailable = !paperOnly;
 
-      this.walletProvider = await CdpV2EvmWalletProvider.configureWithWallet(cdpWalletConfig);
-      this.walletAddress = this.walletProvider.getAddress();
-
-      // Initialize AgentKit with comprehensive action providers
-      this.agentKit = await AgentKit.from({
-        walletProvider: this.walletProvider,
-        actionProviders: [
-          wethActionProvider(),
-          pythActionProvider(),
-          walletActionProvider(),
-          erc20ActionProvider(),
-          erc721ActionProvider(),
-          cdpApiActionProvider({
-            apiKeyId: process.env.CDP_API_KEY_ID!,
-            apiKeySecret: process.env.CDP_API_KEY_SECRET!,
-          }),
-          cdpWalletActionProvider({
-            apiKeyId: process.env.CDP_API_KEY_ID!,
-            apiKeySecret: process.env.CDP_API_KEY_SECRET!,
-          }),
-          ...(process.env.OPENSEA_API_KEY
-            ? [
-                openseaActionProvider({
-                  apiKey: process.env.OPENSEA_API_KEY,
-                  networkId: process.env.NETWORK_ID!,
-                  privateKey: process.env.WALLET_PRIVATE_KEY!,
-                }),
-              ]
-            : []),
-          alloraActionProvider(),
-        ],
-      });
+      // One wallet and AgentKit instance per supported network; only the default network is required
+      for (const network of paperOnly ? [this.defaultNetwork] : this.supportedNetworks) {
+        try {
+          const wallet = await this.connectNetwork(network, paperOnly);
+          this.networks.set(network.id, wallet);
+          this.walletAddress = this.walletAddress || wallet.walletProvider.getAddress();
+        } catch (error) {
+          if (network.id === this.defaultNetwork.id) {
+            throw error;
+          }
+          this.logger.warn('Could not connect to network, it will be unavailable', { error, network: network.id });
+        }
+      }
 
-      // Get AgentKit tools for LangChain integration
-      const agentKitTools = await getLangChainTools(this.agentKit);
+      // AgentKit tools for LangChain integration, with value-moving actions behind policy and confirmation
+      const agentKitTools = Array.from(this.networks.get(this.defaultNetwork.id)!.tools.values())
+        .map(tool => this.routeAgentKitTool(tool));
       
       // Add custom tools
       this.initializeTools();
@@ -126,6 +347,19 @@ export class TradingAgent extends BaseAgent {
         messageModifier: this.getSystemPrompt(),
       });
 
+      await this.restoreDailySpend();
+
+      this.priceAlerts.start();
+      if (!paperOnly) {
+        this.portfolios.track(this.walletAddress!);
+        this.portfolios.start();
+      }
+      this.dcaScheduler.start();
+      this.orders.start();
+      this.rebalancer.start();
+      this.candles.start();
+      this.transactionTracker.start();
+
       await super.initialize();
       this.logger.info('TradingAgent initialized with createReactAgent and real blockchain capabilities');
     } catch (error) {
@@ -134,101 +368,1762 @@ export class TradingAgent extends BaseAgent {
     }
   }
 
+  /**
+   * Configure the CDP wallet and AgentKit on one network. CDP accounts share their address
+   * across EVM networks, so every network after the first reuses the same account.
+   */
+  private async connectNetwork(network: NetworkInfo, paperOnly: boolean): Promise<NetworkWallet> {
+    // Paper-only deployments have a single simulated wallet
+    const walletProvider: EvmWalletProvider = paperOnly
+      ? this.paperAccounts.getWallet(this.config.name)
+      : await CdpV2EvmWalletProvider.configureWithWallet({
+          apiKeyId: process.env.CDP_API_KEY_ID!,
+          apiKeySecret: process.env.CDP_API_KEY_SECRET!,
+          walletSecret: process.env.CDP_WALLET_SECRET!,
+          idempotencyKey: process.env.IDEMPOTENCY_KEY,
+          address: (this.walletAddress || process.env.ADDRESS) as `0x${string}` | undefined,
+          networkId: network.id,
+        });
+
+    // Initialize AgentKit with comprehensive action providers
+    const agentKit = await AgentKit.from({
+      walletProvider,
+      actionProviders: [
+        wethActionProvider(),
+        pythActionProvider(),
+        walletActionProvider(),
+        erc20ActionProvider(),
+        erc721ActionProvider(),
+        ...(paperOnly
+          ? []
+          : [
+              cdpApiActionProvider({
+                apiKeyId: process.env.CDP_API_KEY_ID!,
+                apiKeySecret: process.env.CDP_API_KEY_SECRET!,
+              }),
+              cdpWalletActionProvider({
+                apiKeyId: process.env.CDP_API_KEY_ID!,
+                apiKeySecret: process.env.CDP_API_KEY_SECRET!,
+              }),
+            ]),
+        ...(process.env.OPENSEA_API_KEY
+          ? [
+              openseaActionProvider({
+                apiKey: process.env.OPENSEA_API_KEY,
+                networkId: network.id,
+                privateKey: process.env.WALLET_PRIVATE_KEY!,
+              }),
+            ]
+          : []),
+        alloraActionProvider(),
+      ],
+    });
+
+    const tools: StructuredTool[] = await getLangChainTools(agentKit);
+    if (paperOnly) {
+      tools.push(createPaperSwapTool());
+    }
+    return { network, walletProvider, agentKit, tools: new Map(tools.map(tool => [tool.name, tool])) };
+  }
+
   protected initializeTools(): void {
     this.tools.push(
       new DynamicStructuredTool({
         name: 'get_wallet_balance',
-        description: 'Get real wallet balance from the blockchain',
+        description: 'Get the agent wallet\'s native balance on every connected network (or one), or every token held on the paper account in paper mode',
         schema: z.object({
           address: z.string().optional(),
+          network: this.networkArgument('Only this network, defaults to all of them'),
         }),
-        func: async ({ address }) => {
+        func: async ({ address, network }, _runManager, config) => {
           try {
-            if (!this.walletProvider) {
+            const { userId } = this.getToolContext(config);
+            if (!address && this.paperAccounts.isPaper(userId)) {
+              const wallet = this.paperAccounts.getWallet(userId);
+              const balances = Object.entries(wallet.getBalances());
+              return `Paper wallet balance for ${wallet.getAddress()} (simulated):\n${
+                balances.map(([symbol, amount]) => `• ${symbol}: ${amount}`).join('\n') || 'No holdings'
+              }`;
+            }
+            if (this.networks.size === 0) {
               throw new Error('Wallet provider not initialized');
             }
-            const balance = await this.walletProvider.getBalance();
-            const walletAddr = address || this.walletProvider.getAddress();
-            const balanceEth = Number(balance) / 1e18;
-            return `Wallet Balance for ${walletAddr}: ${balanceEth} ETH/BASE`;
+            const wallets = network
+              ? [this.networks.get(this.networkFor(userId, network).id)!]
+              : Array.from(this.networks.values());
+            const lines = await Promise.all(wallets.map(async wallet => {
+              try {
+                const balance = await wallet.walletProvider.getBalance();
+                return `• ${wallet.network.id}: ${Number(balance) / 1e18} ${wallet.network.nativeSymbol}`;
+              } catch (error) {
+                this.logger.warn('Error getting wallet balance on network', { error, network: wallet.network.id });
+                return `• ${wallet.network.id}: unavailable`;
+              }
+            }));
+            return `Wallet Balance for ${address || this.walletAddress}:\n${lines.join('\n')}`;
+          } catch (error) {
+            this.logger.error('Error getting wallet balance', { error });
+            return `Error getting wallet balance: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'get_portfolio',
+        description: 'Get a priced portfolio (native ETH and ERC-20 holdings across every supported network) with daily/weekly/monthly change, total return and volatility',
+        schema: z.object({
+          address: z.string().optional().describe('Wallet address, defaults to the agent wallet'),
+        }),
+        func: async ({ address }) => {
+          try {
+            const portfolio = await this.getPortfolio(address);
+            const { performance } = portfolio;
+            const fmt = (n: number) => `${n >= 0 ? '+' : ''}${n.toFixed(2)}%`;
+
+            const multiNetwork = (portfolio.networks?.length ?? 0) > 1;
+
+            return `Portfolio for ${portfolio.address}${portfolio.networks ? ` on ${portfolio.networks.join(', ')}` : ''}
+Total value: $${portfolio.totalValue.toFixed(2)}
+
+${portfolio.tokens.map(token =>
+  token.verified === false
+    ? `• ${token.symbol} (unverified ${token.address}${multiNetwork && token.network ? ` on ${token.network}` : ''}): ${token.balance.toFixed(6)}, not priced`
+    : `• ${token.symbol}${multiNetwork && token.network ? ` (${token.network})` : ''}: ${token.balance.toFixed(6)} @ $${token.price} = $${token.value.toFixed(2)} (${fmt(token.change24h)} 24h)`
+).join('\n') || 'No holdings found'}
+
+Performance: 24h ${fmt(performance.dailyChange)} | 7d ${fmt(performance.weeklyChange)} | 30d ${fmt(performance.monthlyChange)}
+Total return: ${fmt(performance.totalReturn)} | Volatility (annualized): ${performance.volatility.toFixed(2)}%`;
+          } catch (error) {
+            this.logger.error('Error getting portfolio', { error, address });
+            return `Error getting portfolio: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'get_pnl',
+        description: 'Profit and loss of the user\'s trades: realized PnL from sales and unrealized PnL of what is still held, per token, e.g. "am I up on my ETH?"',
+        schema: z.object({
+          token: z.string().optional().describe('Only this token, e.g. ETH'),
+          method: z.enum(['fifo', 'lifo', 'average']).optional().describe('Cost basis method, defaults to the configured one'),
+        }),
+        func: async ({ token, method }, _runManager, config) => {
+          try {
+            const { userId } = this.getToolContext(config);
+            const report = await this.getPnlReport({ userId, token, method }, this.ledgerFor(userId));
+            if (report.tokens.length === 0) {
+              return token
+                ? `No trades in ${token.toUpperCase()} with a known cost basis yet.`
+                : 'No trades with a known cost basis yet.';
+            }
+
+            const usd = (n: number) => `${n < 0 ? '-' : '+'}$${Math.abs(n).toFixed(2)}`;
+            const lines = report.tokens.map(pnl => {
+              const held = pnl.amount > 0
+                ? `holding ${pnl.amount.toFixed(6)} at avg $${pnl.averageCostUsd.toFixed(2)} (cost $${pnl.costBasisUsd.toFixed(2)})${
+                    pnl.unrealizedPnlUsd !== undefined ? `, now $${pnl.marketValueUsd!.toFixed(2)} → unrealized ${usd(pnl.unrealizedPnlUsd)}` : ', unpriced'
+                  }`
+                : 'no open position';
+              const unmatched = pnl.unmatchedAmount > 0 ? ` (${pnl.unmatchedAmount.toFixed(6)} sold without a known cost, excluded)` : '';
+              return `• ${pnl.token}: ${held} | realized ${usd(pnl.realizedPnlUsd)}${unmatched}`;
+            });
+
+            return `PnL (${report.method.toUpperCase()} cost basis)
+${lines.join('\n')}
+
+Total: realized ${usd(report.totalRealizedPnlUsd)} | unrealized ${usd(report.totalUnrealizedPnlUsd)} | return ${report.totalReturn >= 0 ? '+' : ''}${report.totalReturn.toFixed(2)}%${
+  report.skippedTrades.length > 0 ? `\n${report.skippedTrades.length} trade(s) could not be valued and were left out.` : ''
+}
+Stablecoins count as cash and carry no PnL.`;
+          } catch (error) {
+            this.logger.error('Error computing PnL', { error, token });
+            return `Error computing PnL: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'export_tax_report',
+        description: 'Summarize the taxable disposals of a year or date range (proceeds, cost basis, short- and long-term gains) and point to the CSV download in Form 8949 or Koinly format',
+        schema: z.object({
+          year: z.number().int().optional().describe('Calendar year, e.g. 2025'),
+          from: z.string().optional().describe('ISO date to start from, instead of a year'),
+          to: z.string().optional().describe('ISO date to end before, instead of a year'),
+          format: z.enum(['8949', 'koinly']).optional().default('8949'),
+          method: z.enum(['fifo', 'lifo', 'average']).optional().describe('Cost basis method, defaults to the configured one'),
+        }),
+        func: async ({ year, from, to, format, method }, _runManager, config) => {
+          try {
+            const { userId } = this.getToolContext(config);
+            const range = year !== undefined
+              ? taxYearRange(year)
+              : { from: from ? new Date(from) : taxYearRange(new Date().getUTCFullYear()).from, to: to ? new Date(to) : new Date() };
+            if (Number.isNaN(range.from.getTime()) || Number.isNaN(range.to.getTime()) || range.from >= range.to) {
+              return 'Invalid date range for the tax report.';
+            }
+
+            const { summary, filename } = await this.getTaxReport({ ...range, format, method, userId }, this.ledgerFor(userId));
+            const usd = (n: number) => `${n < 0 ? '-' : ''}$${Math.abs(n).toFixed(2)}`;
+            const download = this.paperAccounts.isPaper(userId)
+              ? 'Paper trades are not taxable and have no download.'
+              : `Download: /api/tax-report?userId=${encodeURIComponent(userId)}&from=${summary.from.toISOString()}&to=${summary.to.toISOString()}&format=${format}&method=${summary.method} (${filename})`;
+
+            return `Tax report ${summary.from.toISOString().slice(0, 10)} → ${summary.to.toISOString().slice(0, 10)} (${summary.method.toUpperCase()})
+Disposals: ${summary.disposals}
+Proceeds: ${usd(summary.proceedsUsd)} | Cost basis: ${usd(summary.costBasisUsd)} | Net gain: ${usd(summary.gainUsd)}
+Short-term: ${usd(summary.shortTermGainUsd)} | Long-term: ${usd(summary.longTermGainUsd)}${
+  summary.unmatchedDisposals.length > 0
+    ? `\n⚠️ ${summary.unmatchedDisposals.length} disposal(s) include amounts with no recorded purchase and are left out: ${
+        summary.unmatchedDisposals.map(d => `${d.amount} ${d.token}`).join(', ')}`
+    : ''
+}${summary.skippedTrades.length > 0 ? `\n⚠️ ${summary.skippedTrades.length} trade(s) could not be valued and are left out.` : ''}
+Stablecoins count as cash and are not reported as disposals.
+${download}
+
+This is a record of the agent's trades, not tax advice.`;
+          } catch (error) {
+            this.logger.error('Error building tax report', { error, year });
+            return `Error building tax report: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'get_transaction_history',
+        description: 'Get the swaps and transfers executed for the user, optionally filtered by token and date range',
+        schema: z.object({
+          token: z.string().optional().describe('Token symbol on either side of the trade, e.g. ETH'),
+          from: z.string().optional().describe('ISO date to start from'),
+          to: z.string().optional().describe('ISO date to end at'),
+          limit: z.number().optional().default(10),
+        }),
+        func: async ({ token, from, to, limit }, _runManager, config) => {
+          try {
+            const { userId } = this.getToolContext(config);
+            const trades = await this.ledgerFor(userId).query({
+              userId,
+              token,
+              from: from ? new Date(from) : undefined,
+              to: to ? new Date(to) : undefined,
+              limit,
+            });
+
+            if (trades.length === 0) {
+              return 'No recorded transactions match that query.';
+            }
+
+            const formatted = trades.map(trade => {
+              const pair = trade.toToken ? `${trade.fromToken} → ${trade.toToken}` : `${trade.fromToken} → ${trade.recipient}`;
+              const received = trade.executedAmountOut ?? trade.quotedAmountOut;
+              return `${trade.createdAt.toLocaleString()} ${trade.kind.toUpperCase()} ${trade.amountIn} ${pair}`
+                + `${trade.toToken && received !== undefined ? ` (received ${received}${trade.executedAmountOut === undefined ? ' quoted' : ''})` : ''}`
+                + `\nStatus: ${trade.status}${trade.error ? ` - ${trade.error}` : ''}`
+                + `${trade.txHash ? `\nHash: ${trade.txHash}` : ''}${trade.gasUsed ? `\nGas used: ${trade.gasUsed}` : ''}`;
+            }).join('\n\n');
+            return `Last ${trades.length} ${this.paperAccounts.isPaper(userId) ? 'paper ' : ''}transactions:\n\n${formatted}`;
+          } catch (error) {
+            this.logger.error('Error getting transaction history', { error });
+            return `Error getting transaction history: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'analyze_real_market_data',
+        description: 'Analyze real market data from multiple sources',
+        schema: z.object({
+          tokens: z.array(z.string()).describe('Token symbols or contract addresses'),
+        }),
+        func: async ({ tokens }) => {
+          try {
+            const quotes = await this.priceService.getQuotes(tokens);
+            const analyses = tokens.map((token: string) => {
+              const quote = quotes[token.toUpperCase()];
+              if (!quote) {
+                return `${token}: No data available`;
+              }
+
+              const change = quote.change24h !== undefined ? ` (${quote.change24h.toFixed(2)}% 24h)` : '';
+              const stale = quote.stale ? ` - STALE, last updated ${quote.updatedAt.toISOString()}` : '';
+              return `${quote.symbol}: $${quote.price}${change} via ${quote.source}${stale}`;
+            });
+
+            return `Market Analysis:\n${analyses.join('\n')}`;
+          } catch (error) {
+            this.logger.error('Error analyzing market data', { error });
+            return `Error analyzing market data: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'compare_swap_quotes',
+        description: 'Compare swap quotes from every configured route (CDP trade API, 0x, ...) for a pair and amount, ranked by output net of gas',
+        schema: z.object({
+          fromToken: z.string().describe('Token sold, e.g. ETH'),
+          toToken: z.string().describe('Token bought, e.g. USDC'),
+          amount: z.number().positive().describe('Amount of fromToken to sell'),
+          slippage: z.number().positive().optional().describe('Maximum slippage in percent'),
+          network: this.networkArgument(),
+        }),
+        func: async ({ fromToken, toToken, amount, slippage, network }, _runManager, config) => {
+          try {
+            const { userId } = this.getToolContext(config);
+            const request = this.buildTradeRequest(fromToken, toToken, amount, slippage ?? this.spendingPolicy.getSlippageCeiling());
+            const comparison = await this.aggregatorFor(this.networkFor(userId, network)).getQuotes(request);
+            if (!comparison.best) {
+              return `No quote source has a route for ${request.fromToken} → ${request.toToken}.${
+                comparison.failures.map(f => `\n• ${f.source}: ${f.error}`).join('')
+              }`;
+            }
+
+            return `${formatQuoteTable(comparison, request)}
+Best route: ${comparison.best.source}, ${describeMinimumOut(comparison.best, request.slippage)} at ${request.slippage}% slippage`;
+          } catch (error) {
+            this.logger.error('Error comparing swap quotes', { error, fromToken, toToken });
+            return `Error comparing swap quotes: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'swap_best_route',
+        description: 'Swap tokens through whichever route returns the most after gas, within the user\'s slippage and deadline. Prefer this over the raw trade action. The swap executes once the user confirms it.',
+        schema: z.object({
+          fromToken: z.string().describe('Token sold, e.g. ETH, or its contract address'),
+          toToken: z.string().describe('Token bought, e.g. USDC, or its contract address'),
+          amount: z.number().positive().describe('Amount of fromToken to sell'),
+          slippage: z.number().positive().optional().describe('Maximum slippage in percent'),
+          deadlineMinutes: z.number().positive().optional().describe('Minutes from now after which the swap must not execute'),
+          network: this.networkArgument(),
+        }),
+        func: async ({ fromToken, toToken, amount, slippage, deadlineMinutes, network: networkName }, _runManager, config) => {
+          try {
+            const { userId, conversationId } = this.getToolContext(config);
+            const network = this.networkFor(userId, networkName);
+            const maxSlippage = slippage ?? this.spendingPolicy.getSlippageCeiling();
+            const request = this.buildTradeRequest(fromToken, toToken, amount, maxSlippage,
+              deadlineMinutes !== undefined ? Math.floor(Date.now() / 1000 + deadlineMinutes * 60) : undefined);
+            const { intent } = this.buildSwap(userId, fromToken, toToken, amount, maxSlippage, network);
+
+            const tokenScan = await this.scanSwapTarget(toToken, network);
+            if (tokenScan?.riskLevel === 'high') {
+              return this.tokenRiskRefusal(tokenScan);
+            }
+
+            const decision = await this.policyFor(userId).evaluate(intent);
+            if (decision.outcome === 'reject') {
+              return JSON.stringify({
+                status: 'rejected',
+                executed: false,
+                action: intent.action,
+                usdValue: decision.usdValue,
+                violations: decision.violations,
+              });
+            }
+
+            // Paper swaps settle on the paper wallet at the paper price, so there is no route to pick
+            const comparison = this.paperAccounts.isPaper(userId) ? undefined : await this.aggregatorFor(network).getQuotes(request);
+            const best = comparison?.best;
+            if (comparison && !best) {
+              return JSON.stringify({
+                status: 'no_route',
+                executed: false,
+                failures: comparison.failures,
+                instructions: 'Tell the user no route is available for this swap right now.',
+              });
+            }
+
+            const quotedAmountOut = best?.amountOut ?? await this.quoteAmountOut(intent);
+            const simulation = await this.simulate(intent, quotedAmountOut);
+            if (simulation && !simulation.success) {
+              return JSON.stringify({
+                status: 'simulation_failed',
+                executed: false,
+                action: intent.action,
+                reason: simulation.revertReason,
+                instructions: 'Tell the user the transaction would fail and why; do not retry it unchanged.',
+              });
+            }
+
+            const route = best
+              ? ` via ${best.source}${best.route ? ` (${best.route})` : ''}, ${describeMinimumOut(best, maxSlippage)}`
+              : '';
+            const proposal = this.pendingTransactions.propose({
+              agentName: this.config.name,
+              userId,
+              conversationId,
+              action: 'swap_best_route',
+              summary: `${describeTransactionIntent(intent, decision.usdValue)}${this.describeNetwork(network)}${route}, max slippage ${maxSlippage}%, deadline ${new Date(request.deadline * 1000).toUTCString()}`,
+              metadata: { intent, usdValue: decision.usdValue, quotedAmountOut, quote: best, request, escalations: decision.violations, simulation, tokenScan },
+              execute: async () => {
+                const { result } = await this.executeRoutedSwap(userId, conversationId, request, best, network);
+                return result;
+              },
+            });
+
+            return this.awaitingConfirmation(proposal, decision.violations, 'execute', simulation,
+              comparison ? formatQuoteTable(comparison, request) : undefined);
+          } catch (error) {
+            this.logger.error('Error proposing swap', { error, fromToken, toToken });
+            return `Error proposing swap: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'list_token_approvals',
+        description: 'List the ERC-20 approvals the agent wallet has outstanding (spenders allowed to move its tokens), flagging unlimited ones',
+        schema: z.object({
+          network: this.networkArgument(),
+        }),
+        func: async ({ network: networkName }, _runManager, config) => {
+          try {
+            const { userId } = this.getToolContext(config);
+            if (this.paperAccounts.isPaper(userId) || !this.liveTradingAvailable) {
+              return 'Paper wallets settle off-chain and have no token approvals.';
+            }
+
+            const network = this.networkFor(userId, networkName);
+            const approvals = await this.approvals.list(this.walletAddress!, network);
+            const unlimited = approvals.filter(approval => approval.unlimited).length;
+            return `Token approvals of ${this.walletAddress} on ${network.id}:\n${describeApprovals(approvals)}${
+              unlimited > 0 ? `\n\n${unlimited} unlimited approval${unlimited === 1 ? '' : 's'}: the spender can move the whole balance of that token. Revoke any that are no longer needed with revoke_token_approval.` : ''
+            }`;
+          } catch (error) {
+            this.logger.error('Error listing token approvals', { error });
+            return `Error listing token approvals: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'revoke_token_approval',
+        description: 'Revoke an ERC-20 approval of the agent wallet by setting the spender\'s allowance to zero. Executes once the user confirms it.',
+        schema: z.object({
+          token: z.string().describe('Token symbol or contract address'),
+          spender: z.string().describe('Address of the approved spender'),
+          network: this.networkArgument(),
+        }),
+        func: async ({ token, spender, network: networkName }, _runManager, config) => {
+          try {
+            const { userId, conversationId } = this.getToolContext(config);
+            if (this.paperAccounts.isPaper(userId) || !this.liveTradingAvailable) {
+              return 'Paper wallets settle off-chain and have no token approvals.';
+            }
+
+            const network = this.networkFor(userId, networkName);
+            const approval = (await this.approvals.list(this.walletAddress!, network)).find(candidate =>
+              candidate.spender.toLowerCase() === spender.toLowerCase() &&
+              (candidate.token.toLowerCase() === token.toLowerCase() || candidate.symbol?.toLowerCase() === token.toLowerCase())
+            );
+            if (!approval) {
+              return `The wallet has no outstanding ${token} approval for ${spender} on ${network.id}.`;
+            }
+
+            const label = approval.symbol || approval.token;
+            const proposal = this.pendingTransactions.propose({
+              agentName: this.config.name,
+              userId,
+              conversationId,
+              action: 'revoke_approval',
+              summary: `Revoke the ${approval.unlimited ? 'unlimited ' : ''}${label} approval of ${approval.spender} on ${network.id}`,
+              metadata: { approval },
+              execute: async () => {
+                const wallet = this.networks.get(network.id)!.walletProvider;
+                const hash = await wallet.sendTransaction({ to: approval.token as `0x${string}`, data: revokeApprovalData(approval.spender) });
+                this.transactionTracker.track({
+                  hash,
+                  network: network.id,
+                  agentName: this.config.name,
+                  userId,
+                  conversationId,
+                  description: `revoke ${label} approval of ${approval.spender}`,
+                });
+                return `Revocation submitted. Transaction hash: ${hash}`;
+              },
+            });
+
+            return this.awaitingConfirmation(proposal, [], 'revoke it');
+          } catch (error) {
+            this.logger.error('Error proposing approval revocation', { error, token, spender });
+            return `Error revoking token approval: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'create_price_alert',
+        description: 'Create a price alert that notifies this conversation when a token crosses a USD price. Use mode "rearm" for alerts that should fire again after price crosses back.',
+        schema: z.object({
+          tokenSymbol: z.string().describe('Token ticker, e.g. ETH'),
+          condition: z.enum(['above', 'below']),
+          targetPrice: z.number().positive().describe('Target price in USD'),
+          mode: z.enum(['once', 'rearm']).optional().default('once'),
+        }),
+        func: async ({ tokenSymbol, condition, targetPrice, mode }, _runManager, config) => {
+          try {
+            const { userId, conversationId } = this.getToolContext(config);
+            const alert = await this.priceAlerts.createAlert({
+              tokenSymbol,
+              condition,
+              targetPrice,
+              mode,
+              createdBy: userId,
+              conversationId,
+            });
+
+            const muted = !(await this.getUserPreferences(userId)).notifications.priceAlerts;
+            return `Price alert created: ${alert.id}
+${alert.tokenSymbol} ${alert.condition} $${alert.targetPrice} (${alert.mode === 'once' ? 'one-shot' : 're-arming'})${muted ? '\nNote: price alert notifications are disabled in your preferences, so this alert will not message you until you re-enable them.' : ''}`;
+          } catch (error) {
+            this.logger.error('Error creating price alert', { error, tokenSymbol });
+            return `Error creating price alert: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'list_price_alerts',
+        description: 'List the price alerts of the current user',
+        schema: z.object({
+          includeInactive: z.boolean().optional().default(false),
+        }),
+        func: async ({ includeInactive }, _runManager, config) => {
+          const { userId } = this.getToolContext(config);
+          const alerts = await this.priceAlerts.listAlerts(userId, includeInactive);
+          if (alerts.length === 0) {
+            return 'You have no price alerts.';
+          }
+
+          return `Price alerts:\n${alerts.map(alert =>
+            `• ${alert.id}: ${alert.tokenSymbol} ${alert.condition} $${alert.targetPrice} [${alert.mode}${alert.isActive ? '' : ', inactive'}] triggered ${alert.triggerCount}x`
+          ).join('\n')}`;
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'cancel_price_alert',
+        description: 'Cancel one of the current user\'s price alerts by id',
+        schema: z.object({
+          alertId: z.string(),
+        }),
+        func: async ({ alertId }, _runManager, config) => {
+          const { userId } = this.getToolContext(config);
+          return (await this.priceAlerts.cancelAlert(alertId, userId))
+            ? `Price alert ${alertId} cancelled.`
+            : `No active price alert ${alertId} found for you.`;
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'set_price_alert_notifications',
+        description: 'Turn price alert notifications on or off for the sender. Their alerts keep being evaluated while muted.',
+        schema: z.object({
+          enabled: z.boolean(),
+        }),
+        func: async ({ enabled }, _runManager, config) => {
+          try {
+            const { userId } = this.getToolContext(config);
+            const preferences = await this.getUserPreferences(userId);
+            await this.userPreferences.save(userId, {
+              ...preferences,
+              notifications: { ...preferences.notifications, priceAlerts: enabled },
+            });
+
+            return `Price alert notifications ${enabled ? 'on' : 'off'}.`;
+          } catch (error) {
+            this.logger.error('Error saving price alert preferences', { error });
+            return `Error saving price alert preferences: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'create_dca_plan',
+        description: 'Set up a recurring buy (dollar-cost averaging), e.g. "buy $20 of ETH every Monday" is fromToken USDC, toToken ETH, amount 20, cadence weekly, dayOfWeek 1. The plan starts once the user confirms it.',
+        schema: z.object({
+          fromToken: z.string().describe('Token spent on each buy, e.g. USDC'),
+          toToken: z.string().describe('Token bought, e.g. ETH'),
+          amount: z.number().positive().describe('Amount of fromToken spent on each buy'),
+          cadence: z.enum(['hourly', 'daily', 'weekly', 'monthly']),
+          dayOfWeek: z.number().int().min(0).max(6).optional().describe('0 = Sunday ... 6 = Saturday, weekly plans only'),
+          hourUtc: z.number().int().min(0).max(23).optional().describe('Hour of day (UTC) to buy at'),
+          maxSlippage: z.number().positive().optional().describe('Maximum slippage in percent'),
+        }),
+        func: async (params, _runManager, config) => {
+          try {
+            const { userId, conversationId } = this.getToolContext(config);
+            const maxSlippage = params.maxSlippage ?? this.spendingPolicy.getSlippageCeiling();
+            const { intent } = this.buildSwap(userId, params.fromToken, params.toToken, params.amount, maxSlippage);
+
+            const tokenScan = await this.scanSwapTarget(params.toToken, this.defaultNetwork);
+            if (tokenScan?.riskLevel === 'high') {
+              return this.tokenRiskRefusal(tokenScan);
+            }
+
+            // Check a single fill up front so plans that could never execute are refused now
+            const decision = await this.policyFor(intent.userId).evaluate(intent);
+            if (decision.outcome === 'reject') {
+              return JSON.stringify({
+                status: 'rejected',
+                executed: false,
+                violations: decision.violations,
+              });
+            }
+
+            const schedule = params.cadence === 'weekly' && params.dayOfWeek !== undefined
+              ? `weekly on ${['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][params.dayOfWeek]}`
+              : params.cadence;
+            const proposal = this.pendingTransactions.propose({
+              agentName: this.config.name,
+              userId,
+              conversationId,
+              action: 'create_dca_plan',
+              summary: `DCA: ${describeTransactionIntent(intent, decision.usdValue)} ${schedule}${params.hourUtc !== undefined ? ` at ${params.hourUtc}:00 UTC` : ''}, max slippage ${maxSlippage}%`,
+              metadata: { intent, escalations: decision.violations, tokenScan },
+              execute: async () => {
+                const plan = await this.dcaScheduler.createPlan({ ...params, maxSlippage, userId, conversationId });
+                return `DCA plan ${plan.id} is active. First buy: ${plan.nextRunAt.toUTCString()}`;
+              },
+            });
+
+            return this.awaitingConfirmation(proposal, decision.violations, 'start the plan');
+          } catch (error) {
+            this.logger.error('Error creating DCA plan', { error, params });
+            return `Error creating DCA plan: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'list_dca_plans',
+        description: 'List the recurring buy (DCA) plans of the current user',
+        schema: z.object({
+          includeCancelled: z.boolean().optional().default(false),
+        }),
+        func: async ({ includeCancelled }, _runManager, config) => {
+          const { userId } = this.getToolContext(config);
+          const plans = await this.dcaScheduler.listPlans(userId, includeCancelled);
+          if (plans.length === 0) {
+            return 'You have no DCA plans.';
+          }
+
+          return `DCA plans:\n${plans.map(plan =>
+            `• ${plan.id}: ${plan.amount} ${plan.fromToken} → ${plan.toToken} ${plan.cadence} [${plan.status}] ${plan.fillCount} fills`
+            + `${plan.status === 'active' ? `, next ${plan.nextRunAt.toUTCString()}` : ''}`
+          ).join('\n')}`;
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'update_dca_plan_status',
+        description: 'Pause, resume or cancel one of the current user\'s DCA plans',
+        schema: z.object({
+          planId: z.string(),
+          action: z.enum(['pause', 'resume', 'cancel']),
+        }),
+        func: async ({ planId, action }, _runManager, config) => {
+          const { userId } = this.getToolContext(config);
+          const plan = action === 'pause'
+            ? await this.dcaScheduler.pausePlan(planId, userId)
+            : action === 'resume'
+              ? await this.dcaScheduler.resumePlan(planId, userId)
+              : await this.dcaScheduler.cancelPlan(planId, userId);
+
+          if (!plan) {
+            return `Could not ${action} DCA plan ${planId}: no such plan of yours in a state that allows it.`;
+          }
+          return `DCA plan ${plan.id} is now ${plan.status}.${plan.status === 'active' ? ` Next buy: ${plan.nextRunAt.toUTCString()}` : ''}`;
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'place_limit_order',
+        description: 'Place a limit order that swaps automatically once the token reaches a USD price: a buy fills at or below the limit, a sell at or above it. The order is placed once the user confirms it.',
+        schema: z.object({
+          side: z.enum(['buy', 'sell']),
+          token: z.string().describe('Token to buy or sell, e.g. ETH'),
+          amount: z.number().positive().describe('Amount of the token to buy or sell'),
+          limitPrice: z.number().positive().describe('USD price of the token'),
+          quoteToken: z.string().optional().default('USDC').describe('Token paid with or received'),
+          maxSlippage: z.number().positive().optional().describe('Maximum slippage in percent'),
+        }),
+        func: async ({ side, token, amount, limitPrice, quoteToken, maxSlippage }, _runManager, config) => {
+          try {
+            const { userId, conversationId } = this.getToolContext(config);
+            const slippage = maxSlippage ?? this.spendingPolicy.getSlippageCeiling();
+            const type: ConditionalOrder['type'] = side === 'buy' ? 'limit_buy' : 'limit_sell';
+
+            return await this.proposeOrders(userId, conversationId, token, quoteToken, amount, slippage, side,
+              `${ORDER_LABELS[type]} ${amount} ${token.toUpperCase()} at $${limitPrice}`,
+              async () => {
+                const order = await this.orders.placeOrder({
+                  userId, conversationId, type, token, quoteToken, amount, triggerPrice: limitPrice, maxSlippage: slippage,
+                });
+                return `${ORDER_LABELS[type]} ${order.id} placed: ${order.amount} ${order.token} at $${order.triggerPrice}`;
+              },
+              limitPrice);
+          } catch (error) {
+            this.logger.error('Error placing limit order', { error, token });
+            return `Error placing limit order: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'place_exit_orders',
+        description: 'Attach a stop-loss and/or take-profit to a position. With both prices the two orders form an OCO pair: when one fills the other is cancelled. The orders are placed once the user confirms them.',
+        schema: z.object({
+          token: z.string().describe('Token held, e.g. ETH'),
+          amount: z.number().positive().describe('Amount of the position to sell when triggered'),
+          stopLossPrice: z.number().positive().optional().describe('Sell if the USD price falls to this level'),
+          takeProfitPrice: z.number().positive().optional().describe('Sell if the USD price rises to this level'),
+          quoteToken: z.string().optional().default('USDC').describe('Token received when selling'),
+          maxSlippage: z.number().positive().optional().describe('Maximum slippage in percent'),
+        }),
+        func: async ({ token, amount, stopLossPrice, takeProfitPrice, quoteToken, maxSlippage }, _runManager, config) => {
+          try {
+            if (stopLossPrice === undefined && takeProfitPrice === undefined) {
+              return 'Provide a stop-loss price, a take-profit price, or both.';
+            }
+
+            const { userId, conversationId } = this.getToolContext(config);
+            const slippage = maxSlippage ?? this.spendingPolicy.getSlippageCeiling();
+            const base = { userId, conversationId, token, quoteToken, amount, maxSlippage: slippage };
+            const legs = [
+              stopLossPrice !== undefined ? `stop-loss at $${stopLossPrice}` : '',
+              takeProfitPrice !== undefined ? `take-profit at $${takeProfitPrice}` : '',
+            ].filter(Boolean).join(' / ');
+
+            return await this.proposeOrders(userId, conversationId, token, quoteToken, amount, slippage, 'sell',
+              `${stopLossPrice !== undefined && takeProfitPrice !== undefined ? 'OCO ' : ''}exit for ${amount} ${token.toUpperCase()}: ${legs}`,
+              async () => {
+                const placed = stopLossPrice !== undefined && takeProfitPrice !== undefined
+                  ? await this.orders.placeOcoPair(base, stopLossPrice, takeProfitPrice)
+                  : [await this.orders.placeOrder({
+                      ...base,
+                      type: stopLossPrice !== undefined ? 'stop_loss' : 'take_profit',
+                      triggerPrice: (stopLossPrice ?? takeProfitPrice)!,
+                    })];
+                return `Placed ${placed.map(order => `${ORDER_LABELS[order.type]} ${order.id} at $${order.triggerPrice}`).join(', ')}`;
+              });
+          } catch (error) {
+            this.logger.error('Error placing exit orders', { error, token });
+            return `Error placing exit orders: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'list_orders',
+        description: 'List the limit, stop-loss and take-profit orders of the current user',
+        schema: z.object({
+          includeClosed: z.boolean().optional().default(false),
+        }),
+        func: async ({ includeClosed }, _runManager, config) => {
+          const { userId } = this.getToolContext(config);
+          const orders = await this.orders.listOrders(userId, includeClosed);
+          if (orders.length === 0) {
+            return 'You have no open orders.';
+          }
+
+          return `Orders:\n${orders.map(order =>
+            `• ${order.id}: ${ORDER_LABELS[order.type]} ${order.amount} ${order.token} at $${order.triggerPrice} [${order.status}]`
+            + `${order.ocoGroupId ? ` (OCO ${order.ocoGroupId})` : ''}${order.error ? ` - ${order.error}` : ''}`
+          ).join('\n')}`;
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'cancel_order',
+        description: 'Cancel one of the current user\'s open orders by id',
+        schema: z.object({
+          orderId: z.string(),
+        }),
+        func: async ({ orderId }, _runManager, config) => {
+          const { userId } = this.getToolContext(config);
+          return await this.orders.cancelOrder(orderId, userId)
+            ? `Order ${orderId} cancelled.`
+            : `No open order ${orderId} found for you.`;
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'set_target_allocation',
+        description: 'Set the current user\'s target allocation, e.g. "keep me 60% ETH / 40% USDC". Replaces any previous target. With a cadence, drift is checked on schedule and a rebalance is proposed when it leaves the tolerance band.',
+        schema: z.object({
+          targets: z.array(z.object({
+            token: z.string().describe('Token ticker, e.g. ETH'),
+            percent: z.number().positive().describe('Target share of the portfolio in percent'),
+          })).min(2).describe('Target shares, adding up to 100'),
+          tolerance: z.number().positive().max(50).optional().describe('Allowed drift in percentage points before rebalancing, default 5'),
+          maxSlippage: z.number().positive().optional().describe('Maximum slippage in percent for the rebalance swaps'),
+          cadence: z.enum(['hourly', 'daily', 'weekly', 'monthly']).optional().describe('How often to check drift, omit for manual rebalancing only'),
+          dayOfWeek: z.number().int().min(0).max(6).optional().describe('0 = Sunday ... 6 = Saturday, weekly checks only'),
+          hourUtc: z.number().int().min(0).max(23).optional().describe('Hour of day (UTC) to check at'),
+        }),
+        func: async ({ targets, tolerance, maxSlippage, cadence, dayOfWeek, hourUtc }, _runManager, config) => {
+          try {
+            const { userId, conversationId } = this.getToolContext(config);
+            const profile = await this.rebalancer.setProfile({
+              userId,
+              conversationId,
+              targets: Object.fromEntries(targets.map((target: { token: string; percent: number }) => [target.token, target.percent])),
+              tolerance: tolerance ?? 5,
+              maxSlippage: maxSlippage ?? this.spendingPolicy.getSlippageCeiling(),
+              cadence,
+              dayOfWeek,
+              hourUtc,
+            });
+
+            return `Target allocation ${profile.id}: ${Object.entries(profile.targets).map(([token, percent]) => `${percent}% ${token}`).join(' / ')}, tolerance ±${profile.tolerance} points.${
+              profile.nextRunAt ? ` Drift is checked ${profile.cadence}, next at ${profile.nextRunAt.toUTCString()}.` : ' Ask for a rebalance whenever you like.'
+            }`;
+          } catch (error) {
+            this.logger.error('Error setting target allocation', { error, targets });
+            return `Error setting target allocation: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'get_allocation_drift',
+        description: 'Compare the current user\'s holdings with their target allocation',
+        schema: z.object({}),
+        func: async (_input, _runManager, config) => {
+          try {
+            const { userId } = this.getToolContext(config);
+            const profile = await this.rebalancer.getProfile(userId);
+            if (!profile) {
+              return 'You have no target allocation. Set one first, e.g. "keep me 60% ETH / 40% USDC".';
+            }
+
+            const plan = planRebalance(await this.getHoldings(userId), profile, this.rebalancer.minSwapUsd);
+            return `${this.describeDrift(plan)}\n${plan.withinTolerance
+              ? `Within the ±${profile.tolerance} point tolerance; no rebalance needed.`
+              : `Outside the ±${profile.tolerance} point tolerance; a rebalance would take ${plan.swaps.length} swap(s).`}`;
+          } catch (error) {
+            this.logger.error('Error computing allocation drift', { error });
+            return `Error computing allocation drift: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'rebalance_portfolio',
+        description: 'Propose the swaps that bring the current user back to their target allocation. The swaps execute once the user confirms them.',
+        schema: z.object({}),
+        func: async (_input, _runManager, config) => {
+          try {
+            const { userId, conversationId } = this.getToolContext(config);
+            const profile = await this.rebalancer.getProfile(userId);
+            if (!profile) {
+              return 'You have no target allocation. Set one first, e.g. "keep me 60% ETH / 40% USDC".';
+            }
+            return (await this.proposeRebalance(profile, conversationId)).response;
+          } catch (error) {
+            this.logger.error('Error proposing rebalance', { error });
+            return `Error proposing rebalance: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'clear_target_allocation',
+        description: 'Remove the current user\'s target allocation and stop its scheduled drift checks',
+        schema: z.object({}),
+        func: async (_input, _runManager, config) => {
+          const { userId } = this.getToolContext(config);
+          const profile = await this.rebalancer.clearProfile(userId);
+          return profile ? `Target allocation ${profile.id} removed.` : 'You have no target allocation.';
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'set_trading_mode',
+        description: 'Switch the current user between live trading and paper trading (a simulated wallet with play money, no network needed)',
+        schema: z.object({
+          mode: z.enum(['live', 'paper']),
+        }),
+        func: async ({ mode }, _runManager, config) => {
+          const { userId } = this.getToolContext(config);
+          if (mode === 'live' && !this.liveTradingAvailable) {
+            return 'Live trading is not configured on this deployment; only paper trading is available.';
+          }
+          if (this.paperAccounts.getMode(userId) === mode) {
+            return `You are already ${mode === 'paper' ? 'paper trading' : 'trading live'}.`;
+          }
+
+          // Scheduled trades run in whatever mode the user is in when they fire
+          const plans = (await this.dcaScheduler.listPlans(userId)).filter(plan => plan.status === 'active');
+          const orders = await this.orders.listOrders(userId);
+          if (plans.length > 0 || orders.length > 0) {
+            return `You have ${plans.length} active DCA plan(s) and ${orders.length} open order(s). Pause or cancel them before switching to ${mode} trading.`;
+          }
+
+          this.paperAccounts.setMode(userId, mode as TradingMode);
+          if (mode === 'live') {
+            return 'Switched to live trading. Trades now move real funds.';
+          }
+          const wallet = this.paperAccounts.getWallet(userId);
+          return `Switched to paper trading on ${wallet.getAddress()} with ${
+            Object.entries(wallet.getBalances()).map(([symbol, amount]) => `${amount} ${symbol}`).join(', ')
+          }. Nothing you do in paper mode touches the blockchain.`;
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'reset_paper_account',
+        description: 'Reset the current user\'s paper trading wallet to its starting balances',
+        schema: z.object({}),
+        func: async (_input, _runManager, config) => {
+          const { userId } = this.getToolContext(config);
+          this.paperAccounts.reset(userId);
+          const balances = this.paperAccounts.getWallet(userId).getBalances();
+          return `Paper account reset to ${Object.entries(balances).map(([symbol, amount]) => `${amount} ${symbol}`).join(', ')}.`;
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'backtest_strategy',
+        description: 'Backtest a DCA, buy-and-hold or limit/stop-loss/take-profit strategy on historical OHLCV data, e.g. "how would weekly ETH DCA have done since January?". Reports return, max drawdown, Sharpe ratio and the trades made.',
+        schema: z.object({
+          strategy: z.enum(['dca', 'buy_and_hold', 'conditional_orders']),
+          token: z.string().describe('Token to trade, e.g. ETH'),
+          quoteToken: z.string().optional().default('USDC'),
+          startDate: z.string().optional().describe('ISO date to start from, defaults to the start of the data'),
+          endDate: z.string().optional().describe('ISO date to end at, defaults to the end of the data'),
+          amount: z.number().positive().optional().describe('Quote token per DCA buy, or spent on the entry of other strategies'),
+          cadence: z.enum(['hourly', 'daily', 'weekly', 'monthly']).optional().default('weekly'),
+          dayOfWeek: z.number().int().min(0).max(6).optional().describe('For weekly DCA: 0 = Sunday ... 6 = Saturday'),
+          initialCapital: z.number().positive().optional().describe('Starting quote balance, defaults to what the strategy needs'),
+          limitPrice: z.number().positive().optional().describe('Enter with a limit buy at this price'),
+          stopLossPrice: z.number().positive().optional(),
+          takeProfitPrice: z.number().positive().optional(),
+          stopLossPercent: z.number().positive().optional().describe('Stop-loss distance below the entry price'),
+          takeProfitPercent: z.number().positive().optional().describe('Take-profit distance above the entry price'),
+          feeBps: z.number().min(0).optional().default(30),
+          slippageBps: z.number().min(0).optional().default(10),
+        }),
+        func: async (params) => {
+          try {
+            const directory = process.env.BACKTEST_DATA_DIR || 'data/ohlcv';
+            const file = findCandleFile(directory, params.token, params.quoteToken);
+            if (!file) {
+              return `No historical data for ${params.token.toUpperCase()} in ${directory}. Add ${params.token.toUpperCase()}-USD.csv or .json with timestamp, open, high, low, close and volume.`;
+            }
+
+            const candles = await loadCandles(file);
+            const start = params.startDate ? new Date(params.startDate) : candles[0]?.timestamp;
+            const end = params.endDate ? new Date(params.endDate) : candles[candles.length - 1]?.timestamp;
+            if (!start || !end || Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+              return 'Invalid backtest date range.';
+            }
+
+            let strategy: Strategy;
+            let capital = params.initialCapital;
+            if (params.strategy === 'dca') {
+              if (!params.amount) {
+                return 'A DCA backtest needs the amount to buy each time.';
+              }
+              const dca = new DcaStrategy({ amount: params.amount, cadence: params.cadence, dayOfWeek: params.dayOfWeek });
+              strategy = dca;
+              capital = capital ?? params.amount * Math.max(dca.countRuns(start, end), 1);
+            } else if (params.strategy === 'buy_and_hold') {
+              strategy = new BuyAndHoldStrategy();
+              capital = capital ?? params.amount ?? 1000;
+            } else {
+              strategy = new ConditionalOrderStrategy({
+                quoteAmount: params.amount,
+                limitPrice: params.limitPrice,
+                stopLossPrice: params.stopLossPrice,
+                takeProfitPrice: params.takeProfitPrice,
+                stopLossPercent: params.stopLossPercent,
+                takeProfitPercent: params.takeProfitPercent,
+              });
+              capital = capital ?? params.amount ?? 1000;
+            }
+
+            const result = runBacktest(candles, strategy, {
+              token: params.token,
+              quoteToken: params.quoteToken,
+              initialCapital: capital,
+              feeBps: params.feeBps,
+              slippageBps: params.slippageBps,
+              start,
+              end,
+            });
+            const fmt = (n: number) => `${n >= 0 ? '+' : ''}${n.toFixed(2)}%`;
+            const shown = result.trades.slice(-10);
+
+            return `Backtest: ${result.strategy} on ${result.token}/${result.quoteToken}
+${result.start.toISOString().slice(0, 10)} → ${result.end.toISOString().slice(0, 10)} (${candles.length} candles from ${file})
+
+Initial capital: ${result.initialCapital.toFixed(2)} ${result.quoteToken}
+Invested: ${result.invested.toFixed(2)} | Final equity: ${result.finalEquity.toFixed(2)} | Fees: ${result.feesPaid.toFixed(2)}
+Return: ${fmt(result.totalReturn)} | Max drawdown: -${result.maxDrawdown.toFixed(2)}% | Sharpe: ${result.sharpeRatio.toFixed(2)}
+
+Trades (${result.trades.length}${result.trades.length > shown.length ? `, last ${shown.length} shown` : ''}):
+${shown.map(trade =>
+  `• ${trade.timestamp.toISOString().slice(0, 10)} ${trade.side.toUpperCase()} ${trade.amount.toFixed(6)} @ ${trade.price.toFixed(2)} (${trade.reason})`
+).join('\n') || 'No trades'}
+
+Past performance on historical data does not guarantee future results.`;
           } catch (error) {
-            this.logger.error('Error getting wallet balance', { error });
-            return `Error getting wallet balance: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            this.logger.error('Error running backtest', { error, token: params.token });
+            return `Error running backtest: ${error instanceof Error ? error.message : 'Unknown error'}`;
           }
         },
       }),
 
       new DynamicStructuredTool({
-        name: 'get_transaction_history',
-        description: 'Get real transaction history from the blockchain',
+        name: 'get_technical_indicators',
+        description: 'Compute SMA, EMA, RSI, MACD, Bollinger bands and ATR for a token from stored candles. Use this for questions like "is ETH overbought?" or "what is the trend?"',
         schema: z.object({
-          limit: z.number().optional().default(10),
+          token: z.string().describe('Token symbol, e.g. ETH'),
+          interval: z.enum(['5m', '1h', '1d']).optional().default('1d').describe('Candle interval'),
         }),
-        func: async ({ limit }) => {
+        func: async ({ token, interval }) => {
           try {
-            if (!this.walletProvider) {
-              throw new Error('Wallet provider not initialized');
-            }
-            const walletAddr = this.walletProvider.getAddress();
-            const apiKey = process.env.BASESCAN_API_KEY;
-            const url = `https://api.basescan.org/api?module=account&action=txlist&address=${walletAddr}&sort=desc&page=1&offset=${limit}${apiKey ? `&apikey=${apiKey}` : ''}`;
-            const resp = await axios.get(url);
-            if (resp.data.status !== '1') {
-              throw new Error(resp.data.message || 'Failed to fetch transaction history');
+            const candles = await this.candleStore.list(token, interval, { limit: 250 });
+            if (candles.length < 15) {
+              return `Only ${candles.length} ${interval} candles are stored for ${token.toUpperCase()}; at least 15 are needed (50 for every indicator). Import history with import_candles, or wait for the collector to record more${
+                this.candles.intervals.includes(interval) ? '' : ` (it does not record ${interval} candles)`
+              }.`;
             }
-            const txs = resp.data.result;
-            const formatted = txs.map((tx: any) => `Hash: ${tx.hash}\nFrom: ${tx.from}\nTo: ${tx.to}\nValue: ${Number(tx.value) / 1e18} ETH/BASE\nBlock: ${tx.blockNumber}\nTime: ${new Date(Number(tx.timeStamp) * 1000).toLocaleString()}\nStatus: ${tx.isError === '0' ? 'Success' : 'Failed'}`).join('\n\n');
-            return `Last ${txs.length} transactions for ${walletAddr}:\n\n${formatted}`;
+
+            return `${describeIndicators(computeIndicators(token, interval, candles))}
+
+Indicators describe past prices, not future ones; they are not financial advice.`;
           } catch (error) {
-            this.logger.error('Error getting transaction history', { error });
-            return `Error getting transaction history: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            this.logger.error('Error computing indicators', { error, token, interval });
+            return `Error computing indicators: ${error instanceof Error ? error.message : 'Unknown error'}`;
           }
         },
       }),
 
       new DynamicStructuredTool({
-        name: 'analyze_real_market_data',
-        description: 'Analyze real market data from multiple sources',
+        name: 'import_candles',
+        description: 'Import historical OHLCV candles for a token from the market data directory into the candle store used for indicators',
         schema: z.object({
-          tokens: z.array(z.string()),
+          token: z.string().describe('Token symbol, e.g. ETH'),
+          quoteToken: z.string().optional().default('USD').describe('Quote token of the file, e.g. USD or USDC'),
+          interval: z.enum(['5m', '1h', '1d']).optional().describe('Candle interval of the file, detected from the data if omitted'),
         }),
-        func: async ({ tokens }) => {
+        func: async ({ token, quoteToken, interval }) => {
           try {
-            const analyses = await Promise.all(
-              tokens.map(async (token: string) => {
-                try {
-                  const response = await axios.get(`https://api.coingecko.com/api/v3/simple/price`, {
-                    params: {
-                      ids: token.toLowerCase(),
-                      vs_currencies: 'usd',
-                      include_24hr_change: true,
-                      include_market_cap: true,
-                      include_24hr_vol: true,
-                    },
-                  });
-
-                  const data = response.data[token.toLowerCase()];
-                  if (!data) {
-                    return `${token}: No data available`;
-                  }
-
-                  return `${token.toUpperCase()}: $${data.usd} (${data.usd_24h_change?.toFixed(2)}% 24h)`;
-                } catch (error) {
-                  return `${token}: Error fetching data`;
-                }
-              })
-            );
+            const directory = process.env.BACKTEST_DATA_DIR || 'data/ohlcv';
+            const file = findCandleFile(directory, token, quoteToken);
+            if (!file) {
+              return `No historical data for ${token.toUpperCase()} in ${directory}. Add ${token.toUpperCase()}-USD.csv or .json with timestamp, open, high, low, close and volume.`;
+            }
 
-            return `Market Analysis:\n${analyses.join('\n')}`;
+            const result = await this.candles.importFile(token, file, interval);
+            return `Imported ${result.count} ${result.interval} candles for ${token.toUpperCase()} from ${file}, ${result.from.toISOString().slice(0, 10)} → ${result.to.toISOString().slice(0, 10)}.`;
           } catch (error) {
-            this.logger.error('Error analyzing market data', { error });
-            return `Error analyzing market data: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            this.logger.error('Error importing candles', { error, token });
+            return `Error importing candles: ${error instanceof Error ? error.message : 'Unknown error'}`;
           }
         },
       }),
     );
   }
 
+  /**
+   * Expose an AgentKit action once for all networks: an optional network argument picks the
+   * AgentKit instance that runs it. Value-moving actions are checked against the spending
+   * policy and turned into proposals that only execute once the user confirms them.
+   */
+  private routeAgentKitTool(template: StructuredTool): StructuredTool {
+    return new DynamicStructuredTool({
+      name: template.name,
+      description: template.description,
+      schema: (template.schema as z.AnyZodObject).extend({ network: this.networkArgument() }),
+      func: async ({ network: networkName, ...args }: Record<string, unknown>, _runManager, config) => {
+        const { userId } = this.getToolContext(config);
+        let network: NetworkInfo;
+        try {
+          network = this.networkFor(userId, typeof networkName === 'string' ? networkName : undefined);
+        } catch (error) {
+          return error instanceof Error ? error.message : String(error);
+        }
+
+        const tool = this.networks.get(network.id)?.tools.get(template.name);
+        if (!tool) {
+          return `${template.name} is not available on ${network.id}.`;
+        }
+        return isValueMovingAction(tool.name)
+          ? this.proposeAgentKitAction(tool, args, network, config)
+          : tool.invoke(args, config);
+      },
+    });
+  }
+
+  /**
+   * Check a value-moving AgentKit call against the spending policy and simulation, then
+   * propose it for confirmation
+   */
+  private async proposeAgentKitAction(
+    tool: StructuredTool,
+    args: Record<string, unknown>,
+    network: NetworkInfo,
+    config?: RunnableConfig
+  ): Promise<string> {
+    const { userId, conversationId } = this.getToolContext(config);
+    const intent = extractTransactionIntent(tool.name, args, userId, network);
+    if (!intent) {
+      // Nothing to price or simulate (NFT transfers, listings, ...), but still the user's call
+      const proposal = this.pendingTransactions.propose({
+        agentName: this.config.name,
+        userId,
+        conversationId,
+        action: tool.name,
+        summary: `${tool.name.split('_').slice(1).join(' ')}: ${JSON.stringify(args)}${this.describeNetwork(network)}`,
+        execute: async () => String(await tool.invoke(args)),
+      });
+      return this.awaitingConfirmation(proposal, [], 'execute');
+    }
+
+    const tokenScan = intent.kind === 'swap' ? await this.scanSwapTarget(String(args.toAssetId), network) : undefined;
+    if (tokenScan?.riskLevel === 'high') {
+      return this.tokenRiskRefusal(tokenScan);
+    }
+
+    const decision = await this.policyFor(intent.userId).evaluate(intent);
+    if (decision.outcome === 'reject') {
+      return JSON.stringify({
+        status: 'rejected',
+        executed: false,
+        action: intent.action,
+        usdValue: decision.usdValue,
+        violations: decision.violations,
+      });
+    }
+
+    const quotedAmountOut = await this.quoteAmountOut(intent);
+    const simulation = await this.simulate(intent, quotedAmountOut);
+    if (simulation && !simulation.success) {
+      return JSON.stringify({
+        status: 'simulation_failed',
+        executed: false,
+        action: intent.action,
+        reason: simulation.revertReason,
+        instructions: 'Tell the user the transaction would fail and why; do not retry it unchanged.',
+      });
+    }
+
+    const proposal = this.pendingTransactions.propose({
+      agentName: this.config.name,
+      userId,
+      conversationId,
+      action: tool.name,
+      summary: `${describeTransactionIntent(intent, decision.usdValue)}${this.describeNetwork(network)}`,
+      metadata: { intent, usdValue: decision.usdValue, quotedAmountOut, escalations: decision.violations, simulation, tokenScan },
+      execute: async () => {
+        const { result } = await this.executeTransaction(tool.name, args, intent, conversationId, () => tool.invoke(args), quotedAmountOut);
+        return result;
+      },
+    });
+
+    return this.awaitingConfirmation(proposal, decision.violations, 'execute', simulation);
+  }
+
+  /**
+   * The single path through which the agent moves funds: re-checks the spending policy
+   * (limits may have moved since the user agreed), runs the AgentKit action - or settles it
+   * on the paper wallet for users in paper mode - records it in the ledger and counts it
+   * towards the daily limit. Live transactions are simulated again first so nothing that
+   * would revert reaches the chain. Escalations are considered satisfied by the caller, either a
+   * confirmed proposal or a confirmed DCA plan.
+   */
+  private async executeTransaction(
+    action: string,
+    args: Record<string, unknown>,
+    intent: TransactionIntent,
+    conversationId: string,
+    invoke: () => Promise<unknown>,
+    quotedAmountOut?: number
+  ): Promise<TradeExecution> {
+    const policy = this.policyFor(intent.userId);
+    const decision = await policy.evaluate(intent);
+    if (decision.outcome === 'reject') {
+      throw new PolicyViolationError(decision.violations.map(v => v.message).join('; '), decision.violations);
+    }
+
+    const simulation = await this.simulate(intent, quotedAmountOut);
+    if (simulation && !simulation.success) {
+      throw new SimulationFailedError(`Simulation failed: ${simulation.revertReason}`, simulation, { action });
+    }
+
+    const paperWallet = this.paperAccounts.isPaper(intent.userId) ? this.paperAccounts.getWallet(intent.userId) : undefined;
+    const execution = await this.ledgerFor(intent.userId).execute(
+      {
+        kind: intent.kind,
+        action,
+        agentName: this.config.name,
+        userId: intent.userId,
+        conversationId,
+        network: intent.network ?? this.defaultNetwork.id,
+        fromToken: intent.fromToken,
+        toToken: intent.toToken,
+        amountIn: intent.amount,
+        quotedAmountOut,
+        recipient: intent.recipient,
+        usdValue: decision.usdValue ?? undefined,
+        params: args,
+      },
+      async () => {
+        if (paperWallet) {
+          return paperWallet.execute(intent);
+        }
+        const output = String(await invoke());
+        if (/^error/i.test(output)) {
+          throw new Error(output);
+        }
+        return output;
+      },
+      paperWallet || this.networks.get(intent.network ?? this.defaultNetwork.id)?.walletProvider
+    );
+    policy.recordSpend(intent, decision.usdValue);
+    return execution;
+  }
+
+  /**
+   * Dry-run a live transaction from the agent wallet. Paper trades settle off-chain and are
+   * not simulated; undefined is also returned when simulation is disabled.
+   */
+  private async simulate(intent: TransactionIntent, quotedAmountOut?: number): Promise<SimulationResult | undefined> {
+    const simulator = this.simulators.get(intent.network ?? this.defaultNetwork.id);
+    if (!simulator || !this.walletAddress || this.paperAccounts.isPaper(intent.userId)) {
+      return undefined;
+    }
+    return simulator.simulate(intent, this.walletAddress, quotedAmountOut);
+  }
+
+  /**
+   * Network a request targets: the named one, or the default. It must be one the agent is
+   * connected to, and paper accounts only exist on the default network.
+   */
+  private networkFor(userId: string, name?: string): NetworkInfo {
+    const network = name ? getNetwork(name) : this.defaultNetwork;
+    if (network.id !== this.defaultNetwork.id && this.paperAccounts.isPaper(userId)) {
+      throw new Error(`Paper trading only runs on ${this.defaultNetwork.id}`);
+    }
+    if (!this.networks.has(network.id)) {
+      throw new Error(`Not connected to ${network.id}. Available networks: ${Array.from(this.networks.keys()).join(', ')}`);
+    }
+    return network;
+  }
+
+  /**
+   * Optional tool argument naming the network to act on
+   */
+  private networkArgument(description?: string) {
+    // Tools are first built from the BaseAgent constructor, before the networks are set up
+    const defaultNetwork = this.defaultNetwork ?? getNetwork(process.env.NETWORK_ID);
+    const available = this.networks?.size ? Array.from(this.networks.keys()) : [defaultNetwork.id];
+    return z.string().optional().describe(`${description ?? `Network to use, defaults to ${defaultNetwork.id}`}. One of: ${available.join(', ')}`);
+  }
+
+  /**
+   * " on <network>" for anything outside the default network, empty otherwise
+   */
+  private describeNetwork(network: NetworkInfo): string {
+    return network.id === this.defaultNetwork.id ? '' : ` on ${network.id}`;
+  }
+
+  /**
+   * Swap aggregator quoting routes on a network
+   */
+  private aggregatorFor(network: NetworkInfo): SwapAggregator {
+    const aggregator = this.swapAggregators.get(network.id);
+    if (!aggregator) {
+      throw new Error(`Swaps are not supported on ${network.id}`);
+    }
+    return aggregator;
+  }
+
+  /**
+   * Spending policy tracking the user's daily total for their current trading mode
+   */
+  private policyFor(userId: string): SpendingPolicy {
+    return this.paperAccounts.isPaper(userId) ? this.paperPolicy : this.spendingPolicy;
+  }
+
+  /**
+   * Ledger holding the user's trades in their current trading mode
+   */
+  private ledgerFor(userId: string): TradeLedger {
+    return this.paperAccounts.isPaper(userId) ? this.paperAccounts.ledger : this.tradeLedger;
+  }
+
+  /**
+   * AgentKit swap arguments and the matching intent, on the default network unless given
+   */
+  private buildSwap(
+    userId: string,
+    fromToken: string,
+    toToken: string,
+    amount: number,
+    maxSlippage: number,
+    network: NetworkInfo = this.defaultNetwork
+  ) {
+    const args = { amount, fromAssetId: fromToken.toLowerCase(), toAssetId: toToken.toLowerCase() };
+    const intent = extractTransactionIntent(SWAP_ACTION, args, userId, network)!;
+    intent.slippage = maxSlippage;
+    return { args, intent };
+  }
+
+  /**
+   * Swap request for the aggregator, valid for the configured deadline unless one is given
+   */
+  private buildTradeRequest(fromToken: string, toToken: string, amount: number, slippage: number, deadline?: number): TradeRequest {
+    return {
+      fromToken: fromToken.toUpperCase(),
+      toToken: toToken.toUpperCase(),
+      amount,
+      slippage,
+      deadline: deadline ?? Math.floor(Date.now() / 1000) + (Number(process.env.SWAP_DEADLINE_SECONDS) || 20 * 60),
+      userAddress: this.walletAddress || '',
+    };
+  }
+
+  /**
+   * Swap through the route of a quote, or on the paper wallet for users in paper mode
+   */
+  private async executeRoutedSwap(
+    userId: string,
+    conversationId: string,
+    request: TradeRequest,
+    quote?: SwapQuote,
+    network: NetworkInfo = this.defaultNetwork
+  ): Promise<TradeExecution> {
+    const { args, intent } = this.buildSwap(userId, request.fromToken, request.toToken, request.amount, request.slippage, network);
+    return this.executeTransaction(
+      SWAP_ACTION,
+      quote ? { ...args, source: quote.source, route: quote.route, deadline: request.deadline } : args,
+      intent,
+      conversationId,
+      async () => {
+        if (!quote) {
+          throw new SwapQuoteError(`No route for ${request.fromToken} → ${request.toToken}`, 'NO_ROUTE');
+        }
+        return this.aggregatorFor(network).execute(quote, request);
+      },
+      quote?.amountOut ?? await this.quoteAmountOut(intent)
+    );
+  }
+
+  /**
+   * Swap on behalf of a user without a live tool call (scheduled and triggered orders),
+   * through the best route the quote sources offer at the time
+   */
+  private async executeSwap(
+    userId: string,
+    conversationId: string,
+    fromToken: string,
+    toToken: string,
+    amount: number,
+    maxSlippage: number
+  ): Promise<TradeExecution> {
+    const request = this.buildTradeRequest(fromToken, toToken, amount, maxSlippage);
+    if (this.paperAccounts.isPaper(userId)) {
+      return this.executeRoutedSwap(userId, conversationId, request);
+    }
+
+    const { best, failures } = await this.aggregatorFor(this.defaultNetwork).getQuotes(request);
+    if (!best) {
+      throw new SwapQuoteError(`No quote source has a route for ${request.fromToken} → ${request.toToken}`, 'NO_ROUTE', { failures });
+    }
+    return this.executeRoutedSwap(userId, conversationId, request, best);
+  }
+
+  /**
+   * Buy for a DCA plan
+   */
+  private executeDcaFill(plan: DcaPlan): Promise<TradeExecution> {
+    return this.executeSwap(plan.userId, plan.conversationId, plan.fromToken, plan.toToken, plan.amount, plan.maxSlippage);
+  }
+
+  /**
+   * Execute a triggered conditional order. Sells swap the order amount of the token; buys
+   * spend enough of the quote token to buy the order amount at the trigger price.
+   */
+  private async executeConditionalOrder(order: ConditionalOrder, price: number): Promise<TradeExecution> {
+    if (isSellOrder(order)) {
+      return this.executeSwap(order.userId, order.conversationId, order.token, order.quoteToken, order.amount, order.maxSlippage);
+    }
+
+    const spend = await this.buySpend(order.quoteToken, order.amount, price);
+    return this.executeSwap(order.userId, order.conversationId, order.quoteToken, order.token, spend, order.maxSlippage);
+  }
+
+  /**
+   * Quote tokens a buy of `amount` tokens costs at a USD price of the token
+   */
+  private async buySpend(quoteToken: string, amount: number, price: number): Promise<number> {
+    const quotePrice = (await this.priceService.getPrices([quoteToken]))[quoteToken.toUpperCase()];
+    if (!quotePrice) {
+      throw new Error(`No price available for ${quoteToken}`);
+    }
+    return Number(((amount * price) / quotePrice).toFixed(6));
+  }
+
+  /**
+   * Priced holdings the user trades with: the paper wallet in paper mode, otherwise the agent
+   * wallet on the default network, where rebalancing swaps run
+   */
+  private async getHoldings(userId: string): Promise<Holding[]> {
+    if (this.paperAccounts.isPaper(userId)) {
+      const balances = this.paperAccounts.getWallet(userId).getBalances();
+      const prices = await this.paperAccounts.priceSource.getPrices(Object.keys(balances));
+      return Object.entries(balances).map(([symbol, balance]) => ({ symbol, balance, price: prices[symbol.toUpperCase()] ?? 0 }));
+    }
+
+    const portfolio = await this.getPortfolio();
+    return portfolio.tokens
+      .filter(token => token.verified !== false && (token.network ?? this.defaultNetwork.id) === this.defaultNetwork.id)
+      .map(token => ({ symbol: token.symbol, balance: token.balance, price: token.price }));
+  }
+
+  /**
+   * One line per target token: current share against target
+   */
+  private describeDrift(plan: RebalancePlan): string {
+    const fmt = (n: number) => `${n >= 0 ? '+' : ''}${n.toFixed(1)}`;
+    return `Allocation ($${plan.totalValueUsd.toFixed(2)} across the target tokens):\n${plan.drift.map(d =>
+      `• ${d.token}: ${d.currentPercent.toFixed(1)}% (target ${d.targetPercent}%, ${fmt(d.drift)} pts) = $${d.valueUsd.toFixed(2)}`
+    ).join('\n')}`;
+  }
+
+  /**
+   * Plan a rebalance of the user's holdings and, if swaps are needed and none is rejected by
+   * the spending policy, propose executing them in order
+   */
+  private async proposeRebalance(
+    profile: AllocationProfile,
+    conversationId: string
+  ): Promise<{ plan: RebalancePlan; proposal?: PendingTransaction; response: string }> {
+    const { userId } = profile;
+    const plan = planRebalance(await this.getHoldings(userId), profile, this.rebalancer.minSwapUsd);
+    if (plan.swaps.length === 0) {
+      return {
+        plan,
+        response: JSON.stringify({
+          status: plan.withinTolerance ? 'within_tolerance' : 'nothing_to_swap',
+          executed: false,
+          drift: this.describeDrift(plan),
+          instructions: plan.withinTolerance
+            ? 'Show the user the drift and tell them no rebalance is needed.'
+            : 'Show the user the drift and tell them there is nothing to swap: the target tokens have no value or no price.',
+        }),
+      };
+    }
+
+    const intents = plan.swaps.map(swap => this.buildSwap(userId, swap.fromToken, swap.toToken, swap.amount, profile.maxSlippage).intent);
+    const decisions = await Promise.all(intents.map(intent => this.policyFor(userId).evaluate(intent)));
+    const rejected = decisions.flatMap(decision => decision.outcome === 'reject' ? decision.violations : []);
+    if (rejected.length > 0) {
+      return { plan, response: JSON.stringify({ status: 'rejected', executed: false, violations: rejected }) };
+    }
+
+    const escalations = decisions.flatMap(decision => decision.violations);
+    const proposal = this.pendingTransactions.propose({
+      agentName: this.config.name,
+      userId,
+      conversationId,
+      action: 'rebalance',
+      summary: `Rebalance to ${Object.entries(profile.targets).map(([token, percent]) => `${percent}% ${token}`).join(' / ')}: ${
+        intents.map((intent, i) => describeTransactionIntent(intent, decisions[i].usdValue)).join('; ')
+      }, max slippage ${profile.maxSlippage}%`,
+      metadata: { intents, plan, profileId: profile.id, escalations },
+      execute: () => this.executeRebalance(userId, conversationId, plan, profile.maxSlippage),
+    });
+
+    return { plan, proposal, response: this.awaitingConfirmation(proposal, escalations, 'rebalance') };
+  }
+
+  /**
+   * Run the swaps of a confirmed rebalance one after another, stopping at the first failure
+   */
+  private async executeRebalance(userId: string, conversationId: string, plan: RebalancePlan, maxSlippage: number): Promise<string> {
+    const done: string[] = [];
+    for (const swap of plan.swaps) {
+      try {
+        const { trade } = await this.executeSwap(userId, conversationId, swap.fromToken, swap.toToken, swap.amount, maxSlippage);
+        done.push(`${swap.amount} ${swap.fromToken} → ${trade.executedAmountOut ?? trade.quotedAmountOut ?? '?'} ${swap.toToken}${trade.txHash ? ` (TX: ${trade.txHash})` : ''}`);
+      } catch (error) {
+        const message = `${swap.amount} ${swap.fromToken} → ${swap.toToken} failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        throw new Error(done.length > 0 ? `Rebalance stopped after ${done.length} swap(s): ${done.join('; ')}. ${message}` : `Rebalance failed: ${message}`);
+      }
+    }
+    return `Rebalanced: ${done.join('; ')}`;
+  }
+
+  /**
+   * Scheduled drift check: propose a rebalance into the profile's conversation when it is needed
+   */
+  private async checkAllocation(profile: AllocationProfile): Promise<void> {
+    const { plan, proposal } = await this.proposeRebalance(profile, profile.conversationId);
+    if (!proposal) {
+      this.logger.info('Scheduled drift check found no rebalance to propose', { profileId: profile.id, withinTolerance: plan.withinTolerance });
+      return;
+    }
+
+    this.notifyConversation(
+      profile.conversationId,
+      `⚖️ Your portfolio has drifted from its target allocation.\n${this.describeDrift(plan)}\n\nProposed: ${proposal.summary}\nReply "confirm ${proposal.id}" to rebalance or "cancel ${proposal.id}" to skip (expires ${proposal.expiresAt.toUTCString()}).`,
+      { allocationProfileId: profile.id, proposalId: proposal.id }
+    );
+  }
+
+  /**
+   * Check one fill of a prospective order against the spending policy and, unless it is
+   * rejected outright, propose placing it
+   */
+  private async proposeOrders(
+    userId: string,
+    conversationId: string,
+    token: string,
+    quoteToken: string,
+    amount: number,
+    maxSlippage: number,
+    side: 'buy' | 'sell',
+    summary: string,
+    place: () => Promise<string>,
+    limitPrice?: number // buys: what the fill is sized at
+  ): Promise<string> {
+    // A buy spends the quote token, checked at what it would cost at the limit price
+    const { intent } = side === 'sell'
+      ? this.buildSwap(userId, token, quoteToken, amount, maxSlippage)
+      : this.buildSwap(userId, quoteToken, token, await this.buySpend(quoteToken, amount, limitPrice!), maxSlippage);
+
+    const tokenScan = side === 'buy' ? await this.scanSwapTarget(token, this.defaultNetwork) : undefined;
+    if (tokenScan?.riskLevel === 'high') {
+      return this.tokenRiskRefusal(tokenScan);
+    }
+
+    const decision = await this.policyFor(intent.userId).evaluate(intent);
+    if (decision.outcome === 'reject') {
+      return JSON.stringify({ status: 'rejected', executed: false, violations: decision.violations });
+    }
+
+    const proposal = this.pendingTransactions.propose({
+      agentName: this.config.name,
+      userId,
+      conversationId,
+      action: 'place_order',
+      summary: `${summary}, max slippage ${maxSlippage}%`,
+      metadata: { intent, escalations: decision.violations, tokenScan },
+      execute: place,
+    });
+    return this.awaitingConfirmation(proposal, decision.violations, 'place the order');
+  }
+
+  /**
+   * Safety scan of the token a swap buys, when it is a contract address the network's token
+   * list does not know; undefined for known tokens and symbols
+   */
+  private async scanSwapTarget(toToken: string, network: NetworkInfo): Promise<TokenScanReport | undefined> {
+    return isUnknownTokenAddress(network, toToken) ? this.tokenScanner.scan(toToken, network) : undefined;
+  }
+
+  /**
+   * Tool response refusing to buy a token the scanner rates high risk
+   */
+  private tokenRiskRefusal(report: TokenScanReport): string {
+    return JSON.stringify({
+      status: 'token_risk',
+      executed: false,
+      riskScore: report.riskScore,
+      tokenScan: describeTokenScan(report),
+      instructions: 'Show the user the token scan and explain that the swap was not proposed because the token is high risk. Do not retry it.',
+    });
+  }
+
+  /**
+   * Tool response for a proposal awaiting the user's confirmation
+   */
+  private awaitingConfirmation(
+    proposal: PendingTransaction,
+    warnings: PolicyViolation[],
+    verb: string,
+    simulation?: SimulationResult,
+    quotes?: string
+  ): string {
+    return JSON.stringify({
+      status: 'awaiting_confirmation',
+      executed: false,
+      proposalId: proposal.id,
+      summary: proposal.summary,
+      preview: simulation ? describeSimulation(simulation, getNetwork(proposal.metadata?.intent?.network ?? this.defaultNetwork.id).nativeSymbol) : undefined,
+      quotes,
+      tokenScan: proposal.metadata?.tokenScan ? describeTokenScan(proposal.metadata.tokenScan) : undefined,
+      expiresAt: proposal.expiresAt.toISOString(),
+      warnings: warnings.map(v => v.message),
+      instructions: `Show the summary, the preview, quote table and token scan if present and any warnings to the user and ask them to reply "confirm ${proposal.id}" to ${verb} or "cancel ${proposal.id}" to discard.`,
+    });
+  }
+
+  /**
+   * Report a filled or failed conditional order back into its conversation
+   */
+  private deliverOrderEvent(kind: 'filled' | 'failed', { order, price, execution, cancelled, error }: OrderEvent): void {
+    const label = ORDER_LABELS[order.type];
+    const trade = execution?.trade;
+    const side = isSellOrder(order)
+      ? `sold ${order.amount} ${order.token}${trade?.executedAmountOut !== undefined ? ` for ${trade.executedAmountOut} ${order.quoteToken}` : ''}`
+      : `bought ${trade?.executedAmountOut ?? order.amount} ${order.token}${trade ? ` for ${trade.amountIn} ${order.quoteToken}` : ''}`;
+    const siblings = cancelled && cancelled.length > 0 ? `\nCancelled linked order${cancelled.length > 1 ? 's' : ''}: ${cancelled.map(o => o.id).join(', ')}` : '';
+
+    const message = kind === 'filled'
+      ? `✅ ${label} ${order.id} triggered at $${price}: ${side}${trade?.txHash ? `\nTX: ${trade.txHash}` : ''}${siblings}`
+      : `⚠️ ${label} ${order.id} triggered at $${price} but the swap failed: ${error?.message}${order.ocoGroupId ? '\nIts linked order stays open.' : ''}`;
+
+    this.notifyConversation(order.conversationId, message, { orderId: order.id, tradeId: trade?.id });
+  }
+
+  /**
+   * Report a DCA fill, failure or auto-pause back into the plan's conversation
+   */
+  private deliverDcaEvent(kind: 'filled' | 'failed' | 'paused', { plan, execution, slippage, error }: DcaFillEvent): void {
+    const next = plan.status === 'active' ? `\nNext buy: ${plan.nextRunAt.toUTCString()}` : '';
+    const trade = execution?.trade;
+    const received = trade?.executedAmountOut !== undefined ? `${trade.executedAmountOut} ${plan.toToken}` : plan.toToken;
+    const tx = trade?.txHash ? `\nTX: ${trade.txHash}` : '';
+    const slip = slippage !== undefined ? ` (slippage ${slippage.toFixed(2)}%)` : '';
+
+    const message = {
+      filled: `🔁 DCA ${plan.id}: bought ${received} with ${plan.amount} ${plan.fromToken}${slip}${tx}${next}`,
+      failed: `⚠️ DCA ${plan.id}: buy of ${plan.toToken} with ${plan.amount} ${plan.fromToken} failed: ${error?.message}${next}`,
+      paused: `⏸️ DCA ${plan.id}: bought ${received} with ${plan.amount} ${plan.fromToken}${slip}, above your ${plan.maxSlippage}% limit. The plan is paused; resume it when you are ready.${tx}`,
+    }[kind];
+
+    this.notifyConversation(plan.conversationId, message, { dcaPlanId: plan.id, tradeId: trade?.id });
+  }
+
+  /**
+   * Report a submitted transaction confirming, failing or timing out back into its conversation
+   */
+  private deliverTransactionEvent(kind: 'confirmed' | 'failed' | 'timeout', tracked: TrackedTransaction): void {
+    if (tracked.agentName !== this.config.name) return;
+    this.notifyConversation(tracked.conversationId, describeTransactionOutcome(kind, tracked), { txHash: tracked.hash, tradeId: tracked.tradeId });
+  }
+
+  /**
+   * Count the last 24h of executed trades towards the daily limit after a restart
+   */
+  private async restoreDailySpend(): Promise<void> {
+    try {
+      const trades = await this.tradeLedger.query({ from: new Date(Date.now() - DAY_MS), limit: 1000 });
+      this.spendingPolicy.restoreSpends(
+        trades
+          .filter(trade => trade.agentName === this.config.name && trade.status !== 'failed' && trade.usdValue !== undefined)
+          .map(trade => ({ userId: trade.userId, usdValue: trade.usdValue!, timestamp: trade.createdAt }))
+      );
+    } catch (error) {
+      this.logger.warn('Could not restore daily spend from trade history', { error });
+    }
+  }
+
+  /**
+   * Expected output amount of a swap at current prices, or the input amount for 1:1 wraps
+   */
+  private async quoteAmountOut(intent: TransactionIntent): Promise<number | undefined> {
+    if (intent.kind === 'wrap') return intent.amount;
+    if (intent.kind !== 'swap' || !intent.toToken) return undefined;
+
+    try {
+      const priceSource = this.paperAccounts.isPaper(intent.userId) ? this.paperAccounts.priceSource : this.priceService;
+      const prices = await priceSource.getPrices([intent.fromToken, intent.toToken]);
+      const fromPrice = prices[intent.fromToken.toUpperCase()];
+      const toPrice = prices[intent.toToken.toUpperCase()];
+      return fromPrice && toPrice ? (intent.amount * fromPrice) / toPrice : undefined;
+    } catch (error) {
+      this.logger.warn('Could not quote swap', { error, intent });
+      return undefined;
+    }
+  }
+
+  /**
+   * Recorded trades and transfers, newest first
+   */
+  public async getTradeHistory(query: TradeHistoryQuery): Promise<TradeRecord[]> {
+    return this.tradeLedger.query(query);
+  }
+
+  /**
+   * Cost-basis PnL of the agent's confirmed trades, optionally for one user and one token
+   */
+  public async getPnlReport(
+    query: { userId?: string; token?: string; method?: CostBasisMethod },
+    ledger: TradeLedger = this.tradeLedger
+  ): Promise<PnlReport> {
+    const trades = await ledger.query({ userId: query.userId, status: 'confirmed', limit: 100000 });
+    return this.pnl.getReport(trades.filter(trade => trade.agentName === this.config.name), query.method, query.token);
+  }
+
+  /**
+   * Tax export of the agent's confirmed trades in a date range. Only the agent wallet's trades
+   * are in the ledger, so any other wallet is refused.
+   */
+  public async getTaxReport(
+    query: { from: Date; to: Date; format: TaxReportFormat; method?: CostBasisMethod; userId?: string; wallet?: string },
+    ledger: TradeLedger = this.tradeLedger
+  ): Promise<TaxReport> {
+    if (query.wallet && query.wallet.toLowerCase() !== this.walletAddress?.toLowerCase()) {
+      throw new Error(`No trade history for wallet ${query.wallet}`);
+    }
+
+    const trades = await ledger.query({ userId: query.userId, status: 'confirmed', to: query.to, limit: 100000 });
+    return buildTaxReport(trades.filter(trade => trade.agentName === this.config.name), {
+      from: query.from,
+      to: query.to,
+      format: query.format,
+      method: query.method || this.pnl.defaultMethod,
+    });
+  }
+
+  /**
+   * Get a priced portfolio for an address, defaulting to the agent wallet
+   */
+  public async getPortfolio(address?: string): Promise<Portfolio> {
+    const target = address || this.walletAddress;
+    if (!target) {
+      throw new Error('Wallet provider not initialized');
+    }
+    return this.portfolios.getPortfolio(target);
+  }
+
+  /**
+   * Preferences of a user, or the defaults if they have not set any
+   */
+  private async getUserPreferences(userId: string): Promise<UserPreferences> {
+    return (await this.userPreferences.get(userId)) ?? DEFAULT_USER_PREFERENCES;
+  }
+
+  /**
+   * Post a triggered alert back into the conversation it was created from
+   */
+  private async deliverPriceAlert({ alert, price }: PriceAlertTrigger): Promise<void> {
+    try {
+      if (!(await this.getUserPreferences(alert.createdBy)).notifications.priceAlerts) {
+        this.logger.info('Price alert muted by user preferences', { alertId: alert.id, userId: alert.createdBy });
+        return;
+      }
+    } catch (error) {
+      // Deliver rather than silently drop the alert
+      this.logger.warn('Could not read notification preferences', { error, userId: alert.createdBy });
+    }
+
+    this.notifyConversation(
+      alert.conversationId,
+      `🔔 Price alert: ${alert.tokenSymbol} is now $${price} (${alert.condition} your $${alert.targetPrice} target)${alert.mode === 'rearm' ? '\nThis alert will re-arm once the price crosses back.' : ''}`,
+      { alertId: alert.id }
+    );
+  }
+
   protected async handleMessage(message: DecodedMessage, context: AgentContext): Promise<AgentResponse> {
     try {
       if (!this.reactAgent) {
@@ -238,11 +2133,18 @@ export class TradingAgent extends BaseAgent {
       const messageContent = typeof message.content === 'string' ? message.content : '';
       const threadId = context.conversationId || 'default';
 
+      const command = parseConfirmationCommand(messageContent);
+      if (command) {
+        return await this.pendingTransactions.respond(command, context, 'trading-agent');
+      }
+
+      const runStartedAt = new Date();
+
       // Use React Agent to process the message with proper LLM + tool integration
       let response = '';
       const stream = await this.reactAgent.stream(
         { messages: [new HumanMessage(messageContent)] },
-        { configurable: { thread_id: threadId } }
+        { configurable: { thread_id: threadId, user_id: context.userId } }
       );
 
       for await (const chunk of stream) {
@@ -254,15 +2156,19 @@ export class TradingAgent extends BaseAgent {
         }
       }
 
+      const proposals = this.pendingTransactions.createdSince(this.config.name, threadId, runStartedAt);
+
       return {
         message: response.trim() || 'I can help you with DeFi operations, trading, and portfolio management. What would you like to do?',
         metadata: { 
           handledBy: 'trading-agent',
           walletAddress: this.walletAddress || null,
-          networkId: process.env.NETWORK_ID || null,
+          networkId: this.defaultNetwork.id,
+          networks: Array.from(this.networks.keys()),
           usedReactAgent: true
         },
-        actions: []
+        requiresConfirmation: proposals.length > 0,
+        actions: proposals.map(toTransactionAction)
       };
     } catch (error) {
       this.logger.error('Error in handleMessage', { error });
@@ -283,7 +2189,16 @@ export class TradingAgent extends BaseAgent {
       'eth', 'usdc', 'weth', 'base', 'sepolia', 'faucet', 'testnet'
     ];
     
-    return tradingKeywords.some(keyword => content.includes(keyword));
+    return tradingKeywords.some(keyword => content.includes(keyword))
+      || this.isOwnProposalCommand(content);
+  }
+
+  /**
+   * Whether the message confirms or cancels a transaction this agent proposed
+   */
+  private isOwnProposalCommand(content: string): boolean {
+    const command = parseConfirmationCommand(content);
+    return !!command && this.pendingTransactions.get(command.id)?.agentName === this.config.name;
   }
 
   protected async suggestNextAgent(message: DecodedMessage, context: AgentContext): Promise<string> {
@@ -301,13 +2216,19 @@ export class TradingAgent extends BaseAgent {
     return `You are TradingAgent, a production-grade DeFi and trading specialist powered by Coinbase AgentKit.
 
 Your capabilities include:
-- Real blockchain operations on Base network
-- Token swaps and DEX interactions
+- Real blockchain operations on ${Array.from(this.networks.keys()).join(', ') || this.defaultNetwork.id}, with one wallet address on all of them
+- Token swaps and DEX interactions, routed through whichever quote source returns the most after gas
 - ERC-20 token deployment and management
 - Real-time price data from Pyth Network
 - Wallet management and transactions
-- Portfolio tracking and analysis
+- Portfolio tracking and analysis, including realized and unrealized PnL per token (get_pnl)
 - Market data analysis
+- Price alerts delivered back into the conversation
+- Recurring buys (DCA plans) that run on a schedule and report each fill
+- Limit, stop-loss and take-profit orders (including OCO pairs) that execute when the price hits
+- Target allocations ("keep me 60% ETH / 40% USDC"): drift checks and rebalance proposals, optionally on a schedule
+- Paper trading: a simulated wallet per user for practising without real funds (set_trading_mode)
+- Backtesting DCA and conditional-order strategies on historical OHLCV data
 
 You have access to REAL blockchain tools through Coinbase AgentKit:
 - Wallet operations (balances, transfers, transactions)
@@ -318,16 +2239,36 @@ You have access to REAL blockchain tools through Coinbase AgentKit:
 
 Guidelines:
 1. Always use real blockchain data and operations
-2. Confirm transaction details before execution
-3. Provide clear transaction hashes and links
+2. Transactions are never executed directly: value-moving tools return a proposal ID. Show the user the summary and the simulated preview (expected balance changes and gas) and ask them to reply "confirm <id>" (or "cancel <id>"); proposals expire after a few minutes. If a tool reports simulation_failed, explain the reason instead of proposing the transaction again
+3. Provide clear transaction hashes and links. An executed transaction is only submitted: say so, the conversation gets a follow-up with the explorer link once it confirms or fails
 4. Handle errors gracefully with helpful explanations
 5. Use testnet for safe experimentation
 6. Educate users about blockchain concepts
 7. Always verify sufficient funds before operations
+8. For swaps use swap_best_route (or compare_swap_quotes to only show prices): it compares the configured routes and enforces the user's slippage and deadline. If the price moves past the slippage tolerance before execution the swap is refused; explain this rather than raising the slippage on your own
+9. Every wallet, transfer and swap tool takes an optional network argument. When the user names a network ("on Base Sepolia", "on Ethereum") pass it; otherwise the default network is used. DCA plans, conditional orders, rebalances and paper trading run on the default network only
+10. Buying a token by contract address that is not on the known token list runs a safety scan first. High-risk tokens are refused (status token_risk): show the scan and do not look for a way around it
+11. list_token_approvals shows which spenders may move the wallet's tokens. Point out unlimited approvals and offer to revoke those no longer needed with revoke_token_approval (it needs the user's confirmation like any transaction)
+12. For questions about momentum, trend or whether a token is overbought or oversold, call get_technical_indicators and base the answer on its numbers. Never estimate indicator values yourself
+13. Transactions are checked against spending limits (max $${this.tradingConfig.maxTransactionValue} per transaction, $${this.tradingConfig.maxDailyValue} per day, allowed pairs: ${this.tradingConfig.tradingPairs.join(', ')}). If a tool reports a rejected or escalated transaction, explain each violation to the user and do not retry it
 
-Current network: ${process.env.NETWORK_ID || 'base-sepolia'}
+Default network: ${this.defaultNetwork.id}
 Current wallet: ${this.walletAddress || 'Not initialized'}
 
 You can perform real transactions and provide actual blockchain services. Use the available tools to help users with their DeFi and trading needs.`;
   }
-} 
\ No newline at end of file
+
+  /**
+   * Stop background jobs and cleanup resources
+   */
+  public async cleanup(): Promise<void> {
+    this.priceAlerts.stop();
+    this.portfolios.stop();
+    this.dcaScheduler.stop();
+    this.orders.stop();
+    this.rebalancer.stop();
+    this.candles.stop();
+    this.transactionTracker.stop();
+    await super.cleanup();
+  }
+}
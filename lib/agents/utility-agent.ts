@@ -1,7 +1,9 @@
 // NOTE: This agent now uses only CdpV2WalletProvider for wallet management (Coinbase AgentKit v2)
 import { DecodedMessage } from '@xmtp/browser-sdk';
-import { DynamicStructuredTool } from '@langchain/core/tools';
+import { DynamicStructuredTool, StructuredTool } from '@langchain/core/tools';
+import { RunnableConfig } from '@langchain/core/runnables';
 import { z } from 'zod';
+import { getAddress, isAddress } from 'viem';
 import { BaseAgent } from './base-agent';
 import { 
   AgentKit,
@@ -37,9 +39,65 @@ import {
   AgentResponse,
   EventPlan,
   Expense,
+  GroupStore,
   PaymentSplit,
-  PaymentParticipant,
+  SimulationFailedError,
+  SimulationResult,
+  TrackedTransaction,
+  TransactionIntent,
+  UserPreferences,
+  UserPreferencesStore,
 } from '../types';
+import { extractTransactionIntent, isValueMovingAction } from '../transactions/intents';
+import {
+  PendingTransactionStore,
+  parseConfirmationCommand,
+  toTransactionAction,
+} from '../transactions/pending-transactions';
+import { TradeLedger } from '../transactions/trade-ledger';
+import { TransactionTracker, describeTransactionOutcome } from '../transactions/transaction-tracker';
+import { TransactionSimulator, createTransactionSimulator, describeSimulation } from '../transactions/simulator';
+import { createTradeHistoryStore } from '../storage/trade-history';
+import { createGroupStore } from '../storage/groups';
+import { DEFAULT_USER_PREFERENCES, SqliteUserPreferencesStore } from '../storage/user-preferences';
+import { explorerTxUrl, findToken, getNetwork } from '../trading/networks';
+import { TokenTransfers, TransferResult } from '../transactions/transfers';
+import { computeGroupBalances, describeGroupBalances, simplifyDebts } from '../transactions/group-ledger';
+import {
+  PaymentCollector,
+  SplitPaymentEvent,
+  computeSplitShares,
+  describeSplit,
+  paymentRequestUri,
+  splitStatus,
+} from '../transactions/payment-splits';
+import {
+  EventReminderEvent,
+  EventScheduler,
+  EventStatusEvent,
+  describeEvent,
+  eventEndTime,
+  eventStatusAt,
+  findParticipant,
+  formatEventTime,
+  formatTimeUntil,
+  isValidTimeZone,
+  parseReminderOffsets,
+} from '../transactions/event-scheduler';
+import { PriceService, createPriceService } from '../trading/price-service';
+
+export interface UtilityAgentDependencies {
+  pendingTransactions?: PendingTransactionStore;
+  tradeLedger?: TradeLedger;
+  transactionTracker?: TransactionTracker;
+  priceService?: PriceService;
+  simulator?: TransactionSimulator | null; // null disables simulation
+  paymentCollector?: PaymentCollector;
+  transfers?: TokenTransfers; // defaults to the configured wallet on NETWORK_ID
+  groups?: GroupStore; // events, splits and expenses of every group
+  userPreferences?: UserPreferencesStore;
+  eventScheduler?: EventScheduler;
+}
 
 /**
  * Production-grade UtilityAgent with real blockchain operations via Coinbase AgentKit
@@ -53,12 +111,60 @@ export class UtilityAgent extends BaseAgent {
   private reactAgent?: ReturnType<typeof createReactAgent>;
   private memory?: MemorySaver;
   private llmModel?: ChatOpenAI;
-  private eventPlans: Map<string, EventPlan> = new Map();
-  private paymentSplits: Map<string, PaymentSplit> = new Map();
-  private expenses: Map<string, Expense[]> = new Map();
-
-  constructor(config: UtilityAgentConfig) {
+  private groups: GroupStore;
+  private userPreferences: UserPreferencesStore;
+  private eventScheduler: EventScheduler;
+  private pendingTransactions: PendingTransactionStore;
+  private tradeLedger: TradeLedger;
+  private transactionTracker: TransactionTracker;
+  private simulator?: TransactionSimulator;
+  private paymentCollector: PaymentCollector;
+  private transfers: TokenTransfers;
+
+  constructor(config: UtilityAgentConfig, dependencies: UtilityAgentDependencies = {}) {
     super(config);
+    this.groups = dependencies.groups || createGroupStore();
+    this.userPreferences = dependencies.userPreferences || new SqliteUserPreferencesStore();
+    this.eventScheduler = dependencies.eventScheduler || new EventScheduler({
+      store: this.groups,
+      logger: this.logger,
+      reminderOffsetsMinutes: parseReminderOffsets(process.env.EVENT_REMINDER_OFFSETS_MINUTES),
+      pollIntervalMs: Number(process.env.EVENT_SCHEDULER_POLL_INTERVAL_MS) || 60000,
+    });
+    this.eventScheduler.on('reminder', (event: EventReminderEvent) => {
+      this.deliverEventReminder(event).catch(error => this.logger.error('Failed to deliver event reminder', { error, eventId: event.event.id }));
+    });
+    this.eventScheduler.on('status', (event: EventStatusEvent) => this.deliverEventStatus(event));
+    this.pendingTransactions = dependencies.pendingTransactions || new PendingTransactionStore({ logger: this.logger });
+    this.transactionTracker = dependencies.transactionTracker || new TransactionTracker({ logger: this.logger });
+    this.transactionTracker.on('confirmed', (tracked: TrackedTransaction) => this.deliverTransactionEvent('confirmed', tracked));
+    this.transactionTracker.on('failed', (tracked: TrackedTransaction) => this.deliverTransactionEvent('failed', tracked));
+    this.transactionTracker.on('timeout', (tracked: TrackedTransaction) => this.deliverTransactionEvent('timeout', tracked));
+    this.tradeLedger = dependencies.tradeLedger || new TradeLedger({
+      store: createTradeHistoryStore(),
+      logger: this.logger,
+      tracker: this.transactionTracker,
+    });
+    this.simulator = dependencies.simulator === undefined
+      ? createTransactionSimulator(dependencies.priceService || createPriceService(this.logger), this.logger)
+      : dependencies.simulator || undefined;
+    this.transfers = dependencies.transfers || new TokenTransfers({
+      network: getNetwork(process.env.NETWORK_ID),
+      wallet: () => this.walletProvider,
+    });
+    this.paymentCollector = dependencies.paymentCollector || new PaymentCollector({
+      logger: this.logger,
+      network: getNetwork(process.env.NETWORK_ID),
+      pollIntervalMs: Number(process.env.SPLIT_PAYMENT_POLL_INTERVAL_MS) || 15000,
+    });
+    this.paymentCollector.on('payment', (event: SplitPaymentEvent) => {
+      this.groups.saveSplit(event.split)
+        .catch(error => this.logger.error('Failed to save split payment', { error, splitId: event.split.id }))
+        .finally(() => this.deliverSplitPayment(event));
+    });
+    this.paymentCollector.on('completed', (split: PaymentSplit) => {
+      this.notifyConversation(split.conversationId, `🎉 Everyone has paid their share of split ${split.id}${split.description ? ` (${split.description})` : ''}: ${split.totalAmount.toFixed(2)} ${split.currency} collected.`, { splitId: split.id });
+    });
   }
 
   /**
@@ -137,8 +243,8 @@ export class UtilityAgent extends BaseAgent {
         ],
       });
 
-      // Get AgentKit tools for LangChain integration
-      const agentKitTools = await getLangChainTools(this.agentKit);
+      // Get AgentKit tools for LangChain integration, with value-moving actions behind confirmation
+      const agentKitTools = (await getLangChainTools(this.agentKit)).map(tool => this.requireConfirmation(tool));
       
       // Add custom tools
       this.initializeTools();
@@ -155,6 +261,11 @@ export class UtilityAgent extends BaseAgent {
         messageModifier: this.getSystemPrompt(),
       });
 
+      this.transactionTracker.start();
+      await this.resumeOpenSplits();
+      this.paymentCollector.start();
+      this.eventScheduler.start();
+
       await super.initialize();
       this.logger.info('UtilityAgent initialized with createReactAgent and real blockchain capabilities');
     } catch (error) {
@@ -167,59 +278,78 @@ export class UtilityAgent extends BaseAgent {
     this.tools.push(
       new DynamicStructuredTool({
         name: 'create_payment_split',
-        description: 'Create a real payment split with automatic USDC distribution',
+        description: 'Split a bill among participants and request each one\'s share in USDC. Participants pay the payee (the agent wallet unless another address is given); payments are detected on-chain and the split tracks who has paid. Nothing is sent from the agent wallet.',
         schema: z.object({
-          totalAmount: z.number(),
-          participants: z.array(z.string()),
+          method: z.enum(['equal', 'custom', 'percentage']).optional().default('equal')
+            .describe('equal: the total divided evenly; custom: an amount per participant; percentage: a percent of the total per participant'),
+          totalAmount: z.number().positive().optional().describe('Total in USDC; required for equal and percentage splits'),
+          participants: z.array(z.object({
+            address: z.string().describe('Participant wallet address'),
+            amount: z.number().positive().optional().describe('USDC owed, for custom splits'),
+            percent: z.number().positive().optional().describe('Percent of the total owed, for percentage splits'),
+          })).min(1),
+          payee: z.string().optional().describe('Address the participants pay, defaults to the agent wallet'),
           description: z.string().optional(),
         }),
-        func: async ({ totalAmount, participants, description }) => {
+        func: async ({ method, totalAmount, participants, payee, description }, _runManager, config) => {
           try {
-            const splitId = `split_${Date.now()}`;
-            const amountPerPerson = totalAmount / participants.length;
+            const { userId, conversationId } = this.getToolContext(config);
+            const collectTo = payee || this.walletAddress;
+            if (!collectTo || !isAddress(collectTo, { strict: false })) {
+              return `Cannot create payment split: ${payee ? `invalid payee address ${payee}` : 'no payee address and the agent wallet is not initialized'}`;
+            }
+
+            const network = getNetwork(process.env.NETWORK_ID);
+            const usdc = findToken(network, 'USDC');
+            if (!usdc) {
+              return `Cannot create payment split: USDC is not available on ${network.id}`;
+            }
 
-            // Create payment split with real USDC transfers
+            const shares = computeSplitShares(method, participants, totalAmount);
+            const now = new Date();
             const split: PaymentSplit = {
-              id: splitId,
-              totalAmount,
+              id: `split_${Date.now()}`,
+              description,
+              totalAmount: shares.totalAmount,
               currency: 'USDC',
-              participants: participants.map((address: string) => ({
-                address,
-                amount: amountPerPerson,
-                paid: false,
-              })),
-              method: 'equal',
-              status: 'pending'
+              participants: shares.participants,
+              method,
+              status: 'pending',
+              payee: getAddress(collectTo.toLowerCase()),
+              network: network.id,
+              createdBy: userId,
+              conversationId,
+              createdAt: now,
+              updatedAt: now,
             };
 
-            this.paymentSplits.set(splitId, split);
+            // The payee's own share is settled already
+            for (const participant of split.participants) {
+              if (participant.address === split.payee) {
+                participant.paid = true;
+                participant.paidAmount = participant.amount;
+                participant.paidAt = now;
+              }
+            }
+            split.status = splitStatus(split);
+
+            await this.groups.saveSplit(split);
+            if (split.status !== 'completed') {
+              await this.paymentCollector.watch(split);
+            }
 
-            // Execute actual USDC transfers to participants
-            const transfers = await Promise.all(
-              participants.map(async (address: string) => {
-                try {
-                  const transferResult = await this.executeTransfer(address, amountPerPerson.toString(), 'USDC');
-                  return { address, success: true, hash: transferResult };
-                } catch (error) {
-                  return { address, success: false, error: error instanceof Error ? error.message : 'Unknown error' };
-                }
-              })
-            );
+            const requests = split.participants
+              .filter(participant => !participant.paid)
+              .map(participant => `• ${participant.address} pays ${participant.amount.toFixed(2)} USDC: ${paymentRequestUri(network, usdc, split.payee, participant.amount)}`);
 
-            const successfulTransfers = transfers.filter(t => t.success).length;
-            
-            return `Payment split created: ${splitId}
-${description ? `Description: ${description}` : ''}
-Total: ${totalAmount} USDC
-Per person: ${amountPerPerson} USDC
-Participants: ${participants.length}
-Successful transfers: ${successfulTransfers}/${participants.length}
-
-${transfers.map(t => 
-  t.success 
-    ? `✅ ${t.address}: ${amountPerPerson} USDC (TX: ${t.hash})`
-    : `❌ ${t.address}: Failed - ${t.error}`
-).join('\n')}`;
+            return `Payment split created 💸
+
+${describeSplit(split)}
+
+Payment requests (send USDC on ${network.id} to ${split.payee}):
+${requests.join('\n') || 'Nobody owes anything.'}
+
+Payments are detected automatically; this conversation is told as each one arrives.`;
           } catch (error) {
             this.logger.error('Error creating payment split', { error, totalAmount, participants });
             return `Error creating payment split: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -227,6 +357,24 @@ ${transfers.map(t =>
         },
       }),
 
+      new DynamicStructuredTool({
+        name: 'get_payment_split',
+        description: 'Show who has paid and who still owes on a payment split, or list the splits of this conversation',
+        schema: z.object({
+          splitId: z.string().optional().describe('Split to show; omit to list the splits of this conversation'),
+        }),
+        func: async ({ splitId }, _runManager, config) => {
+          const { conversationId } = this.getToolContext(config);
+          if (splitId) {
+            const split = await this.groups.getSplit(splitId);
+            return split && split.conversationId === conversationId ? describeSplit(split) : `Payment split ${splitId} not found.`;
+          }
+
+          const splits = await this.groups.listSplits(conversationId);
+          return splits.length > 0 ? splits.map(split => describeSplit(split)).join('\n\n') : 'No payment splits in this conversation.';
+        },
+      }),
+
       new DynamicStructuredTool({
         name: 'create_shared_wallet',
         description: 'Create a shared wallet for group expenses and management',
@@ -235,7 +383,7 @@ ${transfers.map(t =>
           participants: z.array(z.string()),
           initialFunding: z.number().optional().default(0),
         }),
-        func: async ({ groupName, participants, initialFunding }) => {
+        func: async ({ groupName, participants, initialFunding }, _runManager, config) => {
           try {
             if (!this.walletProvider) {
               throw new Error('Wallet provider not initialized');
@@ -244,15 +392,26 @@ ${transfers.map(t =>
             // Use the stored wallet address
             const walletAddress = this.walletAddress;
 
-            // If initial funding is provided, transfer from main wallet
+            // If initial funding is provided, propose a transfer from the main wallet
             let fundingResult = '';
             if (initialFunding > 0 && walletAddress) {
-              try {
-                const result = await this.executeTransfer(walletAddress, initialFunding.toString(), 'USDC');
-                fundingResult = `\nInitial funding: ${initialFunding} USDC (TX: ${result})`;
-              } catch (error) {
-                fundingResult = `\nInitial funding failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+              const origin = this.getProposalContext(config);
+              const simulation = await this.simulateTransfers([{ to: walletAddress, amount: initialFunding }], 'USDC', origin.userId);
+              if (simulation && !simulation.success) {
+                return `Cannot fund shared wallet "${groupName}": the transfer would fail (${simulation.revertReason})`;
               }
+
+              const proposal = this.pendingTransactions.propose({
+                ...origin,
+                action: 'create_shared_wallet',
+                summary: `Fund shared wallet "${groupName}" (${walletAddress}) with ${initialFunding} USDC`,
+                metadata: { simulation },
+                execute: async () => {
+                  const transfer = await this.executeTransfer(walletAddress, initialFunding, 'USDC', origin);
+                  return `Initial funding: ${initialFunding} USDC (TX: ${transfer.hash})`;
+                },
+              });
+              fundingResult = `\n${this.describeProposal(proposal.id, proposal.summary, simulation)}`;
             }
 
             const sharedWallet = {
@@ -284,27 +443,48 @@ Use the wallet address for group transactions and expense tracking.`;
         schema: z.object({
           title: z.string(),
           description: z.string(),
-          dateTime: z.string(),
+          dateTime: z.string().describe('Start, as an ISO 8601 date-time with offset'),
+          endTime: z.string().optional().describe('End, as an ISO 8601 date-time with offset; defaults to three hours after the start'),
           participants: z.array(z.string()),
           budget: z.number().optional(),
           location: z.string().optional(),
         }),
-        func: async ({ title, description, dateTime, participants, budget, location }) => {
+        func: async ({ title, description, dateTime, endTime, participants, budget, location }, _runManager, config) => {
           try {
+            const { userId, conversationId } = this.getToolContext(config);
+            const start = new Date(dateTime);
+            const end = endTime ? new Date(endTime) : undefined;
+            if (isNaN(start.getTime()) || (end && isNaN(end.getTime()))) {
+              return `Cannot plan event: invalid date ${isNaN(start.getTime()) ? dateTime : endTime}`;
+            }
+            if (end && end <= start) {
+              return 'Cannot plan event: the end time must be after the start';
+            }
+
+            const now = new Date();
             const eventId = `event_${Date.now()}`;
             const event: EventPlan = {
               id: eventId,
+              conversationId,
+              createdBy: userId,
               title,
               description,
-              dateTime: new Date(dateTime),
+              dateTime: start,
+              endTime: end,
               location,
               participants,
               budget,
               expenses: [],
-              status: 'planning'
+              status: 'planning',
+              rsvps: {},
+              remindersSent: [],
             };
+            event.status = eventStatusAt(event, now);
+            // Reminders whose time has already passed are skipped rather than sent at once
+            event.remindersSent = this.eventScheduler.remindersDue(event, now);
 
-            this.eventPlans.set(eventId, event);
+            await this.groups.saveEvent(event);
+            const { timeZone } = await this.getUserPreferences(userId);
 
             // Create shared wallet for event expenses if budget is specified
             let walletInfo = '';
@@ -324,7 +504,7 @@ Participants can contribute to this address for event expenses.`;
 📅 Event: ${title}
 📝 Description: ${description}
 📍 Location: ${location || 'TBD'}
-🗓️ Date: ${new Date(dateTime).toLocaleString()}
+🗓️ Date: ${formatEventTime(start, timeZone)} → ${formatEventTime(eventEndTime(event), timeZone)}
 👥 Participants: ${participants.length} people
 💰 Budget: ${budget ? `${budget} USDC` : 'Not specified'}
 
@@ -332,6 +512,7 @@ Event ID: ${eventId}
 ${walletInfo}
 
 Next steps:
+- Participants reply with "rsvp_event" (yes, no or maybe); reminders go to this conversation before it starts
 - Use "add_expense" to track event-related costs
 - Use "split_expense" to divide costs among participants
 - All transactions will be recorded on blockchain for transparency`;
@@ -342,22 +523,162 @@ Next steps:
         },
       }),
 
+      new DynamicStructuredTool({
+        name: 'rsvp_event',
+        description: 'Record a participant\'s RSVP (yes, no or maybe) to an event of this conversation',
+        schema: z.object({
+          eventId: z.string(),
+          response: z.enum(['yes', 'no', 'maybe']),
+          participant: z.string().optional().describe('Participant the RSVP is for; defaults to the sender'),
+        }),
+        func: async ({ eventId, response, participant }, _runManager, config) => {
+          try {
+            const { userId, conversationId } = this.getToolContext(config);
+            const event = await this.groups.getEvent(eventId);
+            if (!event || event.conversationId !== conversationId) {
+              return `Event ${eventId} not found in this conversation.`;
+            }
+            if (event.status === 'completed' || event.status === 'cancelled') {
+              return `Event ${eventId} is ${event.status}; RSVPs are closed.`;
+            }
+
+            // Someone not on the list joins by answering
+            const who = findParticipant(event, participant || userId) ?? participant ?? userId;
+            if (!event.participants.includes(who)) {
+              event.participants.push(who);
+            }
+            event.rsvps[who] = response;
+            await this.groups.saveEvent(event);
+
+            const { timeZone } = await this.getUserPreferences(userId);
+            return `RSVP recorded: ${who} → ${response}
+
+${describeEvent(event, timeZone)}`;
+          } catch (error) {
+            this.logger.error('Error recording RSVP', { error, eventId });
+            return `Error recording RSVP: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'update_event_status',
+        description: 'Confirm or cancel an event. Only its organizer can; events start and end on their own at their scheduled times.',
+        schema: z.object({
+          eventId: z.string(),
+          status: z.enum(['confirmed', 'cancelled']),
+        }),
+        func: async ({ eventId, status }, _runManager, config) => {
+          try {
+            const { userId, conversationId } = this.getToolContext(config);
+            const event = await this.groups.getEvent(eventId);
+            if (!event || event.conversationId !== conversationId) {
+              return `Event ${eventId} not found in this conversation.`;
+            }
+            if (event.createdBy.toLowerCase() !== userId.toLowerCase()) {
+              return `Only the organizer (${event.createdBy}) can ${status === 'confirmed' ? 'confirm' : 'cancel'} ${event.title}.`;
+            }
+
+            const allowed: EventPlan['status'][] = status === 'confirmed' ? ['planning'] : ['planning', 'confirmed', 'in_progress'];
+            if (!allowed.includes(event.status)) {
+              return `Cannot mark ${event.title} ${status}: it is ${event.status}.`;
+            }
+
+            event.status = status;
+            await this.groups.saveEvent(event);
+
+            const { timeZone } = await this.getUserPreferences(userId);
+            return `${status === 'confirmed' ? '✅ Event confirmed' : '🚫 Event cancelled'}
+
+${describeEvent(event, timeZone)}`;
+          } catch (error) {
+            this.logger.error('Error updating event status', { error, eventId, status });
+            return `Error updating event status: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'list_upcoming_events',
+        description: 'Summarize the events of this conversation that have not ended yet, soonest first, with RSVPs and times in the sender\'s time zone',
+        schema: z.object({
+          includePast: z.boolean().optional().default(false).describe('Also list completed and cancelled events'),
+        }),
+        func: async ({ includePast }, _runManager, config) => {
+          try {
+            const { userId, conversationId } = this.getToolContext(config);
+            const now = new Date();
+            const events = (await this.groups.listEvents(conversationId))
+              .filter(event => includePast || (event.status !== 'completed' && event.status !== 'cancelled'));
+            if (events.length === 0) {
+              return `No ${includePast ? '' : 'upcoming '}events in this conversation.`;
+            }
+
+            const { timeZone } = await this.getUserPreferences(userId);
+            return `Events 📅 (times in ${isValidTimeZone(timeZone) ? timeZone : 'UTC'})
+
+${events.map(event => {
+  const startsIn = event.dateTime > now && event.status !== 'cancelled' ? `\n⏰ Starts in ${formatTimeUntil(event.dateTime.getTime() - now.getTime())}` : '';
+  return `${describeEvent(event, timeZone)}${startsIn}`;
+}).join('\n\n')}`;
+          } catch (error) {
+            this.logger.error('Error listing events', { error });
+            return `Error listing events: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
+      new DynamicStructuredTool({
+        name: 'set_event_reminders',
+        description: 'Turn event reminders on or off for the sender and set the time zone their event times are shown in',
+        schema: z.object({
+          enabled: z.boolean().optional().describe('Whether to be included in event reminders'),
+          timeZone: z.string().optional().describe('IANA time zone, e.g. America/New_York'),
+        }),
+        func: async ({ enabled, timeZone }, _runManager, config) => {
+          try {
+            const { userId } = this.getToolContext(config);
+            if (timeZone && !isValidTimeZone(timeZone)) {
+              return `Unknown time zone: ${timeZone}. Use an IANA name such as Europe/London.`;
+            }
+
+            const preferences = await this.getUserPreferences(userId);
+            const updated: UserPreferences = {
+              ...preferences,
+              timeZone: timeZone ?? preferences.timeZone,
+              notifications: { ...preferences.notifications, eventReminders: enabled ?? preferences.notifications.eventReminders },
+            };
+            await this.userPreferences.save(userId, updated);
+
+            return `Event reminders ${updated.notifications.eventReminders ? 'on' : 'off'}; times shown in ${updated.timeZone}.`;
+          } catch (error) {
+            this.logger.error('Error saving reminder preferences', { error });
+            return `Error saving reminder preferences: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          }
+        },
+      }),
+
       new DynamicStructuredTool({
         name: 'add_expense',
-        description: 'Add and track an expense with real blockchain transaction',
+        description: 'Add an expense to the group ledger: who paid and who it is shared with. Balances are netted across all of the group\'s expenses.',
         schema: z.object({
           eventId: z.string().optional(),
           description: z.string(),
-          amount: z.number(),
+          amount: z.number().positive(),
           paidBy: z.string(),
-          sharedWith: z.array(z.string()),
+          sharedWith: z.array(z.string()).min(1),
           category: z.string().optional().default('general'),
         }),
-        func: async ({ eventId, description, amount, paidBy, sharedWith, category }) => {
+        func: async ({ eventId, description, amount, paidBy, sharedWith, category }, _runManager, config) => {
           try {
-            const expenseId = `expense_${Date.now()}`;
+            const { conversationId } = this.getToolContext(config);
+            if (eventId && (await this.groups.getEvent(eventId))?.conversationId !== conversationId) {
+              return `Event ${eventId} not found in this conversation.`;
+            }
             const expense: Expense = {
-              id: expenseId,
+              id: `expense_${Date.now()}`,
+              conversationId,
+              eventId,
               description,
               amount,
               currency: 'USDC',
@@ -366,47 +687,21 @@ Next steps:
               category,
               timestamp: new Date()
             };
+            await this.groups.addExpense(expense);
 
-            // Store expense record
-            if (eventId) {
-              const event = this.eventPlans.get(eventId);
-              if (event) {
-                event.expenses.push(expense);
-              }
-            }
-
-            const groupExpenses = this.expenses.get(paidBy) || [];
-            groupExpenses.push(expense);
-            this.expenses.set(paidBy, groupExpenses);
-
-            // Calculate split amount
-            const splitAmount = amount / sharedWith.length;
-
-            // Create reimbursement plan
-            const reimbursements = sharedWith
-              .filter((addr: string) => addr !== paidBy)
-              .map((addr: string) => ({
-                from: addr,
-                to: paidBy,
-                amount: splitAmount,
-                description: `Reimbursement for: ${description}`
-              }));
-
-            return `Expense added and tracked on blockchain! 💳
+            return `Expense added 💳
 
 📄 Description: ${description}
 💰 Amount: ${amount} USDC
 👤 Paid by: ${paidBy}
 👥 Shared with: ${sharedWith.length} people
 🏷️ Category: ${category}
-📊 Per person: ${splitAmount.toFixed(2)} USDC
+📊 Per person: ${(amount / sharedWith.length).toFixed(2)} USDC
 
-Reimbursement needed:
-${reimbursements.map((r: any) => 
-  `• ${r.from} owes ${r.to}: ${r.amount.toFixed(2)} USDC`
-).join('\n')}
+Group balances${eventId ? ` for ${eventId}` : ''}:
+${describeGroupBalances(computeGroupBalances(await this.groups.listExpenses(conversationId, eventId)), 'USDC')}
 
-Use "process_reimbursements" to execute automatic USDC transfers.`;
+Use "process_reimbursements" to settle up in one batch.`;
           } catch (error) {
             this.logger.error('Error adding expense', { error, description, amount });
             return `Error adding expense: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -416,72 +711,72 @@ Use "process_reimbursements" to execute automatic USDC transfers.`;
 
       new DynamicStructuredTool({
         name: 'process_reimbursements',
-        description: 'Process automatic USDC reimbursements for shared expenses',
+        description: 'Settle the group\'s balances with the fewest USDC transfers, netted across all of its expenses, as one confirmable batch from the shared wallet',
         schema: z.object({
-          expenseId: z.string().optional(),
-          eventId: z.string().optional(),
+          eventId: z.string().optional().describe('Settle only the expenses of this event'),
         }),
-        func: async ({ expenseId, eventId }) => {
+        func: async ({ eventId }, _runManager, config) => {
           try {
-            let expenses: Expense[] = [];
-
-            if (eventId) {
-              const event = this.eventPlans.get(eventId);
-              if (event) {
-                expenses = event.expenses;
-              }
-            } else {
-              // Get all expenses
-              expenses = Array.from(this.expenses.values()).flat();
+            const origin = this.getProposalContext(config);
+            const settlements = simplifyDebts(computeGroupBalances(await this.groups.listExpenses(origin.conversationId, eventId)));
+            if (settlements.length === 0) {
+              return 'Everyone is settled up; no reimbursements to process.';
             }
 
-            if (expenseId) {
-              expenses = expenses.filter(e => e.id === expenseId);
+            const total = settlements.reduce((sum, settlement) => sum + settlement.amount, 0);
+            const simulation = await this.simulateTransfers(settlements.map(({ to, amount }) => ({ to, amount })), 'USDC', origin.userId);
+            if (simulation && !simulation.success) {
+              return `Cannot process reimbursements: the transfers would fail (${simulation.revertReason})`;
             }
 
-            const reimbursements = [];
-            for (const expense of expenses) {
-              const splitAmount = expense.amount / expense.sharedWith.length;
-              
-              for (const participant of expense.sharedWith) {
-                if (participant !== expense.paidBy) {
+            const proposal = this.pendingTransactions.propose({
+              ...origin,
+              action: 'process_reimbursements',
+              summary: `Settle group balances: ${settlements.length} USDC transfer${settlements.length === 1 ? '' : 's'} totalling ${total.toFixed(2)} USDC`,
+              metadata: { eventId, settlements, simulation },
+              execute: async () => {
+                const results: Array<{ from: string; to: string; amount: number; success: boolean; txHash?: string; error?: string }> = [];
+                for (const settlement of settlements) {
                   try {
-                    const txHash = await this.executeTransfer(expense.paidBy, splitAmount.toString(), 'USDC');
-                    reimbursements.push({
-                      from: participant,
-                      to: expense.paidBy,
-                      amount: splitAmount,
-                      txHash,
-                      success: true
-                    });
+                    const { hash: txHash } = await this.executeTransfer(settlement.to, settlement.amount, 'USDC', origin);
+                    // A settlement is the debtor paying on the creditor's behalf, which nets both to zero
+                    results.push({ ...settlement, txHash, success: true });
+                    await this.groups.addExpense({
+                      id: `settlement_${Date.now()}_${results.length}`,
+                      conversationId: origin.conversationId,
+                      eventId,
+                      description: `Settlement ${settlement.from} → ${settlement.to}`,
+                      amount: settlement.amount,
+                      currency: 'USDC',
+                      paidBy: settlement.from,
+                      sharedWith: [settlement.to],
+                      category: 'settlement',
+                      timestamp: new Date(),
+                    }).catch(error => this.logger.error('Failed to record settlement', { error, settlement, txHash }));
                   } catch (error) {
-                    reimbursements.push({
-                      from: participant,
-                      to: expense.paidBy,
-                      amount: splitAmount,
-                      error: error instanceof Error ? error.message : 'Unknown error',
-                      success: false
-                    });
+                    results.push({ ...settlement, error: error instanceof Error ? error.message : 'Unknown error', success: false });
                   }
                 }
-              }
-            }
 
-            const successful = reimbursements.filter(r => r.success).length;
-            const total = reimbursements.length;
+                const successful = results.filter(r => r.success).length;
 
-            return `Reimbursement processing complete! 💸
+                return `Reimbursement processing complete! 💸
 
-Processed: ${successful}/${total} transfers
-Total expenses: ${expenses.length}
+Processed: ${successful}/${results.length} transfers
 
-${reimbursements.map(r => 
+${results.map(r => 
   r.success 
     ? `✅ ${r.from} → ${r.to}: ${r.amount.toFixed(2)} USDC (TX: ${r.txHash})`
     : `❌ ${r.from} → ${r.to}: ${r.amount.toFixed(2)} USDC - ${r.error}`
-).join('\n')}
+).join('\n')}`;
+              },
+            });
+
+            return `Reimbursements ready 💸
 
-All successful transactions are recorded on Base blockchain for full transparency.`;
+${settlements.map(r => `• ${r.from} → ${r.to}: ${r.amount.toFixed(2)} USDC`).join('\n')}
+
+${this.describeProposal(proposal.id, proposal.summary, simulation)}`;
           } catch (error) {
             this.logger.error('Error processing reimbursements', { error });
             return `Error processing reimbursements: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -491,24 +786,25 @@ All successful transactions are recorded on Base blockchain for full transparenc
 
       new DynamicStructuredTool({
         name: 'get_group_balances',
-        description: 'Get real-time balances for group wallets and shared funds',
+        description: 'Show who owes whom in the group, netted across all of its expenses with the fewest transfers to settle up, and optionally live balances of wallets',
         schema: z.object({
-          addresses: z.array(z.string()).optional(),
+          eventId: z.string().optional().describe('Only the expenses of this event'),
+          addresses: z.array(z.string()).optional().describe('Wallets whose live USDC balance to include'),
         }),
-        func: async ({ addresses }) => {
+        func: async ({ eventId, addresses }, _runManager, config) => {
           try {
-            if (!this.walletProvider) {
-              throw new Error('Wallet provider not initialized');
+            const { conversationId } = this.getToolContext(config);
+            const ledger = `Group Balance Summary 💰
+
+${describeGroupBalances(computeGroupBalances(await this.groups.listExpenses(conversationId, eventId)), 'USDC')}`;
+            if (!addresses || addresses.length === 0) {
+              return ledger;
             }
 
-            const walletsToCheck = addresses || [this.walletAddress].filter(Boolean);
-            
             const balanceResults = await Promise.all(
-              walletsToCheck.map(async (address: string) => {
+              addresses.map(async (address: string) => {
                 try {
-                  // Note: This would need to be implemented with the actual wallet balance checking
-                  // For now, using a placeholder that would integrate with AgentKit's balance checking
-                  const balance = await this.getWalletBalance(address);
+                  const { balance } = await this.transfers.balanceOf(address, 'USDC');
                   return {
                     address,
                     balance,
@@ -527,13 +823,14 @@ All successful transactions are recorded on Base blockchain for full transparenc
             const successful = balanceResults.filter(r => r.success);
             const failed = balanceResults.filter(r => !r.success);
 
-            return `Group Balance Summary 💰
+            return `${ledger}
 
+Wallet balances:
 ${successful.map(r => `📍 ${r.address}: ${r.balance} USDC`).join('\n')}
 
 ${failed.length > 0 ? `\nFailed to fetch:\n${failed.map(r => `❌ ${r.address}: ${r.error}`).join('\n')}` : ''}
 
-All balances are live from Base blockchain.`;
+All balances are live from ${this.transfers.network.id}.`;
           } catch (error) {
             this.logger.error('Error getting group balances', { error });
             return `Error getting group balances: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -544,51 +841,249 @@ All balances are live from Base blockchain.`;
   }
 
   /**
-   * Execute real USDC transfer using AgentKit
+   * Wrap a value-moving AgentKit tool so calls become proposals that only execute once
+   * confirmed. Calls that would revert are refused up front and simulated again on confirm.
    */
-  private async executeTransfer(to: string, amount: string, token: string = 'USDC'): Promise<string> {
-    if (!this.agentKit) {
-      throw new Error('AgentKit not initialized');
+  private requireConfirmation(tool: StructuredTool): StructuredTool {
+    if (!isValueMovingAction(tool.name)) {
+      return tool;
     }
 
-    const prompt = `Transfer ${amount} ${token} to ${to}`;
-    
-    try {
-      const response = await this.processWithLLM(prompt, {
-        userId: 'system',
-        conversationId: 'utility-transfer',
-        messageHistory: [],
-      });
+    return new DynamicStructuredTool({
+      name: tool.name,
+      description: tool.description,
+      schema: tool.schema,
+      func: async (args: Record<string, unknown>, _runManager, config) => {
+        const origin = this.getProposalContext(config);
+        const network = getNetwork(process.env.NETWORK_ID);
+        const intent = extractTransactionIntent(tool.name, args, origin.userId, network);
+        const simulation = intent ? await this.simulate(intent) : undefined;
+        if (simulation && !simulation.success) {
+          return JSON.stringify({
+            status: 'simulation_failed',
+            executed: false,
+            action: tool.name,
+            reason: simulation.revertReason,
+          });
+        }
 
-      // Extract transaction hash from response (this would need to be implemented based on actual AgentKit response format)
-      const txHashMatch = response.match(/0x[a-fA-F0-9]{64}/);
-      return txHashMatch ? txHashMatch[0] : response;
-    } catch (error) {
-      this.logger.error('Transfer failed', { to, amount, token, error });
-      throw error;
+        const proposal = this.pendingTransactions.propose({
+          ...origin,
+          action: tool.name,
+          summary: `${tool.name.split('_').slice(1).join(' ')}: ${JSON.stringify(args)}`,
+          metadata: { simulation },
+          execute: async () => {
+            const run = async () => {
+              const result = String(await tool.invoke(args));
+              if (/^error/i.test(result)) {
+                throw new Error(result);
+              }
+              return result;
+            };
+            if (!intent) return run();
+
+            await this.assertSimulationSucceeds(intent);
+            const { result } = await this.tradeLedger.execute(
+              {
+                ...origin,
+                kind: intent.kind,
+                action: tool.name,
+                network: network.id,
+                fromToken: intent.fromToken,
+                toToken: intent.toToken,
+                amountIn: intent.amount,
+                recipient: intent.recipient,
+                params: args,
+              },
+              run,
+              this.walletProvider
+            );
+            return result;
+          },
+        });
+
+        return JSON.stringify({
+          status: 'awaiting_confirmation',
+          executed: false,
+          proposalId: proposal.id,
+          summary: proposal.summary,
+          preview: simulation ? describeSimulation(simulation, network.nativeSymbol) : undefined,
+          expiresAt: proposal.expiresAt.toISOString(),
+          instructions: `Ask the user to reply "confirm ${proposal.id}" to execute or "cancel ${proposal.id}" to discard.`,
+        });
+      },
+    });
+  }
+
+  /**
+   * Report a payment confirming, failing or timing out back into its conversation
+   */
+  private deliverTransactionEvent(kind: 'confirmed' | 'failed' | 'timeout', tracked: TrackedTransaction): void {
+    if (tracked.agentName !== this.config.name) return;
+    this.notifyConversation(tracked.conversationId, describeTransactionOutcome(kind, tracked), { txHash: tracked.hash, tradeId: tracked.tradeId });
+  }
+
+  /**
+   * Pick up watching the splits still owed money from before a restart
+   */
+  private async resumeOpenSplits(): Promise<void> {
+    const open = await this.groups.listOpenSplits();
+    for (const split of open) {
+      try {
+        await this.paymentCollector.watch(split);
+      } catch (error) {
+        this.logger.warn('Could not resume watching a payment split', { error, splitId: split.id });
+      }
+    }
+    if (open.length > 0) {
+      this.logger.info('Resumed watching open payment splits', { count: open.length });
     }
   }
 
   /**
-   * Get wallet balance using AgentKit
+   * Preferences of a user, or the defaults if they have not set any
+   */
+  private async getUserPreferences(userId: string): Promise<UserPreferences> {
+    return (await this.userPreferences.get(userId)) ?? DEFAULT_USER_PREFERENCES;
+  }
+
+  /**
+   * Remind an event's group that it is coming up. Only participants who have not declined
+   * and have event reminders on are included, each shown the start in their own time zone.
    */
-  private async getWalletBalance(address: string): Promise<string> {
-    if (!this.walletProvider) {
-      throw new Error('Wallet provider not initialized');
+  private async deliverEventReminder({ event, minutesBefore }: EventReminderEvent): Promise<void> {
+    const attending = event.participants.filter(participant => event.rsvps[participant] !== 'no');
+    const byTimeZone: Map<string, string[]> = new Map();
+    for (const participant of attending) {
+      const { notifications, timeZone } = await this.getUserPreferences(participant);
+      if (!notifications.eventReminders) continue;
+      const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+      byTimeZone.set(zone, [...(byTimeZone.get(zone) || []), participant]);
     }
+    if (byTimeZone.size === 0) {
+      this.logger.info('Event reminder skipped, no participant wants reminders', { eventId: event.id });
+      return;
+    }
+
+    const pending = event.participants.filter(participant => !event.rsvps[participant]);
+    const times = Array.from(byTimeZone.entries())
+      .map(([timeZone, participants]) => `🕒 ${formatEventTime(event.dateTime, timeZone)}: ${participants.join(', ')}`);
+    this.notifyConversation(
+      event.conversationId,
+      `⏰ Reminder: ${event.title} starts in ${formatTimeUntil(event.dateTime.getTime() - Date.now())}
+📍 ${event.location || 'TBD'}
+${times.join('\n')}${pending.length > 0 ? `\nStill to RSVP: ${pending.join(', ')}` : ''}`,
+      { eventId: event.id, minutesBefore }
+    );
+  }
 
+  /**
+   * Tell an event's group that it has started or ended
+   */
+  private deliverEventStatus({ event }: EventStatusEvent): void {
+    if (event.status === 'in_progress') {
+      this.notifyConversation(event.conversationId, `🎉 ${event.title} is starting now!`, { eventId: event.id, status: event.status });
+    } else if (event.status === 'completed') {
+      const settle = event.expenses.length > 0 ? ` Settle its expenses with process_reimbursements for event ${event.id}.` : '';
+      this.notifyConversation(event.conversationId, `✅ ${event.title} has ended.${settle}`, { eventId: event.id, status: event.status });
+    }
+  }
+
+  /**
+   * Tell a split's conversation that a participant's payment arrived
+   */
+  private deliverSplitPayment({ split, participant, amount, txHash }: SplitPaymentEvent): void {
+    const explorer = explorerTxUrl(getNetwork(split.network), txHash);
+    const outstanding = participant.paid ? '' : ` (${(participant.amount - (participant.paidAmount ?? 0)).toFixed(2)} ${split.currency} still owed)`;
+    this.notifyConversation(
+      split.conversationId,
+      `💸 ${participant.address} paid ${amount.toFixed(2)} ${split.currency} towards split ${split.id}${outstanding}\n${explorer}`,
+      { splitId: split.id, txHash, status: split.status }
+    );
+  }
+
+  private getProposalContext(config?: RunnableConfig) {
+    const { userId, conversationId } = this.getToolContext(config);
+    return { agentName: this.config.name, userId, conversationId };
+  }
+
+  private describeProposal(id: string, summary: string, simulation?: SimulationResult): string {
+    const preview = simulation ? `\nPreview: ${describeSimulation(simulation, getNetwork(process.env.NETWORK_ID).nativeSymbol)}` : '';
+    return `⏳ Awaiting confirmation (${id}): ${summary}${preview}
+Reply "confirm ${id}" to execute or "cancel ${id}" to discard.`;
+  }
+
+  /**
+   * Dry-run a transaction from the agent wallet; undefined when simulation is disabled
+   */
+  private async simulate(intent: TransactionIntent): Promise<SimulationResult | undefined> {
+    if (!this.simulator || !this.walletAddress) {
+      return undefined;
+    }
+    return this.simulator.simulate(intent, this.walletAddress);
+  }
+
+  private async assertSimulationSucceeds(intent: TransactionIntent): Promise<void> {
+    const simulation = await this.simulate(intent);
+    if (simulation && !simulation.success) {
+      throw new SimulationFailedError(`Simulation failed: ${simulation.revertReason}`, simulation, { action: intent.action });
+    }
+  }
+
+  /**
+   * Dry-run a batch of transfers that will be sent one after another
+   */
+  private async simulateTransfers(
+    transfers: Array<{ to: string; amount: number }>,
+    token: string,
+    userId: string
+  ): Promise<SimulationResult | undefined> {
+    if (!this.simulator || !this.walletAddress) {
+      return undefined;
+    }
+    return this.simulator.simulateBatch(
+      transfers.map(t => this.transferIntent(t.to, t.amount, token, userId)),
+      this.walletAddress
+    );
+  }
+
+  private transferIntent(to: string, amount: number, token: string, userId: string): TransactionIntent {
+    return { kind: 'transfer', action: 'executeTransfer', fromToken: token, amount, recipient: to, userId };
+  }
+
+  /**
+   * Send a token transfer from the agent wallet, recorded in the trade ledger
+   */
+  private async executeTransfer(
+    to: string,
+    amount: number,
+    token: string,
+    origin: { agentName: string; userId: string; conversationId: string }
+  ): Promise<TransferResult> {
     try {
-      // This would use AgentKit's balance checking functionality
-      const prompt = `Check balance for wallet ${address}`;
-      const response = await this.processWithLLM(prompt, {
-        userId: 'system',
-        conversationId: 'balance-check',
-        messageHistory: [],
-      });
+      await this.assertSimulationSucceeds(this.transferIntent(to, amount, token, origin.userId));
 
-      return response;
+      let transfer: TransferResult | undefined;
+      await this.tradeLedger.execute(
+        {
+          ...origin,
+          kind: 'transfer',
+          action: 'executeTransfer',
+          network: this.transfers.network.id,
+          fromToken: token,
+          amountIn: amount,
+          recipient: to,
+          params: { to, amount, token },
+        },
+        async () => {
+          transfer = await this.transfers.transfer(to, amount, token);
+          return `Transferred ${transfer.amount} ${transfer.token} to ${transfer.to}. Transaction hash: ${transfer.hash}`;
+        },
+        this.walletProvider
+      );
+      return transfer!;
     } catch (error) {
-      this.logger.error('Balance check failed', { address, error });
+      this.logger.error('Transfer failed', { to, amount, token, error });
       throw error;
     }
   }
@@ -602,11 +1097,18 @@ All balances are live from Base blockchain.`;
       const messageContent = typeof message.content === 'string' ? message.content : '';
       const threadId = context.conversationId || 'default';
 
+      const command = parseConfirmationCommand(messageContent);
+      if (command) {
+        return await this.pendingTransactions.respond(command, context, 'utility-agent');
+      }
+
+      const runStartedAt = new Date();
+
       // Use React Agent to process the message with proper LLM + tool integration
       let response = '';
       const stream = await this.reactAgent.stream(
         { messages: [new HumanMessage(messageContent)] },
-        { configurable: { thread_id: threadId } }
+        { configurable: { thread_id: threadId, user_id: context.userId } }
       );
 
       for await (const chunk of stream) {
@@ -618,6 +1120,8 @@ All balances are live from Base blockchain.`;
         }
       }
 
+      const proposals = this.pendingTransactions.createdSince(this.config.name, threadId, runStartedAt);
+
       return {
         message: response.trim() || 'I can help you with event planning, payment splitting, and group coordination. What would you like to organize?',
         metadata: { 
@@ -626,7 +1130,8 @@ All balances are live from Base blockchain.`;
           networkId: process.env.NETWORK_ID || null,
           usedReactAgent: true
         },
-        actions: []
+        requiresConfirmation: proposals.length > 0,
+        actions: proposals.map(toTransactionAction)
       };
     } catch (error) {
       this.logger.error('Error in handleMessage', { error });
@@ -646,6 +1151,11 @@ All balances are live from Base blockchain.`;
       'party', 'dinner', 'trip', 'gather', 'meet', 'celebrate'
     ];
     
+    const command = parseConfirmationCommand(content);
+    if (command && this.pendingTransactions.get(command.id)?.agentName === this.config.name) {
+      return true;
+    }
+
     return utilityKeywords.some(keyword => content.includes(keyword));
   }
 
@@ -733,10 +1243,10 @@ All balances are live from Base blockchain.`;
     return `You are UtilityAgent, a production-grade group coordination and payment specialist powered by Coinbase AgentKit.
 
 Your capabilities include:
-- Real event planning with blockchain expense tracking
-- Automatic payment splitting using USDC transfers
+- Real event planning with blockchain expense tracking, RSVPs and reminders
+- Payment splits (equal, custom amounts or percentages) that request each participant's share and track incoming USDC payments
 - Shared wallet creation and management
-- Group expense tracking and reimbursements
+- Group expense tracking with balances netted across expenses and settled in as few transfers as possible
 - Real-time balance checking across multiple wallets
 - Transparent on-chain transaction records
 
@@ -755,8 +1265,23 @@ Guidelines:
 5. Ensure all participants can verify transactions
 6. Use USDC as the default currency for stability
 7. Provide clear summaries of all financial activities
+8. Payments are never sent directly: payment tools return a proposal ID. Ask the user to reply "confirm <id>" (or "cancel <id>") before anything is executed
+9. A sent payment is only submitted, not final: the conversation gets a follow-up with the explorer link once it confirms or fails
+10. Payment splits collect money rather than pay it out: create_payment_split gives each participant a payment request, and get_payment_split shows who has paid. Never send the shares from the agent wallet
+11. Group expenses are netted: get_group_balances shows who owes whom and the minimal transfers; process_reimbursements settles them in one batch that the user confirms
+12. Events start and end on their own at their scheduled times and the group is reminded beforehand. Record RSVPs with rsvp_event, let the organizer confirm or cancel with update_event_status, and use list_upcoming_events for what is coming up. Pass plan_event times as ISO 8601 with the sender's offset
 
 Current network: ${process.env.NETWORK_ID || 'base-sepolia'}
 You facilitate real group activities with actual blockchain-based payments and coordination.`;
   }
+
+  /**
+   * Stop background jobs and cleanup resources
+   */
+  public async cleanup(): Promise<void> {
+    this.transactionTracker.stop();
+    this.paymentCollector.stop();
+    this.eventScheduler.stop();
+    await super.cleanup();
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { AllocationProfile, AllocationProfileStore } from '../types';
+import { Migration, SqliteDatabase, openDatabase, runMigrations } from './database';
+
+type AllocationProfileRow = Record<string, unknown>;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_allocation_profiles',
+    up: `
+      CREATE TABLE allocation_profiles (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        conversation_id TEXT NOT NULL,
+        targets TEXT NOT NULL,
+        tolerance REAL NOT NULL,
+        max_slippage REAL NOT NULL,
+        cadence TEXT,
+        day_of_week INTEGER,
+        hour_utc INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        next_run_at TEXT,
+        last_run_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX allocation_profiles_user ON allocation_profiles (user_id, status);
+      CREATE INDEX allocation_profiles_due ON allocation_profiles (status, next_run_at);
+    `,
+  },
+];
+
+/**
+ * Target allocation profiles kept in SQLite so schedules survive restarts
+ */
+export class SqliteAllocationProfileStore implements AllocationProfileStore {
+  private db: SqliteDatabase;
+
+  constructor(db: SqliteDatabase = openDatabase()) {
+    this.db = db;
+    runMigrations(this.db, 'allocation_profiles', MIGRATIONS);
+  }
+
+  async save(profile: AllocationProfile): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO allocation_profiles (
+        id, user_id, conversation_id, targets, tolerance, max_slippage, cadence, day_of_week, hour_utc,
+        status, next_run_at, last_run_at, created_at, updated_at
+      ) VALUES (
+        @id, @user_id, @conversation_id, @targets, @tolerance, @max_slippage, @cadence, @day_of_week, @hour_utc,
+        @status, @next_run_at, @last_run_at, @created_at, @updated_at
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        status = excluded.status,
+        next_run_at = excluded.next_run_at,
+        last_run_at = excluded.last_run_at,
+        updated_at = excluded.updated_at
+    `).run(this.toRow(profile));
+  }
+
+  async get(id: string): Promise<AllocationProfile | undefined> {
+    const row = this.db.prepare('SELECT * FROM allocation_profiles WHERE id = ?').get(id);
+    return row ? this.fromRow(row as AllocationProfileRow) : undefined;
+  }
+
+  async getActiveByUser(userId: string): Promise<AllocationProfile | undefined> {
+    const row = this.db
+      .prepare("SELECT * FROM allocation_profiles WHERE user_id = ? AND status = 'active' ORDER BY created_at DESC LIMIT 1")
+      .get(userId);
+    return row ? this.fromRow(row as AllocationProfileRow) : undefined;
+  }
+
+  async listDue(now: Date): Promise<AllocationProfile[]> {
+    return this.db
+      .prepare("SELECT * FROM allocation_profiles WHERE status = 'active' AND next_run_at IS NOT NULL AND next_run_at <= ? ORDER BY next_run_at")
+      .all(now.toISOString())
+      .map(row => this.fromRow(row as AllocationProfileRow));
+  }
+
+  private toRow(profile: AllocationProfile): AllocationProfileRow {
+    return {
+      id: profile.id,
+      user_id: profile.userId,
+      conversation_id: profile.conversationId,
+      targets: JSON.stringify(profile.targets),
+      tolerance: profile.tolerance,
+      max_slippage: profile.maxSlippage,
+      cadence: profile.cadence ?? null,
+      day_of_week: profile.dayOfWeek ?? null,
+      hour_utc: profile.hourUtc,
+      status: profile.status,
+      next_run_at: profile.nextRunAt?.toISOString() ?? null,
+      last_run_at: profile.lastRunAt?.toISOString() ?? null,
+      created_at: profile.createdAt.toISOString(),
+      updated_at: profile.updatedAt.toISOString(),
+    };
+  }
+
+  private fromRow(row: AllocationProfileRow): AllocationProfile {
+    return {
+      id: String(row.id),
+      userId: String(row.user_id),
+      conversationId: String(row.conversation_id),
+      targets: JSON.parse(String(row.targets)),
+      tolerance: Number(row.tolerance),
+      maxSlippage: Number(row.max_slippage),
+      cadence: row.cadence === null ? undefined : row.cadence as AllocationProfile['cadence'],
+      dayOfWeek: row.day_of_week === null ? undefined : Number(row.day_of_week),
+      hourUtc: Number(row.hour_utc),
+      status: row.status as AllocationProfile['status'],
+      nextRunAt: row.next_run_at === null ? undefined : new Date(String(row.next_run_at)),
+      lastRunAt: row.last_run_at === null ? undefined : new Date(String(row.last_run_at)),
+      createdAt: new Date(String(row.created_at)),
+      updatedAt: new Date(String(row.updated_at)),
+    };
+  }
+}
+
+export default SqliteAllocationProfileStore;
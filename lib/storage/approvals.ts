@@ -0,0 +1,76 @@
+import { ApprovalRegistry, TrackedApproval } from '../types';
+import { Migration, SqliteDatabase, openDatabase, runMigrations } from './database';
+
+type ApprovalRow = Record<string, unknown>;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_token_approvals',
+    up: `
+      CREATE TABLE token_approvals (
+        network TEXT NOT NULL,
+        owner TEXT NOT NULL,
+        token TEXT NOT NULL,
+        spender TEXT NOT NULL,
+        tx_hash TEXT,
+        recorded_at TEXT NOT NULL,
+        PRIMARY KEY (network, owner, token, spender)
+      );
+    `,
+  },
+];
+
+/**
+ * Token/spender pairs a wallet is known to have approved, kept in SQLite. Only the pair is
+ * stored: the allowance itself is always read from the chain.
+ */
+export class SqliteApprovalRegistry implements ApprovalRegistry {
+  private db: SqliteDatabase;
+
+  constructor(db: SqliteDatabase = openDatabase()) {
+    this.db = db;
+    runMigrations(this.db, 'token_approvals', MIGRATIONS);
+  }
+
+  async record(approval: TrackedApproval): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO token_approvals (network, owner, token, spender, tx_hash, recorded_at)
+      VALUES (@network, @owner, @token, @spender, @tx_hash, @recorded_at)
+      ON CONFLICT (network, owner, token, spender) DO UPDATE SET
+        tx_hash = COALESCE(excluded.tx_hash, token_approvals.tx_hash),
+        recorded_at = excluded.recorded_at
+    `).run(this.toRow(approval));
+  }
+
+  async list(owner: string, network: string): Promise<TrackedApproval[]> {
+    return this.db
+      .prepare('SELECT * FROM token_approvals WHERE owner = ? AND network = ? ORDER BY recorded_at DESC')
+      .all(owner.toLowerCase(), network)
+      .map(row => this.fromRow(row as ApprovalRow));
+  }
+
+  private toRow(approval: TrackedApproval): ApprovalRow {
+    return {
+      network: approval.network,
+      owner: approval.owner.toLowerCase(),
+      token: approval.token.toLowerCase(),
+      spender: approval.spender.toLowerCase(),
+      tx_hash: approval.txHash ?? null,
+      recorded_at: approval.recordedAt.toISOString(),
+    };
+  }
+
+  private fromRow(row: ApprovalRow): TrackedApproval {
+    return {
+      network: String(row.network),
+      owner: String(row.owner),
+      token: String(row.token),
+      spender: String(row.spender),
+      txHash: row.tx_hash === null ? undefined : String(row.tx_hash),
+      recordedAt: new Date(String(row.recorded_at)),
+    };
+  }
+}
+
+export default SqliteApprovalRegistry;
@@ -0,0 +1,109 @@
+import { Candle, CandleInterval, CandleQuery, CandleStore } from '../types';
+import { Migration, SqliteDatabase, openDatabase, runMigrations } from './database';
+
+type CandleRow = Record<string, unknown>;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_candles',
+    up: `
+      CREATE TABLE candles (
+        token TEXT NOT NULL,
+        interval TEXT NOT NULL,
+        open_time TEXT NOT NULL,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        volume REAL NOT NULL,
+        PRIMARY KEY (token, interval, open_time)
+      );
+    `,
+  },
+];
+
+/**
+ * OHLCV candles per token and interval kept in SQLite. A candle is identified by its open
+ * time, so writing one again (the collector updating the current candle, a re-import)
+ * replaces it.
+ */
+export class SqliteCandleStore implements CandleStore {
+  private db: SqliteDatabase;
+
+  constructor(db: SqliteDatabase = openDatabase()) {
+    this.db = db;
+    runMigrations(this.db, 'candles', MIGRATIONS);
+  }
+
+  async upsert(token: string, interval: CandleInterval, candles: Candle[]): Promise<void> {
+    const statement = this.db.prepare(`
+      INSERT INTO candles (token, interval, open_time, open, high, low, close, volume)
+      VALUES (@token, @interval, @open_time, @open, @high, @low, @close, @volume)
+      ON CONFLICT (token, interval, open_time) DO UPDATE SET
+        open = excluded.open,
+        high = excluded.high,
+        low = excluded.low,
+        close = excluded.close,
+        volume = excluded.volume
+    `);
+
+    this.db.transaction((rows: CandleRow[]) => {
+      for (const row of rows) statement.run(row);
+    })(candles.map(candle => this.toRow(token, interval, candle)));
+  }
+
+  async list(token: string, interval: CandleInterval, query: CandleQuery = {}): Promise<Candle[]> {
+    const conditions = ['token = ?', 'interval = ?'];
+    const params: unknown[] = [token.toUpperCase(), interval];
+    if (query.from) {
+      conditions.push('open_time >= ?');
+      params.push(query.from.toISOString());
+    }
+    if (query.to) {
+      conditions.push('open_time <= ?');
+      params.push(query.to.toISOString());
+    }
+
+    // Newest first so the limit keeps the most recent candles, then back to oldest first
+    const limit = query.limit !== undefined ? ` LIMIT ${Math.max(0, Math.floor(query.limit))}` : '';
+    return this.db
+      .prepare(`SELECT * FROM candles WHERE ${conditions.join(' AND ')} ORDER BY open_time DESC${limit}`)
+      .all(...params)
+      .map(row => this.fromRow(row as CandleRow))
+      .reverse();
+  }
+
+  async latest(token: string, interval: CandleInterval): Promise<Candle | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM candles WHERE token = ? AND interval = ? ORDER BY open_time DESC LIMIT 1')
+      .get(token.toUpperCase(), interval);
+    return row ? this.fromRow(row as CandleRow) : undefined;
+  }
+
+  private toRow(token: string, interval: CandleInterval, candle: Candle): CandleRow {
+    return {
+      token: token.toUpperCase(),
+      interval,
+      open_time: candle.timestamp.toISOString(),
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+    };
+  }
+
+  private fromRow(row: CandleRow): Candle {
+    return {
+      timestamp: new Date(String(row.open_time)),
+      open: Number(row.open),
+      high: Number(row.high),
+      low: Number(row.low),
+      close: Number(row.close),
+      volume: Number(row.volume),
+    };
+  }
+}
+
+export default SqliteCandleStore;
@@ -0,0 +1,98 @@
+import { describe, expect, test } from 'bun:test';
+import { openDatabase } from './database';
+import { SqliteTradeHistoryStore } from './trade-history';
+import { SqliteGroupStore } from './groups';
+import { SqliteCandleStore } from './candles';
+import { SqlitePortfolioSnapshotStore } from './portfolio-snapshots';
+import { TradeRecord } from '../types';
+
+describe('SQLite stores', () => {
+  test('open and migrate under the running runtime', async () => {
+    const db = openDatabase(':memory:');
+    const trades = new SqliteTradeHistoryStore(db);
+    new SqliteTradeHistoryStore(db); // migrations already applied are skipped
+
+    const now = new Date('2025-01-01T00:00:00Z');
+    const record: TradeRecord = {
+      id: 'trade_1',
+      kind: 'swap',
+      action: 'swap_best_route',
+      agentName: 'trading',
+      userId: 'user',
+      conversationId: 'conversation',
+      network: 'base-sepolia',
+      fromToken: 'USDC',
+      toToken: 'ETH',
+      amountIn: 100,
+      status: 'pending',
+      params: { amount: 100 },
+      createdAt: now,
+      updatedAt: now,
+    };
+    await trades.insert(record);
+    await trades.update('trade_1', { status: 'confirmed', txHash: '0xabc' });
+
+    const [stored] = await trades.query({ userId: 'user', token: 'eth' });
+    expect(stored).toMatchObject({ id: 'trade_1', status: 'confirmed', txHash: '0xabc', params: { amount: 100 } });
+    expect(await trades.get('missing')).toBeUndefined();
+  });
+
+  test('keep events and expenses per conversation', async () => {
+    const groups = new SqliteGroupStore(openDatabase(':memory:'));
+    await groups.saveEvent({
+      id: 'event_1',
+      conversationId: 'group',
+      createdBy: 'alice',
+      title: 'Dinner',
+      description: 'Team dinner',
+      dateTime: new Date('2025-01-02T18:00:00Z'),
+      participants: ['alice', 'bob'],
+      expenses: [],
+      status: 'planning',
+      rsvps: { bob: 'yes' },
+      remindersSent: [],
+    });
+    await groups.addExpense({
+      id: 'expense_1',
+      conversationId: 'group',
+      eventId: 'event_1',
+      description: 'Food',
+      amount: 40,
+      currency: 'USDC',
+      paidBy: 'alice',
+      sharedWith: ['alice', 'bob'],
+      category: 'food',
+      timestamp: new Date('2025-01-02T20:00:00Z'),
+    });
+
+    const event = await groups.getEvent('event_1');
+    expect(event?.rsvps).toEqual({ bob: 'yes' });
+    expect(event?.expenses.map(expense => expense.id)).toEqual(['expense_1']);
+    expect(await groups.listEvents('other')).toEqual([]);
+  });
+
+  test('upsert candles in a transaction', async () => {
+    const candles = new SqliteCandleStore(openDatabase(':memory:'));
+    const candle = { timestamp: new Date('2025-01-01T00:00:00Z'), open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 };
+    await candles.upsert('ETH', '1h', [candle]);
+    await candles.upsert('ETH', '1h', [{ ...candle, close: 1.8 }]);
+
+    expect((await candles.list('ETH', '1h')).map(c => c.close)).toEqual([1.8]);
+  });
+
+  test('keep the latest portfolio snapshots per address', async () => {
+    const snapshots = new SqlitePortfolioSnapshotStore(openDatabase(':memory:'));
+    for (const [day, totalValue] of [[1, 100], [2, 110], [3, 120]]) {
+      await snapshots.append({
+        address: '0xAbC0000000000000000000000000000000000001',
+        totalValue,
+        prices: { 'base-mainnet:0x0000000000000000000000000000000000000000': 2000 + day },
+        timestamp: new Date(`2025-01-0${day}T00:00:00Z`),
+      }, 2);
+    }
+
+    const history = await snapshots.list('0xabc0000000000000000000000000000000000001');
+    expect(history.map(snapshot => snapshot.totalValue)).toEqual([110, 120]);
+    expect(history[1].prices).toEqual({ 'base-mainnet:0x0000000000000000000000000000000000000000': 2003 });
+  });
+});
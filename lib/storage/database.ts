@@ -0,0 +1,90 @@
+import BetterSqlite3 from 'better-sqlite3';
+import type { Database as BunDatabase } from 'bun:sqlite';
+import fs from 'fs';
+import path from 'path';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown; // the row, or undefined/null when there is none
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * The part of the SQLite API the stores use, which better-sqlite3 (Node) and bun:sqlite (Bun)
+ * both provide. Named parameters are bound from plain object keys (`@id` from `{ id }`).
+ */
+export interface SqliteDatabase {
+  prepare(sql: string): SqliteStatement;
+  exec(sql: string): unknown;
+  transaction<A extends any[], T>(fn: (...args: A) => T): (...args: A) => T;
+}
+
+const DEFAULT_DATABASE_PATH = 'data/base-agents.db';
+
+// One connection per file, shared by every store that uses it
+const connections: Map<string, SqliteDatabase> = new Map();
+
+/**
+ * Open (or reuse) the SQLite database at the given path, creating its directory if needed.
+ * Uses bun:sqlite under Bun, where better-sqlite3's native addon does not load.
+ */
+export function openDatabase(filename: string = process.env.SQLITE_DATABASE_PATH || DEFAULT_DATABASE_PATH): SqliteDatabase {
+  const resolved = filename === ':memory:' ? filename : path.resolve(filename);
+  const existing = connections.get(resolved);
+  if (existing) return existing;
+
+  if (resolved !== ':memory:') {
+    fs.mkdirSync(path.dirname(resolved), { recursive: true });
+  }
+
+  const db = process.versions.bun ? openBunDatabase(resolved) : new BetterSqlite3(resolved);
+  db.exec('PRAGMA journal_mode = WAL');
+  db.exec('PRAGMA foreign_keys = ON');
+  connections.set(resolved, db);
+  return db;
+}
+
+function openBunDatabase(filename: string): SqliteDatabase {
+  // Loaded lazily so Node (and the Next.js bundle) never resolves the Bun-only module
+  const { Database } = import.meta.require('bun:sqlite') as { Database: typeof BunDatabase };
+  return new Database(filename, { create: true, strict: true });
+}
+
+/**
+ * Apply any migrations of a scope that have not run yet, in version order
+ */
+export function runMigrations(db: SqliteDatabase, scope: string, migrations: Migration[]): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      scope TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL,
+      PRIMARY KEY (scope, version)
+    )
+  `);
+
+  const applied = new Set(
+    db.prepare('SELECT version FROM schema_migrations WHERE scope = ?')
+      .all(scope)
+      .map(row => (row as { version: number }).version)
+  );
+  const record = db.prepare('INSERT INTO schema_migrations (scope, version, name, applied_at) VALUES (?, ?, ?, ?)');
+
+  const pending = [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter(migration => !applied.has(migration.version));
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      db.exec(migration.up);
+      record.run(scope, migration.version, migration.name, new Date().toISOString());
+    })();
+  }
+}
@@ -0,0 +1,128 @@
+import { DcaPlan, DcaPlanStore } from '../types';
+import { Migration, SqliteDatabase, openDatabase, runMigrations } from './database';
+
+type DcaPlanRow = Record<string, unknown>;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_dca_plans',
+    up: `
+      CREATE TABLE dca_plans (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        conversation_id TEXT NOT NULL,
+        from_token TEXT NOT NULL,
+        to_token TEXT NOT NULL,
+        amount REAL NOT NULL,
+        cadence TEXT NOT NULL,
+        day_of_week INTEGER,
+        hour_utc INTEGER NOT NULL,
+        max_slippage REAL NOT NULL,
+        status TEXT NOT NULL,
+        next_run_at TEXT NOT NULL,
+        last_run_at TEXT,
+        fill_count INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX dca_plans_user ON dca_plans (user_id);
+      CREATE INDEX dca_plans_due ON dca_plans (status, next_run_at);
+    `,
+  },
+];
+
+/**
+ * DCA plans kept in SQLite so schedules survive restarts
+ */
+export class SqliteDcaPlanStore implements DcaPlanStore {
+  private db: SqliteDatabase;
+
+  constructor(db: SqliteDatabase = openDatabase()) {
+    this.db = db;
+    runMigrations(this.db, 'dca_plans', MIGRATIONS);
+  }
+
+  async save(plan: DcaPlan): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO dca_plans (
+        id, user_id, conversation_id, from_token, to_token, amount, cadence, day_of_week, hour_utc,
+        max_slippage, status, next_run_at, last_run_at, fill_count, created_at, updated_at
+      ) VALUES (
+        @id, @user_id, @conversation_id, @from_token, @to_token, @amount, @cadence, @day_of_week, @hour_utc,
+        @max_slippage, @status, @next_run_at, @last_run_at, @fill_count, @created_at, @updated_at
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        amount = excluded.amount,
+        max_slippage = excluded.max_slippage,
+        status = excluded.status,
+        next_run_at = excluded.next_run_at,
+        last_run_at = excluded.last_run_at,
+        fill_count = excluded.fill_count,
+        updated_at = excluded.updated_at
+    `).run(this.toRow(plan));
+  }
+
+  async get(id: string): Promise<DcaPlan | undefined> {
+    const row = this.db.prepare('SELECT * FROM dca_plans WHERE id = ?').get(id);
+    return row ? this.fromRow(row as DcaPlanRow) : undefined;
+  }
+
+  async listByUser(userId: string): Promise<DcaPlan[]> {
+    return this.db
+      .prepare('SELECT * FROM dca_plans WHERE user_id = ? ORDER BY created_at DESC')
+      .all(userId)
+      .map(row => this.fromRow(row as DcaPlanRow));
+  }
+
+  async listDue(now: Date): Promise<DcaPlan[]> {
+    return this.db
+      .prepare("SELECT * FROM dca_plans WHERE status = 'active' AND next_run_at <= ? ORDER BY next_run_at")
+      .all(now.toISOString())
+      .map(row => this.fromRow(row as DcaPlanRow));
+  }
+
+  private toRow(plan: DcaPlan): DcaPlanRow {
+    return {
+      id: plan.id,
+      user_id: plan.userId,
+      conversation_id: plan.conversationId,
+      from_token: plan.fromToken,
+      to_token: plan.toToken,
+      amount: plan.amount,
+      cadence: plan.cadence,
+      day_of_week: plan.dayOfWeek ?? null,
+      hour_utc: plan.hourUtc,
+      max_slippage: plan.maxSlippage,
+      status: plan.status,
+      next_run_at: plan.nextRunAt.toISOString(),
+      last_run_at: plan.lastRunAt?.toISOString() ?? null,
+      fill_count: plan.fillCount,
+      created_at: plan.createdAt.toISOString(),
+      updated_at: plan.updatedAt.toISOString(),
+    };
+  }
+
+  private fromRow(row: DcaPlanRow): DcaPlan {
+    return {
+      id: String(row.id),
+      userId: String(row.user_id),
+      conversationId: String(row.conversation_id),
+      fromToken: String(row.from_token),
+      toToken: String(row.to_token),
+      amount: Number(row.amount),
+      cadence: row.cadence as DcaPlan['cadence'],
+      dayOfWeek: row.day_of_week === null ? undefined : Number(row.day_of_week),
+      hourUtc: Number(row.hour_utc),
+      maxSlippage: Number(row.max_slippage),
+      status: row.status as DcaPlan['status'],
+      nextRunAt: new Date(String(row.next_run_at)),
+      lastRunAt: row.last_run_at === null ? undefined : new Date(String(row.last_run_at)),
+      fillCount: Number(row.fill_count),
+      createdAt: new Date(String(row.created_at)),
+      updatedAt: new Date(String(row.updated_at)),
+    };
+  }
+}
+
+export default SqliteDcaPlanStore;
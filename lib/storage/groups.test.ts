@@ -0,0 +1,140 @@
+import { describe, expect, test } from 'bun:test';
+import { openDatabase } from './database';
+import { SqliteGroupStore } from './groups';
+import { EventPlan, PaymentSplit } from '../types';
+
+const event = (overrides: Partial<EventPlan> = {}): EventPlan => ({
+  id: 'event',
+  conversationId: 'group',
+  createdBy: 'alice',
+  title: 'Hike',
+  description: 'Morning hike',
+  dateTime: new Date('2025-03-01T08:00:00Z'),
+  participants: ['alice', 'bob'],
+  expenses: [],
+  status: 'planning',
+  rsvps: {},
+  remindersSent: [],
+  ...overrides,
+});
+
+const split = (overrides: Partial<PaymentSplit> = {}): PaymentSplit => ({
+  id: 'split',
+  description: 'Cabin',
+  totalAmount: 300,
+  currency: 'USDC',
+  participants: [
+    { address: '0x00000000000000000000000000000000000000A1', amount: 150, paidAmount: 0, paid: false },
+    { address: '0x00000000000000000000000000000000000000b2', amount: 150, paidAmount: 0, paid: false },
+  ],
+  method: 'equal',
+  status: 'pending',
+  payee: '0x00000000000000000000000000000000000000c3',
+  network: 'base-sepolia',
+  createdBy: 'alice',
+  conversationId: 'group',
+  createdAt: new Date('2025-03-01T00:00:00Z'),
+  updatedAt: new Date('2025-03-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('SqliteGroupStore', () => {
+  test('read back every field of an event after a restart', async () => {
+    const db = openDatabase(':memory:');
+    const hike = event({
+      id: 'event_restart',
+      conversationId: 'group_restart',
+      location: 'Trailhead',
+      budget: 120,
+      endTime: new Date('2025-03-01T12:00:00Z'),
+      rsvps: { bob: 'maybe' },
+      remindersSent: [1440],
+    });
+    await new SqliteGroupStore(db).saveEvent(hike);
+
+    const stored = await new SqliteGroupStore(db).getEvent('event_restart');
+
+    expect(stored).toEqual(hike);
+    expect(stored?.dateTime).toBeInstanceOf(Date);
+  });
+
+  test('update an event in place, keeping its creator and group', async () => {
+    const groups = new SqliteGroupStore(openDatabase(':memory:'));
+    await groups.saveEvent(event({ id: 'event_update', conversationId: 'group_update' }));
+
+    await groups.saveEvent(event({
+      id: 'event_update',
+      conversationId: 'group_moved',
+      createdBy: 'mallory',
+      status: 'confirmed',
+      rsvps: { bob: 'yes' },
+      remindersSent: [60, 1440],
+    }));
+
+    const [stored] = await groups.listEvents('group_update');
+    expect(stored).toMatchObject({ createdBy: 'alice', status: 'confirmed', rsvps: { bob: 'yes' }, remindersSent: [60, 1440] });
+    expect(await groups.listEvents('group_moved')).toEqual([]);
+  });
+
+  test('schedule only events that are still to happen, earliest first', async () => {
+    const groups = new SqliteGroupStore(openDatabase(':memory:'));
+    await groups.saveEvent(event({ id: 'scheduled_late', dateTime: new Date('2025-04-02T00:00:00Z'), status: 'confirmed' }));
+    await groups.saveEvent(event({ id: 'scheduled_early', dateTime: new Date('2025-04-01T00:00:00Z'), status: 'in_progress' }));
+    await groups.saveEvent(event({ id: 'scheduled_done', status: 'completed' }));
+    await groups.saveEvent(event({ id: 'scheduled_off', status: 'cancelled' }));
+
+    const scheduled = (await groups.listScheduledEvents()).map(e => e.id).filter(id => id.startsWith('scheduled_'));
+
+    expect(scheduled).toEqual(['scheduled_early', 'scheduled_late']);
+  });
+
+  test('attach expenses to their event and list the whole ledger of a group', async () => {
+    const groups = new SqliteGroupStore(openDatabase(':memory:'));
+    await groups.saveEvent(event({ id: 'event_ledger', conversationId: 'group_ledger' }));
+    const expense = {
+      conversationId: 'group_ledger',
+      description: 'Snacks',
+      amount: 12.5,
+      currency: 'USDC',
+      paidBy: 'bob',
+      sharedWith: ['alice', 'bob'],
+      category: 'food',
+    };
+    await groups.addExpense({ ...expense, id: 'expense_late', eventId: 'event_ledger', timestamp: new Date('2025-03-01T10:00:00Z') });
+    await groups.addExpense({ ...expense, id: 'expense_early', timestamp: new Date('2025-03-01T09:00:00Z') });
+
+    expect((await groups.getEvent('event_ledger'))?.expenses.map(e => e.id)).toEqual(['expense_late']);
+    const ledger = await groups.listExpenses('group_ledger');
+    expect(ledger.map(e => [e.id, e.eventId])).toEqual([['expense_early', undefined], ['expense_late', 'event_ledger']]);
+    expect(ledger[0].sharedWith).toEqual(['alice', 'bob']);
+  });
+
+  test('keep payments made on a split, with their dates, across a restart', async () => {
+    const db = openDatabase(':memory:');
+    const cabin = split({ id: 'split_restart', conversationId: 'group_splits' });
+    await new SqliteGroupStore(db).saveSplit(cabin);
+
+    const paidAt = new Date('2025-03-02T00:00:00Z');
+    cabin.participants[0] = { ...cabin.participants[0], paidAmount: 150, paid: true, transactionHash: '0xabc', paidAt };
+    cabin.status = 'partial';
+    cabin.updatedAt = paidAt;
+    await new SqliteGroupStore(db).saveSplit(cabin);
+
+    const stored = await new SqliteGroupStore(db).getSplit('split_restart');
+    expect(stored).toEqual(cabin);
+    expect(stored?.participants[0].paidAt).toBeInstanceOf(Date);
+    expect(stored?.participants[1].paidAt).toBeUndefined();
+  });
+
+  test('list splits newest first and keep completed ones out of the open list', async () => {
+    const groups = new SqliteGroupStore(openDatabase(':memory:'));
+    await groups.saveSplit(split({ id: 'split_old', conversationId: 'group_list', status: 'completed' }));
+    await groups.saveSplit(split({ id: 'split_new', conversationId: 'group_list', createdAt: new Date('2025-03-05T00:00:00Z') }));
+
+    expect((await groups.listSplits('group_list')).map(s => s.id)).toEqual(['split_new', 'split_old']);
+    const open = (await groups.listOpenSplits()).map(s => s.id);
+    expect(open).toContain('split_new');
+    expect(open).not.toContain('split_old');
+    expect(await groups.getSplit('missing')).toBeUndefined();
+  });
+});
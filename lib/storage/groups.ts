@@ -0,0 +1,354 @@
+import { EventPlan, Expense, GroupStore, PaymentParticipant, PaymentSplit } from '../types';
+import { Migration, SqliteDatabase, openDatabase, runMigrations } from './database';
+
+type GroupRow = Record<string, unknown>;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_events_splits_expenses',
+    up: `
+      CREATE TABLE events (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        date_time TEXT NOT NULL,
+        location TEXT,
+        participants TEXT NOT NULL,
+        budget REAL,
+        status TEXT NOT NULL
+      );
+      CREATE INDEX events_conversation ON events (conversation_id);
+
+      CREATE TABLE payment_splits (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        description TEXT,
+        total_amount REAL NOT NULL,
+        currency TEXT NOT NULL,
+        method TEXT NOT NULL,
+        status TEXT NOT NULL,
+        payee TEXT NOT NULL,
+        network TEXT NOT NULL,
+        participants TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX payment_splits_conversation ON payment_splits (conversation_id);
+      CREATE INDEX payment_splits_status ON payment_splits (status);
+
+      CREATE TABLE expenses (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        event_id TEXT,
+        description TEXT NOT NULL,
+        amount REAL NOT NULL,
+        currency TEXT NOT NULL,
+        paid_by TEXT NOT NULL,
+        shared_with TEXT NOT NULL,
+        category TEXT NOT NULL,
+        timestamp TEXT NOT NULL
+      );
+      CREATE INDEX expenses_conversation ON expenses (conversation_id, timestamp);
+      CREATE INDEX expenses_event ON expenses (event_id, timestamp);
+    `,
+  },
+  {
+    version: 2,
+    name: 'add_event_rsvps_and_reminders',
+    up: `
+      ALTER TABLE events ADD COLUMN end_time TEXT;
+      ALTER TABLE events ADD COLUMN rsvps TEXT NOT NULL DEFAULT '{}';
+      ALTER TABLE events ADD COLUMN reminders_sent TEXT NOT NULL DEFAULT '[]';
+      CREATE INDEX events_status ON events (status, date_time);
+    `,
+  },
+];
+
+/**
+ * Events, payment splits and expenses of every group kept in SQLite, so a group's ledger
+ * survives restarts
+ */
+export class SqliteGroupStore implements GroupStore {
+  private db: SqliteDatabase;
+
+  constructor(db: SqliteDatabase = openDatabase()) {
+    this.db = db;
+    runMigrations(this.db, 'groups', MIGRATIONS);
+  }
+
+  async saveEvent(event: EventPlan): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO events (
+        id, conversation_id, created_by, title, description, date_time, location, participants, budget, status,
+        end_time, rsvps, reminders_sent
+      ) VALUES (
+        @id, @conversation_id, @created_by, @title, @description, @date_time, @location, @participants, @budget, @status,
+        @end_time, @rsvps, @reminders_sent
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        title = excluded.title,
+        description = excluded.description,
+        date_time = excluded.date_time,
+        location = excluded.location,
+        participants = excluded.participants,
+        budget = excluded.budget,
+        status = excluded.status,
+        end_time = excluded.end_time,
+        rsvps = excluded.rsvps,
+        reminders_sent = excluded.reminders_sent
+    `).run({
+      id: event.id,
+      conversation_id: event.conversationId,
+      created_by: event.createdBy,
+      title: event.title,
+      description: event.description,
+      date_time: event.dateTime.toISOString(),
+      location: event.location ?? null,
+      participants: JSON.stringify(event.participants),
+      budget: event.budget ?? null,
+      status: event.status,
+      end_time: event.endTime?.toISOString() ?? null,
+      rsvps: JSON.stringify(event.rsvps),
+      reminders_sent: JSON.stringify(event.remindersSent),
+    });
+  }
+
+  async getEvent(id: string): Promise<EventPlan | undefined> {
+    const row = this.db.prepare('SELECT * FROM events WHERE id = ?').get(id) as GroupRow | undefined;
+    if (!row) return undefined;
+    return this.eventFromRow(row, await this.listExpenses(String(row.conversation_id), id));
+  }
+
+  async listEvents(conversationId: string): Promise<EventPlan[]> {
+    const rows = this.db.prepare('SELECT * FROM events WHERE conversation_id = ? ORDER BY date_time').all(conversationId) as GroupRow[];
+    return Promise.all(rows.map(async row => this.eventFromRow(row, await this.listExpenses(conversationId, String(row.id)))));
+  }
+
+  async listScheduledEvents(): Promise<EventPlan[]> {
+    const rows = this.db
+      .prepare("SELECT * FROM events WHERE status NOT IN ('completed', 'cancelled') ORDER BY date_time")
+      .all() as GroupRow[];
+    return Promise.all(rows.map(async row => this.eventFromRow(row, await this.listExpenses(String(row.conversation_id), String(row.id)))));
+  }
+
+  async saveSplit(split: PaymentSplit): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO payment_splits (
+        id, conversation_id, created_by, description, total_amount, currency, method, status, payee, network,
+        participants, created_at, updated_at
+      ) VALUES (
+        @id, @conversation_id, @created_by, @description, @total_amount, @currency, @method, @status, @payee, @network,
+        @participants, @created_at, @updated_at
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        status = excluded.status,
+        participants = excluded.participants,
+        updated_at = excluded.updated_at
+    `).run({
+      id: split.id,
+      conversation_id: split.conversationId,
+      created_by: split.createdBy,
+      description: split.description ?? null,
+      total_amount: split.totalAmount,
+      currency: split.currency,
+      method: split.method,
+      status: split.status,
+      payee: split.payee,
+      network: split.network,
+      participants: JSON.stringify(split.participants),
+      created_at: split.createdAt.toISOString(),
+      updated_at: split.updatedAt.toISOString(),
+    });
+  }
+
+  async getSplit(id: string): Promise<PaymentSplit | undefined> {
+    const row = this.db.prepare('SELECT * FROM payment_splits WHERE id = ?').get(id);
+    return row ? this.splitFromRow(row as GroupRow) : undefined;
+  }
+
+  async listSplits(conversationId: string): Promise<PaymentSplit[]> {
+    return this.db
+      .prepare('SELECT * FROM payment_splits WHERE conversation_id = ? ORDER BY created_at DESC')
+      .all(conversationId)
+      .map(row => this.splitFromRow(row as GroupRow));
+  }
+
+  async listOpenSplits(): Promise<PaymentSplit[]> {
+    return this.db
+      .prepare("SELECT * FROM payment_splits WHERE status != 'completed' ORDER BY created_at")
+      .all()
+      .map(row => this.splitFromRow(row as GroupRow));
+  }
+
+  async addExpense(expense: Expense): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO expenses (id, conversation_id, event_id, description, amount, currency, paid_by, shared_with, category, timestamp)
+      VALUES (@id, @conversation_id, @event_id, @description, @amount, @currency, @paid_by, @shared_with, @category, @timestamp)
+    `).run({
+      id: expense.id,
+      conversation_id: expense.conversationId,
+      event_id: expense.eventId ?? null,
+      description: expense.description,
+      amount: expense.amount,
+      currency: expense.currency,
+      paid_by: expense.paidBy,
+      shared_with: JSON.stringify(expense.sharedWith),
+      category: expense.category,
+      timestamp: expense.timestamp.toISOString(),
+    });
+  }
+
+  async listExpenses(conversationId: string, eventId?: string): Promise<Expense[]> {
+    const rows = eventId
+      ? this.db.prepare('SELECT * FROM expenses WHERE conversation_id = ? AND event_id = ? ORDER BY timestamp').all(conversationId, eventId)
+      : this.db.prepare('SELECT * FROM expenses WHERE conversation_id = ? ORDER BY timestamp').all(conversationId);
+    return rows.map(row => this.expenseFromRow(row as GroupRow));
+  }
+
+  private eventFromRow(row: GroupRow, expenses: Expense[]): EventPlan {
+    return {
+      id: String(row.id),
+      conversationId: String(row.conversation_id),
+      createdBy: String(row.created_by),
+      title: String(row.title),
+      description: String(row.description),
+      dateTime: new Date(String(row.date_time)),
+      location: row.location === null ? undefined : String(row.location),
+      participants: JSON.parse(String(row.participants)),
+      budget: row.budget === null ? undefined : Number(row.budget),
+      expenses,
+      status: row.status as EventPlan['status'],
+      endTime: row.end_time === null ? undefined : new Date(String(row.end_time)),
+      rsvps: JSON.parse(String(row.rsvps)),
+      remindersSent: JSON.parse(String(row.reminders_sent)),
+    };
+  }
+
+  private splitFromRow(row: GroupRow): PaymentSplit {
+    const participants: PaymentParticipant[] = JSON.parse(String(row.participants)).map(
+      (participant: PaymentParticipant & { paidAt?: string }) => ({
+        ...participant,
+        paidAt: participant.paidAt ? new Date(participant.paidAt) : undefined,
+      })
+    );
+    return {
+      id: String(row.id),
+      conversationId: String(row.conversation_id),
+      createdBy: String(row.created_by),
+      description: row.description === null ? undefined : String(row.description),
+      totalAmount: Number(row.total_amount),
+      currency: String(row.currency),
+      method: row.method as PaymentSplit['method'],
+      status: row.status as PaymentSplit['status'],
+      payee: String(row.payee),
+      network: String(row.network),
+      participants,
+      createdAt: new Date(String(row.created_at)),
+      updatedAt: new Date(String(row.updated_at)),
+    };
+  }
+
+  private expenseFromRow(row: GroupRow): Expense {
+    return {
+      id: String(row.id),
+      conversationId: String(row.conversation_id),
+      eventId: row.event_id === null ? undefined : String(row.event_id),
+      description: String(row.description),
+      amount: Number(row.amount),
+      currency: String(row.currency),
+      paidBy: String(row.paid_by),
+      sharedWith: JSON.parse(String(row.shared_with)),
+      category: String(row.category),
+      timestamp: new Date(String(row.timestamp)),
+    };
+  }
+}
+
+/**
+ * Non-persistent group store, for development
+ */
+export class MemoryGroupStore implements GroupStore {
+  private events: Map<string, EventPlan> = new Map();
+  private splits: Map<string, PaymentSplit> = new Map();
+  private expenses: Expense[] = [];
+
+  async saveEvent(event: EventPlan): Promise<void> {
+    this.events.set(event.id, { ...event, expenses: [], rsvps: { ...event.rsvps }, remindersSent: [...event.remindersSent] });
+  }
+
+  async getEvent(id: string): Promise<EventPlan | undefined> {
+    const event = this.events.get(id);
+    return event && this.withExpenses(event);
+  }
+
+  async listEvents(conversationId: string): Promise<EventPlan[]> {
+    const events = Array.from(this.events.values())
+      .filter(event => event.conversationId === conversationId)
+      .sort((a, b) => a.dateTime.getTime() - b.dateTime.getTime());
+    return Promise.all(events.map(event => this.withExpenses(event)));
+  }
+
+  async listScheduledEvents(): Promise<EventPlan[]> {
+    const events = Array.from(this.events.values())
+      .filter(event => event.status !== 'completed' && event.status !== 'cancelled')
+      .sort((a, b) => a.dateTime.getTime() - b.dateTime.getTime());
+    return Promise.all(events.map(event => this.withExpenses(event)));
+  }
+
+  async saveSplit(split: PaymentSplit): Promise<void> {
+    this.splits.set(split.id, { ...split, participants: split.participants.map(p => ({ ...p })) });
+  }
+
+  async getSplit(id: string): Promise<PaymentSplit | undefined> {
+    const split = this.splits.get(id);
+    return split && { ...split, participants: split.participants.map(p => ({ ...p })) };
+  }
+
+  async listSplits(conversationId: string): Promise<PaymentSplit[]> {
+    return Array.from(this.splits.values())
+      .filter(split => split.conversationId === conversationId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(split => ({ ...split, participants: split.participants.map(p => ({ ...p })) }));
+  }
+
+  async listOpenSplits(): Promise<PaymentSplit[]> {
+    return Array.from(this.splits.values())
+      .filter(split => split.status !== 'completed')
+      .map(split => ({ ...split, participants: split.participants.map(p => ({ ...p })) }));
+  }
+
+  async addExpense(expense: Expense): Promise<void> {
+    this.expenses.push({ ...expense });
+  }
+
+  async listExpenses(conversationId: string, eventId?: string): Promise<Expense[]> {
+    return this.expenses
+      .filter(expense => expense.conversationId === conversationId && (!eventId || expense.eventId === eventId))
+      .map(expense => ({ ...expense }));
+  }
+
+  private async withExpenses(event: EventPlan): Promise<EventPlan> {
+    return {
+      ...event,
+      rsvps: { ...event.rsvps },
+      remindersSent: [...event.remindersSent],
+      expenses: await this.listExpenses(event.conversationId, event.id),
+    };
+  }
+}
+
+/**
+ * Store selected by GROUP_STORE ("sqlite" by default, or "memory"). Other backends, such as
+ * Postgres at DATABASE_URL, implement GroupStore and are passed to UtilityAgent directly.
+ */
+export function createGroupStore(): GroupStore {
+  return process.env.GROUP_STORE === 'memory'
+    ? new MemoryGroupStore()
+    : new SqliteGroupStore();
+}
+
+export default SqliteGroupStore;
@@ -0,0 +1,138 @@
+import { ConditionalOrder, ConditionalOrderStore } from '../types';
+import { Migration, SqliteDatabase, openDatabase, runMigrations } from './database';
+
+type OrderRow = Record<string, unknown>;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_conditional_orders',
+    up: `
+      CREATE TABLE conditional_orders (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        conversation_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        token TEXT NOT NULL,
+        quote_token TEXT NOT NULL,
+        amount REAL NOT NULL,
+        trigger_price REAL NOT NULL,
+        max_slippage REAL NOT NULL,
+        oco_group_id TEXT,
+        status TEXT NOT NULL,
+        triggered_at TEXT,
+        trigger_price_observed REAL,
+        trade_id TEXT,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX conditional_orders_user ON conditional_orders (user_id);
+      CREATE INDEX conditional_orders_status ON conditional_orders (status);
+      CREATE INDEX conditional_orders_group ON conditional_orders (oco_group_id);
+    `,
+  },
+];
+
+/**
+ * Conditional orders kept in SQLite so open orders survive restarts
+ */
+export class SqliteConditionalOrderStore implements ConditionalOrderStore {
+  private db: SqliteDatabase;
+
+  constructor(db: SqliteDatabase = openDatabase()) {
+    this.db = db;
+    runMigrations(this.db, 'conditional_orders', MIGRATIONS);
+  }
+
+  async save(order: ConditionalOrder): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO conditional_orders (
+        id, user_id, conversation_id, type, token, quote_token, amount, trigger_price, max_slippage,
+        oco_group_id, status, triggered_at, trigger_price_observed, trade_id, error, created_at, updated_at
+      ) VALUES (
+        @id, @user_id, @conversation_id, @type, @token, @quote_token, @amount, @trigger_price, @max_slippage,
+        @oco_group_id, @status, @triggered_at, @trigger_price_observed, @trade_id, @error, @created_at, @updated_at
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        status = excluded.status,
+        triggered_at = excluded.triggered_at,
+        trigger_price_observed = excluded.trigger_price_observed,
+        trade_id = excluded.trade_id,
+        error = excluded.error,
+        updated_at = excluded.updated_at
+    `).run(this.toRow(order));
+  }
+
+  async get(id: string): Promise<ConditionalOrder | undefined> {
+    const row = this.db.prepare('SELECT * FROM conditional_orders WHERE id = ?').get(id);
+    return row ? this.fromRow(row as OrderRow) : undefined;
+  }
+
+  async listByUser(userId: string): Promise<ConditionalOrder[]> {
+    return this.db
+      .prepare('SELECT * FROM conditional_orders WHERE user_id = ? ORDER BY created_at DESC')
+      .all(userId)
+      .map(row => this.fromRow(row as OrderRow));
+  }
+
+  async listOpen(): Promise<ConditionalOrder[]> {
+    return this.db
+      .prepare("SELECT * FROM conditional_orders WHERE status = 'open' ORDER BY created_at")
+      .all()
+      .map(row => this.fromRow(row as OrderRow));
+  }
+
+  async listGroup(ocoGroupId: string): Promise<ConditionalOrder[]> {
+    return this.db
+      .prepare('SELECT * FROM conditional_orders WHERE oco_group_id = ?')
+      .all(ocoGroupId)
+      .map(row => this.fromRow(row as OrderRow));
+  }
+
+  private toRow(order: ConditionalOrder): OrderRow {
+    return {
+      id: order.id,
+      user_id: order.userId,
+      conversation_id: order.conversationId,
+      type: order.type,
+      token: order.token,
+      quote_token: order.quoteToken,
+      amount: order.amount,
+      trigger_price: order.triggerPrice,
+      max_slippage: order.maxSlippage,
+      oco_group_id: order.ocoGroupId ?? null,
+      status: order.status,
+      triggered_at: order.triggeredAt?.toISOString() ?? null,
+      trigger_price_observed: order.triggerPriceObserved ?? null,
+      trade_id: order.tradeId ?? null,
+      error: order.error ?? null,
+      created_at: order.createdAt.toISOString(),
+      updated_at: order.updatedAt.toISOString(),
+    };
+  }
+
+  private fromRow(row: OrderRow): ConditionalOrder {
+    return {
+      id: String(row.id),
+      userId: String(row.user_id),
+      conversationId: String(row.conversation_id),
+      type: row.type as ConditionalOrder['type'],
+      token: String(row.token),
+      quoteToken: String(row.quote_token),
+      amount: Number(row.amount),
+      triggerPrice: Number(row.trigger_price),
+      maxSlippage: Number(row.max_slippage),
+      ocoGroupId: row.oco_group_id === null ? undefined : String(row.oco_group_id),
+      status: row.status as ConditionalOrder['status'],
+      triggeredAt: row.triggered_at === null ? undefined : new Date(String(row.triggered_at)),
+      triggerPriceObserved: row.trigger_price_observed === null ? undefined : Number(row.trigger_price_observed),
+      tradeId: row.trade_id === null ? undefined : String(row.trade_id),
+      error: row.error === null ? undefined : String(row.error),
+      createdAt: new Date(String(row.created_at)),
+      updatedAt: new Date(String(row.updated_at)),
+    };
+  }
+}
+
+export default SqliteConditionalOrderStore;
@@ -0,0 +1,77 @@
+import { PortfolioSnapshot, PortfolioSnapshotStore } from '../types';
+import { Migration, SqliteDatabase, openDatabase, runMigrations } from './database';
+
+type PortfolioSnapshotRow = Record<string, unknown>;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_portfolio_snapshots',
+    up: `
+      CREATE TABLE portfolio_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        address TEXT NOT NULL,
+        total_value REAL NOT NULL,
+        prices TEXT NOT NULL,
+        taken_at TEXT NOT NULL
+      );
+      CREATE INDEX portfolio_snapshots_address ON portfolio_snapshots (address, taken_at);
+    `,
+  },
+];
+
+/**
+ * Portfolio value history kept in SQLite, so performance metrics survive restarts
+ */
+export class SqlitePortfolioSnapshotStore implements PortfolioSnapshotStore {
+  private db: SqliteDatabase;
+
+  constructor(db: SqliteDatabase = openDatabase()) {
+    this.db = db;
+    runMigrations(this.db, 'portfolio_snapshots', MIGRATIONS);
+  }
+
+  async append(snapshot: PortfolioSnapshot, keep: number): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO portfolio_snapshots (address, total_value, prices, taken_at)
+      VALUES (@address, @total_value, @prices, @taken_at)
+    `);
+    const prune = this.db.prepare(`
+      DELETE FROM portfolio_snapshots WHERE address = ? AND id NOT IN (
+        SELECT id FROM portfolio_snapshots WHERE address = ? ORDER BY taken_at DESC, id DESC LIMIT ?
+      )
+    `);
+
+    this.db.transaction((row: PortfolioSnapshotRow) => {
+      insert.run(row);
+      prune.run(row.address, row.address, Math.max(0, Math.floor(keep)));
+    })(this.toRow(snapshot));
+  }
+
+  async list(address: string): Promise<PortfolioSnapshot[]> {
+    return this.db
+      .prepare('SELECT * FROM portfolio_snapshots WHERE address = ? ORDER BY taken_at ASC, id ASC')
+      .all(address.toLowerCase())
+      .map(row => this.fromRow(row as PortfolioSnapshotRow));
+  }
+
+  private toRow(snapshot: PortfolioSnapshot): PortfolioSnapshotRow {
+    return {
+      address: snapshot.address.toLowerCase(),
+      total_value: snapshot.totalValue,
+      prices: JSON.stringify(snapshot.prices),
+      taken_at: snapshot.timestamp.toISOString(),
+    };
+  }
+
+  private fromRow(row: PortfolioSnapshotRow): PortfolioSnapshot {
+    return {
+      address: String(row.address),
+      totalValue: Number(row.total_value),
+      prices: JSON.parse(String(row.prices)),
+      timestamp: new Date(String(row.taken_at)),
+    };
+  }
+}
+
+export default SqlitePortfolioSnapshotStore;
@@ -0,0 +1,113 @@
+import { PriceAlert, PriceAlertStore } from '../types';
+import { Migration, SqliteDatabase, openDatabase, runMigrations } from './database';
+
+type PriceAlertRow = Record<string, unknown>;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_price_alerts',
+    up: `
+      CREATE TABLE price_alerts (
+        id TEXT PRIMARY KEY,
+        created_by TEXT NOT NULL,
+        conversation_id TEXT NOT NULL,
+        token_symbol TEXT NOT NULL,
+        condition TEXT NOT NULL,
+        target_price REAL NOT NULL,
+        mode TEXT NOT NULL,
+        is_active INTEGER NOT NULL,
+        armed INTEGER NOT NULL,
+        trigger_count INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        last_triggered_at TEXT
+      );
+      CREATE INDEX price_alerts_user ON price_alerts (created_by);
+      CREATE INDEX price_alerts_active ON price_alerts (is_active);
+    `,
+  },
+];
+
+/**
+ * Price alerts kept in SQLite so active alerts survive restarts
+ */
+export class SqlitePriceAlertStore implements PriceAlertStore {
+  private db: SqliteDatabase;
+
+  constructor(db: SqliteDatabase = openDatabase()) {
+    this.db = db;
+    runMigrations(this.db, 'price_alerts', MIGRATIONS);
+  }
+
+  async save(alert: PriceAlert): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO price_alerts (
+        id, created_by, conversation_id, token_symbol, condition, target_price, mode,
+        is_active, armed, trigger_count, created_at, last_triggered_at
+      ) VALUES (
+        @id, @created_by, @conversation_id, @token_symbol, @condition, @target_price, @mode,
+        @is_active, @armed, @trigger_count, @created_at, @last_triggered_at
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        is_active = excluded.is_active,
+        armed = excluded.armed,
+        trigger_count = excluded.trigger_count,
+        last_triggered_at = excluded.last_triggered_at
+    `).run(this.toRow(alert));
+  }
+
+  async get(id: string): Promise<PriceAlert | undefined> {
+    const row = this.db.prepare('SELECT * FROM price_alerts WHERE id = ?').get(id);
+    return row ? this.fromRow(row as PriceAlertRow) : undefined;
+  }
+
+  async listByUser(userId: string): Promise<PriceAlert[]> {
+    return this.db
+      .prepare('SELECT * FROM price_alerts WHERE created_by = ? ORDER BY created_at DESC')
+      .all(userId)
+      .map(row => this.fromRow(row as PriceAlertRow));
+  }
+
+  async listActive(): Promise<PriceAlert[]> {
+    return this.db
+      .prepare('SELECT * FROM price_alerts WHERE is_active = 1 ORDER BY created_at')
+      .all()
+      .map(row => this.fromRow(row as PriceAlertRow));
+  }
+
+  private toRow(alert: PriceAlert): PriceAlertRow {
+    return {
+      id: alert.id,
+      created_by: alert.createdBy,
+      conversation_id: alert.conversationId,
+      token_symbol: alert.tokenSymbol,
+      condition: alert.condition,
+      target_price: alert.targetPrice,
+      mode: alert.mode,
+      is_active: alert.isActive ? 1 : 0,
+      armed: alert.armed ? 1 : 0,
+      trigger_count: alert.triggerCount,
+      created_at: alert.createdAt.toISOString(),
+      last_triggered_at: alert.lastTriggeredAt?.toISOString() ?? null,
+    };
+  }
+
+  private fromRow(row: PriceAlertRow): PriceAlert {
+    return {
+      id: String(row.id),
+      createdBy: String(row.created_by),
+      conversationId: String(row.conversation_id),
+      tokenSymbol: String(row.token_symbol),
+      condition: row.condition as PriceAlert['condition'],
+      targetPrice: Number(row.target_price),
+      mode: row.mode as PriceAlert['mode'],
+      isActive: Number(row.is_active) === 1,
+      armed: Number(row.armed) === 1,
+      triggerCount: Number(row.trigger_count),
+      createdAt: new Date(String(row.created_at)),
+      lastTriggeredAt: row.last_triggered_at === null ? undefined : new Date(String(row.last_triggered_at)),
+    };
+  }
+}
+
+export default SqlitePriceAlertStore;
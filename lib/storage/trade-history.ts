@@ -0,0 +1,206 @@
+import { TradeHistoryQuery, TradeHistoryStore, TradeRecord } from '../types';
+import { Migration, SqliteDatabase, openDatabase, runMigrations } from './database';
+
+const DEFAULT_LIMIT = 50;
+
+type TradeRow = Record<string, unknown>;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_trades',
+    up: `
+      CREATE TABLE trades (
+        id TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,
+        action TEXT NOT NULL,
+        agent_name TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        conversation_id TEXT NOT NULL,
+        network TEXT NOT NULL,
+        from_token TEXT NOT NULL,
+        to_token TEXT,
+        amount_in REAL NOT NULL,
+        quoted_amount_out REAL,
+        executed_amount_out REAL,
+        recipient TEXT,
+        usd_value REAL,
+        tx_hash TEXT,
+        gas_used TEXT,
+        status TEXT NOT NULL,
+        error TEXT,
+        params TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX trades_user_created ON trades (user_id, created_at);
+      CREATE INDEX trades_tokens ON trades (from_token, to_token);
+    `,
+  },
+];
+
+// TradeRecord field -> column, for everything except the JSON and date columns
+const COLUMNS: Record<string, string> = {
+  kind: 'kind',
+  action: 'action',
+  agentName: 'agent_name',
+  userId: 'user_id',
+  conversationId: 'conversation_id',
+  network: 'network',
+  fromToken: 'from_token',
+  toToken: 'to_token',
+  amountIn: 'amount_in',
+  quotedAmountOut: 'quoted_amount_out',
+  executedAmountOut: 'executed_amount_out',
+  recipient: 'recipient',
+  usdValue: 'usd_value',
+  txHash: 'tx_hash',
+  gasUsed: 'gas_used',
+  status: 'status',
+  error: 'error',
+};
+
+function matchesQuery(record: TradeRecord, query: TradeHistoryQuery): boolean {
+  const token = query.token?.toUpperCase();
+  return (!query.userId || record.userId === query.userId)
+    && (!token || record.fromToken === token || record.toToken === token)
+    && (!query.from || record.createdAt >= query.from)
+    && (!query.to || record.createdAt <= query.to)
+    && (!query.status || record.status === query.status);
+}
+
+/**
+ * Trade history kept in a SQLite file (the default store)
+ */
+export class SqliteTradeHistoryStore implements TradeHistoryStore {
+  private db: SqliteDatabase;
+
+  constructor(db: SqliteDatabase = openDatabase()) {
+    this.db = db;
+    runMigrations(this.db, 'trades', MIGRATIONS);
+  }
+
+  async insert(record: TradeRecord): Promise<void> {
+    const row = this.toRow(record);
+    const columns = Object.keys(row);
+    this.db
+      .prepare(`INSERT INTO trades (${columns.join(', ')}) VALUES (${columns.map(c => `@${c}`).join(', ')})`)
+      .run(row);
+  }
+
+  async update(id: string, changes: Partial<Omit<TradeRecord, 'id' | 'createdAt'>>): Promise<TradeRecord | undefined> {
+    const existing = await this.get(id);
+    if (!existing) return undefined;
+
+    const updated: TradeRecord = { ...existing, ...changes, updatedAt: new Date() };
+    const row = this.toRow(updated);
+    const assignments = Object.keys(row).filter(c => c !== 'id' && c !== 'created_at').map(c => `${c} = @${c}`);
+    this.db.prepare(`UPDATE trades SET ${assignments.join(', ')} WHERE id = @id`).run(row);
+    return updated;
+  }
+
+  async get(id: string): Promise<TradeRecord | undefined> {
+    const row = this.db.prepare('SELECT * FROM trades WHERE id = ?').get(id);
+    return row ? this.fromRow(row as TradeRow) : undefined;
+  }
+
+  async query(query: TradeHistoryQuery): Promise<TradeRecord[]> {
+    const conditions: string[] = [];
+    const params: TradeRow = { limit: query.limit ?? DEFAULT_LIMIT };
+
+    if (query.userId) {
+      conditions.push('user_id = @userId');
+      params.userId = query.userId;
+    }
+    if (query.token) {
+      conditions.push('(from_token = @token OR to_token = @token)');
+      params.token = query.token.toUpperCase();
+    }
+    if (query.from) {
+      conditions.push('created_at >= @from');
+      params.from = query.from.toISOString();
+    }
+    if (query.to) {
+      conditions.push('created_at <= @to');
+      params.to = query.to.toISOString();
+    }
+    if (query.status) {
+      conditions.push('status = @status');
+      params.status = query.status;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM trades ${where} ORDER BY created_at DESC LIMIT @limit`)
+      .all(params);
+    return rows.map(row => this.fromRow(row as TradeRow));
+  }
+
+  private toRow(record: TradeRecord): TradeRow {
+    const row: TradeRow = {
+      id: record.id,
+      params: JSON.stringify(record.params),
+      created_at: record.createdAt.toISOString(),
+      updated_at: record.updatedAt.toISOString(),
+    };
+    for (const [field, column] of Object.entries(COLUMNS)) {
+      row[column] = (record as unknown as TradeRow)[field] ?? null;
+    }
+    return row;
+  }
+
+  private fromRow(row: TradeRow): TradeRecord {
+    const record: TradeRow = {
+      id: row.id,
+      params: JSON.parse(String(row.params)),
+      createdAt: new Date(String(row.created_at)),
+      updatedAt: new Date(String(row.updated_at)),
+    };
+    for (const [field, column] of Object.entries(COLUMNS)) {
+      if (row[column] !== null) record[field] = row[column];
+    }
+    return record as unknown as TradeRecord;
+  }
+}
+
+/**
+ * Non-persistent trade history, for development and simulated wallets
+ */
+export class MemoryTradeHistoryStore implements TradeHistoryStore {
+  private records: Map<string, TradeRecord> = new Map();
+
+  async insert(record: TradeRecord): Promise<void> {
+    this.records.set(record.id, { ...record });
+  }
+
+  async update(id: string, changes: Partial<Omit<TradeRecord, 'id' | 'createdAt'>>): Promise<TradeRecord | undefined> {
+    const existing = this.records.get(id);
+    if (!existing) return undefined;
+
+    const updated: TradeRecord = { ...existing, ...changes, updatedAt: new Date() };
+    this.records.set(id, updated);
+    return { ...updated };
+  }
+
+  async get(id: string): Promise<TradeRecord | undefined> {
+    const record = this.records.get(id);
+    return record && { ...record };
+  }
+
+  async query(query: TradeHistoryQuery): Promise<TradeRecord[]> {
+    return Array.from(this.records.values())
+      .filter(record => matchesQuery(record, query))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, query.limit ?? DEFAULT_LIMIT)
+      .map(record => ({ ...record }));
+  }
+}
+
+/**
+ * Store selected by TRADE_HISTORY_STORE ("sqlite" by default, or "memory")
+ */
+export function createTradeHistoryStore(): TradeHistoryStore {
+  return process.env.TRADE_HISTORY_STORE === 'memory'
+    ? new MemoryTradeHistoryStore()
+    : new SqliteTradeHistoryStore();
+}
@@ -0,0 +1,78 @@
+import { UserPreferences, UserPreferencesStore } from '../types';
+import { Migration, SqliteDatabase, openDatabase, runMigrations } from './database';
+
+type UserPreferencesRow = Record<string, unknown>;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_user_preferences',
+    up: `
+      CREATE TABLE user_preferences (
+        user_id TEXT PRIMARY KEY,
+        preferences TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+];
+
+/**
+ * Preferences of a user who has not set any
+ */
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  interests: [],
+  contentTypes: [],
+  frequency: 'medium',
+  timeZone: 'UTC',
+  language: 'en',
+  notifications: {
+    priceAlerts: true,
+    gameInvites: true,
+    eventReminders: true,
+    contentUpdates: true,
+    systemUpdates: true,
+  },
+};
+
+/**
+ * User preferences kept in SQLite, keyed by user id (their inbox address)
+ */
+export class SqliteUserPreferencesStore implements UserPreferencesStore {
+  private db: SqliteDatabase;
+
+  constructor(db: SqliteDatabase = openDatabase()) {
+    this.db = db;
+    runMigrations(this.db, 'user_preferences', MIGRATIONS);
+  }
+
+  async get(userId: string): Promise<UserPreferences | undefined> {
+    const row = this.db.prepare('SELECT * FROM user_preferences WHERE user_id = ?').get(userId.toLowerCase());
+    return row ? this.fromRow(row as UserPreferencesRow) : undefined;
+  }
+
+  async save(userId: string, preferences: UserPreferences): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO user_preferences (user_id, preferences, updated_at)
+      VALUES (@user_id, @preferences, @updated_at)
+      ON CONFLICT (user_id) DO UPDATE SET
+        preferences = excluded.preferences,
+        updated_at = excluded.updated_at
+    `).run({
+      user_id: userId.toLowerCase(),
+      preferences: JSON.stringify(preferences),
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  private fromRow(row: UserPreferencesRow): UserPreferences {
+    const stored: Partial<UserPreferences> = JSON.parse(String(row.preferences));
+    return {
+      ...DEFAULT_USER_PREFERENCES,
+      ...stored,
+      notifications: { ...DEFAULT_USER_PREFERENCES.notifications, ...stored.notifications },
+    };
+  }
+}
+
+export default SqliteUserPreferencesStore;
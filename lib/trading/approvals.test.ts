@@ -0,0 +1,140 @@
+import { describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { PublicClient, decodeFunctionData, erc20Abi, getAddress, maxUint256 } from 'viem';
+import { ApprovalManager, describeApprovals, parseApprovalMode, revokeApprovalData } from './approvals';
+import { getNetwork } from './networks';
+import { SqliteApprovalRegistry } from '../storage/approvals';
+import { openDatabase } from '../storage/database';
+
+const logger = winston.createLogger({ silent: true });
+const network = getNetwork('base-sepolia');
+const USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const OTHER_TOKEN = '0x1111111111111111111111111111111111111111';
+const ROUTER = '0x2222222222222222222222222222222222222222';
+const SPENDER = '0x3333333333333333333333333333333333333333';
+
+interface ApprovalChain {
+  latestBlock: bigint;
+  logs: Array<{ address: string; spender: string; block: bigint }>;
+  allowances: Record<string, bigint>; // by allowanceKey
+  failingFromBlock?: bigint;
+}
+
+const allowanceKey = (token: string, spender: string) => `${token}:${spender}`.toLowerCase();
+
+function manager(chain: ApprovalChain) {
+  const ranges: Array<[bigint, bigint]> = [];
+  const client = {
+    getBlockNumber: async () => chain.latestBlock,
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+      ranges.push([fromBlock, toBlock]);
+      if (fromBlock === chain.failingFromBlock) throw new Error('block range too large');
+      return chain.logs
+        .filter(log => log.block >= fromBlock && log.block <= toBlock)
+        .map(log => ({ address: log.address, args: { spender: log.spender }, transactionHash: undefined }));
+    },
+    readContract: async ({ address, functionName, args }: { address: string; functionName: string; args?: string[] }) => {
+      if (functionName === 'symbol') return 'OTHER';
+      if (functionName === 'decimals') return 18;
+      return chain.allowances[allowanceKey(address, args![1])] ?? BigInt(0);
+    },
+  } as unknown as PublicClient;
+  const approvals = new ApprovalManager({
+    registry: new SqliteApprovalRegistry(openDatabase(':memory:')),
+    logger,
+    createClient: () => client,
+    logLookbackBlocks: 25,
+    logChunkBlocks: 10,
+  });
+  return { approvals, ranges };
+}
+
+describe('ApprovalManager', () => {
+  test('find approvals in the logs in chunks and pick up where the last scan stopped', async () => {
+    const owner = '0x00000000000000000000000000000000000000a1';
+    const chain: ApprovalChain = {
+      latestBlock: BigInt(100),
+      logs: [{ address: OTHER_TOKEN, spender: ROUTER, block: BigInt(80) }],
+      allowances: { [allowanceKey(OTHER_TOKEN, ROUTER)]: BigInt('2500000000000000000') },
+    };
+    const { approvals, ranges } = manager(chain);
+
+    const found = await approvals.list(owner, network);
+
+    expect(ranges).toEqual([[BigInt(75), BigInt(84)], [BigInt(85), BigInt(94)], [BigInt(95), BigInt(100)]]);
+    expect(found).toEqual([{
+      network: 'base-sepolia',
+      owner: getAddress(owner),
+      token: getAddress(OTHER_TOKEN),
+      symbol: 'OTHER',
+      spender: getAddress(ROUTER),
+      allowance: '2500000000000000000',
+      amount: 2.5,
+      unlimited: false,
+      txHash: undefined,
+    }]);
+
+    chain.latestBlock = BigInt(104);
+    await approvals.list(owner, network);
+    expect(ranges.slice(3)).toEqual([[BigInt(101), BigInt(104)]]);
+  });
+
+  test('skip a chunk the RPC refuses and keep scanning', async () => {
+    const owner = '0x00000000000000000000000000000000000000a2';
+    const { approvals } = manager({
+      latestBlock: BigInt(100),
+      logs: [
+        { address: OTHER_TOKEN, spender: ROUTER, block: BigInt(80) },
+        { address: USDC, spender: SPENDER, block: BigInt(90) },
+      ],
+      allowances: { [allowanceKey(OTHER_TOKEN, ROUTER)]: BigInt(1), [allowanceKey(USDC, SPENDER)]: BigInt(1) },
+      failingFromBlock: BigInt(75),
+    });
+
+    const found = await approvals.list(owner, network);
+
+    expect(found.map(approval => approval.spender)).toEqual([getAddress(SPENDER)]);
+  });
+
+  test('read allowances live, dropping revoked ones and listing unlimited ones first', async () => {
+    const owner = '0x00000000000000000000000000000000000000a3';
+    const chain: ApprovalChain = {
+      latestBlock: BigInt(10),
+      logs: [],
+      allowances: { [allowanceKey(USDC, SPENDER)]: BigInt(12500000), [allowanceKey(OTHER_TOKEN, SPENDER)]: maxUint256 },
+    };
+    const { approvals } = manager(chain);
+    await approvals.record({ network: network.id, owner, token: USDC, spender: SPENDER, txHash: '0xabc' });
+    await approvals.record({ network: network.id, owner, token: OTHER_TOKEN, spender: SPENDER });
+    await approvals.record({ network: network.id, owner, token: OTHER_TOKEN, spender: ROUTER });
+
+    const found = await approvals.list(owner, network);
+
+    expect(found.map(approval => [approval.symbol, approval.unlimited, approval.amount])).toEqual([
+      ['OTHER', true, undefined],
+      ['USDC', false, 12.5],
+    ]);
+    expect(describeApprovals(found)).toBe([
+      `⚠️ OTHER (${getAddress(OTHER_TOKEN)}) → spender ${getAddress(SPENDER)}: UNLIMITED on base-sepolia`,
+      `• USDC (${USDC}) → spender ${getAddress(SPENDER)}: 12.5 USDC on base-sepolia`,
+    ].join('\n'));
+
+    chain.allowances[allowanceKey(USDC, SPENDER)] = BigInt(0);
+    expect((await approvals.list(owner, network)).map(approval => approval.symbol)).toEqual(['OTHER']);
+  });
+});
+
+describe('approval helpers', () => {
+  test('revoke by approving zero', () => {
+    const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data: revokeApprovalData(SPENDER) });
+
+    expect(functionName).toBe('approve');
+    expect(args).toEqual([getAddress(SPENDER), BigInt(0)]);
+  });
+
+  test('default swaps to exact approvals', () => {
+    expect(parseApprovalMode(undefined)).toBe('exact');
+    expect(parseApprovalMode(' Unlimited ')).toBe('unlimited');
+    expect(parseApprovalMode('infinite')).toBe('exact');
+  });
+});
@@ -0,0 +1,178 @@
+import winston from 'winston';
+import { PublicClient, encodeFunctionData, erc20Abi, formatUnits, getAddress, parseAbiItem } from 'viem';
+import { ApprovalRegistry, TokenApproval, TrackedApproval } from '../types';
+import { NetworkInfo, createNetworkClient, findToken } from './networks';
+
+const APPROVAL_EVENT = parseAbiItem('event Approval(address indexed owner, address indexed spender, uint256 value)');
+
+// Allowances this large are set to never run out (usually maxUint256); no real balance comes close
+const UNLIMITED_THRESHOLD = BigInt(2) ** BigInt(128);
+
+export type ApprovalMode = 'exact' | 'unlimited';
+
+export interface ApprovalManagerOptions {
+  registry: ApprovalRegistry;
+  logger: winston.Logger;
+  createClient?: (network: NetworkInfo) => PublicClient;
+  logLookbackBlocks?: number; // how far back the first log scan for a wallet goes
+  logChunkBlocks?: number; // block range per eth_getLogs request
+}
+
+/**
+ * Approval mode for swaps from SWAP_APPROVAL_MODE: exact amounts unless set to "unlimited"
+ */
+export function parseApprovalMode(value: string | undefined): ApprovalMode {
+  return value?.trim().toLowerCase() === 'unlimited' ? 'unlimited' : 'exact';
+}
+
+export function isUnlimitedAllowance(allowance: bigint): boolean {
+  return allowance >= UNLIMITED_THRESHOLD;
+}
+
+/**
+ * Calldata that sets a spender's allowance back to zero
+ */
+export function revokeApprovalData(spender: string): `0x${string}` {
+  return encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [getAddress(spender), BigInt(0)] });
+}
+
+/**
+ * Chat-friendly list of outstanding approvals, unlimited ones flagged
+ */
+export function describeApprovals(approvals: TokenApproval[]): string {
+  if (approvals.length === 0) return 'No outstanding token approvals.';
+
+  return approvals.map(approval => {
+    const token = approval.symbol || approval.token;
+    const amount = approval.unlimited ? 'UNLIMITED' : `${approval.amount?.toLocaleString('en-US', { maximumFractionDigits: 6 }) ?? approval.allowance} ${token}`;
+    return `${approval.unlimited ? '⚠️' : '•'} ${token} (${approval.token}) → spender ${approval.spender}: ${amount} on ${approval.network}`;
+  }).join('\n');
+}
+
+/**
+ * Keeps track of which spenders a wallet has approved to move its ERC-20 tokens: pairs the
+ * agent approved itself are recorded as they happen, others are found by scanning Approval
+ * logs. Allowances are always read live, so revoked or used-up approvals drop out.
+ */
+export class ApprovalManager {
+  private registry: ApprovalRegistry;
+  private logger: winston.Logger;
+  private createClient: (network: NetworkInfo) => PublicClient;
+  private logLookbackBlocks: bigint;
+  private logChunkBlocks: bigint;
+  private clients: Map<string, PublicClient> = new Map();
+  private scannedTo: Map<string, bigint> = new Map(); // `${network}:${owner}` -> last block scanned
+
+  constructor(options: ApprovalManagerOptions) {
+    this.registry = options.registry;
+    this.logger = options.logger;
+    this.createClient = options.createClient || createNetworkClient;
+    this.logLookbackBlocks = BigInt(options.logLookbackBlocks ?? 100000);
+    this.logChunkBlocks = BigInt(options.logChunkBlocks ?? 10000);
+  }
+
+  /**
+   * Remember an approval the wallet sent
+   */
+  async record(approval: Omit<TrackedApproval, 'recordedAt'>): Promise<void> {
+    await this.registry.record({ ...approval, recordedAt: new Date() });
+    this.logger.info('Token approval recorded', { network: approval.network, token: approval.token, spender: approval.spender });
+  }
+
+  /**
+   * Outstanding (non-zero) approvals of a wallet on a network, unlimited ones first
+   */
+  async list(owner: string, network: NetworkInfo): Promise<TokenApproval[]> {
+    await this.scanLogs(owner, network);
+
+    const client = this.clientFor(network);
+    const known = await this.registry.list(owner, network.id);
+    const approvals = await Promise.all(known.map(async (tracked): Promise<TokenApproval | undefined> => {
+      const token = getAddress(tracked.token);
+      try {
+        const allowance = await client.readContract({
+          address: token,
+          abi: erc20Abi,
+          functionName: 'allowance',
+          args: [getAddress(owner), getAddress(tracked.spender)],
+        });
+        if (allowance === BigInt(0)) return undefined;
+
+        const info = findToken(network, token);
+        const symbol = info?.symbol ?? await client.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }).catch(() => undefined);
+        const decimals = info?.decimals ?? await client.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }).catch(() => undefined);
+        const unlimited = isUnlimitedAllowance(allowance);
+        return {
+          network: network.id,
+          owner: getAddress(owner),
+          token,
+          symbol,
+          spender: getAddress(tracked.spender),
+          allowance: allowance.toString(),
+          amount: !unlimited && decimals !== undefined ? Number(formatUnits(allowance, decimals)) : undefined,
+          unlimited,
+          txHash: tracked.txHash,
+        };
+      } catch (error) {
+        this.logger.warn('Could not read allowance', { error, token, spender: tracked.spender, network: network.id });
+        return undefined;
+      }
+    }));
+
+    return approvals
+      .filter((approval): approval is TokenApproval => approval !== undefined)
+      .sort((a, b) => Number(b.unlimited) - Number(a.unlimited));
+  }
+
+  /**
+   * Record every spender the wallet emitted an Approval for since the last scan (or within
+   * the lookback on the first). Chunks the RPC refuses are skipped with a warning.
+   */
+  private async scanLogs(owner: string, network: NetworkInfo): Promise<void> {
+    const client = this.clientFor(network);
+    const key = `${network.id}:${owner.toLowerCase()}`;
+
+    let latest: bigint;
+    try {
+      latest = await client.getBlockNumber();
+    } catch (error) {
+      this.logger.warn('Could not read the block number, listing known approvals only', { error, network: network.id });
+      return;
+    }
+
+    const scanned = this.scannedTo.get(key);
+    let fromBlock = scanned !== undefined ? scanned + BigInt(1) : latest > this.logLookbackBlocks ? latest - this.logLookbackBlocks : BigInt(0);
+    while (fromBlock <= latest) {
+      const toBlock = fromBlock + this.logChunkBlocks - BigInt(1) < latest ? fromBlock + this.logChunkBlocks - BigInt(1) : latest;
+      try {
+        const logs = await client.getLogs({ event: APPROVAL_EVENT, args: { owner: getAddress(owner) }, fromBlock, toBlock });
+        for (const log of logs) {
+          if (!log.args.spender) continue;
+          await this.registry.record({
+            network: network.id,
+            owner,
+            token: log.address,
+            spender: log.args.spender,
+            txHash: log.transactionHash ?? undefined,
+            recordedAt: new Date(),
+          });
+        }
+      } catch (error) {
+        this.logger.warn('Could not scan approval logs', { error, network: network.id, fromBlock, toBlock });
+      }
+      fromBlock = toBlock + BigInt(1);
+    }
+    this.scannedTo.set(key, latest);
+  }
+
+  private clientFor(network: NetworkInfo): PublicClient {
+    let client = this.clients.get(network.id);
+    if (!client) {
+      client = this.createClient(network);
+      this.clients.set(network.id, client);
+    }
+    return client;
+  }
+}
+
+export default ApprovalManager;
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { BuyAndHoldStrategy, ConditionalOrderStrategy, DcaStrategy, runBacktest } from './backtester';
+import { parseCandlesCsv } from './ohlcv';
+
+const candles = parseCandlesCsv(`timestamp,open,high,low,close,volume
+2025-01-01T00:00:00Z,100,100,100,100,10
+2025-01-02T00:00:00Z,100,150,100,150,10
+2025-01-03T00:00:00Z,150,150,110,120,10`);
+
+const frictionless = { token: 'eth', quoteToken: 'usdc', initialCapital: 100, feeBps: 0, slippageBps: 0 };
+
+describe('runBacktest', () => {
+  test('measure return and drawdown of buy and hold', () => {
+    const result = runBacktest(candles, new BuyAndHoldStrategy(), frictionless);
+
+    expect(result.token).toBe('ETH');
+    expect(result.finalEquity).toBeCloseTo(120);
+    expect(result.totalReturn).toBeCloseTo(20);
+    expect(result.maxDrawdown).toBeCloseTo(20);
+    expect(result.trades).toHaveLength(1);
+  });
+
+  test('exit at the take-profit price when a candle reaches it', () => {
+    const result = runBacktest(candles, new ConditionalOrderStrategy({ takeProfitPercent: 40 }), frictionless);
+
+    expect(result.trades.map(trade => trade.reason)).toEqual(['market entry', 'take-profit']);
+    expect(result.trades[1].price).toBeCloseTo(140);
+    expect(result.finalEquity).toBeCloseTo(140);
+  });
+
+  test('charge fees and slippage on every fill', () => {
+    const result = runBacktest(candles, new DcaStrategy({ amount: 30, cadence: 'daily' }), {
+      ...frictionless,
+      feeBps: 100,
+      slippageBps: 100,
+    });
+
+    expect(result.trades).toHaveLength(3);
+    expect(result.invested).toBeCloseTo(90);
+    expect(result.feesPaid).toBeCloseTo(0.9);
+    expect(result.trades[0].amount).toBeCloseTo((30 - 0.3) / 101);
+  });
+
+  test('refuse a window with fewer than two candles', () => {
+    expect(() => runBacktest(candles, new BuyAndHoldStrategy(), { ...frictionless, start: new Date('2025-01-03T00:00:00Z') }))
+      .toThrow('At least two candles');
+  });
+});
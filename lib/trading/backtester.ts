@@ -0,0 +1,278 @@
+import { BacktestResult, BacktestTrade, Candle, DcaPlan } from '../types';
+import { shouldTrigger } from './conditional-orders';
+import { firstRunAt, nextRunAfter } from './dca-scheduler';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface BacktestState {
+  cash: number; // quote token
+  position: number; // base token
+  index: number; // index of the current candle
+  candles: Candle[];
+}
+
+/**
+ * An order a strategy places on a candle. Buys spend `quoteAmount` (default: all cash) or buy
+ * `amount`; sells sell `amount` (default: the whole position). Orders fill at `price` when
+ * given (e.g. a triggered limit) and at the candle close otherwise, then slippage applies.
+ */
+export interface StrategyOrder {
+  side: 'buy' | 'sell';
+  amount?: number;
+  quoteAmount?: number;
+  price?: number;
+  reason: string;
+}
+
+export interface Strategy {
+  name: string;
+  onCandle(candle: Candle, state: Readonly<BacktestState>): StrategyOrder[];
+}
+
+export interface BacktestOptions {
+  token: string;
+  quoteToken: string;
+  initialCapital: number;
+  feeBps?: number;
+  slippageBps?: number;
+  start?: Date;
+  end?: Date;
+}
+
+/**
+ * Replay candles through a strategy, filling its orders with fees and slippage, and measure
+ * the resulting equity curve
+ */
+export function runBacktest(candles: Candle[], strategy: Strategy, options: BacktestOptions): BacktestResult {
+  const window = candles.filter(candle =>
+    (!options.start || candle.timestamp >= options.start) && (!options.end || candle.timestamp <= options.end)
+  );
+  if (window.length < 2) {
+    throw new Error('At least two candles are needed in the backtest window');
+  }
+  if (!(options.initialCapital > 0)) {
+    throw new Error('Initial capital must be greater than zero');
+  }
+
+  const feeRate = (options.feeBps ?? 30) / 10000;
+  const slippage = (options.slippageBps ?? 10) / 10000;
+  const state: BacktestState = { cash: options.initialCapital, position: 0, index: 0, candles: window };
+  const trades: BacktestTrade[] = [];
+  const equity: number[] = [];
+  let invested = 0;
+  let feesPaid = 0;
+
+  window.forEach((candle, index) => {
+    state.index = index;
+
+    for (const order of strategy.onCandle(candle, state)) {
+      const reference = order.price ?? candle.close;
+
+      if (order.side === 'buy') {
+        const price = reference * (1 + slippage);
+        const budget = order.quoteAmount ?? (order.amount !== undefined ? order.amount * price * (1 + feeRate) : state.cash);
+        const spend = Math.min(budget, state.cash);
+        if (spend <= 0) continue;
+
+        const fee = spend * feeRate;
+        const amount = (spend - fee) / price;
+        state.cash -= spend;
+        state.position += amount;
+        invested += spend;
+        feesPaid += fee;
+        trades.push({ timestamp: candle.timestamp, side: 'buy', price, amount, fee, reason: order.reason });
+      } else {
+        const price = reference * (1 - slippage);
+        const amount = Math.min(order.amount ?? state.position, state.position);
+        if (amount <= 0) continue;
+
+        const proceeds = amount * price;
+        const fee = proceeds * feeRate;
+        state.cash += proceeds - fee;
+        state.position -= amount;
+        feesPaid += fee;
+        trades.push({ timestamp: candle.timestamp, side: 'sell', price, amount, fee, reason: order.reason });
+      }
+    }
+
+    equity.push(state.cash + state.position * candle.close);
+  });
+
+  const finalEquity = equity[equity.length - 1];
+  return {
+    strategy: strategy.name,
+    token: options.token.toUpperCase(),
+    quoteToken: options.quoteToken.toUpperCase(),
+    start: window[0].timestamp,
+    end: window[window.length - 1].timestamp,
+    initialCapital: options.initialCapital,
+    finalEquity,
+    invested,
+    totalReturn: ((finalEquity - options.initialCapital) / options.initialCapital) * 100,
+    maxDrawdown: maxDrawdown(equity),
+    sharpeRatio: sharpeRatio(equity, medianInterval(window)),
+    feesPaid,
+    trades,
+  };
+}
+
+/**
+ * Largest peak-to-trough fall of an equity curve, in percent
+ */
+export function maxDrawdown(equity: number[]): number {
+  let peak = -Infinity;
+  let worst = 0;
+  for (const value of equity) {
+    peak = Math.max(peak, value);
+    if (peak > 0) {
+      worst = Math.max(worst, ((peak - value) / peak) * 100);
+    }
+  }
+  return worst;
+}
+
+/**
+ * Annualized Sharpe ratio of an equity curve sampled every `intervalMs`, with a zero risk-free rate
+ */
+export function sharpeRatio(equity: number[], intervalMs: number): number {
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    if (equity[i - 1] > 0) {
+      returns.push(equity[i] / equity[i - 1] - 1);
+    }
+  }
+  if (returns.length < 2 || intervalMs <= 0) return 0;
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  const deviation = Math.sqrt(variance);
+  return deviation === 0 ? 0 : (mean / deviation) * Math.sqrt(YEAR_MS / intervalMs);
+}
+
+function medianInterval(candles: Candle[]): number {
+  const gaps = candles.slice(1)
+    .map((candle, i) => candle.timestamp.getTime() - candles[i].timestamp.getTime())
+    .sort((a, b) => a - b);
+  return gaps[Math.floor(gaps.length / 2)];
+}
+
+/**
+ * Buy with all capital on the first candle and hold
+ */
+export class BuyAndHoldStrategy implements Strategy {
+  public readonly name = 'Buy and hold';
+
+  onCandle(_candle: Candle, state: Readonly<BacktestState>): StrategyOrder[] {
+    return state.index === 0 ? [{ side: 'buy', reason: 'initial buy' }] : [];
+  }
+}
+
+export interface DcaStrategyParams {
+  amount: number; // quote token per buy
+  cadence: DcaPlan['cadence'];
+  dayOfWeek?: number;
+  hourUtc?: number;
+}
+
+/**
+ * Recurring buys on the same calendar the live DCA scheduler uses
+ */
+export class DcaStrategy implements Strategy {
+  public readonly name: string;
+  private params: DcaStrategyParams;
+  private nextRunAt?: Date;
+
+  constructor(params: DcaStrategyParams) {
+    this.params = params;
+    this.name = `${params.cadence} DCA of ${params.amount}`;
+  }
+
+  /**
+   * Number of buys the schedule makes between two dates
+   */
+  countRuns(start: Date, end: Date): number {
+    let count = 0;
+    let run = this.firstRun(start);
+    while (run <= end) {
+      count += 1;
+      run = nextRunAfter({ cadence: this.params.cadence, nextRunAt: run }, run);
+    }
+    return count;
+  }
+
+  onCandle(candle: Candle): StrategyOrder[] {
+    this.nextRunAt = this.nextRunAt || this.firstRun(candle.timestamp);
+    if (candle.timestamp < this.nextRunAt) return [];
+
+    this.nextRunAt = nextRunAfter({ cadence: this.params.cadence, nextRunAt: this.nextRunAt }, candle.timestamp);
+    return [{ side: 'buy', quoteAmount: this.params.amount, reason: 'scheduled buy' }];
+  }
+
+  private firstRun(start: Date): Date {
+    // The first slot may fall exactly on the start
+    return firstRunAt(this.params.cadence, new Date(start.getTime() - 1), this.params.hourUtc ?? 0, this.params.dayOfWeek);
+  }
+}
+
+export interface ConditionalOrderStrategyParams {
+  quoteAmount?: number; // spent on entry, default all capital
+  limitPrice?: number; // enter with a limit buy instead of at the first close
+  stopLossPrice?: number;
+  takeProfitPrice?: number;
+  stopLossPercent?: number; // below the entry price, when no stop price is given
+  takeProfitPercent?: number; // above the entry price, when no take-profit price is given
+}
+
+/**
+ * One position entered at market or with a limit buy, then exited by a stop-loss and/or
+ * take-profit (OCO). Triggers use the candle's low and high; a candle that crosses both exits
+ * is assumed to hit the stop first.
+ */
+export class ConditionalOrderStrategy implements Strategy {
+  public readonly name: string;
+  private params: ConditionalOrderStrategyParams;
+  private entryPrice?: number;
+  private exited = false;
+
+  constructor(params: ConditionalOrderStrategyParams) {
+    this.params = params;
+    this.name = [
+      params.limitPrice !== undefined ? `limit buy at ${params.limitPrice}` : 'market buy',
+      params.stopLossPrice !== undefined || params.stopLossPercent !== undefined ? 'stop-loss' : '',
+      params.takeProfitPrice !== undefined || params.takeProfitPercent !== undefined ? 'take-profit' : '',
+    ].filter(Boolean).join(' + ');
+  }
+
+  onCandle(candle: Candle): StrategyOrder[] {
+    if (this.exited) return [];
+
+    if (this.entryPrice === undefined) {
+      const { limitPrice } = this.params;
+      if (limitPrice === undefined) {
+        this.entryPrice = candle.close;
+        return [{ side: 'buy', quoteAmount: this.params.quoteAmount, reason: 'market entry' }];
+      }
+      if (shouldTrigger({ type: 'limit_buy', triggerPrice: limitPrice }, candle.low)) {
+        // A candle that opens below the limit fills at the open
+        this.entryPrice = Math.min(limitPrice, candle.open);
+        return [{ side: 'buy', quoteAmount: this.params.quoteAmount, price: this.entryPrice, reason: 'limit buy filled' }];
+      }
+      return [];
+    }
+
+    const stop = this.params.stopLossPrice
+      ?? (this.params.stopLossPercent !== undefined ? this.entryPrice * (1 - this.params.stopLossPercent / 100) : undefined);
+    const target = this.params.takeProfitPrice
+      ?? (this.params.takeProfitPercent !== undefined ? this.entryPrice * (1 + this.params.takeProfitPercent / 100) : undefined);
+
+    if (stop !== undefined && shouldTrigger({ type: 'stop_loss', triggerPrice: stop }, candle.low)) {
+      this.exited = true;
+      return [{ side: 'sell', price: Math.min(stop, candle.open), reason: 'stop-loss' }];
+    }
+    if (target !== undefined && shouldTrigger({ type: 'take_profit', triggerPrice: target }, candle.high)) {
+      this.exited = true;
+      return [{ side: 'sell', price: Math.max(target, candle.open), reason: 'take-profit' }];
+    }
+    return [];
+  }
+}
@@ -0,0 +1,154 @@
+import winston from 'winston';
+import { Candle, CandleInterval, CandleStore, PriceSource } from '../types';
+import { loadCandles } from './ohlcv';
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+export interface CandleCollectorOptions {
+  store: CandleStore;
+  priceSource: PriceSource;
+  logger: winston.Logger;
+  tokens: string[];
+  intervals?: CandleInterval[];
+  pollIntervalMs?: number;
+}
+
+/**
+ * Parse a comma-separated list of candle intervals, e.g. "1h,1d"; unknown entries are dropped
+ */
+export function parseCandleIntervals(value: string | undefined): CandleInterval[] {
+  return (value || '')
+    .split(',')
+    .map(interval => interval.trim())
+    .filter((interval): interval is CandleInterval => interval in CANDLE_INTERVAL_MS);
+}
+
+/**
+ * Interval of a candle series, from the median spacing of its timestamps, or undefined when
+ * it matches none of the stored intervals
+ */
+export function detectCandleInterval(candles: Candle[]): CandleInterval | undefined {
+  const gaps = candles.slice(1).map((candle, i) => candle.timestamp.getTime() - candles[i].timestamp.getTime()).sort((a, b) => a - b);
+  if (gaps.length === 0) return undefined;
+
+  const median = gaps[Math.floor(gaps.length / 2)];
+  return (Object.keys(CANDLE_INTERVAL_MS) as CandleInterval[]).find(interval => median === CANDLE_INTERVAL_MS[interval]);
+}
+
+/**
+ * Builds candles for a set of tokens from price service ticks and stores them, so indicators
+ * have a local history to work from. Ticks carry no volume, so collected candles have a
+ * volume of 0; imported files keep theirs.
+ */
+export class CandleCollector {
+  private store: CandleStore;
+  private priceSource: PriceSource;
+  private logger: winston.Logger;
+  private tokens: string[];
+  public readonly intervals: CandleInterval[];
+  private pollIntervalMs: number;
+  private pollInterval?: NodeJS.Timeout;
+  private isCollecting = false;
+  private current: Map<string, Candle> = new Map(); // `${token}:${interval}` -> candle being built
+
+  constructor(options: CandleCollectorOptions) {
+    this.store = options.store;
+    this.priceSource = options.priceSource;
+    this.logger = options.logger;
+    this.tokens = options.tokens.map(token => token.toUpperCase());
+    this.intervals = options.intervals && options.intervals.length > 0 ? options.intervals : ['1h', '1d'];
+    this.pollIntervalMs = options.pollIntervalMs ?? 60000;
+  }
+
+  /**
+   * Start sampling prices
+   */
+  start(): void {
+    if (this.pollInterval || this.tokens.length === 0) return;
+
+    this.pollInterval = setInterval(() => {
+      this.collect().catch(error => {
+        this.logger.error('Candle collection failed', { error });
+      });
+    }, this.pollIntervalMs);
+  }
+
+  /**
+   * Stop sampling prices
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
+
+  /**
+   * Fold the current price of every token into the candle of each interval it falls in
+   */
+  async collect(now: Date = new Date()): Promise<void> {
+    if (this.isCollecting) return;
+    this.isCollecting = true;
+
+    try {
+      const prices = await this.priceSource.getPrices(this.tokens);
+      for (const token of this.tokens) {
+        const price = prices[token];
+        if (!(price > 0)) continue;
+
+        for (const interval of this.intervals) {
+          const candle = await this.update(token, interval, price, now);
+          await this.store.upsert(token, interval, [candle]);
+        }
+      }
+    } finally {
+      this.isCollecting = false;
+    }
+  }
+
+  /**
+   * Import candles for a token from a .csv or .json file. The interval is detected from the
+   * data unless given.
+   */
+  async importFile(token: string, file: string, interval?: CandleInterval): Promise<{ interval: CandleInterval; count: number; from: Date; to: Date }> {
+    const candles = await loadCandles(file);
+    if (candles.length === 0) {
+      throw new Error(`No candles in ${file}`);
+    }
+
+    const detected = interval || detectCandleInterval(candles);
+    if (!detected) {
+      throw new Error(`Could not tell the candle interval of ${file}; it must be one of ${Object.keys(CANDLE_INTERVAL_MS).join(', ')}`);
+    }
+
+    await this.store.upsert(token, detected, candles);
+    this.logger.info('Candles imported', { token: token.toUpperCase(), interval: detected, count: candles.length, file });
+    return { interval: detected, count: candles.length, from: candles[0].timestamp, to: candles[candles.length - 1].timestamp };
+  }
+
+  private async update(token: string, interval: CandleInterval, price: number, now: Date): Promise<Candle> {
+    const key = `${token}:${interval}`;
+    const openTime = Math.floor(now.getTime() / CANDLE_INTERVAL_MS[interval]) * CANDLE_INTERVAL_MS[interval];
+
+    let candle = this.current.get(key);
+    if (!candle) {
+      // Continue the stored candle after a restart instead of overwriting it
+      candle = await this.store.latest(token, interval);
+    }
+
+    if (candle && candle.timestamp.getTime() === openTime) {
+      candle = { ...candle, high: Math.max(candle.high, price), low: Math.min(candle.low, price), close: price };
+    } else {
+      candle = { timestamp: new Date(openTime), open: price, high: price, low: price, close: price, volume: 0 };
+    }
+
+    this.current.set(key, candle);
+    return candle;
+  }
+}
+
+export default CandleCollector;
@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { ConditionalOrderEngine, OrderEvent } from './conditional-orders';
+import { SqliteConditionalOrderStore } from '../storage/orders';
+import { openDatabase } from '../storage/database';
+import { ConditionalOrder, TradeExecution } from '../types';
+
+const logger = winston.createLogger({ silent: true });
+
+function execution(order: ConditionalOrder): TradeExecution {
+  const now = new Date();
+  return {
+    result: 'ok',
+    trade: {
+      id: `trade_${order.id}`,
+      kind: 'swap',
+      action: 'swap',
+      agentName: 'test',
+      userId: order.userId,
+      conversationId: order.conversationId,
+      network: 'base-sepolia',
+      fromToken: order.token,
+      toToken: order.quoteToken,
+      amountIn: order.amount,
+      status: 'confirmed',
+      params: {},
+      createdAt: now,
+      updatedAt: now,
+    },
+  };
+}
+
+async function ocoPair(executeOrder: (order: ConditionalOrder) => Promise<TradeExecution>) {
+  const store = new SqliteConditionalOrderStore(openDatabase(':memory:'));
+  const engine = new ConditionalOrderEngine({
+    store,
+    logger,
+    priceSource: { name: 'test', getPrices: async () => ({ ETH: 1500 }) },
+    executeOrder,
+  });
+  const [stop, takeProfit] = await engine.placeOcoPair(
+    { userId: 'user', conversationId: 'conversation', token: 'ETH', quoteToken: 'USDC', amount: 1, maxSlippage: 1 },
+    1600,
+    2400
+  );
+  return { store, engine, stop, takeProfit };
+}
+
+describe('ConditionalOrderEngine OCO pairs', () => {
+  test('cancel the sibling once the triggered order fills', async () => {
+    const { store, engine, stop, takeProfit } = await ocoPair(async order => execution(order));
+    const filled: OrderEvent[] = [];
+    engine.on('filled', event => filled.push(event));
+
+    await engine.evaluate();
+
+    expect((await store.get(stop.id))?.status).toBe('filled');
+    expect((await store.get(takeProfit.id))?.status).toBe('cancelled');
+    expect(filled[0].cancelled?.map(order => order.id)).toEqual([takeProfit.id]);
+  });
+
+  test('keep the sibling open when the triggered order fails', async () => {
+    const { store, engine, stop, takeProfit } = await ocoPair(async () => {
+      throw new Error('slippage exceeded');
+    });
+
+    await engine.evaluate();
+
+    expect((await store.get(stop.id))?.status).toBe('failed');
+    expect((await store.get(takeProfit.id))?.status).toBe('open');
+  });
+});
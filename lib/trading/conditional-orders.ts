@@ -0,0 +1,256 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import winston from 'winston';
+import { ConditionalOrder, ConditionalOrderStore, PriceSource, TradeExecution } from '../types';
+
+export interface PlaceOrderParams {
+  userId: string;
+  conversationId: string;
+  type: ConditionalOrder['type'];
+  token: string;
+  quoteToken: string;
+  amount: number;
+  triggerPrice: number;
+  maxSlippage: number;
+  ocoGroupId?: string;
+}
+
+export interface OrderEvent {
+  order: ConditionalOrder;
+  price: number;
+  execution?: TradeExecution;
+  cancelled?: ConditionalOrder[]; // OCO siblings cancelled by this fill
+  error?: Error;
+}
+
+export interface ConditionalOrderEngineOptions {
+  store: ConditionalOrderStore;
+  priceSource: PriceSource;
+  logger: winston.Logger;
+  executeOrder: (order: ConditionalOrder, price: number) => Promise<TradeExecution>;
+  pollIntervalMs?: number;
+}
+
+/**
+ * Whether an order sells its token (as opposed to buying it with the quote token)
+ */
+export function isSellOrder(order: Pick<ConditionalOrder, 'type'>): boolean {
+  return order.type !== 'limit_buy';
+}
+
+/**
+ * Whether the current price satisfies an order's trigger condition
+ */
+export function shouldTrigger(order: Pick<ConditionalOrder, 'type' | 'triggerPrice'>, price: number): boolean {
+  switch (order.type) {
+    case 'limit_buy':
+    case 'stop_loss':
+      return price <= order.triggerPrice;
+    case 'limit_sell':
+    case 'take_profit':
+      return price >= order.triggerPrice;
+  }
+}
+
+/**
+ * Holds limit, stop-loss and take-profit orders and fires them when the price feed crosses
+ * their trigger. Orders in the same OCO group cancel each other once one fills; a failed fill
+ * leaves the others open.
+ * Emits `filled` and `failed` with an OrderEvent.
+ */
+export class ConditionalOrderEngine extends EventEmitter {
+  private store: ConditionalOrderStore;
+  private priceSource: PriceSource;
+  private logger: winston.Logger;
+  private executeOrder: (order: ConditionalOrder, price: number) => Promise<TradeExecution>;
+  private pollIntervalMs: number;
+  private pollInterval?: NodeJS.Timeout;
+  private isEvaluating = false;
+
+  constructor(options: ConditionalOrderEngineOptions) {
+    super();
+    this.store = options.store;
+    this.priceSource = options.priceSource;
+    this.logger = options.logger;
+    this.executeOrder = options.executeOrder;
+    this.pollIntervalMs = options.pollIntervalMs ?? 30000;
+  }
+
+  /**
+   * Place an open order
+   */
+  async placeOrder(params: PlaceOrderParams): Promise<ConditionalOrder> {
+    if (!(params.amount > 0)) {
+      throw new Error('Amount must be greater than zero');
+    }
+    if (!(params.triggerPrice > 0)) {
+      throw new Error('Trigger price must be greater than zero');
+    }
+
+    const now = new Date();
+    const order: ConditionalOrder = {
+      id: `order_${uuidv4().slice(0, 8)}`,
+      userId: params.userId,
+      conversationId: params.conversationId,
+      type: params.type,
+      token: params.token.toUpperCase(),
+      quoteToken: params.quoteToken.toUpperCase(),
+      amount: params.amount,
+      triggerPrice: params.triggerPrice,
+      maxSlippage: params.maxSlippage,
+      ocoGroupId: params.ocoGroupId,
+      status: 'open',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.save(order);
+    this.logger.info('Conditional order placed', { orderId: order.id, type: order.type, token: order.token, userId: order.userId });
+    return order;
+  }
+
+  /**
+   * Place a stop-loss and a take-profit on the same position as an OCO pair
+   */
+  async placeOcoPair(
+    params: Omit<PlaceOrderParams, 'type' | 'triggerPrice' | 'ocoGroupId'>,
+    stopPrice: number,
+    takeProfitPrice: number
+  ): Promise<[ConditionalOrder, ConditionalOrder]> {
+    if (stopPrice >= takeProfitPrice) {
+      throw new Error('Stop-loss price must be below the take-profit price');
+    }
+
+    const ocoGroupId = `oco_${uuidv4().slice(0, 8)}`;
+    return [
+      await this.placeOrder({ ...params, type: 'stop_loss', triggerPrice: stopPrice, ocoGroupId }),
+      await this.placeOrder({ ...params, type: 'take_profit', triggerPrice: takeProfitPrice, ocoGroupId }),
+    ];
+  }
+
+  /**
+   * Orders placed by a user, newest first
+   */
+  async listOrders(userId: string, includeClosed = false): Promise<ConditionalOrder[]> {
+    const orders = await this.store.listByUser(userId);
+    return orders.filter(order => includeClosed || order.status === 'open');
+  }
+
+  /**
+   * Cancel an open order. Only the user who placed it may cancel it; cancelling one side of an
+   * OCO pair leaves the other side open.
+   */
+  async cancelOrder(orderId: string, userId: string): Promise<ConditionalOrder | undefined> {
+    const order = await this.store.get(orderId);
+    if (!order || order.userId !== userId || order.status !== 'open') {
+      return undefined;
+    }
+
+    order.status = 'cancelled';
+    order.updatedAt = new Date();
+    await this.store.save(order);
+    this.logger.info('Conditional order cancelled', { orderId, userId });
+    return order;
+  }
+
+  /**
+   * Start watching the price feed
+   */
+  start(): void {
+    if (this.pollInterval) return;
+
+    this.pollInterval = setInterval(() => {
+      this.evaluate().catch(error => {
+        this.logger.error('Conditional order evaluation failed', { error });
+      });
+    }, this.pollIntervalMs);
+  }
+
+  /**
+   * Stop watching the price feed
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
+
+  /**
+   * Check every open order against current prices and execute the ones that trigger
+   */
+  async evaluate(): Promise<void> {
+    if (this.isEvaluating) return;
+    this.isEvaluating = true;
+
+    try {
+      const orders = await this.store.listOpen();
+      if (orders.length === 0) return;
+
+      const symbols = Array.from(new Set(orders.map(order => order.token)));
+      const prices = await this.priceSource.getPrices(symbols);
+
+      for (const order of orders) {
+        const price = prices[order.token];
+        if (price === undefined || !shouldTrigger(order, price)) continue;
+
+        // A sibling may have triggered earlier in this pass
+        const current = await this.store.get(order.id);
+        if (current?.status !== 'open') continue;
+
+        await this.trigger(order, price);
+      }
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+
+  private async trigger(order: ConditionalOrder, price: number): Promise<void> {
+    // Persist the trigger before executing so a crash mid-swap can never fire the order twice
+    order.status = 'triggered';
+    order.triggeredAt = new Date();
+    order.triggerPriceObserved = price;
+    order.updatedAt = order.triggeredAt;
+    await this.store.save(order);
+    this.logger.info('Conditional order triggered', { orderId: order.id, price });
+
+    let execution: TradeExecution;
+    try {
+      execution = await this.executeOrder(order, price);
+    } catch (error) {
+      // The linked orders stay open: the position they protect is still held
+      order.status = 'failed';
+      order.error = error instanceof Error ? error.message : 'Unknown error';
+      order.updatedAt = new Date();
+      await this.store.save(order);
+      this.logger.warn('Conditional order execution failed', { error, orderId: order.id });
+      this.emit('failed', { order, price, cancelled: [], error: error instanceof Error ? error : new Error(String(error)) } as OrderEvent);
+      return;
+    }
+
+    order.status = 'filled';
+    order.tradeId = execution.trade.id;
+    order.updatedAt = new Date();
+    await this.store.save(order);
+
+    const cancelled = order.ocoGroupId ? await this.cancelSiblings(order) : [];
+    if (cancelled.length > 0) {
+      this.logger.info('Linked orders cancelled after fill', { orderId: order.id, cancelled: cancelled.map(o => o.id) });
+    }
+    this.emit('filled', { order, price, execution, cancelled } as OrderEvent);
+  }
+
+  private async cancelSiblings(order: ConditionalOrder): Promise<ConditionalOrder[]> {
+    const siblings = (await this.store.listGroup(order.ocoGroupId!))
+      .filter(sibling => sibling.id !== order.id && sibling.status === 'open');
+
+    for (const sibling of siblings) {
+      sibling.status = 'cancelled';
+      sibling.updatedAt = new Date();
+      await this.store.save(sibling);
+    }
+    return siblings;
+  }
+}
+
+export default ConditionalOrderEngine;
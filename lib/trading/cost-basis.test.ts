@@ -0,0 +1,159 @@
+import { describe, expect, test } from 'bun:test';
+import { buildCostBasis, computePnl, takeLots } from './cost-basis';
+import { CostBasisMethod, TaxLot, TradeRecord } from '../types';
+
+let sequence = 0;
+
+function trade(day: number, fields: Partial<TradeRecord> & Pick<TradeRecord, 'fromToken' | 'amountIn'>): TradeRecord {
+  const createdAt = new Date(Date.UTC(2024, 0, day));
+  sequence += 1;
+  return {
+    id: `trade_${sequence}`,
+    kind: 'swap',
+    action: 'trade',
+    agentName: 'TradingAgent',
+    userId: 'user',
+    conversationId: 'conversation',
+    network: 'base-sepolia',
+    status: 'confirmed',
+    params: {},
+    createdAt,
+    updatedAt: createdAt,
+    ...fields,
+  };
+}
+
+const buy = (day: number, amount: number, costUsd: number, token = 'ETH') =>
+  trade(day, { fromToken: 'USDC', toToken: token, amountIn: costUsd, executedAmountOut: amount });
+const sell = (day: number, amount: number, proceedsUsd: number, token = 'ETH') =>
+  trade(day, { fromToken: token, toToken: 'USDC', amountIn: amount, executedAmountOut: proceedsUsd });
+
+describe('takeLots', () => {
+  const lots = (): TaxLot[] => [
+    { token: 'ETH', amount: 1, costUsd: 1000, acquiredAt: new Date('2024-01-01'), tradeId: 'a' },
+    { token: 'ETH', amount: 2, costUsd: 5000, acquiredAt: new Date('2024-02-01'), tradeId: 'b' },
+  ];
+
+  test('take the oldest lots first for FIFO and split the last one', () => {
+    const open = lots();
+    const { taken, unmatched } = takeLots(open, 2, 'fifo');
+
+    expect(taken.map(lot => [lot.tradeId, lot.amount, lot.costUsd])).toEqual([['a', 1, 1000], ['b', 1, 2500]]);
+    expect(unmatched).toBe(0);
+    expect(open).toEqual([{ token: 'ETH', amount: 1, costUsd: 2500, acquiredAt: new Date('2024-02-01'), tradeId: 'b' }]);
+  });
+
+  test('take the newest lots first for LIFO', () => {
+    const open = lots();
+    const { taken } = takeLots(open, 2.5, 'lifo');
+
+    expect(taken.map(lot => [lot.tradeId, lot.amount, lot.costUsd])).toEqual([['b', 2, 5000], ['a', 0.5, 500]]);
+    expect(open.map(lot => [lot.tradeId, lot.amount, lot.costUsd])).toEqual([['a', 0.5, 500]]);
+  });
+
+  test('report the amount no lot covers', () => {
+    const open = lots();
+    const { taken, unmatched } = takeLots(open, 4, 'fifo');
+
+    expect(taken.reduce((sum, lot) => sum + lot.costUsd, 0)).toBe(6000);
+    expect(unmatched).toBe(1);
+    expect(open).toHaveLength(0);
+  });
+});
+
+describe('buildCostBasis', () => {
+  const partialSale = [buy(1, 1, 1000), buy(2, 1, 2000), sell(3, 1.5, 4500)];
+  const expected: Record<CostBasisMethod, { costBasisUsd: number; remainingCostUsd: number }> = {
+    fifo: { costBasisUsd: 2000, remainingCostUsd: 1000 },
+    lifo: { costBasisUsd: 2500, remainingCostUsd: 500 },
+    average: { costBasisUsd: 2250, remainingCostUsd: 750 },
+  };
+
+  for (const method of ['fifo', 'lifo', 'average'] as CostBasisMethod[]) {
+    test(`consume lots partially with ${method}`, () => {
+      const ledger = buildCostBasis(partialSale, method);
+
+      expect(ledger.realized).toHaveLength(1);
+      expect(ledger.realized[0]).toMatchObject({
+        token: 'ETH',
+        amount: 1.5,
+        proceedsUsd: 4500,
+        costBasisUsd: expected[method].costBasisUsd,
+        pnlUsd: 4500 - expected[method].costBasisUsd,
+        unmatchedAmount: 0,
+      });
+      const remaining = ledger.lots.get('ETH')!;
+      expect(remaining.reduce((sum, lot) => sum + lot.amount, 0)).toBeCloseTo(0.5);
+      expect(remaining.reduce((sum, lot) => sum + lot.costUsd, 0)).toBeCloseTo(expected[method].remainingCostUsd);
+    });
+
+    test(`leave the proceeds of an unmatched disposal out with ${method}`, () => {
+      const ledger = buildCostBasis([buy(1, 1, 1000), sell(2, 2, 4000)], method);
+
+      expect(ledger.realized[0]).toMatchObject({ proceedsUsd: 2000, costBasisUsd: 1000, pnlUsd: 1000, unmatchedAmount: 1 });
+    });
+
+    test(`carry lots over a wrap with ${method}`, () => {
+      const ledger = buildCostBasis([
+        buy(1, 1, 1000),
+        trade(2, { kind: 'wrap', action: 'wrap_eth', fromToken: 'ETH', toToken: 'WETH', amountIn: 1 }),
+        sell(3, 1, 1500, 'WETH'),
+      ], method);
+
+      expect(ledger.lots.get('ETH')).toHaveLength(0);
+      expect(ledger.realized).toHaveLength(1);
+      expect(ledger.realized[0]).toMatchObject({ token: 'WETH', costBasisUsd: 1000, pnlUsd: 500 });
+      expect(ledger.realized[0].lots[0].acquiredAt).toEqual(new Date(Date.UTC(2024, 0, 1)));
+    });
+  }
+
+  test('dispose of one token and open a lot of the other on a token-to-token swap', () => {
+    const ledger = buildCostBasis([
+      buy(1, 1, 1000),
+      trade(2, { fromToken: 'ETH', toToken: 'CBBTC', amountIn: 1, executedAmountOut: 0.05, usdValue: 2500 }),
+    ]);
+
+    expect(ledger.realized[0]).toMatchObject({ token: 'ETH', proceedsUsd: 2500, costBasisUsd: 1000, pnlUsd: 1500 });
+    expect(ledger.lots.get('CBBTC')).toEqual([
+      expect.objectContaining({ amount: 0.05, costUsd: 2500, acquiredAt: new Date(Date.UTC(2024, 0, 2)) }),
+    ]);
+  });
+
+  test('skip trades that cannot be valued and ignore unconfirmed ones', () => {
+    const unvalued = trade(2, { fromToken: 'ETH', toToken: 'CBBTC', amountIn: 1, executedAmountOut: 0.05 });
+    const noAmountOut = trade(3, { fromToken: 'USDC', toToken: 'ETH', amountIn: 1000 });
+    const failed = trade(4, { fromToken: 'USDC', toToken: 'ETH', amountIn: 1000, executedAmountOut: 1, status: 'failed' });
+
+    const ledger = buildCostBasis([buy(1, 1, 1000), unvalued, noAmountOut, failed]);
+
+    expect(ledger.skippedTrades).toEqual([unvalued.id, noAmountOut.id]);
+    expect(ledger.realized).toHaveLength(0);
+    expect(ledger.lots.get('ETH')).toEqual([expect.objectContaining({ amount: 1, costUsd: 1000 })]);
+  });
+});
+
+describe('computePnl', () => {
+  test('combine realized and unrealized PnL per token', () => {
+    const ledger = buildCostBasis([buy(1, 1, 1000), buy(2, 1, 2000), sell(3, 1.5, 4500), buy(4, 100, 50, 'AERO')]);
+    const report = computePnl(ledger, { ETH: 3000 }, 'fifo');
+
+    const eth = report.tokens.find(pnl => pnl.token === 'ETH')!;
+    expect(eth).toMatchObject({ amount: 0.5, costBasisUsd: 1000, averageCostUsd: 2000, realizedPnlUsd: 2500, marketValueUsd: 1500, unrealizedPnlUsd: 500 });
+    const aero = report.tokens.find(pnl => pnl.token === 'AERO')!;
+    expect(aero.unrealizedPnlUsd).toBeUndefined();
+
+    expect(report.totalRealizedPnlUsd).toBe(2500);
+    expect(report.totalUnrealizedPnlUsd).toBe(500);
+    expect(report.totalCostBasisUsd).toBe(1050);
+    expect(report.totalReturn).toBeCloseTo((3000 / 3050) * 100);
+  });
+
+  test('narrow the report to one token', () => {
+    const ledger = buildCostBasis([buy(1, 1, 1000), sell(2, 1, 1200), buy(3, 100, 50, 'AERO')]);
+    const report = computePnl(ledger, { AERO: 1 }, 'fifo', 'aero');
+
+    expect(report.tokens.map(pnl => pnl.token)).toEqual(['AERO']);
+    expect(report.realized).toHaveLength(0);
+    expect(report.totalUnrealizedPnlUsd).toBe(50);
+  });
+});
@@ -0,0 +1,247 @@
+import winston from 'winston';
+import { CostBasisMethod, PnlReport, PriceSource, RealizedPnl, TaxLot, TokenPnl, TradeRecord } from '../types';
+
+// Amounts below this are float noise left over from splitting lots
+const DUST = 1e-12;
+
+/**
+ * Tokens treated as cash: spending them costs their face value and they carry no lots or PnL
+ */
+export const CASH_TOKENS = new Set(['USDC', 'USDT', 'DAI', 'USD']);
+
+export interface CostBasisLedger {
+  lots: Map<string, TaxLot[]>; // open lots per token, oldest first
+  realized: RealizedPnl[];
+  skippedTrades: string[];
+}
+
+/**
+ * USD value exchanged in a trade: the cash side when there is one, else the value recorded
+ * when the trade was checked against the spending policy
+ */
+function tradeValueUsd(trade: TradeRecord): number | undefined {
+  if (CASH_TOKENS.has(trade.fromToken)) return trade.amountIn;
+  if (trade.toToken && CASH_TOKENS.has(trade.toToken) && trade.executedAmountOut !== undefined) return trade.executedAmountOut;
+  return trade.usdValue;
+}
+
+/**
+ * Remove an amount from a token's lots in method order. Average cost keeps a single pooled lot.
+ */
+export function takeLots(lots: TaxLot[], amount: number, method: CostBasisMethod): { taken: TaxLot[]; unmatched: number } {
+  const taken: TaxLot[] = [];
+  let remaining = amount;
+
+  while (remaining > DUST && lots.length > 0) {
+    const lot = method === 'lifo' ? lots[lots.length - 1] : lots[0];
+    const used = Math.min(lot.amount, remaining);
+    const cost = lot.costUsd * (used / lot.amount);
+    taken.push({ ...lot, amount: used, costUsd: cost });
+
+    lot.amount -= used;
+    lot.costUsd -= cost;
+    remaining -= used;
+    if (lot.amount <= DUST) {
+      if (method === 'lifo') lots.pop();
+      else lots.shift();
+    }
+  }
+
+  return { taken, unmatched: remaining > DUST ? remaining : 0 };
+}
+
+function addLot(ledger: CostBasisLedger, lot: TaxLot, method: CostBasisMethod): void {
+  const lots = ledger.lots.get(lot.token) || [];
+  if (method === 'average' && lots.length > 0) {
+    // The pool keeps its first acquisition date
+    lots[0].amount += lot.amount;
+    lots[0].costUsd += lot.costUsd;
+  } else {
+    lots.push(lot);
+  }
+  ledger.lots.set(lot.token, lots);
+}
+
+function dispose(
+  ledger: CostBasisLedger,
+  trade: TradeRecord,
+  token: string,
+  amount: number,
+  proceedsUsd: number,
+  method: CostBasisMethod
+): void {
+  const { taken, unmatched } = takeLots(ledger.lots.get(token) || [], amount, method);
+  const matched = amount - unmatched;
+  // Proceeds of the part sold without a known basis are left out along with it
+  const matchedProceeds = amount > 0 ? proceedsUsd * (matched / amount) : 0;
+  const costBasisUsd = taken.reduce((sum, lot) => sum + lot.costUsd, 0);
+
+  ledger.realized.push({
+    tradeId: trade.id,
+    token,
+    amount,
+    proceedsUsd: matchedProceeds,
+    costBasisUsd,
+    pnlUsd: matchedProceeds - costBasisUsd,
+    unmatchedAmount: unmatched,
+    lots: taken.map(lot => ({ acquiredAt: lot.acquiredAt, amount: lot.amount, costUsd: lot.costUsd })),
+    disposedAt: trade.createdAt,
+  });
+}
+
+/**
+ * Replay confirmed trades, oldest first, into open lots and realized PnL. Swaps dispose of the
+ * token sold and open a lot of the token bought at the same USD value; transfers out are
+ * disposals at their USD value; wraps carry their lots over unchanged. Trades that cannot be
+ * valued are skipped and reported.
+ */
+export function buildCostBasis(trades: TradeRecord[], method: CostBasisMethod = 'fifo'): CostBasisLedger {
+  const ledger: CostBasisLedger = { lots: new Map(), realized: [], skippedTrades: [] };
+  const ordered = trades
+    .filter(trade => trade.status === 'confirmed')
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  for (const trade of ordered) {
+    const fromToken = trade.fromToken.toUpperCase();
+    const toToken = trade.toToken?.toUpperCase();
+
+    if (trade.kind === 'wrap' && toToken) {
+      // Any part wrapped without a known basis stays unknown on the wrapped side too
+      const { taken } = takeLots(ledger.lots.get(fromToken) || [], trade.amountIn, method);
+      taken.forEach(lot => addLot(ledger, { ...lot, token: toToken }, method));
+      continue;
+    }
+
+    const valueUsd = tradeValueUsd(trade);
+    const amountOut = trade.executedAmountOut ?? trade.quotedAmountOut;
+    if (valueUsd === undefined || (trade.kind === 'swap' && amountOut === undefined)) {
+      ledger.skippedTrades.push(trade.id);
+      continue;
+    }
+
+    if (!CASH_TOKENS.has(fromToken)) {
+      dispose(ledger, trade, fromToken, trade.amountIn, valueUsd, method);
+    }
+    if (trade.kind === 'swap' && toToken && !CASH_TOKENS.has(toToken)) {
+      addLot(ledger, { token: toToken, amount: amountOut!, costUsd: valueUsd, acquiredAt: trade.createdAt, tradeId: trade.id }, method);
+    }
+  }
+
+  return ledger;
+}
+
+/**
+ * Per-token realized and unrealized PnL from a cost-basis ledger and current USD prices,
+ * optionally narrowed to one token
+ */
+export function computePnl(
+  ledger: CostBasisLedger,
+  prices: Record<string, number>,
+  method: CostBasisMethod,
+  token?: string,
+  now: Date = new Date()
+): PnlReport {
+  const only = token?.toUpperCase();
+  const realizedPnl = ledger.realized.filter(realized => !only || realized.token === only);
+  const tokens = new Map<string, TokenPnl>();
+  const entry = (symbol: string): TokenPnl => {
+    let pnl = tokens.get(symbol);
+    if (!pnl) {
+      pnl = { token: symbol, amount: 0, costBasisUsd: 0, averageCostUsd: 0, realizedPnlUsd: 0, unmatchedAmount: 0 };
+      tokens.set(symbol, pnl);
+    }
+    return pnl;
+  };
+
+  for (const realized of realizedPnl) {
+    const pnl = entry(realized.token);
+    pnl.realizedPnlUsd += realized.pnlUsd;
+    pnl.unmatchedAmount += realized.unmatchedAmount;
+  }
+
+  for (const [symbol, lots] of ledger.lots) {
+    if (only && symbol !== only) continue;
+    const pnl = entry(symbol);
+    pnl.amount = lots.reduce((sum, lot) => sum + lot.amount, 0);
+    pnl.costBasisUsd = lots.reduce((sum, lot) => sum + lot.costUsd, 0);
+    pnl.averageCostUsd = pnl.amount > DUST ? pnl.costBasisUsd / pnl.amount : 0;
+
+    const price = prices[symbol];
+    if (price !== undefined && pnl.amount > DUST) {
+      pnl.price = price;
+      pnl.marketValueUsd = pnl.amount * price;
+      pnl.unrealizedPnlUsd = pnl.marketValueUsd - pnl.costBasisUsd;
+    }
+  }
+
+  const list = Array.from(tokens.values()).sort((a, b) => (b.marketValueUsd ?? b.costBasisUsd) - (a.marketValueUsd ?? a.costBasisUsd));
+  const totalRealizedPnlUsd = list.reduce((sum, pnl) => sum + pnl.realizedPnlUsd, 0);
+  const totalUnrealizedPnlUsd = list.reduce((sum, pnl) => sum + (pnl.unrealizedPnlUsd ?? 0), 0);
+  const totalCostBasisUsd = list.reduce((sum, pnl) => sum + pnl.costBasisUsd, 0);
+  const invested = totalCostBasisUsd + realizedPnl.reduce((sum, realized) => sum + realized.costBasisUsd, 0);
+
+  return {
+    method,
+    tokens: list,
+    realized: realizedPnl,
+    totalRealizedPnlUsd,
+    totalUnrealizedPnlUsd,
+    totalCostBasisUsd,
+    totalReturn: invested > 0 ? ((totalRealizedPnlUsd + totalUnrealizedPnlUsd) / invested) * 100 : 0,
+    skippedTrades: ledger.skippedTrades,
+    asOf: now,
+  };
+}
+
+export interface PnlServiceOptions {
+  priceSource: PriceSource;
+  logger: winston.Logger;
+  defaultMethod?: CostBasisMethod;
+}
+
+/**
+ * Prices open positions and turns trade history into PnL reports
+ */
+export class PnlService {
+  private priceSource: PriceSource;
+  private logger: winston.Logger;
+  public readonly defaultMethod: CostBasisMethod;
+
+  constructor(options: PnlServiceOptions) {
+    this.priceSource = options.priceSource;
+    this.logger = options.logger;
+    this.defaultMethod = options.defaultMethod || 'fifo';
+  }
+
+  /**
+   * PnL report over a set of trades, optionally for one token. Lots are built from every trade
+   * given, so narrowing to a token never drops its acquisitions. Open positions are left
+   * unpriced when prices are unavailable.
+   */
+  async getReport(trades: TradeRecord[], method: CostBasisMethod = this.defaultMethod, token?: string): Promise<PnlReport> {
+    const ledger = buildCostBasis(trades, method);
+    const held = Array.from(ledger.lots.keys())
+      .filter(symbol => (ledger.lots.get(symbol) || []).length > 0 && (!token || symbol === token.toUpperCase()));
+
+    let prices: Record<string, number> = {};
+    if (held.length > 0) {
+      try {
+        prices = await this.priceSource.getPrices(held);
+      } catch (error) {
+        this.logger.warn('Price source unavailable, unrealized PnL will be missing', { error, source: this.priceSource.name });
+      }
+    }
+
+    return computePnl(ledger, prices, method, token);
+  }
+}
+
+/**
+ * Parse a cost basis method name, e.g. from COST_BASIS_METHOD
+ */
+export function parseCostBasisMethod(value?: string | null): CostBasisMethod | undefined {
+  const method = value?.trim().toLowerCase();
+  return method === 'fifo' || method === 'lifo' || method === 'average' ? method : undefined;
+}
+
+export default PnlService;
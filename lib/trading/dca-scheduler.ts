@@ -0,0 +1,278 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import winston from 'winston';
+import { DcaPlan, DcaPlanStore, TradeExecution } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface CreateDcaPlanParams {
+  userId: string;
+  conversationId: string;
+  fromToken: string;
+  toToken: string;
+  amount: number;
+  cadence: DcaPlan['cadence'];
+  dayOfWeek?: number;
+  hourUtc?: number;
+  maxSlippage: number;
+}
+
+export interface DcaFillEvent {
+  plan: DcaPlan;
+  execution?: TradeExecution;
+  slippage?: number; // percent below the quote, when both amounts are known
+  error?: Error;
+}
+
+export interface DcaSchedulerOptions {
+  store: DcaPlanStore;
+  logger: winston.Logger;
+  executeFill: (plan: DcaPlan) => Promise<TradeExecution>;
+  pollIntervalMs?: number;
+}
+
+/**
+ * First run of a plan strictly after `now`
+ */
+export function firstRunAt(
+  cadence: DcaPlan['cadence'],
+  now: Date,
+  hourUtc: number,
+  dayOfWeek?: number
+): Date {
+  if (cadence === 'hourly') {
+    return new Date(Math.floor(now.getTime() / HOUR_MS) * HOUR_MS + HOUR_MS);
+  }
+
+  const run = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), hourUtc));
+  if (cadence === 'weekly' && dayOfWeek !== undefined) {
+    run.setUTCDate(run.getUTCDate() + ((dayOfWeek - run.getUTCDay() + 7) % 7));
+  }
+  while (run <= now) {
+    advance(run, cadence);
+  }
+  return run;
+}
+
+/**
+ * Next run after a completed (or missed) one, skipping any slots already in the past
+ */
+export function nextRunAfter(plan: Pick<DcaPlan, 'cadence' | 'nextRunAt'>, now: Date): Date {
+  const run = new Date(plan.nextRunAt);
+  do {
+    advance(run, plan.cadence);
+  } while (run <= now);
+  return run;
+}
+
+function advance(run: Date, cadence: DcaPlan['cadence']): void {
+  switch (cadence) {
+    case 'hourly':
+      run.setTime(run.getTime() + HOUR_MS);
+      break;
+    case 'daily':
+      run.setTime(run.getTime() + DAY_MS);
+      break;
+    case 'weekly':
+      run.setTime(run.getTime() + 7 * DAY_MS);
+      break;
+    case 'monthly': {
+      // Keep the day of month, clamped to the length of the next month
+      const day = run.getUTCDate();
+      run.setUTCDate(1);
+      run.setUTCMonth(run.getUTCMonth() + 1);
+      const daysInMonth = new Date(Date.UTC(run.getUTCFullYear(), run.getUTCMonth() + 1, 0)).getUTCDate();
+      run.setUTCDate(Math.min(day, daysInMonth));
+      break;
+    }
+  }
+}
+
+/**
+ * Runs recurring DCA buys. Plans live in a DcaPlanStore so they survive restarts; a plan that
+ * came due while the server was down fills once on the next tick rather than catching up.
+ * Emits `filled` and `failed` with a DcaFillEvent, and `paused` when a fill exceeds the
+ * plan's slippage limit.
+ */
+export class DcaScheduler extends EventEmitter {
+  private store: DcaPlanStore;
+  private logger: winston.Logger;
+  private executeFill: (plan: DcaPlan) => Promise<TradeExecution>;
+  private pollIntervalMs: number;
+  private pollInterval?: NodeJS.Timeout;
+  private isRunning = false;
+
+  constructor(options: DcaSchedulerOptions) {
+    super();
+    this.store = options.store;
+    this.logger = options.logger;
+    this.executeFill = options.executeFill;
+    this.pollIntervalMs = options.pollIntervalMs ?? 60000;
+  }
+
+  /**
+   * Create an active plan
+   */
+  async createPlan(params: CreateDcaPlanParams, now: Date = new Date()): Promise<DcaPlan> {
+    if (!(params.amount > 0)) {
+      throw new Error('Amount must be greater than zero');
+    }
+    if (params.cadence === 'weekly' && params.dayOfWeek !== undefined && (params.dayOfWeek < 0 || params.dayOfWeek > 6)) {
+      throw new Error('dayOfWeek must be between 0 (Sunday) and 6 (Saturday)');
+    }
+
+    const hourUtc = params.hourUtc ?? now.getUTCHours();
+    const dayOfWeek = params.cadence === 'weekly' ? params.dayOfWeek ?? now.getUTCDay() : undefined;
+    const plan: DcaPlan = {
+      id: `dca_${uuidv4().slice(0, 8)}`,
+      userId: params.userId,
+      conversationId: params.conversationId,
+      fromToken: params.fromToken.toUpperCase(),
+      toToken: params.toToken.toUpperCase(),
+      amount: params.amount,
+      cadence: params.cadence,
+      dayOfWeek,
+      hourUtc,
+      maxSlippage: params.maxSlippage,
+      status: 'active',
+      nextRunAt: firstRunAt(params.cadence, now, hourUtc, dayOfWeek),
+      fillCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.save(plan);
+    this.logger.info('DCA plan created', { planId: plan.id, userId: plan.userId, cadence: plan.cadence });
+    return plan;
+  }
+
+  /**
+   * Plans belonging to a user, newest first
+   */
+  async listPlans(userId: string, includeCancelled = false): Promise<DcaPlan[]> {
+    const plans = await this.store.listByUser(userId);
+    return plans.filter(plan => includeCancelled || plan.status !== 'cancelled');
+  }
+
+  /**
+   * Pause an active plan. Only the owner may change a plan.
+   */
+  async pausePlan(planId: string, userId: string): Promise<DcaPlan | undefined> {
+    return this.transition(planId, userId, ['active'], 'paused');
+  }
+
+  /**
+   * Resume a paused plan from its next slot after now
+   */
+  async resumePlan(planId: string, userId: string, now: Date = new Date()): Promise<DcaPlan | undefined> {
+    const plan = await this.transition(planId, userId, ['paused'], 'active');
+    if (plan && plan.nextRunAt <= now) {
+      plan.nextRunAt = nextRunAfter(plan, now);
+      await this.store.save(plan);
+    }
+    return plan;
+  }
+
+  /**
+   * Cancel a plan for good
+   */
+  async cancelPlan(planId: string, userId: string): Promise<DcaPlan | undefined> {
+    return this.transition(planId, userId, ['active', 'paused'], 'cancelled');
+  }
+
+  /**
+   * Start checking for due plans
+   */
+  start(): void {
+    if (this.pollInterval) return;
+
+    this.pollInterval = setInterval(() => {
+      this.runDuePlans().catch(error => {
+        this.logger.error('DCA scheduler tick failed', { error });
+      });
+    }, this.pollIntervalMs);
+  }
+
+  /**
+   * Stop checking for due plans
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
+
+  /**
+   * Fill every plan that is due, one at a time
+   */
+  async runDuePlans(now: Date = new Date()): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      for (const plan of await this.store.listDue(now)) {
+        // Move the schedule on before executing so a crash mid-fill can never double-buy
+        plan.lastRunAt = now;
+        plan.nextRunAt = nextRunAfter(plan, now);
+        plan.updatedAt = now;
+        await this.store.save(plan);
+
+        await this.fill(plan);
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async fill(plan: DcaPlan): Promise<void> {
+    let execution: TradeExecution;
+    try {
+      execution = await this.executeFill(plan);
+    } catch (error) {
+      this.logger.warn('DCA fill failed', { error, planId: plan.id });
+      this.emit('failed', { plan, error: error instanceof Error ? error : new Error(String(error)) } as DcaFillEvent);
+      return;
+    }
+
+    const { quotedAmountOut, executedAmountOut } = execution.trade;
+    const slippage = quotedAmountOut && executedAmountOut !== undefined
+      ? ((quotedAmountOut - executedAmountOut) / quotedAmountOut) * 100
+      : undefined;
+
+    plan.fillCount += 1;
+    plan.updatedAt = new Date();
+
+    if (slippage !== undefined && slippage > plan.maxSlippage) {
+      plan.status = 'paused';
+      await this.store.save(plan);
+      this.logger.warn('DCA plan paused after exceeding slippage limit', { planId: plan.id, slippage });
+      this.emit('paused', { plan, execution, slippage } as DcaFillEvent);
+      return;
+    }
+
+    await this.store.save(plan);
+    this.emit('filled', { plan, execution, slippage } as DcaFillEvent);
+  }
+
+  private async transition(
+    planId: string,
+    userId: string,
+    from: DcaPlan['status'][],
+    to: DcaPlan['status']
+  ): Promise<DcaPlan | undefined> {
+    const plan = await this.store.get(planId);
+    if (!plan || plan.userId !== userId || !from.includes(plan.status)) {
+      return undefined;
+    }
+
+    plan.status = to;
+    plan.updatedAt = new Date();
+    await this.store.save(plan);
+    this.logger.info(`DCA plan ${to}`, { planId, userId });
+    return plan;
+  }
+}
+
+export default DcaScheduler;
@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test';
+import { atr, bollinger, computeIndicators, describeIndicators, ema, macd, rsi, sma } from './indicators';
+import { Candle } from '../types';
+
+function candles(closes: number[]): Candle[] {
+  return closes.map((close, i) => ({
+    timestamp: new Date(Date.UTC(2024, 0, 1, i)),
+    open: i === 0 ? close : closes[i - 1],
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 100,
+  }));
+}
+
+const ramp = (length: number) => Array.from({ length }, (_, i) => i + 1);
+
+describe('indicators', () => {
+  test('sma averages the trailing window', () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([NaN, NaN, 2, 3, 4]);
+    expect(sma([1, 2], 3)).toEqual([NaN, NaN]);
+  });
+
+  test('ema seeds with the simple average and skips leading NaNs', () => {
+    expect(ema([2, 4, 6, 8, 12], 3)).toEqual([NaN, NaN, 4, 6, 9]);
+    expect(ema([NaN, 2, 4, 6, 8], 3)).toEqual([NaN, NaN, NaN, 4, 6]);
+    expect(ema([1, 2], 3)).toEqual([NaN, NaN]);
+  });
+
+  test('rsi uses Wilder smoothing', () => {
+    expect(rsi([1, 2, 3, 2, 3], 2)).toEqual([NaN, NaN, 100, 50, 75]);
+    expect(rsi([1, 2, 3], 3).every(Number.isNaN)).toBe(true);
+  });
+
+  test('macd of a steady ramp is the constant EMA lag difference', () => {
+    const result = macd(ramp(40));
+
+    // An EMA of a ramp lags it by (period - 1) / 2, so the line is (26 - 12) / 2
+    expect(result.macd[25]).toBeCloseTo(7);
+    expect(result.macd[39]).toBeCloseTo(7);
+    expect(result.signal[32]).toBeNaN();
+    expect(result.signal[33]).toBeCloseTo(7);
+    expect(result.histogram[39]).toBeCloseTo(0);
+    expect(macd(ramp(30)).signal.every(Number.isNaN)).toBe(true);
+  });
+
+  test('bollinger bands sit population standard deviations from the mean', () => {
+    const bands = bollinger([1, 2, 3, 4, 5], 5, 2);
+
+    expect(bands.middle[4]).toBe(3);
+    expect(bands.upper[4]).toBeCloseTo(3 + 2 * Math.SQRT2);
+    expect(bands.lower[4]).toBeCloseTo(3 - 2 * Math.SQRT2);
+    expect(bands.upper[3]).toBeNaN();
+  });
+
+  test('atr includes gaps from the previous close', () => {
+    const series: Candle[] = [
+      { timestamp: new Date(0), open: 9, high: 10, low: 8, close: 9, volume: 1 },
+      { timestamp: new Date(1), open: 9, high: 12, low: 9, close: 11, volume: 1 },
+      { timestamp: new Date(2), open: 14, high: 15, low: 14, close: 14, volume: 1 },
+    ];
+
+    expect(atr(series, 2)).toEqual([NaN, 2.5, 3.25]);
+    expect(atr(series, 4).every(Number.isNaN)).toBe(true);
+  });
+});
+
+describe('computeIndicators', () => {
+  test('read a steady uptrend', () => {
+    const indicators = computeIndicators('eth', '1h', candles(ramp(60)));
+
+    expect(indicators).toMatchObject({ token: 'ETH', interval: '1h', candles: 60, close: 60, sma20: 50.5, sma50: 35.5, rsi14: 100, atr14: 2 });
+    expect(indicators.ema12).toBeCloseTo(54.5);
+    expect(indicators.macd?.macd).toBeCloseTo(7);
+    expect(indicators.bollinger?.middle).toBe(50.5);
+    expect(indicators.signals).toContain('RSI 100.0: overbought');
+    expect(indicators.signals).toContain('Price vs SMA20/SMA50: uptrend');
+  });
+
+  test('leave out indicators that need more candles', () => {
+    const indicators = computeIndicators('ETH', '1d', candles(ramp(10)));
+
+    expect(indicators.sma20).toBeUndefined();
+    expect(indicators.rsi14).toBeUndefined();
+    expect(indicators.macd).toBeUndefined();
+    expect(indicators.bollinger).toBeUndefined();
+    expect(indicators.atr14).toBeUndefined();
+    expect(indicators.signals).toEqual([]);
+    expect(describeIndicators(indicators)).toContain('Not enough candles for any reading');
+  });
+
+  test('reject an empty candle series', () => {
+    expect(() => computeIndicators('eth', '5m', [])).toThrow('No 5m candles for ETH');
+  });
+});
@@ -0,0 +1,218 @@
+import { Candle, CandleInterval, TechnicalIndicators } from '../types';
+
+/*
+ * Indicator series are aligned with their input: element i is the value as of candle i, and NaN
+ * until enough candles have passed for the indicator to be defined.
+ */
+
+/**
+ * Simple moving average
+ */
+export function sma(values: number[], period: number): number[] {
+  const result = new Array<number>(values.length).fill(NaN);
+  let sum = 0;
+  values.forEach((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) result[i] = sum / period;
+  });
+  return result;
+}
+
+/**
+ * Exponential moving average, seeded with the simple average of its first `period` values.
+ * Leading NaNs (e.g. from another indicator's warm-up) are skipped.
+ */
+export function ema(values: number[], period: number): number[] {
+  const result = new Array<number>(values.length).fill(NaN);
+  const start = values.findIndex(value => Number.isFinite(value));
+  if (start === -1 || values.length - start < period) return result;
+
+  const k = 2 / (period + 1);
+  let previous = values.slice(start, start + period).reduce((sum, value) => sum + value, 0) / period;
+  result[start + period - 1] = previous;
+  for (let i = start + period; i < values.length; i++) {
+    previous = values[i] * k + previous * (1 - k);
+    result[i] = previous;
+  }
+  return result;
+}
+
+/**
+ * Relative strength index with Wilder's smoothing
+ */
+export function rsi(closes: number[], period = 14): number[] {
+  const result = new Array<number>(closes.length).fill(NaN);
+  if (closes.length <= period) return result;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain += Math.max(change, 0);
+    loss += Math.max(-change, 0);
+  }
+  gain /= period;
+  loss /= period;
+
+  const value = () => (loss === 0 ? 100 : 100 - 100 / (1 + gain / loss));
+  result[period] = value();
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = value();
+  }
+  return result;
+}
+
+/**
+ * MACD line (fast EMA minus slow EMA), its signal line and the histogram between them
+ */
+export function macd(closes: number[], fast = 12, slow = 26, signalPeriod = 9): { macd: number[]; signal: number[]; histogram: number[] } {
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const line = closes.map((_, i) => fastEma[i] - slowEma[i]);
+  const signal = ema(line, signalPeriod);
+  return { macd: line, signal, histogram: line.map((value, i) => value - signal[i]) };
+}
+
+/**
+ * Bollinger bands: a simple moving average with bands `multiplier` population standard
+ * deviations above and below it
+ */
+export function bollinger(closes: number[], period = 20, multiplier = 2): { upper: number[]; middle: number[]; lower: number[] } {
+  const middle = sma(closes, period);
+  const deviation = closes.map((_, i) => {
+    if (i < period - 1) return NaN;
+    const window = closes.slice(i - period + 1, i + 1);
+    return Math.sqrt(window.reduce((sum, value) => sum + (value - middle[i]) ** 2, 0) / period);
+  });
+  return {
+    upper: middle.map((value, i) => value + multiplier * deviation[i]),
+    middle,
+    lower: middle.map((value, i) => value - multiplier * deviation[i]),
+  };
+}
+
+/**
+ * Average true range with Wilder's smoothing
+ */
+export function atr(candles: Candle[], period = 14): number[] {
+  const result = new Array<number>(candles.length).fill(NaN);
+  const trueRange = candles.map((candle, i) => i === 0
+    ? candle.high - candle.low
+    : Math.max(candle.high - candle.low, Math.abs(candle.high - candles[i - 1].close), Math.abs(candle.low - candles[i - 1].close))
+  );
+  if (candles.length < period) return result;
+
+  let previous = trueRange.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  result[period - 1] = previous;
+  for (let i = period; i < candles.length; i++) {
+    previous = (previous * (period - 1) + trueRange[i]) / period;
+    result[i] = previous;
+  }
+  return result;
+}
+
+function last(series: number[]): number | undefined {
+  const value = series[series.length - 1];
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Latest value of every indicator over a series of candles (oldest first), with the plain
+ * readings the agent reports: overbought/oversold, MACD crosses, band breaks and trend
+ */
+export function computeIndicators(token: string, interval: CandleInterval, candles: Candle[]): TechnicalIndicators {
+  if (candles.length === 0) {
+    throw new Error(`No ${interval} candles for ${token.toUpperCase()}`);
+  }
+
+  const closes = candles.map(candle => candle.close);
+  const close = closes[closes.length - 1];
+  const lines = macd(closes);
+  const bands = bollinger(closes);
+  const [macdLine, signal, histogram] = [last(lines.macd), last(lines.signal), last(lines.histogram)];
+  const [upper, middle, lower] = [last(bands.upper), last(bands.middle), last(bands.lower)];
+
+  const result: TechnicalIndicators = {
+    token: token.toUpperCase(),
+    interval,
+    candles: candles.length,
+    asOf: candles[candles.length - 1].timestamp,
+    close,
+    sma20: last(sma(closes, 20)),
+    sma50: last(sma(closes, 50)),
+    ema12: last(ema(closes, 12)),
+    ema26: last(ema(closes, 26)),
+    rsi14: last(rsi(closes, 14)),
+    macd: macdLine !== undefined && signal !== undefined && histogram !== undefined ? { macd: macdLine, signal, histogram } : undefined,
+    bollinger: upper !== undefined && middle !== undefined && lower !== undefined
+      ? {
+          upper,
+          middle,
+          lower,
+          percentB: upper > lower ? (close - lower) / (upper - lower) : 0.5,
+          bandwidth: middle !== 0 ? ((upper - lower) / middle) * 100 : 0,
+        }
+      : undefined,
+    atr14: last(atr(candles, 14)),
+    signals: [],
+  };
+
+  if (result.rsi14 !== undefined) {
+    const reading = result.rsi14 >= 70 ? 'overbought' : result.rsi14 <= 30 ? 'oversold' : 'neutral';
+    result.signals.push(`RSI ${result.rsi14.toFixed(1)}: ${reading}`);
+  }
+
+  if (result.macd) {
+    const previous = lines.histogram[lines.histogram.length - 2];
+    const crossed = Number.isFinite(previous) && Math.sign(previous) !== Math.sign(result.macd.histogram);
+    const side = result.macd.histogram >= 0 ? 'above' : 'below';
+    result.signals.push(crossed
+      ? `MACD just crossed ${side} its signal line (${result.macd.histogram >= 0 ? 'bullish' : 'bearish'})`
+      : `MACD is ${side} its signal line (${result.macd.histogram >= 0 ? 'bullish' : 'bearish'} momentum)`);
+  }
+
+  if (result.bollinger) {
+    if (close > result.bollinger.upper) {
+      result.signals.push('Price is above the upper Bollinger band (stretched to the upside)');
+    } else if (close < result.bollinger.lower) {
+      result.signals.push('Price is below the lower Bollinger band (stretched to the downside)');
+    } else {
+      result.signals.push(`Price is inside the Bollinger bands (%B ${result.bollinger.percentB.toFixed(2)})`);
+    }
+  }
+
+  if (result.sma20 !== undefined && result.sma50 !== undefined) {
+    const trend = close > result.sma50 && result.sma20 > result.sma50 ? 'uptrend'
+      : close < result.sma50 && result.sma20 < result.sma50 ? 'downtrend'
+      : 'no clear trend';
+    result.signals.push(`Price vs SMA20/SMA50: ${trend}`);
+  }
+
+  if (result.atr14 !== undefined && close > 0) {
+    result.signals.push(`ATR is ${((result.atr14 / close) * 100).toFixed(2)}% of price per ${interval} candle`);
+  }
+
+  return result;
+}
+
+/**
+ * Chat-friendly summary of computed indicators
+ */
+export function describeIndicators(indicators: TechnicalIndicators): string {
+  const format = (value: number | undefined) => value === undefined ? 'n/a' : value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+  const lines = [
+    `${indicators.token} ${indicators.interval} indicators over ${indicators.candles} candles, as of ${indicators.asOf.toISOString()}`,
+    `Close: $${format(indicators.close)}`,
+    `SMA20: ${format(indicators.sma20)} | SMA50: ${format(indicators.sma50)} | EMA12: ${format(indicators.ema12)} | EMA26: ${format(indicators.ema26)}`,
+    `RSI14: ${format(indicators.rsi14)}`,
+    `MACD: ${indicators.macd ? `${format(indicators.macd.macd)} (signal ${format(indicators.macd.signal)}, histogram ${format(indicators.macd.histogram)})` : 'n/a'}`,
+    `Bollinger(20, 2): ${indicators.bollinger ? `${format(indicators.bollinger.lower)} – ${format(indicators.bollinger.upper)}, bandwidth ${indicators.bollinger.bandwidth.toFixed(2)}%` : 'n/a'}`,
+    `ATR14: ${format(indicators.atr14)}`,
+  ];
+
+  return `${lines.join('\n')}\n\nReadings:\n${indicators.signals.map(signal => `• ${signal}`).join('\n') || '• Not enough candles for any reading'}`;
+}
@@ -0,0 +1,11 @@
+import { describe, expect, test } from 'bun:test';
+import { findNetworkMention } from './networks';
+
+describe('findNetworkMention', () => {
+  test('read the network a message names', () => {
+    expect(findNetworkMention('scan 0x4ed4E862860beD51a9570b96d89aF5E1B0Efefed on base')?.id).toBe('base-mainnet');
+    expect(findNetworkMention('is this token safe on Base Sepolia?')?.id).toBe('base-sepolia');
+    expect(findNetworkMention('rug check on ethereum-sepolia')?.id).toBe('ethereum-sepolia');
+    expect(findNetworkMention('scan 0x4ed4E862860beD51a9570b96d89aF5E1B0Efefed')).toBeUndefined();
+  });
+});
@@ -0,0 +1,148 @@
+import { Chain, PublicClient, createPublicClient, http } from 'viem';
+import { base, baseSepolia, mainnet, sepolia } from 'viem/chains';
+
+export interface TokenInfo {
+  symbol: string;
+  address: `0x${string}`;
+  decimals: number;
+}
+
+export interface NetworkInfo {
+  id: string;
+  chain: Chain;
+  explorerUrl: string;
+  nativeSymbol: string;
+  tokens: TokenInfo[];
+}
+
+/**
+ * Networks the trading stack knows how to read, keyed by AgentKit network id
+ */
+export const NETWORKS: Record<string, NetworkInfo> = {
+  'base-mainnet': {
+    id: 'base-mainnet',
+    chain: base,
+    explorerUrl: 'https://basescan.org',
+    nativeSymbol: 'ETH',
+    tokens: [
+      { symbol: 'USDC', address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6 },
+      { symbol: 'WETH', address: '0x4200000000000000000000000000000000000006', decimals: 18 },
+      { symbol: 'DAI', address: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb', decimals: 18 },
+      { symbol: 'CBBTC', address: '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf', decimals: 8 },
+      { symbol: 'AERO', address: '0x940181a94A35A4569E4529A3CDfB74e38FD98631', decimals: 18 },
+      { symbol: 'DEGEN', address: '0x4ed4E862860beD51a9570b96d89aF5E1B0Efefed', decimals: 18 },
+    ],
+  },
+  'base-sepolia': {
+    id: 'base-sepolia',
+    chain: baseSepolia,
+    explorerUrl: 'https://sepolia.basescan.org',
+    nativeSymbol: 'ETH',
+    tokens: [
+      { symbol: 'USDC', address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', decimals: 6 },
+      { symbol: 'WETH', address: '0x4200000000000000000000000000000000000006', decimals: 18 },
+    ],
+  },
+  'ethereum-mainnet': {
+    id: 'ethereum-mainnet',
+    chain: mainnet,
+    explorerUrl: 'https://etherscan.io',
+    nativeSymbol: 'ETH',
+    tokens: [
+      { symbol: 'USDC', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6 },
+      { symbol: 'USDT', address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6 },
+      { symbol: 'WETH', address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', decimals: 18 },
+      { symbol: 'DAI', address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', decimals: 18 },
+      { symbol: 'WBTC', address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', decimals: 8 },
+    ],
+  },
+  'ethereum-sepolia': {
+    id: 'ethereum-sepolia',
+    chain: sepolia,
+    explorerUrl: 'https://sepolia.etherscan.io',
+    nativeSymbol: 'ETH',
+    tokens: [
+      { symbol: 'USDC', address: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238', decimals: 6 },
+    ],
+  },
+};
+
+const NETWORK_ALIASES: Record<string, string> = {
+  base: 'base-mainnet',
+  ethereum: 'ethereum-mainnet',
+  mainnet: 'ethereum-mainnet',
+  sepolia: 'ethereum-sepolia',
+};
+
+/**
+ * Resolve a network id or alias (e.g. `ethereum`, or `Base Sepolia` as a user would write it)
+ * to its network info
+ */
+export function getNetwork(networkId: string = process.env.NETWORK_ID || 'base-sepolia'): NetworkInfo {
+  const key = networkId.trim().toLowerCase().replace(/\s+/g, '-');
+  const network = NETWORKS[NETWORK_ALIASES[key] || key];
+  if (!network) {
+    throw new Error(`Unsupported network: ${networkId}`);
+  }
+  return network;
+}
+
+/**
+ * Network a chat message names, e.g. "scan 0x… on base mainnet". The most specific name wins,
+ * so "base sepolia" is not read as "base".
+ */
+export function findNetworkMention(text: string): NetworkInfo | undefined {
+  const normalized = text.toLowerCase().replace(/\s+/g, '-');
+  const name = [...Object.keys(NETWORKS), ...Object.keys(NETWORK_ALIASES)]
+    .sort((a, b) => b.length - a.length)
+    .find(candidate => new RegExp(`(^|[^a-z])${candidate}($|[^a-z-])`).test(normalized));
+  return name ? getNetwork(name) : undefined;
+}
+
+/**
+ * Resolve a list of network ids or aliases in order, dropping duplicates. Ids that match no
+ * known network are returned separately.
+ */
+export function resolveNetworks(networkIds: string[]): { networks: NetworkInfo[]; unknown: string[] } {
+  const networks = new Map<string, NetworkInfo>();
+  const unknown: string[] = [];
+  for (const id of networkIds) {
+    try {
+      const network = getNetwork(id);
+      networks.set(network.id, network);
+    } catch {
+      unknown.push(id);
+    }
+  }
+  return { networks: Array.from(networks.values()), unknown };
+}
+
+/**
+ * Look up a token on a network by symbol or contract address
+ */
+export function findToken(network: NetworkInfo, symbolOrAddress: string): TokenInfo | undefined {
+  const needle = symbolOrAddress.toLowerCase();
+  return network.tokens.find(token =>
+    token.symbol.toLowerCase() === needle || token.address.toLowerCase() === needle
+  );
+}
+
+/**
+ * Block explorer page of a transaction
+ */
+export function explorerTxUrl(network: NetworkInfo, hash: string): string {
+  return `${network.explorerUrl}/tx/${hash}`;
+}
+
+/**
+ * Create a read-only client for a network. RPC_URL is only honoured for the default network.
+ */
+export function createNetworkClient(network: NetworkInfo): PublicClient {
+  const defaultNetworkId = process.env.NETWORK_ID || 'base-sepolia';
+  const rpcUrl = getNetwork(defaultNetworkId).id === network.id ? process.env.RPC_URL : undefined;
+
+  return createPublicClient({
+    chain: network.chain,
+    transport: http(rpcUrl),
+  }) as PublicClient;
+}
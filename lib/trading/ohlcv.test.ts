@@ -0,0 +1,24 @@
+import { describe, expect, test } from 'bun:test';
+import { parseCandlesCsv, parseCandlesJson } from './ohlcv';
+
+describe('OHLCV parsing', () => {
+  test('read CSV with unix timestamps, sorted oldest first without duplicates', () => {
+    const candles = parseCandlesCsv(`time,open,high,low,close
+1735776000,2,3,1,2.5
+1735689600,1,2,0.5,1.5
+1735776000,2,3,1,2.8`);
+
+    expect(candles.map(candle => candle.timestamp.toISOString())).toEqual(['2025-01-01T00:00:00.000Z', '2025-01-02T00:00:00.000Z']);
+    expect(candles[1].close).toBe(2.8);
+    expect(candles[0].volume).toBe(0);
+  });
+
+  test('read exchange-style JSON arrays with millisecond timestamps', () => {
+    const [candle] = parseCandlesJson('[[1735689600000, 1, 2, 0.5, 1.5, 42]]');
+    expect(candle).toEqual({ timestamp: new Date('2025-01-01T00:00:00Z'), open: 1, high: 2, low: 0.5, close: 1.5, volume: 42 });
+  });
+
+  test('reject a CSV without the price columns', () => {
+    expect(() => parseCandlesCsv('timestamp,close\n2025-01-01,1')).toThrow('CSV header must include');
+  });
+});
@@ -0,0 +1,120 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { Candle } from '../types';
+
+const TIMESTAMP_COLUMNS = ['timestamp', 'time', 'date', 'datetime', 'open_time'];
+
+/**
+ * Parse a timestamp given as ISO text, unix seconds or unix milliseconds
+ */
+function parseTimestamp(value: unknown): Date {
+  const numeric = Number(value);
+  const date = Number.isFinite(numeric) && String(value).trim() !== ''
+    ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+    : new Date(String(value));
+
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid candle timestamp: ${value}`);
+  }
+  return date;
+}
+
+function toCandle(timestamp: unknown, open: unknown, high: unknown, low: unknown, close: unknown, volume: unknown): Candle {
+  const candle: Candle = {
+    timestamp: parseTimestamp(timestamp),
+    open: Number(open),
+    high: Number(high),
+    low: Number(low),
+    close: Number(close),
+    volume: volume === undefined || volume === '' ? 0 : Number(volume),
+  };
+
+  if ([candle.open, candle.high, candle.low, candle.close, candle.volume].some(n => !Number.isFinite(n))) {
+    throw new Error(`Invalid candle at ${candle.timestamp.toISOString()}`);
+  }
+  return candle;
+}
+
+/**
+ * Sort candles oldest first and drop duplicate timestamps (the last one wins)
+ */
+function normalize(candles: Candle[]): Candle[] {
+  const byTime = new Map(candles.map(candle => [candle.timestamp.getTime(), candle]));
+  return Array.from(byTime.values()).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Parse CSV with a header row naming timestamp/open/high/low/close[/volume] columns
+ */
+export function parseCandlesCsv(text: string): Candle[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+  const timeIndex = header.findIndex(name => TIMESTAMP_COLUMNS.includes(name));
+  const indexes = ['open', 'high', 'low', 'close'].map(column);
+  if (timeIndex === -1 || indexes.includes(-1)) {
+    throw new Error('CSV header must include timestamp, open, high, low and close columns');
+  }
+
+  const volumeIndex = column('volume');
+  return normalize(lines.slice(1).map(line => {
+    const cells = line.split(',').map(cell => cell.trim());
+    return toCandle(
+      cells[timeIndex],
+      cells[indexes[0]],
+      cells[indexes[1]],
+      cells[indexes[2]],
+      cells[indexes[3]],
+      volumeIndex === -1 ? undefined : cells[volumeIndex]
+    );
+  }));
+}
+
+/**
+ * Parse JSON holding either candle objects or exchange-style arrays [time, open, high, low, close, volume]
+ */
+export function parseCandlesJson(text: string): Candle[] {
+  const data = JSON.parse(text);
+  const rows: unknown[] = Array.isArray(data) ? data : data?.candles;
+  if (!Array.isArray(rows)) {
+    throw new Error('JSON candles must be an array or an object with a "candles" array');
+  }
+
+  return normalize(rows.map(row => {
+    if (Array.isArray(row)) {
+      return toCandle(row[0], row[1], row[2], row[3], row[4], row[5]);
+    }
+    const candle = row as Record<string, unknown>;
+    const time = TIMESTAMP_COLUMNS.map(name => candle[name]).find(value => value !== undefined);
+    return toCandle(time, candle.open, candle.high, candle.low, candle.close, candle.volume);
+  }));
+}
+
+/**
+ * Load candles from a .csv or .json file
+ */
+export async function loadCandles(file: string): Promise<Candle[]> {
+  const text = await readFile(file, 'utf8');
+  return path.extname(file).toLowerCase() === '.json' ? parseCandlesJson(text) : parseCandlesCsv(text);
+}
+
+/**
+ * Find the data file for a pair in a directory, trying ETH-USDC, ETH-USD and ETH as base names
+ */
+export function findCandleFile(directory: string, token: string, quoteToken: string): string | undefined {
+  const base = token.toUpperCase();
+  const names = [`${base}-${quoteToken.toUpperCase()}`, `${base}-USD`, base];
+
+  for (const name of names) {
+    for (const candidate of [name, name.toLowerCase()]) {
+      for (const extension of ['.csv', '.json']) {
+        const file = path.join(directory, `${candidate}${extension}`);
+        if (existsSync(file)) return file;
+      }
+    }
+  }
+  return undefined;
+}
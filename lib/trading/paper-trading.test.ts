@@ -0,0 +1,40 @@
+import { describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { PaperTradingAccounts, parseStartingBalances } from './paper-trading';
+
+const logger = winston.createLogger({ silent: true });
+
+function accounts(): PaperTradingAccounts {
+  return new PaperTradingAccounts({
+    priceSource: { name: 'test', getPrices: async () => ({ ETH: 2000, USDC: 1 }) },
+    logger,
+    startingBalances: parseStartingBalances('ETH:1,USDC:1000'),
+    networkId: 'base-sepolia',
+  });
+}
+
+describe('PaperWalletProvider', () => {
+  test('settle a swap at the fixture price less the fee', async () => {
+    const wallet = accounts().getWallet('user');
+
+    const output = await wallet.execute({ kind: 'swap', action: 'swap', fromToken: 'USDC', toToken: 'ETH', amount: 400, userId: 'user' });
+
+    expect(output).toContain('for 0.1994 of eth');
+    expect(wallet.getBalances()).toEqual({ ETH: 1.1994, USDC: 600 });
+  });
+
+  test('refuse to spend more than the paper balance', async () => {
+    const wallet = accounts().getWallet('user');
+
+    await expect(wallet.swap('ETH', 'USDC', 2)).rejects.toThrow('Insufficient paper balance');
+    expect(wallet.getBalances()).toEqual({ ETH: 1, USDC: 1000 });
+  });
+
+  test('start again from the starting balances after a reset', async () => {
+    const paper = accounts();
+    await paper.getWallet('user').transfer('USDC', '0x000000000000000000000000000000000000dEaD', 250);
+
+    paper.reset('user');
+    expect(paper.getWallet('user').getTokenBalance('USDC')).toBe(1000);
+  });
+});
@@ -0,0 +1,298 @@
+import { createHash, randomBytes } from 'crypto';
+import { EvmWalletProvider, Network } from '@coinbase/agentkit';
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import winston from 'winston';
+import { PriceSource, TransactionIntent } from '../types';
+import { SWAP_ACTION } from '../transactions/intents';
+import { TradeLedger } from '../transactions/trade-ledger';
+import { MemoryTradeHistoryStore } from '../storage/trade-history';
+import { getNetwork } from './networks';
+
+export type TradingMode = 'live' | 'paper';
+
+export interface PaperWalletOptions {
+  address: `0x${string}`;
+  networkId: string;
+  priceSource: PriceSource;
+  balances: Record<string, number>;
+  swapFeeBps?: number;
+}
+
+export interface PaperTradingAccountsOptions {
+  priceSource: PriceSource;
+  logger: winston.Logger;
+  defaultMode?: TradingMode;
+  startingBalances?: Record<string, number>;
+  networkId?: string;
+}
+
+interface PaperReceipt {
+  transactionHash: `0x${string}`;
+  status: 'success';
+  gasUsed: bigint;
+}
+
+const DEFAULT_STARTING_BALANCES: Record<string, number> = { ETH: 1, USDC: 1000 };
+
+/**
+ * Parse starting balances such as "ETH:1,USDC:1000"
+ */
+export function parseStartingBalances(value?: string): Record<string, number> {
+  if (!value) return { ...DEFAULT_STARTING_BALANCES };
+
+  const balances: Record<string, number> = {};
+  for (const entry of value.split(',')) {
+    const [symbol, amount] = entry.split(':').map(part => part.trim());
+    if (symbol && Number(amount) >= 0) {
+      balances[symbol.toUpperCase()] = Number(amount);
+    }
+  }
+  return balances;
+}
+
+/**
+ * Deterministic, obviously fake address for a user's paper account
+ */
+export function paperAddress(userId: string): `0x${string}` {
+  return `0x${createHash('sha256').update(`paper:${userId}`).digest('hex').slice(0, 40)}`;
+}
+
+/**
+ * Wallet provider that settles transfers and swaps against an in-memory balance book priced by
+ * a PriceSource. It exposes the same surface TradingAgent uses from CdpV2EvmWalletProvider
+ * (address, balance, transfers, receipts) so simulated and live trades share one code path;
+ * signing and raw transactions are not simulated.
+ */
+export class PaperWalletProvider extends EvmWalletProvider {
+  private address: `0x${string}`;
+  private networkId: string;
+  private priceSource: PriceSource;
+  private balances: Map<string, number>;
+  private swapFeeBps: number;
+  private receipts: Map<string, PaperReceipt> = new Map();
+
+  constructor(options: PaperWalletOptions) {
+    super();
+    // The base class reports every new wallet to AgentKit analytics on the next tick; simulated
+    // wallets are created per user and must work offline, so opt out before that fires
+    (this as unknown as { trackInitialization: () => void }).trackInitialization = () => undefined;
+    this.address = options.address;
+    this.networkId = options.networkId;
+    this.priceSource = options.priceSource;
+    this.balances = new Map(Object.entries(options.balances).map(([symbol, amount]) => [symbol.toUpperCase(), amount]));
+    this.swapFeeBps = options.swapFeeBps ?? 30;
+  }
+
+  getAddress(): string {
+    return this.address;
+  }
+
+  getNetwork(): Network {
+    return {
+      protocolFamily: 'evm',
+      networkId: this.networkId,
+      chainId: String(getNetwork(this.networkId).chain.id),
+    };
+  }
+
+  getName(): string {
+    return 'paper_wallet_provider';
+  }
+
+  /**
+   * Native balance in wei
+   */
+  async getBalance(): Promise<bigint> {
+    const native = getNetwork(this.networkId).nativeSymbol;
+    return BigInt(Math.round(this.getTokenBalance(native) * 1e9)) * BigInt(1e9);
+  }
+
+  getTokenBalance(symbol: string): number {
+    return this.balances.get(symbol.toUpperCase()) || 0;
+  }
+
+  /**
+   * Every non-zero balance, keyed by symbol
+   */
+  getBalances(): Record<string, number> {
+    return Object.fromEntries(Array.from(this.balances.entries()).filter(([, amount]) => amount > 0));
+  }
+
+  async nativeTransfer(to: string, value: string): Promise<`0x${string}`> {
+    return this.transfer(getNetwork(this.networkId).nativeSymbol, to, Number(value));
+  }
+
+  async transfer(symbol: string, to: string, amount: number): Promise<`0x${string}`> {
+    if (!to) {
+      throw new Error('Recipient is required');
+    }
+    this.debit(symbol, amount);
+    return this.settle();
+  }
+
+  /**
+   * Swap at the current price less the simulated fee
+   */
+  async swap(fromSymbol: string, toSymbol: string, amount: number): Promise<{ hash: `0x${string}`; amountOut: number }> {
+    const from = fromSymbol.toUpperCase();
+    const to = toSymbol.toUpperCase();
+    const prices = await this.priceSource.getPrices([from, to]);
+    if (!prices[from] || !prices[to]) {
+      throw new Error(`No price available for ${!prices[from] ? from : to}`);
+    }
+
+    const amountOut = Number((((amount * prices[from]) / prices[to]) * (1 - this.swapFeeBps / 10000)).toFixed(8));
+    this.debit(from, amount);
+    this.credit(to, amountOut);
+    return { hash: this.settle(), amountOut };
+  }
+
+  /**
+   * Execute an intent and describe it the way the matching AgentKit action does, so the
+   * trade ledger parses simulated results exactly like live ones
+   */
+  async execute(intent: TransactionIntent): Promise<string> {
+    switch (intent.kind) {
+      case 'swap': {
+        const { hash, amountOut } = await this.swap(intent.fromToken, intent.toToken!, intent.amount);
+        return `Traded ${intent.amount} of ${intent.fromToken.toLowerCase()} for ${amountOut} of ${intent.toToken!.toLowerCase()}.\nTransaction hash for the trade: ${hash}`;
+      }
+      case 'wrap': {
+        this.debit(intent.fromToken, intent.amount);
+        this.credit(intent.toToken!, intent.amount);
+        return `Wrapped ETH with transaction hash: ${this.settle()}`;
+      }
+      default: {
+        const hash = await this.transfer(intent.fromToken, intent.recipient!, intent.amount);
+        return `Transferred ${intent.amount} ${intent.fromToken} to ${intent.recipient}.\nTransaction hash: ${hash}`;
+      }
+    }
+  }
+
+  async waitForTransactionReceipt(txHash: `0x${string}`): Promise<PaperReceipt | undefined> {
+    return this.receipts.get(txHash);
+  }
+
+  async signMessage(): Promise<`0x${string}`> {
+    throw new Error('Paper wallets cannot sign messages');
+  }
+
+  async signTypedData(): Promise<`0x${string}`> {
+    throw new Error('Paper wallets cannot sign typed data');
+  }
+
+  async signTransaction(): Promise<`0x${string}`> {
+    throw new Error('Paper wallets cannot sign transactions');
+  }
+
+  async sendTransaction(): Promise<`0x${string}`> {
+    throw new Error('Paper wallets only simulate transfers, swaps and wraps');
+  }
+
+  async readContract(): Promise<never> {
+    throw new Error('Paper wallets cannot read contracts');
+  }
+
+  private debit(symbol: string, amount: number): void {
+    if (!(amount > 0)) {
+      throw new Error('Amount must be greater than zero');
+    }
+    const balance = this.getTokenBalance(symbol);
+    if (balance < amount) {
+      throw new Error(`Insufficient paper balance: ${balance} ${symbol.toUpperCase()} available, ${amount} needed`);
+    }
+    this.balances.set(symbol.toUpperCase(), balance - amount);
+  }
+
+  private credit(symbol: string, amount: number): void {
+    this.balances.set(symbol.toUpperCase(), this.getTokenBalance(symbol) + amount);
+  }
+
+  private settle(): `0x${string}` {
+    const transactionHash = `0x${randomBytes(32).toString('hex')}` as `0x${string}`;
+    this.receipts.set(transactionHash, { transactionHash, status: 'success', gasUsed: BigInt(0) });
+    return transactionHash;
+  }
+}
+
+/**
+ * Which users trade on paper, and their simulated wallets. Paper trades are recorded in their
+ * own in-memory ledger so they never mix with live history.
+ */
+export class PaperTradingAccounts {
+  public readonly ledger: TradeLedger;
+  public readonly defaultMode: TradingMode;
+  public readonly priceSource: PriceSource;
+  private logger: winston.Logger;
+  private startingBalances: Record<string, number>;
+  private networkId: string;
+  private modes: Map<string, TradingMode> = new Map();
+  private wallets: Map<string, PaperWalletProvider> = new Map();
+
+  constructor(options: PaperTradingAccountsOptions) {
+    this.priceSource = options.priceSource;
+    this.logger = options.logger;
+    this.defaultMode = options.defaultMode || 'live';
+    this.startingBalances = options.startingBalances || { ...DEFAULT_STARTING_BALANCES };
+    this.networkId = options.networkId || getNetwork().id;
+    this.ledger = new TradeLedger({ store: new MemoryTradeHistoryStore(), logger: options.logger });
+  }
+
+  getMode(userId: string): TradingMode {
+    return this.modes.get(userId) || this.defaultMode;
+  }
+
+  setMode(userId: string, mode: TradingMode): void {
+    this.modes.set(userId, mode);
+    this.logger.info('Trading mode changed', { userId, mode });
+  }
+
+  isPaper(userId: string): boolean {
+    return this.getMode(userId) === 'paper';
+  }
+
+  /**
+   * A user's paper wallet, funded with the starting balances on first use
+   */
+  getWallet(userId: string): PaperWalletProvider {
+    let wallet = this.wallets.get(userId);
+    if (!wallet) {
+      wallet = new PaperWalletProvider({
+        address: paperAddress(userId),
+        networkId: this.networkId,
+        priceSource: this.priceSource,
+        balances: this.startingBalances,
+      });
+      this.wallets.set(userId, wallet);
+    }
+    return wallet;
+  }
+
+  /**
+   * Throw away a user's paper wallet so the next trade starts from the starting balances
+   */
+  reset(userId: string): void {
+    this.wallets.delete(userId);
+    this.logger.info('Paper account reset', { userId });
+  }
+}
+
+/**
+ * Stand-in for the AgentKit trade action when CDP credentials are not configured, so the swap
+ * tool stays available to paper accounts (which never invoke it)
+ */
+export function createPaperSwapTool(): DynamicStructuredTool {
+  return new DynamicStructuredTool({
+    name: SWAP_ACTION,
+    description: 'Trade a specified amount of a from asset to a to asset (simulated on the paper account)',
+    schema: z.object({
+      amount: z.number().positive().describe('The amount of the from asset to trade'),
+      fromAssetId: z.string().describe('The from asset ID to trade, e.g. eth'),
+      toAssetId: z.string().describe('The to asset ID to receive from the trade, e.g. usdc'),
+    }),
+    func: async () => {
+      throw new Error('Live trading is not configured; swaps are only available in paper mode');
+    },
+  });
+}
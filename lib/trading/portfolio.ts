@@ -0,0 +1,361 @@
+import axios from 'axios';
+import winston from 'winston';
+import { PublicClient, erc20Abi, formatUnits, getAddress } from 'viem';
+import {
+  Portfolio,
+  PortfolioSnapshot,
+  PortfolioSnapshotStore,
+  PerformanceMetrics,
+  PnlReport,
+  PriceSource,
+  TokenBalance,
+} from '../types';
+import { NetworkInfo, TokenInfo, createNetworkClient, findToken, getNetwork } from './networks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export interface PortfolioServiceOptions {
+  priceSource: PriceSource;
+  store: PortfolioSnapshotStore;
+  logger: winston.Logger;
+  networkIds?: string[]; // networks to read balances on, default NETWORK_ID
+  snapshotIntervalMs?: number;
+  maxSnapshots?: number;
+  // Cost-basis PnL for an address; when available its return replaces the snapshot-based totalReturn
+  pnlSource?: (address: string) => Promise<PnlReport | undefined>;
+}
+
+/**
+ * Percentage change between two values, 0 when there is no baseline
+ */
+function percentChange(from: number, to: number): number {
+  return from > 0 ? ((to - from) / from) * 100 : 0;
+}
+
+/**
+ * Key a holding is priced and snapshotted under. Symbols are self-reported by the contract,
+ * so two tokens can share one; the contract address cannot.
+ */
+function holdingKey(network: string, address: string): string {
+  return `${network}:${address.toLowerCase()}`;
+}
+
+/**
+ * Latest snapshot taken at or before the given time
+ */
+function snapshotAt(snapshots: PortfolioSnapshot[], time: number): PortfolioSnapshot | undefined {
+  let match: PortfolioSnapshot | undefined;
+  for (const snapshot of snapshots) {
+    if (snapshot.timestamp.getTime() > time) break;
+    match = snapshot;
+  }
+  return match;
+}
+
+/**
+ * Compute performance metrics from a chronologically ordered snapshot history.
+ * Volatility is the annualized standard deviation of daily returns, in percent.
+ */
+export function computePerformanceMetrics(snapshots: PortfolioSnapshot[], now: Date = new Date()): PerformanceMetrics {
+  if (snapshots.length === 0) {
+    return { totalReturn: 0, dailyChange: 0, weeklyChange: 0, monthlyChange: 0, volatility: 0 };
+  }
+
+  const current = snapshots[snapshots.length - 1].totalValue;
+  const changeSince = (ms: number) => {
+    const baseline = snapshotAt(snapshots, now.getTime() - ms) || snapshots[0];
+    return percentChange(baseline.totalValue, current);
+  };
+
+  // Close of each calendar day, used for the daily return series
+  const dailyCloses = new Map<string, number>();
+  for (const snapshot of snapshots) {
+    dailyCloses.set(snapshot.timestamp.toISOString().slice(0, 10), snapshot.totalValue);
+  }
+  const closes = Array.from(dailyCloses.values());
+  const dailyReturns = closes.slice(1).map((close, i) => (closes[i] > 0 ? close / closes[i] - 1 : 0));
+
+  let volatility = 0;
+  if (dailyReturns.length > 1) {
+    const mean = dailyReturns.reduce((sum, r) => sum + r, 0) / dailyReturns.length;
+    const variance = dailyReturns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (dailyReturns.length - 1);
+    volatility = Math.sqrt(variance) * Math.sqrt(365) * 100;
+  }
+
+  return {
+    totalReturn: percentChange(snapshots[0].totalValue, current),
+    dailyChange: changeSince(DAY_MS),
+    weeklyChange: changeSince(7 * DAY_MS),
+    monthlyChange: changeSince(30 * DAY_MS),
+    volatility,
+  };
+}
+
+/**
+ * Tracks wallet holdings across networks, prices them and keeps a snapshot history for
+ * performance metrics. Only the native token and the network's known tokens are priced;
+ * anything else the wallet received is listed unverified at no value.
+ */
+export class PortfolioService {
+  private priceSource: PriceSource;
+  private store: PortfolioSnapshotStore;
+  private logger: winston.Logger;
+  private networks: NetworkInfo[];
+  private clients: Map<string, PublicClient>;
+  private snapshotIntervalMs: number;
+  private maxSnapshots: number;
+  private pnlSource?: (address: string) => Promise<PnlReport | undefined>;
+  private portfolios: Map<string, Portfolio> = new Map();
+  private trackedAddresses: Set<string> = new Set();
+  private snapshotInterval?: NodeJS.Timeout;
+
+  constructor(options: PortfolioServiceOptions) {
+    this.priceSource = options.priceSource;
+    this.store = options.store;
+    this.logger = options.logger;
+    this.networks = options.networkIds && options.networkIds.length > 0
+      ? options.networkIds.map(id => getNetwork(id))
+      : [getNetwork()];
+    this.clients = new Map(this.networks.map(network => [network.id, createNetworkClient(network)]));
+    this.snapshotIntervalMs = options.snapshotIntervalMs ?? 60 * 60 * 1000;
+    this.maxSnapshots = options.maxSnapshots ?? 24 * 90;
+    this.pnlSource = options.pnlSource;
+  }
+
+  /**
+   * Add an address to the periodic snapshot schedule
+   */
+  track(address: string): void {
+    this.trackedAddresses.add(getAddress(address));
+  }
+
+  /**
+   * Start taking periodic snapshots of tracked addresses
+   */
+  start(): void {
+    if (this.snapshotInterval) return;
+
+    this.snapshotInterval = setInterval(() => {
+      for (const address of this.trackedAddresses) {
+        this.refresh(address).catch(error => {
+          this.logger.error('Portfolio snapshot failed', { error, address });
+        });
+      }
+    }, this.snapshotIntervalMs);
+  }
+
+  /**
+   * Stop taking periodic snapshots
+   */
+  stop(): void {
+    if (this.snapshotInterval) {
+      clearInterval(this.snapshotInterval);
+      this.snapshotInterval = undefined;
+    }
+  }
+
+  /**
+   * Get a fresh, priced portfolio for an address and record a snapshot of it
+   */
+  async getPortfolio(address: string): Promise<Portfolio> {
+    const checksummed = getAddress(address);
+    this.track(checksummed);
+    return this.refresh(checksummed);
+  }
+
+  /**
+   * Most recent portfolio computed for an address, without hitting the network
+   */
+  getCachedPortfolio(address: string): Portfolio | undefined {
+    return this.portfolios.get(getAddress(address));
+  }
+
+  /**
+   * Snapshot history for an address, oldest first
+   */
+  async getSnapshots(address: string): Promise<PortfolioSnapshot[]> {
+    return this.store.list(getAddress(address));
+  }
+
+  private async refresh(address: string): Promise<Portfolio> {
+    const { holdings, networks, unavailable } = await this.fetchHoldings(address);
+    const symbols = Array.from(new Set([
+      ...this.networks.map(n => n.nativeSymbol),
+      ...holdings.filter(h => h.verified).map(h => h.token.symbol),
+    ]));
+
+    let prices: Record<string, number> = {};
+    try {
+      prices = await this.priceSource.getPrices(symbols);
+    } catch (error) {
+      this.logger.warn('Price source unavailable, portfolio will be unpriced', { error, source: this.priceSource.name });
+    }
+
+    const history = await this.store.list(address);
+    const dayAgo = snapshotAt(history, Date.now() - DAY_MS);
+
+    const tokens: TokenBalance[] = holdings.map(({ network, token, balance, verified }) => {
+      const price = verified ? prices[token.symbol] ?? 0 : 0;
+      const previousPrice = dayAgo?.prices[holdingKey(network, token.address)];
+      return {
+        symbol: token.symbol,
+        address: token.address,
+        balance,
+        value: balance * price,
+        price,
+        change24h: previousPrice ? percentChange(previousPrice, price) : 0,
+        network,
+        verified,
+      };
+    });
+
+    const totalValue = tokens.reduce((sum, token) => sum + token.value, 0);
+    const snapshot: PortfolioSnapshot = {
+      address,
+      totalValue,
+      prices: Object.fromEntries(tokens.filter(token => token.verified).map(token => [holdingKey(token.network!, token.address), token.price])),
+      timestamp: new Date(),
+    };
+    // A network that could not be read would show up as a drop in value, so partial reads are not recorded
+    if (unavailable.length === 0) {
+      await this.store.append(snapshot, this.maxSnapshots);
+      history.push(snapshot);
+    }
+
+    const performance = computePerformanceMetrics(history.length > 0 ? history : [snapshot]);
+    const pnl = await this.loadPnl(address);
+    if (pnl) {
+      performance.totalReturn = pnl.totalReturn;
+    }
+
+    const portfolio: Portfolio = {
+      address,
+      tokens: tokens.sort((a, b) => b.value - a.value),
+      totalValue,
+      lastUpdated: snapshot.timestamp,
+      performance,
+      networks,
+    };
+
+    this.portfolios.set(address, portfolio);
+    return portfolio;
+  }
+
+  private async loadPnl(address: string): Promise<PnlReport | undefined> {
+    if (!this.pnlSource) return undefined;
+    try {
+      return await this.pnlSource(address);
+    } catch (error) {
+      this.logger.warn('Cost-basis PnL unavailable, using snapshot return', { error, address });
+      return undefined;
+    }
+  }
+
+  /**
+   * Read balances for an address on every network. Networks that cannot be read are skipped
+   * unless none can.
+   */
+  private async fetchHoldings(address: string): Promise<{
+    holdings: Array<{ network: string; token: TokenInfo; balance: number; verified: boolean }>;
+    networks: string[];
+    unavailable: string[];
+  }> {
+    const results = await Promise.allSettled(this.networks.map(network => this.fetchNetworkHoldings(network, address)));
+    const failed = results.flatMap((result, i) => result.status === 'rejected' ? [{ network: this.networks[i].id, error: result.reason }] : []);
+    if (failed.length === this.networks.length) {
+      throw failed[0].error;
+    }
+    failed.forEach(({ network, error }) => this.logger.warn('Failed to read balances on network', { error, network, address }));
+
+    return {
+      holdings: results.flatMap((result, i) =>
+        result.status === 'fulfilled' ? result.value.map(holding => ({ network: this.networks[i].id, ...holding })) : []
+      ),
+      networks: this.networks.filter((_network, i) => results[i].status === 'fulfilled').map(network => network.id),
+      unavailable: failed.map(({ network }) => network),
+    };
+  }
+
+  /**
+   * Read native and ERC-20 balances for an address on one network. Non-zero balances only;
+   * tokens outside the network's known list are marked unverified.
+   */
+  private async fetchNetworkHoldings(
+    network: NetworkInfo,
+    address: string
+  ): Promise<Array<{ token: TokenInfo; balance: number; verified: boolean }>> {
+    const client = this.clients.get(network.id)!;
+    const tokens = await this.discoverTokens(network, address);
+
+    const [nativeBalance, tokenBalances] = await Promise.all([
+      client.getBalance({ address: address as `0x${string}` }),
+      Promise.all(
+        tokens.map(token =>
+          client
+            .readContract({ address: token.address, abi: erc20Abi, functionName: 'balanceOf', args: [address as `0x${string}`] })
+            .catch(error => {
+              this.logger.warn('Failed to read token balance', { error, token: token.symbol, network: network.id, address });
+              return BigInt(0);
+            })
+        )
+      ),
+    ]);
+
+    const holdings = [
+      {
+        token: { symbol: network.nativeSymbol, address: NATIVE_TOKEN_ADDRESS as `0x${string}`, decimals: 18 },
+        balance: Number(formatUnits(nativeBalance, 18)),
+        verified: true,
+      },
+      ...tokens.map((token, i) => ({
+        token,
+        balance: Number(formatUnits(tokenBalances[i], token.decimals)),
+        verified: findToken(network, token.address) !== undefined,
+      })),
+    ];
+
+    return holdings.filter(holding => holding.balance > 0);
+  }
+
+  /**
+   * Known tokens for the network plus any token the address has received according to Basescan
+   */
+  private async discoverTokens(network: NetworkInfo, address: string): Promise<TokenInfo[]> {
+    const tokens = new Map(network.tokens.map(token => [token.address.toLowerCase(), token]));
+
+    if (network.id === 'base-mainnet' && process.env.BASESCAN_API_KEY) {
+      try {
+        const resp = await axios.get('https://api.basescan.org/api', {
+          params: {
+            module: 'account',
+            action: 'tokentx',
+            address,
+            sort: 'desc',
+            page: 1,
+            offset: 200,
+            apikey: process.env.BASESCAN_API_KEY,
+          },
+        });
+        if (resp.data.status === '1') {
+          for (const tx of resp.data.result) {
+            const key = String(tx.contractAddress).toLowerCase();
+            if (!tokens.has(key)) {
+              tokens.set(key, {
+                symbol: String(tx.tokenSymbol).toUpperCase(),
+                address: getAddress(tx.contractAddress),
+                decimals: Number(tx.tokenDecimal),
+              });
+            }
+          }
+        }
+      } catch (error) {
+        this.logger.warn('Token discovery via Basescan failed', { error, address });
+      }
+    }
+
+    return Array.from(tokens.values());
+  }
+}
+
+export default PortfolioService;
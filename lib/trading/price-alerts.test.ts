@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { PriceAlertEngine } from './price-alerts';
+import { SqlitePriceAlertStore } from '../storage/price-alerts';
+import { openDatabase } from '../storage/database';
+
+const logger = winston.createLogger({ silent: true });
+
+function engine(prices: Record<string, number>) {
+  return new PriceAlertEngine({
+    store: new SqlitePriceAlertStore(openDatabase(':memory:')),
+    priceSource: { name: 'test', getPrices: async () => prices },
+    logger,
+  });
+}
+
+describe('PriceAlertEngine', () => {
+  test('keep alerts across engine instances', async () => {
+    const alert = await engine({}).createAlert({
+      tokenSymbol: 'eth',
+      condition: 'above',
+      targetPrice: 3000,
+      createdBy: 'restart-user',
+      conversationId: 'conversation',
+    });
+
+    const [reloaded] = await engine({}).listAlerts('restart-user');
+    expect(reloaded).toEqual(alert);
+    expect(reloaded.tokenSymbol).toBe('ETH');
+  });
+
+  test('deactivate a one-shot alert once it fires', async () => {
+    const prices = { BTC: 60000 };
+    const alerts = engine(prices);
+    await alerts.createAlert({ tokenSymbol: 'BTC', condition: 'below', targetPrice: 65000, createdBy: 'once-user', conversationId: 'conversation' });
+
+    expect(await alerts.evaluate()).toHaveLength(1);
+    expect(await alerts.evaluate()).toHaveLength(0);
+    expect(await alerts.listAlerts('once-user')).toHaveLength(0);
+    expect((await alerts.listAlerts('once-user', true))[0]).toMatchObject({ isActive: false, triggerCount: 1 });
+  });
+
+  test('re-arm an alert only after the price crosses back', async () => {
+    const prices: Record<string, number> = { AERO: 2 };
+    const alerts = engine(prices);
+    await alerts.createAlert({ tokenSymbol: 'AERO', condition: 'above', targetPrice: 1.5, mode: 'rearm', createdBy: 'rearm-user', conversationId: 'conversation' });
+
+    expect(await alerts.evaluate()).toHaveLength(1);
+    expect(await alerts.evaluate()).toHaveLength(0);
+
+    prices.AERO = 1;
+    await alerts.evaluate();
+    prices.AERO = 1.6;
+    expect(await alerts.evaluate()).toHaveLength(1);
+    expect((await alerts.listAlerts('rearm-user'))[0].triggerCount).toBe(2);
+  });
+
+  test('only let the creator cancel an alert', async () => {
+    const alerts = engine({});
+    const alert = await alerts.createAlert({ tokenSymbol: 'DEGEN', condition: 'above', targetPrice: 0.1, createdBy: 'cancel-user', conversationId: 'conversation' });
+
+    expect(await alerts.cancelAlert(alert.id, 'someone-else')).toBe(false);
+    expect(await alerts.cancelAlert(alert.id, 'cancel-user')).toBe(true);
+    expect(await alerts.cancelAlert(alert.id, 'cancel-user')).toBe(false);
+  });
+});
@@ -0,0 +1,177 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import winston from 'winston';
+import { PriceAlert, PriceAlertStore, PriceAlertTrigger, PriceSource } from '../types';
+
+export interface CreatePriceAlertParams {
+  tokenSymbol: string;
+  condition: PriceAlert['condition'];
+  targetPrice: number;
+  mode?: PriceAlert['mode'];
+  createdBy: string;
+  conversationId: string;
+}
+
+export interface PriceAlertEngineOptions {
+  store: PriceAlertStore;
+  priceSource: PriceSource;
+  logger: winston.Logger;
+  pollIntervalMs?: number;
+}
+
+/**
+ * Keeps user price alerts in a store and evaluates them against a price source on an interval.
+ * Emits `triggered` with a PriceAlertTrigger whenever an alert fires.
+ */
+export class PriceAlertEngine extends EventEmitter {
+  private store: PriceAlertStore;
+  private priceSource: PriceSource;
+  private logger: winston.Logger;
+  private pollIntervalMs: number;
+  private pollInterval?: NodeJS.Timeout;
+  private isEvaluating = false;
+
+  constructor(options: PriceAlertEngineOptions) {
+    super();
+    this.store = options.store;
+    this.priceSource = options.priceSource;
+    this.logger = options.logger;
+    this.pollIntervalMs = options.pollIntervalMs ?? 60000;
+  }
+
+  /**
+   * Create a new active alert
+   */
+  async createAlert(params: CreatePriceAlertParams): Promise<PriceAlert> {
+    if (!(params.targetPrice > 0)) {
+      throw new Error('Target price must be greater than zero');
+    }
+
+    const alert: PriceAlert = {
+      id: `alert_${uuidv4().slice(0, 8)}`,
+      tokenSymbol: params.tokenSymbol.toUpperCase(),
+      condition: params.condition,
+      targetPrice: params.targetPrice,
+      isActive: true,
+      createdBy: params.createdBy,
+      conversationId: params.conversationId,
+      mode: params.mode || 'once',
+      armed: true,
+      triggerCount: 0,
+      createdAt: new Date(),
+    };
+
+    await this.store.save(alert);
+    this.logger.info('Price alert created', { alertId: alert.id, tokenSymbol: alert.tokenSymbol, createdBy: alert.createdBy });
+
+    return alert;
+  }
+
+  /**
+   * List alerts created by a user, newest first
+   */
+  async listAlerts(userId: string, includeInactive = false): Promise<PriceAlert[]> {
+    const alerts = await this.store.listByUser(userId);
+    return alerts.filter(alert => includeInactive || alert.isActive);
+  }
+
+  /**
+   * Cancel an alert. Only the user who created it may cancel it.
+   */
+  async cancelAlert(alertId: string, userId: string): Promise<boolean> {
+    const alert = await this.store.get(alertId);
+    if (!alert || alert.createdBy !== userId || !alert.isActive) {
+      return false;
+    }
+
+    alert.isActive = false;
+    await this.store.save(alert);
+    this.logger.info('Price alert cancelled', { alertId, userId });
+    return true;
+  }
+
+  /**
+   * Start polling the price source
+   */
+  start(): void {
+    if (this.pollInterval) return;
+
+    this.pollInterval = setInterval(() => {
+      this.evaluate().catch(error => {
+        this.logger.error('Price alert evaluation failed', { error });
+      });
+    }, this.pollIntervalMs);
+  }
+
+  /**
+   * Stop polling the price source
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
+
+  /**
+   * Evaluate all active alerts once against current prices
+   */
+  async evaluate(): Promise<PriceAlertTrigger[]> {
+    if (this.isEvaluating) return [];
+
+    this.isEvaluating = true;
+    try {
+      const activeAlerts = await this.store.listActive();
+      if (activeAlerts.length === 0) return [];
+
+      const symbols = Array.from(new Set(activeAlerts.map(alert => alert.tokenSymbol)));
+
+      let prices: Record<string, number>;
+      try {
+        prices = await this.priceSource.getPrices(symbols);
+      } catch (error) {
+        this.logger.warn('Price source unavailable, skipping alert evaluation', { error, source: this.priceSource.name });
+        return [];
+      }
+
+      const triggers: PriceAlertTrigger[] = [];
+      for (const alert of activeAlerts) {
+        const price = prices[alert.tokenSymbol];
+        if (price === undefined) continue;
+
+        const conditionMet = alert.condition === 'above' ? price >= alert.targetPrice : price <= alert.targetPrice;
+
+        if (!conditionMet) {
+          // Re-arming alerts become eligible again once price crosses back
+          if (alert.mode === 'rearm' && !alert.armed) {
+            alert.armed = true;
+            await this.store.save(alert);
+          }
+          continue;
+        }
+
+        if (!alert.armed) continue;
+
+        const trigger: PriceAlertTrigger = { alert, price, triggeredAt: new Date() };
+        alert.triggerCount += 1;
+        alert.lastTriggeredAt = trigger.triggeredAt;
+        if (alert.mode === 'once') {
+          alert.isActive = false;
+        } else {
+          alert.armed = false;
+        }
+        await this.store.save(alert);
+
+        triggers.push(trigger);
+        this.logger.info('Price alert triggered', { alertId: alert.id, tokenSymbol: alert.tokenSymbol, price });
+        this.emit('triggered', trigger);
+      }
+
+      return triggers;
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+}
+
+export default PriceAlertEngine;
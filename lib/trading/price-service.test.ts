@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { PriceService } from './price-service';
+import { FixturePriceSource } from './price-source';
+import { PriceProvider, PriceQuote } from '../types';
+
+const logger = winston.createLogger({ silent: true });
+
+function provider(name: string, getQuotes: (symbols: string[]) => Promise<Record<string, PriceQuote>>): PriceProvider & { calls: string[][] } {
+  const calls: string[][] = [];
+  return {
+    name,
+    calls,
+    getQuotes: async symbols => {
+      calls.push(symbols);
+      return getQuotes(symbols);
+    },
+  };
+}
+
+describe('PriceService', () => {
+  test('take each price from the first provider that has a fresh one', async () => {
+    const failing = provider('failing', async () => {
+      throw new Error('rate limited');
+    });
+    const stale = provider('stale', async () => ({
+      ETH: { symbol: 'ETH', price: 1000, source: 'stale', updatedAt: new Date(Date.now() - 60 * 60 * 1000) },
+    }));
+    const fixture = new FixturePriceSource({ ETH: { price: 2000, change24h: 1.5 }, USDC: 1 });
+    const service = new PriceService({ providers: [failing, stale, fixture], logger });
+
+    const quotes = await service.getQuotes(['eth', 'USDC', 'DOGE']);
+
+    expect(quotes.ETH).toMatchObject({ price: 2000, source: 'fixture', stale: false });
+    expect(quotes.USDC.price).toBe(1);
+    expect(quotes.DOGE).toBeUndefined();
+    expect(failing.calls).toHaveLength(1);
+  });
+
+  test('fall back to a stale price only when nothing fresher exists', async () => {
+    const stale = provider('stale', async () => ({
+      ETH: { symbol: 'ETH', price: 1000, source: 'stale', updatedAt: new Date(Date.now() - 60 * 60 * 1000) },
+    }));
+    const service = new PriceService({ providers: [stale], logger });
+
+    expect((await service.getQuote('ETH'))?.stale).toBe(true);
+    expect(await service.getPrices(['ETH'])).toEqual({});
+  });
+
+  test('fill a missing 24h change from the next provider, keeping the first price', async () => {
+    const primary = provider('primary', async () => ({
+      ETH: { symbol: 'ETH', price: 2001, source: 'primary', updatedAt: new Date() },
+    }));
+    const service = new PriceService({
+      providers: [primary, new FixturePriceSource({ ETH: { price: 1990, change24h: -3.2 } })],
+      logger,
+    });
+
+    expect(await service.getQuote('ETH')).toMatchObject({ price: 2001, source: 'primary', change24h: -3.2 });
+    await service.getQuote('ETH');
+    expect(primary.calls).toHaveLength(1);
+  });
+});
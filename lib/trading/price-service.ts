@@ -0,0 +1,207 @@
+import winston from 'winston';
+import { PriceProvider, PriceQuote, PriceSource } from '../types';
+import { NETWORKS } from './networks';
+import { CoinGeckoPriceSource, FixturePriceSource, PythPriceSource } from './price-source';
+
+export interface PriceServiceOptions {
+  providers: PriceProvider[]; // tried in order
+  logger: winston.Logger;
+  ttlMs?: number; // how long a fetched quote is served from cache
+  maxAgeMs?: number; // quotes the provider last updated longer ago than this are stale
+}
+
+interface CacheEntry {
+  quote: PriceQuote;
+  fetchedAt: number;
+}
+
+// Fiat the rest of the stack prices everything in
+const USD_SYMBOLS = new Set(['USD', '$']);
+
+/**
+ * Resolve a symbol or token contract address (on any known network) to an upper-case symbol
+ */
+export function resolveSymbol(symbolOrAddress: string): string {
+  const value = symbolOrAddress.trim();
+  if (/^0x[a-fA-F0-9]{40}$/.test(value)) {
+    for (const network of Object.values(NETWORKS)) {
+      const token = network.tokens.find(t => t.address.toLowerCase() === value.toLowerCase());
+      if (token) return token.symbol;
+    }
+  }
+  return value.toUpperCase();
+}
+
+/**
+ * Shared USD price feed for every agent. Quotes come from the first provider that has a fresh
+ * price for a symbol - a provider that errors, lacks the symbol or only has a stale price is
+ * skipped for the next one - and are cached for `ttlMs`. A quote without a 24h change (Pyth
+ * has none) takes it from the next provider that has one, keeping the first provider's price.
+ * Stale quotes are still returned by getQuotes (flagged `stale`) when nothing fresher exists,
+ * but never by getPrices, so nothing trades or triggers on an old price.
+ */
+export class PriceService implements PriceSource {
+  public readonly name: string;
+  private providers: PriceProvider[];
+  private logger: winston.Logger;
+  private ttlMs: number;
+  private maxAgeMs: number;
+  private cache: Map<string, CacheEntry> = new Map();
+
+  constructor(options: PriceServiceOptions) {
+    if (options.providers.length === 0) {
+      throw new Error('PriceService needs at least one provider');
+    }
+    this.providers = options.providers;
+    this.logger = options.logger;
+    this.ttlMs = options.ttlMs ?? 30 * 1000;
+    this.maxAgeMs = options.maxAgeMs ?? 5 * 60 * 1000;
+    this.name = `price-service(${this.providers.map(p => p.name).join(',')})`;
+  }
+
+  /**
+   * Quotes keyed by the symbols as requested (upper-cased); symbols nobody prices are omitted
+   */
+  async getQuotes(symbols: string[]): Promise<Record<string, PriceQuote>> {
+    const now = Date.now();
+    const requested = new Map(symbols.map(symbol => [symbol.toUpperCase(), resolveSymbol(symbol)]));
+    const found: Record<string, PriceQuote> = {};
+    const missing = new Set<string>();
+
+    for (const symbol of new Set(requested.values())) {
+      const cached = this.cache.get(symbol);
+      if (USD_SYMBOLS.has(symbol)) {
+        found[symbol] = { symbol, price: 1, source: 'fixed', updatedAt: new Date(now), stale: false };
+      } else if (cached && now - cached.fetchedAt < this.ttlMs && !this.isStale(cached.quote, now)) {
+        found[symbol] = cached.quote;
+      } else {
+        missing.add(symbol);
+      }
+    }
+
+    const staleFallbacks: Record<string, PriceQuote> = {};
+    const withoutChange = new Set<string>();
+    for (const provider of this.providers) {
+      if (missing.size === 0 && withoutChange.size === 0) break;
+
+      let quotes: Record<string, PriceQuote>;
+      try {
+        quotes = await provider.getQuotes([...Array.from(missing), ...Array.from(withoutChange)]);
+      } catch (error) {
+        this.logger.warn('Price provider failed, trying the next one', { provider: provider.name, error });
+        continue;
+      }
+
+      for (const [symbol, quote] of Object.entries(quotes)) {
+        if (withoutChange.has(symbol)) {
+          if (quote.change24h !== undefined && !this.isStale(quote, now)) {
+            found[symbol] = { ...found[symbol], change24h: quote.change24h };
+            this.cache.set(symbol, { quote: found[symbol], fetchedAt: now });
+            withoutChange.delete(symbol);
+          }
+          continue;
+        }
+        if (!missing.has(symbol) || !(quote.price > 0)) continue;
+
+        if (this.isStale(quote, now)) {
+          staleFallbacks[symbol] = staleFallbacks[symbol] || { ...quote, stale: true };
+          continue;
+        }
+        found[symbol] = { ...quote, stale: false };
+        this.cache.set(symbol, { quote: found[symbol], fetchedAt: now });
+        missing.delete(symbol);
+        if (quote.change24h === undefined) withoutChange.add(symbol);
+      }
+    }
+
+    for (const symbol of missing) {
+      // Every provider failed: an expired cache entry still beats an old provider price
+      const cached = this.cache.get(symbol);
+      const fallback = cached && !this.isStale(cached.quote, now) ? cached.quote : staleFallbacks[symbol];
+      if (fallback) {
+        found[symbol] = { ...fallback, stale: this.isStale(fallback, now) };
+        if (found[symbol].stale) {
+          this.logger.warn('Only a stale price is available', { symbol, source: fallback.source, updatedAt: fallback.updatedAt });
+        }
+      }
+    }
+
+    const result: Record<string, PriceQuote> = {};
+    for (const [key, symbol] of requested) {
+      if (found[symbol]) result[key] = found[symbol];
+    }
+    return result;
+  }
+
+  /**
+   * Fresh USD prices only; stale or unavailable symbols are omitted
+   */
+  async getPrices(symbols: string[]): Promise<Record<string, number>> {
+    const quotes = await this.getQuotes(symbols);
+    const prices: Record<string, number> = {};
+    for (const [symbol, quote] of Object.entries(quotes)) {
+      if (!quote.stale) prices[symbol] = quote.price;
+    }
+    return prices;
+  }
+
+  async getQuote(symbol: string): Promise<PriceQuote | undefined> {
+    return (await this.getQuotes([symbol]))[symbol.toUpperCase()];
+  }
+
+  /**
+   * Convert an amount between any two priced assets (tokens or fiat) via USD
+   */
+  async convert(amount: number, from: string, to: string): Promise<{ amount: number; rate: number }> {
+    const prices = await this.getPrices([from, to]);
+    const fromPrice = prices[from.toUpperCase()];
+    const toPrice = prices[to.toUpperCase()];
+    if (!fromPrice || !toPrice) {
+      throw new Error(`No current price for ${!fromPrice ? from.toUpperCase() : to.toUpperCase()}`);
+    }
+
+    const rate = fromPrice / toPrice;
+    return { amount: amount * rate, rate };
+  }
+
+  private isStale(quote: PriceQuote, now: number): boolean {
+    return now - quote.updatedAt.getTime() > this.maxAgeMs;
+  }
+}
+
+/**
+ * Price service configured from the environment: PRICE_PROVIDERS lists providers in failover
+ * order (pyth, coingecko, fixture; default "pyth,coingecko"), PRICE_FIXTURE_FILE feeds the
+ * fixture provider, PRICE_CACHE_TTL_MS and PRICE_MAX_AGE_MS tune caching and staleness
+ */
+export function createPriceService(logger: winston.Logger): PriceService {
+  const names = (process.env.PRICE_PROVIDERS || 'pyth,coingecko')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers = names.map((name): PriceProvider => {
+    switch (name) {
+      case 'pyth':
+        return new PythPriceSource();
+      case 'coingecko':
+        return new CoinGeckoPriceSource();
+      case 'fixture':
+        if (!process.env.PRICE_FIXTURE_FILE) {
+          throw new Error('PRICE_FIXTURE_FILE is required for the fixture price provider');
+        }
+        return FixturePriceSource.fromFile(process.env.PRICE_FIXTURE_FILE);
+      default:
+        throw new Error(`Unknown price provider: ${name}`);
+    }
+  });
+
+  return new PriceService({
+    providers,
+    logger,
+    ttlMs: Number(process.env.PRICE_CACHE_TTL_MS) || undefined,
+    maxAgeMs: Number(process.env.PRICE_MAX_AGE_MS) || undefined,
+  });
+}
+
+export default PriceService;
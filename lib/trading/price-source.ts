@@ -0,0 +1,168 @@
+import axios from 'axios';
+import { readFileSync } from 'fs';
+import { PriceProvider, PriceQuote } from '../types';
+
+/**
+ * Maps common ticker symbols to CoinGecko coin ids
+ */
+const COINGECKO_IDS: Record<string, string> = {
+  ETH: 'ethereum',
+  WETH: 'weth',
+  BTC: 'bitcoin',
+  WBTC: 'wrapped-bitcoin',
+  CBBTC: 'coinbase-wrapped-btc',
+  USDC: 'usd-coin',
+  USDT: 'tether',
+  DAI: 'dai',
+  AERO: 'aerodrome-finance',
+  DEGEN: 'degen-base',
+};
+
+/**
+ * Wrapped and bridged tokens priced off the asset they track, for providers that only list the underlying
+ */
+const PYTH_BASE_SYMBOLS: Record<string, string> = {
+  WETH: 'ETH',
+  WBTC: 'BTC',
+  CBBTC: 'BTC',
+};
+
+const PYTH_HERMES_URL = 'https://hermes.pyth.network';
+
+/**
+ * Price provider backed by the public CoinGecko simple price API
+ */
+export class CoinGeckoPriceSource implements PriceProvider {
+  public readonly name = 'coingecko';
+
+  async getQuotes(symbols: string[]): Promise<Record<string, PriceQuote>> {
+    const idsBySymbol = new Map(
+      symbols.map(symbol => [symbol.toUpperCase(), COINGECKO_IDS[symbol.toUpperCase()] || symbol.toLowerCase()])
+    );
+
+    const response = await axios.get('https://api.coingecko.com/api/v3/simple/price', {
+      params: {
+        ids: Array.from(new Set(idsBySymbol.values())).join(','),
+        vs_currencies: 'usd',
+        include_24hr_change: true,
+        include_last_updated_at: true,
+      },
+      headers: process.env.COINGECKO_API_KEY
+        ? { 'x-cg-demo-api-key': process.env.COINGECKO_API_KEY }
+        : undefined,
+    });
+
+    const quotes: Record<string, PriceQuote> = {};
+    for (const [symbol, id] of idsBySymbol) {
+      const data = response.data[id];
+      if (typeof data?.usd === 'number') {
+        quotes[symbol] = {
+          symbol,
+          price: data.usd,
+          change24h: data.usd_24h_change,
+          source: this.name,
+          updatedAt: data.last_updated_at ? new Date(data.last_updated_at * 1000) : new Date(),
+        };
+      }
+    }
+
+    return quotes;
+  }
+}
+
+/**
+ * Price provider backed by Pyth's Hermes API. Feed ids are looked up by symbol (crypto feeds
+ * first, then FX for fiat such as EUR) and cached for the life of the provider.
+ */
+export class PythPriceSource implements PriceProvider {
+  public readonly name = 'pyth';
+  private feedIds: Map<string, string | null> = new Map();
+
+  async getQuotes(symbols: string[]): Promise<Record<string, PriceQuote>> {
+    const feeds = new Map<string, string[]>();
+    for (const symbol of symbols.map(s => s.toUpperCase())) {
+      const id = await this.resolveFeedId(PYTH_BASE_SYMBOLS[symbol] || symbol);
+      if (id) {
+        feeds.set(id, [...(feeds.get(id) || []), symbol]);
+      }
+    }
+    if (feeds.size === 0) return {};
+
+    const response = await axios.get(`${PYTH_HERMES_URL}/v2/updates/price/latest`, {
+      params: { ids: Array.from(feeds.keys()), parsed: true },
+      paramsSerializer: { indexes: false }, // ids[]=a&ids[]=b
+    });
+
+    const quotes: Record<string, PriceQuote> = {};
+    for (const update of response.data?.parsed || []) {
+      const { price, expo, publish_time: publishTime } = update.price || {};
+      const value = Number(price) * 10 ** Number(expo);
+      if (!Number.isFinite(value)) continue;
+
+      for (const symbol of feeds.get(String(update.id).replace(/^0x/, '')) || []) {
+        quotes[symbol] = { symbol, price: value, source: this.name, updatedAt: new Date(Number(publishTime) * 1000) };
+      }
+    }
+    return quotes;
+  }
+
+  private async resolveFeedId(symbol: string): Promise<string | null> {
+    if (this.feedIds.has(symbol)) {
+      return this.feedIds.get(symbol)!;
+    }
+
+    let id: string | null = null;
+    for (const [assetType, prefix] of [['crypto', 'Crypto'], ['fx', 'FX']]) {
+      const response = await axios.get(`${PYTH_HERMES_URL}/v2/price_feeds`, {
+        params: { query: symbol, asset_type: assetType },
+      });
+      const feed = (response.data || []).find(
+        (candidate: { attributes?: { symbol?: string } }) => candidate.attributes?.symbol === `${prefix}.${symbol}/USD`
+      );
+      if (feed) {
+        id = String(feed.id).replace(/^0x/, '');
+        break;
+      }
+    }
+
+    this.feedIds.set(symbol, id);
+    return id;
+  }
+}
+
+/**
+ * Price provider serving fixed USD prices, e.g. from a JSON fixture file, for paper trading,
+ * tests and QA runs that must not depend on live markets. Entries are either a price
+ * ({ "ETH": 2500 }) or a quote ({ "ETH": { "price": 2500, "change24h": 1.5 } }); fixture
+ * prices never go stale.
+ */
+export class FixturePriceSource implements PriceProvider {
+  public readonly name = 'fixture';
+  private prices: Record<string, { price: number; change24h?: number }>;
+
+  constructor(prices: Record<string, number | { price: number; change24h?: number }>) {
+    this.prices = Object.fromEntries(
+      Object.entries(prices).map(([symbol, entry]) => [
+        symbol.toUpperCase(),
+        typeof entry === 'object' ? { price: Number(entry.price), change24h: entry.change24h } : { price: Number(entry) },
+      ])
+    );
+  }
+
+  static fromFile(path: string): FixturePriceSource {
+    return new FixturePriceSource(JSON.parse(readFileSync(path, 'utf8')));
+  }
+
+  async getQuotes(symbols: string[]): Promise<Record<string, PriceQuote>> {
+    const quotes: Record<string, PriceQuote> = {};
+    for (const symbol of symbols.map(s => s.toUpperCase())) {
+      const entry = this.prices[symbol];
+      if (entry) {
+        quotes[symbol] = { symbol, ...entry, source: this.name, updatedAt: new Date() };
+      }
+    }
+    return quotes;
+  }
+}
+
+export default CoinGeckoPriceSource;
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import axios from 'axios';
+import { EvmWalletProvider } from '@coinbase/agentkit';
+import { StructuredTool } from '@langchain/core/tools';
+import { PublicClient } from 'viem';
+import { CdpTradeQuoteAdapter, ZeroExQuoteAdapter } from './quote-adapters';
+import { getNetwork } from './networks';
+import { SwapQuote, SwapQuoteError, TradeRequest } from '../types';
+
+const request: TradeRequest = {
+  fromToken: 'ETH',
+  toToken: 'USDC',
+  amount: 1,
+  slippage: 1,
+  deadline: Math.floor(Date.now() / 1000) + 600,
+  userAddress: '0x000000000000000000000000000000000000dEaD',
+};
+
+const quote: SwapQuote = {
+  source: '0x',
+  fromToken: 'ETH',
+  toToken: 'USDC',
+  amountIn: 1,
+  amountOut: 2000,
+  quotedAt: new Date(),
+};
+
+function adapter(): ZeroExQuoteAdapter {
+  const wallet = { getAddress: () => '0x000000000000000000000000000000000000dEaD' } as unknown as EvmWalletProvider;
+  return new ZeroExQuoteAdapter({ apiKey: 'test', network: getNetwork('base-mainnet'), wallet: () => wallet });
+}
+
+describe('ZeroExQuoteAdapter', () => {
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test('refuse a quote without a guaranteed output', async () => {
+    spyOn(axios, 'get').mockResolvedValue({ data: { transaction: { to: '0x1', data: '0x' }, buyAmount: '2000000000' } });
+
+    const error = await adapter().execute(quote, request, 1990).catch(e => e);
+    expect(error).toBeInstanceOf(SwapQuoteError);
+    expect(error.code).toBe('NO_ROUTE');
+  });
+
+  test('refuse a quote guaranteeing less than the minimum output', async () => {
+    spyOn(axios, 'get').mockResolvedValue({
+      data: { transaction: { to: '0x1', data: '0x' }, buyAmount: '2000000000', minBuyAmount: '1980000000' },
+    });
+
+    const error = await adapter().execute(quote, request, 1990).catch(e => e);
+    expect(error).toBeInstanceOf(SwapQuoteError);
+    expect(error.code).toBe('SLIPPAGE_EXCEEDED');
+  });
+});
+
+describe('CdpTradeQuoteAdapter', () => {
+  function cdp(output: string): CdpTradeQuoteAdapter {
+    const tradeTool = { invoke: async () => output } as unknown as StructuredTool;
+    return new CdpTradeQuoteAdapter({
+      priceSource: { name: 'test', getPrices: async () => ({ ETH: 2000, USDC: 1 }) },
+      network: getNetwork('base-mainnet'),
+      tradeTool: () => tradeTool,
+      client: { getGasPrice: async () => BigInt(1000000000) } as unknown as PublicClient,
+    });
+  }
+
+  test('report a fill below the minimum output as failed', async () => {
+    const error = await cdp('Traded 1 of eth for 1900 of usdc.\nTransaction hash for the trade: 0xabc')
+      .execute(quote, request, 1980)
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(SwapQuoteError);
+    expect(error.code).toBe('SLIPPAGE_EXCEEDED');
+    expect(error.metadata).toMatchObject({ received: 1900, minAmountOut: 1980 });
+  });
+
+  test('report a trade whose received amount cannot be read as failed', async () => {
+    const error = await cdp('Trade submitted').execute(quote, request, 1980).catch(e => e);
+    expect(error.code).toBe('SLIPPAGE_EXCEEDED');
+  });
+
+  test('return the trade output for a fill at or above the minimum', async () => {
+    const output = 'Traded 1 of eth for 1995.5 of usdc.\nTransaction hash for the trade: 0xabc';
+    expect(await cdp(output).execute(quote, request, 1980)).toBe(output);
+  });
+
+  test('quote indicatively at the market rate less the fee', async () => {
+    const indicative = await cdp('').quote(request);
+    expect(indicative).toMatchObject({ source: 'cdp', indicative: true, amountOut: 1994 });
+  });
+});
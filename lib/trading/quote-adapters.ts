@@ -0,0 +1,320 @@
+import axios from 'axios';
+import { randomBytes } from 'crypto';
+import { StructuredTool } from '@langchain/core/tools';
+import { EvmWalletProvider } from '@coinbase/agentkit';
+import { PublicClient, encodeFunctionData, erc20Abi, formatUnits, getAddress, isAddress, maxUint256, parseUnits } from 'viem';
+import { PriceSource, SwapQuote, SwapQuoteAdapter, SwapQuoteError, TradeRequest } from '../types';
+import { NetworkInfo, createNetworkClient, findToken } from './networks';
+import { SWAP_GAS_ESTIMATE } from '../transactions/simulator';
+import { ApprovalMode } from './approvals';
+
+// 0x's placeholder address for the chain's native asset
+const NATIVE_TOKEN_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+
+const ZEROEX_API_URL = 'https://api.0x.org';
+
+/**
+ * AgentKit-style trade output, which the trade ledger parses for the received amount
+ */
+function tradeOutput(quote: SwapQuote, amountOut: number, txHash: string): string {
+  return `Traded ${quote.amountIn} of ${quote.fromToken.toLowerCase()} for ${amountOut} of ${quote.toToken.toLowerCase()} via ${quote.source}.\nTransaction hash for the trade: ${txHash}`;
+}
+
+/**
+ * Refuse a swap whose deadline has passed
+ */
+export function assertBeforeDeadline(request: TradeRequest): void {
+  if (Date.now() / 1000 > request.deadline) {
+    throw new SwapQuoteError(`Swap deadline ${new Date(request.deadline * 1000).toISOString()} has passed`, 'DEADLINE_EXCEEDED');
+  }
+}
+
+/**
+ * USD rate between two tokens, or undefined when either is unpriced
+ */
+async function marketRate(priceSource: PriceSource, fromToken: string, toToken: string): Promise<number | undefined> {
+  const prices = await priceSource.getPrices([fromToken, toToken]);
+  const fromPrice = prices[fromToken.toUpperCase()];
+  const toPrice = prices[toToken.toUpperCase()];
+  return fromPrice && toPrice ? fromPrice / toPrice : undefined;
+}
+
+export interface CdpTradeQuoteAdapterOptions {
+  priceSource: PriceSource;
+  network: NetworkInfo;
+  tradeTool: () => StructuredTool | undefined; // the AgentKit trade action, available once AgentKit is up
+  feeBps?: number; // CDP trade fee assumed in the indicative quote
+  client?: PublicClient;
+}
+
+/**
+ * Route through the AgentKit (CDP) trade action. The trade API does not quote ahead of
+ * execution or take a minimum output, so quotes are indicative - the market rate less the
+ * trade fee - and slippage can only be checked once the trade has filled: a fill below the
+ * minimum output is reported as a failed swap.
+ */
+export class CdpTradeQuoteAdapter implements SwapQuoteAdapter {
+  public readonly name = 'cdp';
+  private options: CdpTradeQuoteAdapterOptions;
+  private client: PublicClient;
+
+  constructor(options: CdpTradeQuoteAdapterOptions) {
+    this.options = options;
+    this.client = options.client || createNetworkClient(options.network);
+  }
+
+  async quote(request: TradeRequest): Promise<SwapQuote | null> {
+    if (!this.options.tradeTool()) return null;
+
+    const rate = await marketRate(this.options.priceSource, request.fromToken, request.toToken);
+    if (rate === undefined) return null;
+
+    const gasPrice = await this.client.getGasPrice();
+    return {
+      source: this.name,
+      fromToken: request.fromToken.toUpperCase(),
+      toToken: request.toToken.toUpperCase(),
+      amountIn: request.amount,
+      amountOut: request.amount * rate * (1 - (this.options.feeBps ?? 30) / 10000),
+      gasCostNative: Number(formatUnits(SWAP_GAS_ESTIMATE * gasPrice, 18)),
+      indicative: true,
+      route: 'CDP trade API',
+      quotedAt: new Date(),
+    };
+  }
+
+  async execute(quote: SwapQuote, request: TradeRequest, minAmountOut: number): Promise<string> {
+    const tool = this.options.tradeTool();
+    if (!tool) {
+      throw new SwapQuoteError('The CDP trade action is not available', 'NO_ROUTE');
+    }
+    assertBeforeDeadline(request);
+
+    const output = String(await tool.invoke({
+      amount: quote.amountIn,
+      fromAssetId: quote.fromToken.toLowerCase(),
+      toAssetId: quote.toToken.toLowerCase(),
+    }));
+    if (/^error/i.test(output)) {
+      throw new Error(output);
+    }
+
+    const received = Number(output.match(/\bfor\s+([\d.]+)\s+of\b/i)?.[1]);
+    if (!(received >= minAmountOut)) {
+      throw new SwapQuoteError(
+        `${Number.isNaN(received) ? 'The CDP trade did not report the amount received' : `The CDP trade filled ${received} ${quote.toToken}`}, below the minimum of ${minAmountOut}. ${output}`,
+        'SLIPPAGE_EXCEEDED',
+        { received: Number.isNaN(received) ? undefined : received, minAmountOut }
+      );
+    }
+    return output;
+  }
+}
+
+export interface ZeroExQuoteAdapterOptions {
+  apiKey: string;
+  network: NetworkInfo;
+  wallet: () => EvmWalletProvider | undefined; // taker; quotes need its address
+  approvalMode?: ApprovalMode; // default: approve exactly the sold amount
+  onApproval?: (approval: { token: string; spender: string; txHash: string }) => void;
+  client?: PublicClient; // reads the decimals of tokens given by contract address
+}
+
+/**
+ * Route through the 0x Swap API (allowance-holder flow). Quotes are firm routes across the
+ * DEXes 0x aggregates; execution approves the sold amount when needed (unlimited only when
+ * configured) and sends the quoted transaction, whose calldata reverts below the minimum output.
+ * Tokens are the network's known symbols or any ERC-20 contract address.
+ */
+export class ZeroExQuoteAdapter implements SwapQuoteAdapter {
+  public readonly name = '0x';
+  private options: ZeroExQuoteAdapterOptions;
+  private client: PublicClient;
+  private tokens: Map<string, { address: string; decimals: number }> = new Map();
+
+  constructor(options: ZeroExQuoteAdapterOptions) {
+    this.options = options;
+    this.client = options.client || createNetworkClient(options.network);
+  }
+
+  async quote(request: TradeRequest): Promise<SwapQuote | null> {
+    const route = await this.route(request);
+    if (!route) return null;
+    const { params, decimalsOut } = route;
+
+    const { data } = await axios.get(`${ZEROEX_API_URL}/swap/allowance-holder/price`, {
+      params,
+      headers: this.headers(),
+    });
+    if (!data?.liquidityAvailable || !data.buyAmount) return null;
+
+    const fills: Array<{ source?: string }> = data.route?.fills || [];
+    return {
+      source: this.name,
+      fromToken: request.fromToken.toUpperCase(),
+      toToken: request.toToken.toUpperCase(),
+      amountIn: request.amount,
+      amountOut: Number(formatUnits(BigInt(data.buyAmount), decimalsOut)),
+      gasCostNative: data.gas && data.gasPrice ? Number(formatUnits(BigInt(data.gas) * BigInt(data.gasPrice), 18)) : undefined,
+      route: fills.length > 0 ? Array.from(new Set(fills.map(fill => fill.source).filter(Boolean))).join(' + ') : undefined,
+      quotedAt: new Date(),
+    };
+  }
+
+  async execute(quote: SwapQuote, request: TradeRequest, minAmountOut: number): Promise<string> {
+    const wallet = this.options.wallet();
+    const route = await this.route(request);
+    if (!wallet || !route) {
+      throw new SwapQuoteError('0x cannot route this swap', 'NO_ROUTE');
+    }
+    const { params, decimalsOut } = route;
+
+    const { data } = await axios.get(`${ZEROEX_API_URL}/swap/allowance-holder/quote`, {
+      params: { ...params, slippageBps: Math.round(request.slippage * 100) },
+      headers: this.headers(),
+    });
+    if (!data?.transaction) {
+      throw new SwapQuoteError('0x returned no transaction for this swap', 'NO_ROUTE');
+    }
+    if (!data.minBuyAmount || !data.buyAmount) {
+      throw new SwapQuoteError('0x returned no guaranteed output for this swap', 'NO_ROUTE');
+    }
+
+    const guaranteed = Number(formatUnits(BigInt(data.minBuyAmount), decimalsOut));
+    if (guaranteed < minAmountOut) {
+      throw new SwapQuoteError(
+        `0x only guarantees ${guaranteed} ${quote.toToken}, below the minimum of ${minAmountOut}`,
+        'SLIPPAGE_EXCEEDED',
+        { guaranteed, minAmountOut }
+      );
+    }
+
+    const allowance = data.issues?.allowance;
+    if (allowance?.spender) {
+      const amount = this.options.approvalMode === 'unlimited' ? maxUint256 : BigInt(params.sellAmount);
+      const approval = await wallet.sendTransaction({
+        to: params.sellToken as `0x${string}`,
+        data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [allowance.spender, amount] }),
+      });
+      await wallet.waitForTransactionReceipt(approval);
+      this.options.onApproval?.({ token: params.sellToken, spender: allowance.spender, txHash: approval });
+    }
+
+    assertBeforeDeadline(request);
+    const txHash = await wallet.sendTransaction({
+      to: data.transaction.to,
+      data: data.transaction.data,
+      value: BigInt(data.transaction.value || 0),
+      gas: data.transaction.gas ? BigInt(data.transaction.gas) : undefined,
+    });
+    return tradeOutput(quote, Number(formatUnits(BigInt(data.buyAmount), decimalsOut)), txHash);
+  }
+
+  /**
+   * 0x request parameters for a swap, or undefined when there is no taker or a token is unknown
+   */
+  private async route(request: TradeRequest) {
+    const wallet = this.options.wallet();
+    const [sell, buy] = await Promise.all([this.token(request.fromToken), this.token(request.toToken)]);
+    if (!wallet || !sell || !buy) return undefined;
+
+    return {
+      params: {
+        chainId: this.options.network.chain.id,
+        sellToken: sell.address,
+        buyToken: buy.address,
+        sellAmount: parseUnits(request.amount.toFixed(sell.decimals), sell.decimals).toString(),
+        taker: wallet.getAddress(),
+      },
+      decimalsOut: buy.decimals,
+    };
+  }
+
+  private headers() {
+    return { '0x-api-key': this.options.apiKey, '0x-version': 'v2' };
+  }
+
+  /**
+   * Resolve the native symbol, a known token symbol or an ERC-20 contract address, whose
+   * decimals are read from the chain. Contracts without decimals are not routable.
+   */
+  private async token(symbolOrAddress: string): Promise<{ address: string; decimals: number } | undefined> {
+    if (symbolOrAddress.toUpperCase() === this.options.network.nativeSymbol) {
+      return { address: NATIVE_TOKEN_ADDRESS, decimals: 18 };
+    }
+    const known = findToken(this.options.network, symbolOrAddress);
+    if (known) return known;
+    if (!isAddress(symbolOrAddress, { strict: false })) return undefined;
+
+    const address = getAddress(symbolOrAddress);
+    if (!this.tokens.has(address)) {
+      try {
+        const decimals = await this.client.readContract({ address, abi: erc20Abi, functionName: 'decimals' });
+        this.tokens.set(address, { address, decimals });
+      } catch {
+        return undefined;
+      }
+    }
+    return this.tokens.get(address);
+  }
+}
+
+export interface MockQuoteAdapterOptions {
+  name?: string;
+  rates?: Record<string, number>; // "ETH/USDC" -> USDC per ETH; the inverse pair is derived
+  priceSource?: PriceSource; // used for pairs missing from rates
+  spreadBps?: number; // taken off the rate
+  gasCostNative?: number;
+  fail?: boolean; // throw on every quote, e.g. to exercise failover
+}
+
+/**
+ * Deterministic quote source for tests and QA: fills at its own rate without touching a
+ * chain and returns AgentKit-style output with a random transaction hash
+ */
+export class MockQuoteAdapter implements SwapQuoteAdapter {
+  public readonly name: string;
+  private options: MockQuoteAdapterOptions;
+
+  constructor(options: MockQuoteAdapterOptions = {}) {
+    this.options = options;
+    this.name = options.name || 'mock';
+  }
+
+  async quote(request: TradeRequest): Promise<SwapQuote | null> {
+    if (this.options.fail) {
+      throw new Error(`${this.name} quote source is unavailable`);
+    }
+
+    const rate = await this.rate(request.fromToken, request.toToken);
+    if (rate === undefined) return null;
+
+    return {
+      source: this.name,
+      fromToken: request.fromToken.toUpperCase(),
+      toToken: request.toToken.toUpperCase(),
+      amountIn: request.amount,
+      amountOut: request.amount * rate * (1 - (this.options.spreadBps ?? 0) / 10000),
+      gasCostNative: this.options.gasCostNative,
+      route: `${this.name} pool`,
+      quotedAt: new Date(),
+    };
+  }
+
+  async execute(quote: SwapQuote, request: TradeRequest, minAmountOut: number): Promise<string> {
+    assertBeforeDeadline(request);
+    if (quote.amountOut < minAmountOut) {
+      throw new SwapQuoteError(`${this.name} would fill ${quote.amountOut} ${quote.toToken}, below the minimum of ${minAmountOut}`, 'SLIPPAGE_EXCEEDED');
+    }
+    return tradeOutput(quote, quote.amountOut, `0x${randomBytes(32).toString('hex')}`);
+  }
+
+  private async rate(fromToken: string, toToken: string): Promise<number | undefined> {
+    const from = fromToken.toUpperCase();
+    const to = toToken.toUpperCase();
+    const rates = this.options.rates || {};
+    if (rates[`${from}/${to}`]) return rates[`${from}/${to}`];
+    if (rates[`${to}/${from}`]) return 1 / rates[`${to}/${from}`];
+    return this.options.priceSource ? marketRate(this.options.priceSource, from, to) : undefined;
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { Holding, Rebalancer, computeDrift, planRebalance } from './rebalancer';
+import { SqliteAllocationProfileStore } from '../storage/allocations';
+import { openDatabase } from '../storage/database';
+
+const logger = winston.createLogger({ silent: true });
+
+const holdings = (balances: Record<string, [number, number]>): Holding[] =>
+  Object.entries(balances).map(([symbol, [balance, price]]) => ({ symbol, balance, price }));
+
+describe('planRebalance', () => {
+  test('sell the overweight token for the underweight one, sized in its own units', () => {
+    const plan = planRebalance(holdings({ ETH: [1, 3000], USDC: [1000, 1] }), { targets: { ETH: 50, USDC: 50 }, tolerance: 5 });
+
+    expect(plan.totalValueUsd).toBe(4000);
+    expect(plan.withinTolerance).toBe(false);
+    expect(plan.swaps).toEqual([{ fromToken: 'ETH', toToken: 'USDC', amount: 0.33333333, valueUsd: 1000 }]);
+  });
+
+  test('plan nothing while every token is within tolerance', () => {
+    const plan = planRebalance(holdings({ ETH: [1, 3000], USDC: [2800, 1] }), { targets: { ETH: 50, USDC: 50 }, tolerance: 5 });
+
+    expect(plan.withinTolerance).toBe(true);
+    expect(plan.swaps).toEqual([]);
+  });
+
+  test('match sellers to buyers largest first in at most one swap fewer than there are tokens', () => {
+    const plan = planRebalance(
+      holdings({ ETH: [2, 3000], CBBTC: [0.01, 60000], AERO: [500, 1], USDC: [2900, 1] }),
+      { targets: { ETH: 25, CBBTC: 25, AERO: 25, USDC: 25 }, tolerance: 2 }
+    );
+
+    // Total 10000: ETH +3500, USDC +400 over target; CBBTC -1900, AERO -2000 under
+    expect(plan.swaps).toEqual([
+      { fromToken: 'ETH', toToken: 'AERO', amount: 0.66666667, valueUsd: 2000 },
+      { fromToken: 'ETH', toToken: 'CBBTC', amount: 0.5, valueUsd: 1500 },
+      { fromToken: 'USDC', toToken: 'CBBTC', amount: 400, valueUsd: 400 },
+    ]);
+    expect(plan.swaps.length).toBeLessThanOrEqual(3);
+  });
+
+  test('buy a target token that is not held yet and ignore holdings outside the profile', () => {
+    const plan = planRebalance(
+      holdings({ ETH: [1, 2000], DEGEN: [1000000, 0.01] }),
+      { targets: { ETH: 50, CBBTC: 50 }, tolerance: 5 }
+    );
+
+    expect(plan.totalValueUsd).toBe(2000);
+    expect(plan.swaps).toEqual([{ fromToken: 'ETH', toToken: 'CBBTC', amount: 0.5, valueUsd: 1000 }]);
+  });
+
+  test('drop swaps worth less than the minimum', () => {
+    const plan = planRebalance(
+      holdings({ ETH: [1, 3500], USDC: [1960, 1], AERO: [540, 1] }),
+      { targets: { ETH: 50, USDC: 33, AERO: 17 }, tolerance: 5 },
+      50
+    );
+
+    // Total 6000: ETH +500 over target; AERO -480 and USDC -20 under
+    expect(plan.swaps).toHaveLength(1);
+    expect(plan.swaps[0]).toMatchObject({ fromToken: 'ETH', toToken: 'AERO', amount: 0.13714286 });
+    expect(plan.swaps[0].valueUsd).toBeCloseTo(480);
+  });
+
+  test('report drift in percentage points of the profile value', () => {
+    const { drift } = computeDrift(holdings({ eth: [1, 3000], USDC: [1000, 1] }), { ETH: 60, USDC: 40 });
+
+    expect(drift).toEqual([
+      { token: 'ETH', valueUsd: 3000, currentPercent: 75, targetPercent: 60, drift: 15 },
+      { token: 'USDC', valueUsd: 1000, currentPercent: 25, targetPercent: 40, drift: -15 },
+    ]);
+  });
+});
+
+describe('Rebalancer', () => {
+  const rebalancer = () => new Rebalancer({
+    store: new SqliteAllocationProfileStore(openDatabase(':memory:')),
+    logger,
+    checkProfile: async () => {},
+  });
+  const params = { userId: 'rebalance-user', conversationId: 'conversation', tolerance: 5, maxSlippage: 1 };
+
+  test('reject targets that do not add up to 100', async () => {
+    await expect(rebalancer().setProfile({ ...params, targets: { ETH: 60, USDC: 30 } }))
+      .rejects.toThrow('Target percentages must be positive and add up to 100 (got 90)');
+    await expect(rebalancer().setProfile({ ...params, targets: { ETH: 100 } }))
+      .rejects.toThrow('A target allocation needs at least two tokens');
+  });
+
+  test('replace the previous profile of a user', async () => {
+    const allocations = rebalancer();
+    const first = await allocations.setProfile({ ...params, targets: { ETH: 50, USDC: 50 } });
+    const second = await allocations.setProfile({ ...params, targets: { eth: 70, usdc: 30 } });
+
+    const active = await allocations.getProfile('rebalance-user');
+    expect(active?.id).toBe(second.id);
+    expect(active?.id).not.toBe(first.id);
+    expect(active?.targets).toEqual({ ETH: 70, USDC: 30 });
+  });
+});
@@ -0,0 +1,229 @@
+import { v4 as uuidv4 } from 'uuid';
+import winston from 'winston';
+import {
+  AllocationDrift,
+  AllocationProfile,
+  AllocationProfileStore,
+  RebalancePlan,
+  RebalanceSwap,
+} from '../types';
+import { firstRunAt, nextRunAfter } from './dca-scheduler';
+
+export interface SetAllocationParams {
+  userId: string;
+  conversationId: string;
+  targets: Record<string, number>;
+  tolerance: number;
+  maxSlippage: number;
+  cadence?: AllocationProfile['cadence'];
+  dayOfWeek?: number;
+  hourUtc?: number;
+}
+
+export interface Holding {
+  symbol: string;
+  balance: number;
+  price: number; // USD
+}
+
+export interface RebalancerOptions {
+  store: AllocationProfileStore;
+  logger: winston.Logger;
+  checkProfile: (profile: AllocationProfile) => Promise<void>;
+  pollIntervalMs?: number;
+  minSwapUsd?: number; // swaps worth less are dropped from plans
+}
+
+/**
+ * Current share of each target token in the value of the profile's tokens. Holdings outside
+ * the profile are left alone and do not count towards the total.
+ */
+export function computeDrift(holdings: Holding[], targets: Record<string, number>): { totalValueUsd: number; drift: AllocationDrift[] } {
+  const values = Object.keys(targets).map(token => {
+    const holding = holdings.find(h => h.symbol.toUpperCase() === token);
+    return { token, valueUsd: holding ? holding.balance * holding.price : 0 };
+  });
+  const totalValueUsd = values.reduce((sum, v) => sum + v.valueUsd, 0);
+
+  return {
+    totalValueUsd,
+    drift: values.map(({ token, valueUsd }) => {
+      const currentPercent = totalValueUsd > 0 ? (valueUsd / totalValueUsd) * 100 : 0;
+      return { token, valueUsd, currentPercent, targetPercent: targets[token], drift: currentPercent - targets[token] };
+    }),
+  };
+}
+
+/**
+ * Swaps that bring every token back to its target once any has drifted past the tolerance.
+ * Overweight tokens are matched greedily against underweight ones, largest first, which
+ * needs at most one swap fewer than there are tokens.
+ */
+export function planRebalance(holdings: Holding[], profile: Pick<AllocationProfile, 'targets' | 'tolerance'>, minSwapUsd = 1): RebalancePlan {
+  const { totalValueUsd, drift } = computeDrift(holdings, profile.targets);
+  const withinTolerance = drift.every(d => Math.abs(d.drift) <= profile.tolerance);
+  if (withinTolerance || totalValueUsd <= 0) {
+    return { totalValueUsd, drift, withinTolerance, swaps: [] };
+  }
+
+  const excess = (d: AllocationDrift) => d.valueUsd - (d.targetPercent / 100) * totalValueUsd;
+  const sellers = drift.map(d => ({ token: d.token, usd: excess(d) })).filter(s => s.usd > 0).sort((a, b) => b.usd - a.usd);
+  const buyers = drift.map(d => ({ token: d.token, usd: -excess(d) })).filter(b => b.usd > 0).sort((a, b) => b.usd - a.usd);
+  const price = (token: string) => holdings.find(h => h.symbol.toUpperCase() === token)?.price ?? 0;
+
+  const swaps: RebalanceSwap[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < sellers.length && j < buyers.length) {
+    const valueUsd = Math.min(sellers[i].usd, buyers[j].usd);
+    if (valueUsd >= minSwapUsd && price(sellers[i].token) > 0) {
+      swaps.push({
+        fromToken: sellers[i].token,
+        toToken: buyers[j].token,
+        amount: Number((valueUsd / price(sellers[i].token)).toFixed(8)),
+        valueUsd,
+      });
+    }
+    sellers[i].usd -= valueUsd;
+    buyers[j].usd -= valueUsd;
+    if (sellers[i].usd <= 1e-9) i++;
+    if (buyers[j].usd <= 1e-9) j++;
+  }
+
+  return { totalValueUsd, drift, withinTolerance, swaps };
+}
+
+/**
+ * Holds each user's target allocation and, for profiles with a cadence, checks their drift on
+ * schedule. A check only ever proposes a rebalance; swaps still need the user's confirmation.
+ */
+export class Rebalancer {
+  private store: AllocationProfileStore;
+  private logger: winston.Logger;
+  private checkProfile: (profile: AllocationProfile) => Promise<void>;
+  private pollIntervalMs: number;
+  public readonly minSwapUsd: number;
+  private pollInterval?: NodeJS.Timeout;
+  private isRunning = false;
+
+  constructor(options: RebalancerOptions) {
+    this.store = options.store;
+    this.logger = options.logger;
+    this.checkProfile = options.checkProfile;
+    this.pollIntervalMs = options.pollIntervalMs ?? 60000;
+    this.minSwapUsd = options.minSwapUsd ?? 1;
+  }
+
+  /**
+   * Set a user's target allocation, replacing any previous one
+   */
+  async setProfile(params: SetAllocationParams, now: Date = new Date()): Promise<AllocationProfile> {
+    const targets = Object.fromEntries(
+      Object.entries(params.targets).map(([token, percent]) => [token.toUpperCase(), percent])
+    );
+    const total = Object.values(targets).reduce((sum, percent) => sum + percent, 0);
+    if (Object.keys(targets).length < 2) {
+      throw new Error('A target allocation needs at least two tokens');
+    }
+    if (Object.values(targets).some(percent => !(percent > 0)) || Math.abs(total - 100) > 0.01) {
+      throw new Error(`Target percentages must be positive and add up to 100 (got ${total})`);
+    }
+    if (!(params.tolerance > 0)) {
+      throw new Error('Tolerance must be greater than zero');
+    }
+
+    await this.clearProfile(params.userId, now);
+
+    const hourUtc = params.hourUtc ?? now.getUTCHours();
+    const dayOfWeek = params.cadence === 'weekly' ? params.dayOfWeek ?? now.getUTCDay() : undefined;
+    const profile: AllocationProfile = {
+      id: `alloc_${uuidv4().slice(0, 8)}`,
+      userId: params.userId,
+      conversationId: params.conversationId,
+      targets,
+      tolerance: params.tolerance,
+      maxSlippage: params.maxSlippage,
+      cadence: params.cadence,
+      dayOfWeek,
+      hourUtc,
+      status: 'active',
+      nextRunAt: params.cadence ? firstRunAt(params.cadence, now, hourUtc, dayOfWeek) : undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.save(profile);
+    this.logger.info('Allocation profile set', { profileId: profile.id, userId: profile.userId, cadence: profile.cadence });
+    return profile;
+  }
+
+  /**
+   * The user's active target allocation
+   */
+  getProfile(userId: string): Promise<AllocationProfile | undefined> {
+    return this.store.getActiveByUser(userId);
+  }
+
+  /**
+   * Cancel the user's target allocation and its schedule
+   */
+  async clearProfile(userId: string, now: Date = new Date()): Promise<AllocationProfile | undefined> {
+    const profile = await this.store.getActiveByUser(userId);
+    if (!profile) return undefined;
+
+    profile.status = 'cancelled';
+    profile.updatedAt = now;
+    await this.store.save(profile);
+    return profile;
+  }
+
+  /**
+   * Start checking scheduled profiles
+   */
+  start(): void {
+    if (this.pollInterval) return;
+
+    this.pollInterval = setInterval(() => {
+      this.runDueChecks().catch(error => {
+        this.logger.error('Rebalance scheduler tick failed', { error });
+      });
+    }, this.pollIntervalMs);
+  }
+
+  /**
+   * Stop checking scheduled profiles
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
+
+  /**
+   * Check every profile that is due, one at a time
+   */
+  async runDueChecks(now: Date = new Date()): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      for (const profile of await this.store.listDue(now)) {
+        profile.lastRunAt = now;
+        profile.nextRunAt = nextRunAfter({ cadence: profile.cadence!, nextRunAt: profile.nextRunAt! }, now);
+        profile.updatedAt = now;
+        await this.store.save(profile);
+
+        try {
+          await this.checkProfile(profile);
+        } catch (error) {
+          this.logger.warn('Scheduled rebalance check failed', { error, profileId: profile.id });
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
+
+export default Rebalancer;
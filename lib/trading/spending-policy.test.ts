@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { SpendingPolicy } from './spending-policy';
+import { PriceSource, TransactionIntent } from '../types';
+
+const logger = winston.createLogger({ silent: true });
+
+function policy(priceSource: PriceSource = { name: 'test', getPrices: async () => ({ ETH: 2000, USDC: 1 }) }) {
+  return new SpendingPolicy({
+    config: { maxTransactionValue: 1000, maxDailyValue: 2500, riskTolerance: 'medium', tradingPairs: ['ETH/USDC'] },
+    priceSource,
+    logger,
+  });
+}
+
+function swap(amount: number, overrides: Partial<TransactionIntent> = {}): TransactionIntent {
+  return { kind: 'swap', action: 'trade', fromToken: 'ETH', toToken: 'USDC', amount, slippage: 0.5, userId: 'user', ...overrides };
+}
+
+describe('SpendingPolicy', () => {
+  test('allow a small swap on an allowed pair', async () => {
+    const decision = await policy().evaluate(swap(0.1));
+    expect(decision).toEqual({ outcome: 'allow', usdValue: 200, violations: [] });
+  });
+
+  test('escalate a swap above the auto-approval threshold', async () => {
+    const decision = await policy().evaluate(swap(0.3));
+    expect(decision.outcome).toBe('escalate');
+    expect(decision.violations.map(v => v.code)).toEqual(['LARGE_TRANSACTION']);
+  });
+
+  test('reject a swap above the per-transaction limit', async () => {
+    const decision = await policy().evaluate(swap(1));
+    expect(decision.outcome).toBe('reject');
+    expect(decision.violations.map(v => v.code)).toEqual(['MAX_TRANSACTION_VALUE']);
+  });
+
+  test('reject a swap that would exceed the daily limit', async () => {
+    const spendingPolicy = policy();
+    spendingPolicy.recordSpend(swap(0.45), 900);
+    spendingPolicy.recordSpend(swap(0.45), 900);
+
+    const decision = await spendingPolicy.evaluate(swap(0.45));
+    expect(decision.outcome).toBe('reject');
+    expect(decision.violations.map(v => v.code)).toContain('DAILY_LIMIT');
+  });
+
+  test('reject a pair that is not allowed, matching wrapped assets to their underlying', async () => {
+    const spendingPolicy = policy({ name: 'test', getPrices: async () => ({ WETH: 2000, DAI: 1 }) });
+
+    expect((await spendingPolicy.evaluate(swap(0.1, { fromToken: 'WETH' }))).outcome).toBe('allow');
+    const decision = await spendingPolicy.evaluate(swap(0.1, { fromToken: 'WETH', toToken: 'DAI' }));
+    expect(decision.outcome).toBe('reject');
+    expect(decision.violations.map(v => v.code)).toEqual(['PAIR_NOT_ALLOWED']);
+  });
+
+  test('reject slippage above the risk tolerance ceiling', async () => {
+    const decision = await policy().evaluate(swap(0.1, { slippage: 2 }));
+    expect(decision.outcome).toBe('reject');
+    expect(decision.violations.map(v => v.code)).toEqual(['SLIPPAGE_TOO_HIGH']);
+  });
+
+  test('reject an asset without a price', async () => {
+    const decision = await policy().evaluate(swap(5, { kind: 'transfer', fromToken: 'DEGEN', toToken: undefined }));
+    expect(decision.outcome).toBe('reject');
+    expect(decision.usdValue).toBeNull();
+    expect(decision.violations.map(v => v.code)).toEqual(['UNPRICED_ASSET']);
+  });
+
+  test('reject while the price source is unavailable', async () => {
+    const spendingPolicy = policy({ name: 'test', getPrices: async () => { throw new Error('rate limited'); } });
+    const decision = await spendingPolicy.evaluate(swap(0.1));
+    expect(decision.outcome).toBe('reject');
+    expect(decision.violations.map(v => v.code)).toEqual(['UNPRICED_ASSET']);
+  });
+
+  test('count an unpriced spend as the full per-transaction limit', () => {
+    const spendingPolicy = policy();
+    spendingPolicy.recordSpend(swap(0.1), null);
+    expect(spendingPolicy.getDailySpend()).toBe(1000);
+  });
+
+  test('drop spends older than 24 hours from the daily total', () => {
+    const spendingPolicy = policy();
+    spendingPolicy.restoreSpends([
+      { userId: 'user', usdValue: 700, timestamp: new Date(Date.now() - 25 * 60 * 60 * 1000) },
+      { userId: 'user', usdValue: 300, timestamp: new Date(Date.now() - 60 * 60 * 1000) },
+    ]);
+    expect(spendingPolicy.getDailySpend()).toBe(300);
+  });
+});
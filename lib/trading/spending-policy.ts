@@ -0,0 +1,197 @@
+import winston from 'winston';
+import {
+  PolicyDecision,
+  PolicyViolation,
+  PriceSource,
+  TradingAgentConfig,
+  TransactionIntent,
+} from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Maximum accepted slippage (percent) per risk tolerance
+ */
+const SLIPPAGE_CEILINGS: Record<TradingAgentConfig['riskTolerance'], number> = {
+  low: 0.5,
+  medium: 1,
+  high: 3,
+};
+
+/**
+ * Share of maxTransactionValue above which a transaction is escalated rather than auto-approved
+ */
+const ESCALATION_FRACTIONS: Record<TradingAgentConfig['riskTolerance'], number> = {
+  low: 0.25,
+  medium: 0.5,
+  high: 0.8,
+};
+
+// A transaction whose USD value is unknown cannot be checked against the caps, so it is refused
+const REJECTING_CODES = new Set<PolicyViolation['code']>([
+  'MAX_TRANSACTION_VALUE',
+  'DAILY_LIMIT',
+  'PAIR_NOT_ALLOWED',
+  'SLIPPAGE_TOO_HIGH',
+  'UNPRICED_ASSET',
+]);
+
+// Wrapped assets trade under the pair of their underlying
+const PAIR_ALIASES: Record<string, string> = {
+  WETH: 'ETH',
+  WBTC: 'BTC',
+  CBBTC: 'BTC',
+};
+
+export interface SpendingPolicyOptions {
+  config: Pick<TradingAgentConfig, 'maxTransactionValue' | 'maxDailyValue' | 'riskTolerance' | 'tradingPairs'>;
+  priceSource: PriceSource;
+  logger: winston.Logger;
+}
+
+/**
+ * Enforces TradingAgentConfig limits on transactions before they reach AgentKit
+ */
+export class SpendingPolicy {
+  private config: SpendingPolicyOptions['config'];
+  private priceSource: PriceSource;
+  private logger: winston.Logger;
+  private spends: Array<{ userId: string; usdValue: number; timestamp: Date }> = [];
+
+  constructor(options: SpendingPolicyOptions) {
+    this.config = options.config;
+    this.priceSource = options.priceSource;
+    this.logger = options.logger;
+  }
+
+  /**
+   * Highest slippage (percent) allowed for the configured risk tolerance
+   */
+  getSlippageCeiling(): number {
+    return SLIPPAGE_CEILINGS[this.config.riskTolerance];
+  }
+
+  /**
+   * USD value moved from the wallet over the last 24 hours
+   */
+  getDailySpend(now: Date = new Date()): number {
+    const cutoff = now.getTime() - DAY_MS;
+    this.spends = this.spends.filter(spend => spend.timestamp.getTime() > cutoff);
+    return this.spends.reduce((sum, spend) => sum + spend.usdValue, 0);
+  }
+
+  /**
+   * Check an intent against all limits
+   */
+  async evaluate(intent: TransactionIntent): Promise<PolicyDecision> {
+    const violations: PolicyViolation[] = [];
+
+    if (intent.kind === 'swap' && intent.toToken && !this.isPairAllowed(intent.fromToken, intent.toToken)) {
+      violations.push({
+        code: 'PAIR_NOT_ALLOWED',
+        message: `${intent.fromToken}/${intent.toToken} is not an allowed trading pair (allowed: ${this.config.tradingPairs.join(', ')})`,
+      });
+    }
+
+    const ceiling = this.getSlippageCeiling();
+    if (intent.slippage !== undefined && intent.slippage > ceiling) {
+      violations.push({
+        code: 'SLIPPAGE_TOO_HIGH',
+        message: `Slippage ${intent.slippage}% exceeds the ${ceiling}% ceiling for ${this.config.riskTolerance} risk tolerance`,
+        limit: ceiling,
+        actual: intent.slippage,
+      });
+    }
+
+    const usdValue = await this.valueInUsd(intent.fromToken, intent.amount);
+    if (usdValue === null) {
+      violations.push({
+        code: 'UNPRICED_ASSET',
+        message: `Could not determine the USD value of ${intent.amount} ${intent.fromToken}, so it cannot be checked against the spending limits`,
+      });
+    } else {
+      const dailySpend = this.getDailySpend();
+      const escalationThreshold = this.config.maxTransactionValue * ESCALATION_FRACTIONS[this.config.riskTolerance];
+
+      if (usdValue > this.config.maxTransactionValue) {
+        violations.push({
+          code: 'MAX_TRANSACTION_VALUE',
+          message: `$${usdValue.toFixed(2)} exceeds the per-transaction limit of $${this.config.maxTransactionValue}`,
+          limit: this.config.maxTransactionValue,
+          actual: usdValue,
+        });
+      } else if (usdValue > escalationThreshold) {
+        violations.push({
+          code: 'LARGE_TRANSACTION',
+          message: `$${usdValue.toFixed(2)} is above the $${escalationThreshold} auto-approval threshold`,
+          limit: escalationThreshold,
+          actual: usdValue,
+        });
+      }
+
+      if (dailySpend + usdValue > this.config.maxDailyValue) {
+        violations.push({
+          code: 'DAILY_LIMIT',
+          message: `$${usdValue.toFixed(2)} would bring 24h volume to $${(dailySpend + usdValue).toFixed(2)}, above the $${this.config.maxDailyValue} daily limit`,
+          limit: this.config.maxDailyValue,
+          actual: dailySpend + usdValue,
+        });
+      }
+    }
+
+    const outcome: PolicyDecision['outcome'] = violations.some(v => REJECTING_CODES.has(v.code))
+      ? 'reject'
+      : violations.length > 0 ? 'escalate' : 'allow';
+
+    if (outcome !== 'allow') {
+      this.logger.warn(`Transaction ${outcome === 'reject' ? 'rejected' : 'escalated'} by spending policy`, {
+        intent,
+        usdValue,
+        violations,
+      });
+    }
+
+    return { outcome, usdValue, violations };
+  }
+
+  /**
+   * Count an executed transaction towards the daily limit. One whose value is unknown counts
+   * as a full per-transaction limit.
+   */
+  recordSpend(intent: TransactionIntent, usdValue: number | null): void {
+    this.spends.push({ userId: intent.userId, usdValue: usdValue ?? this.config.maxTransactionValue, timestamp: new Date() });
+  }
+
+  /**
+   * Reload spends made before a restart, e.g. from the trade history ledger
+   */
+  restoreSpends(spends: Array<{ userId: string; usdValue: number; timestamp: Date }>): void {
+    this.spends.push(...spends);
+  }
+
+  private isPairAllowed(fromToken: string, toToken: string): boolean {
+    const normalize = (symbol: string) => PAIR_ALIASES[symbol.toUpperCase()] || symbol.toUpperCase();
+    const from = normalize(fromToken);
+    const to = normalize(toToken);
+
+    return this.config.tradingPairs.some(pair => {
+      const [base, quote] = pair.split('/').map(normalize);
+      return (base === from && quote === to) || (base === to && quote === from);
+    });
+  }
+
+  private async valueInUsd(symbol: string, amount: number): Promise<number | null> {
+    if (!Number.isFinite(amount)) return null;
+
+    try {
+      const prices = await this.priceSource.getPrices([symbol]);
+      const price = prices[symbol.toUpperCase()];
+      return price === undefined ? null : amount * price;
+    } catch (error) {
+      this.logger.warn('Price source unavailable for policy check', { error, symbol });
+      return null;
+    }
+  }
+}
+
+export default SpendingPolicy;
@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { SwapAggregator, describeMinimumOut } from './swap-aggregator';
+import { MockQuoteAdapter } from './quote-adapters';
+import { FixturePriceSource } from './price-source';
+import { PriceService } from './price-service';
+import { SwapQuoteError, TradeRequest } from '../types';
+
+const logger = winston.createLogger({ silent: true });
+const priceSource = new PriceService({ providers: [new FixturePriceSource({ ETH: 2000, USDC: 1 })], logger });
+
+function request(overrides: Partial<TradeRequest> = {}): TradeRequest {
+  return {
+    fromToken: 'ETH',
+    toToken: 'USDC',
+    amount: 1,
+    slippage: 1,
+    deadline: Math.floor(Date.now() / 1000) + 600,
+    userAddress: '0x000000000000000000000000000000000000dEaD',
+    ...overrides,
+  };
+}
+
+describe('SwapAggregator', () => {
+  test('rank quotes by output net of gas', async () => {
+    const aggregator = new SwapAggregator({
+      adapters: [
+        // More USDC out, but $20 of gas
+        new MockQuoteAdapter({ name: 'cheap-rate', rates: { 'ETH/USDC': 2010 }, gasCostNative: 0.01 }),
+        new MockQuoteAdapter({ name: 'cheap-gas', rates: { 'ETH/USDC': 2000 }, gasCostNative: 0.001 }),
+        new MockQuoteAdapter({ name: 'down', fail: true }),
+      ],
+      priceSource,
+      logger,
+    });
+
+    const comparison = await aggregator.getQuotes(request());
+
+    expect(comparison.quotes.map(quote => quote.source)).toEqual(['cheap-gas', 'cheap-rate']);
+    expect(comparison.best?.netAmountOut).toBeCloseTo(1998);
+    expect(comparison.quotes[1].gasCostUsd).toBeCloseTo(20);
+    expect(comparison.failures.map(failure => failure.source)).toEqual(['down']);
+  });
+
+  test('refuse to execute when the re-quote falls below the minimum output', async () => {
+    const rates = { 'ETH/USDC': 2000 };
+    const aggregator = new SwapAggregator({ adapters: [new MockQuoteAdapter({ rates })], priceSource, logger });
+    const { best } = await aggregator.getQuotes(request());
+
+    rates['ETH/USDC'] = 1970; // 1.5% worse than quoted, beyond the 1% slippage
+    const error = await aggregator.execute(best!, request()).catch(e => e);
+
+    expect(error).toBeInstanceOf(SwapQuoteError);
+    expect(error.code).toBe('SLIPPAGE_EXCEEDED');
+  });
+
+  test('execute at the fresh quote within slippage', async () => {
+    const rates = { 'ETH/USDC': 2000 };
+    const aggregator = new SwapAggregator({ adapters: [new MockQuoteAdapter({ rates })], priceSource, logger });
+    const { best } = await aggregator.getQuotes(request());
+
+    rates['ETH/USDC'] = 1990;
+    expect(await aggregator.execute(best!, request())).toContain('for 1990 of usdc');
+  });
+
+  test('refuse to execute past the deadline', async () => {
+    const aggregator = new SwapAggregator({ adapters: [new MockQuoteAdapter({ rates: { 'ETH/USDC': 2000 } })], priceSource, logger });
+    const { best } = await aggregator.getQuotes(request());
+
+    const error = await aggregator.execute(best!, request({ deadline: Math.floor(Date.now() / 1000) - 1 })).catch(e => e);
+    expect(error.code).toBe('DEADLINE_EXCEEDED');
+  });
+
+  test('promise a minimum output only for firm quotes', () => {
+    const quote = { source: '0x', fromToken: 'ETH', toToken: 'USDC', amountIn: 1, amountOut: 2000, quotedAt: new Date() };
+
+    expect(describeMinimumOut(quote, 1)).toBe('at least 1980.000000 USDC');
+    expect(describeMinimumOut({ ...quote, indicative: true }, 1)).toStartWith('about 2000.000000 USDC (indicative');
+  });
+});
@@ -0,0 +1,219 @@
+import winston from 'winston';
+import { StructuredTool } from '@langchain/core/tools';
+import { EvmWalletProvider } from '@coinbase/agentkit';
+import { PriceSource, SwapQuote, SwapQuoteAdapter, SwapQuoteError, TradeRequest } from '../types';
+import { NetworkInfo } from './networks';
+import { CdpTradeQuoteAdapter, MockQuoteAdapter, ZeroExQuoteAdapter, ZeroExQuoteAdapterOptions, assertBeforeDeadline } from './quote-adapters';
+import { parseApprovalMode } from './approvals';
+
+export interface SwapAggregatorOptions {
+  adapters: SwapQuoteAdapter[];
+  priceSource: PriceSource;
+  logger: winston.Logger;
+  nativeSymbol?: string;
+  timeoutMs?: number; // per adapter
+}
+
+export interface QuoteComparison {
+  quotes: SwapQuote[]; // best first
+  best?: SwapQuote;
+  failures: Array<{ source: string; error: string }>;
+}
+
+/**
+ * Output a quote is ranked by: net of gas when gas could be priced
+ */
+function rankedOutput(quote: SwapQuote): number {
+  return quote.netAmountOut ?? quote.amountOut;
+}
+
+/**
+ * Minimum output a swap may fill at under the request's slippage tolerance
+ */
+export function minimumAmountOut(quote: SwapQuote, slippage: number): number {
+  return quote.amountOut * (1 - slippage / 100);
+}
+
+/**
+ * What a quote promises about its output: a floor the route enforces, or for indicative
+ * quotes the minimum that is only checked once the trade has filled
+ */
+export function describeMinimumOut(quote: SwapQuote, slippage: number): string {
+  const minimum = `${minimumAmountOut(quote, slippage).toFixed(6)} ${quote.toToken}`;
+  return quote.indicative
+    ? `about ${quote.amountOut.toFixed(6)} ${quote.toToken} (indicative: a fill below ${minimum} is reported as failed but cannot be prevented)`
+    : `at least ${minimum}`;
+}
+
+/**
+ * Asks every quote source for a route, ranks them by output net of gas and executes through
+ * the winner. Execution re-quotes the winning source first: if the route now returns less than
+ * the user's slippage allows, or the deadline has passed, nothing is sent. The minimum output
+ * goes to the source, which enforces it on-chain or, for indicative quotes, checks the fill.
+ */
+export class SwapAggregator {
+  private adapters: SwapQuoteAdapter[];
+  private priceSource: PriceSource;
+  private logger: winston.Logger;
+  private nativeSymbol: string;
+  private timeoutMs: number;
+
+  constructor(options: SwapAggregatorOptions) {
+    this.adapters = options.adapters;
+    this.priceSource = options.priceSource;
+    this.logger = options.logger;
+    this.nativeSymbol = options.nativeSymbol || 'ETH';
+    this.timeoutMs = options.timeoutMs ?? 10000;
+  }
+
+  get sources(): string[] {
+    return this.adapters.map(adapter => adapter.name);
+  }
+
+  async getQuotes(request: TradeRequest): Promise<QuoteComparison> {
+    const settled = await Promise.allSettled(this.adapters.map(adapter => this.withTimeout(adapter.quote(request), adapter.name)));
+
+    const quotes: SwapQuote[] = [];
+    const failures: QuoteComparison['failures'] = [];
+    settled.forEach((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        if (outcome.value && outcome.value.amountOut > 0) quotes.push(outcome.value);
+      } else {
+        const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+        this.logger.warn('Swap quote source failed', { source: this.adapters[i].name, error });
+        failures.push({ source: this.adapters[i].name, error });
+      }
+    });
+
+    await this.priceGas(quotes, request.toToken);
+    quotes.sort((a, b) => rankedOutput(b) - rankedOutput(a));
+    return { quotes, best: quotes[0], failures };
+  }
+
+  /**
+   * Execute a quote through the source that produced it, within the request's slippage and deadline
+   */
+  async execute(quote: SwapQuote, request: TradeRequest): Promise<string> {
+    const adapter = this.adapters.find(a => a.name === quote.source);
+    if (!adapter) {
+      throw new SwapQuoteError(`Unknown quote source ${quote.source}`, 'NO_ROUTE');
+    }
+    assertBeforeDeadline(request);
+
+    const minAmountOut = minimumAmountOut(quote, request.slippage);
+    const fresh = await this.withTimeout(adapter.quote(request), adapter.name);
+    if (!fresh) {
+      throw new SwapQuoteError(`${quote.source} no longer has a route for ${quote.fromToken} → ${quote.toToken}`, 'NO_ROUTE');
+    }
+    if (fresh.amountOut < minAmountOut) {
+      throw new SwapQuoteError(
+        `Price moved: ${quote.source} now returns ${fresh.amountOut} ${quote.toToken}, below the minimum of ${minAmountOut} at ${request.slippage}% slippage`,
+        'SLIPPAGE_EXCEEDED',
+        { quoted: quote.amountOut, current: fresh.amountOut, minAmountOut }
+      );
+    }
+
+    assertBeforeDeadline(request);
+    return adapter.execute(fresh, request, minAmountOut);
+  }
+
+  /**
+   * Value each quote's gas in USD and in the output token
+   */
+  private async priceGas(quotes: SwapQuote[], toToken: string): Promise<void> {
+    if (!quotes.some(quote => quote.gasCostNative !== undefined)) return;
+
+    const prices = await this.priceSource.getPrices([this.nativeSymbol, toToken]).catch(() => ({} as Record<string, number>));
+    const nativePrice = prices[this.nativeSymbol];
+    const toPrice = prices[toToken.toUpperCase()];
+    for (const quote of quotes) {
+      if (quote.gasCostNative === undefined || !nativePrice) continue;
+      quote.gasCostUsd = quote.gasCostNative * nativePrice;
+      if (toPrice) {
+        quote.netAmountOut = quote.amountOut - quote.gasCostUsd / toPrice;
+      }
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>, source: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(`${source} did not quote within ${this.timeoutMs}ms`)), this.timeoutMs);
+      promise.then(
+        value => { clearTimeout(timer); resolve(value); },
+        error => { clearTimeout(timer); reject(error); }
+      );
+    });
+  }
+}
+
+/**
+ * Text table of compared quotes, best first
+ */
+export function formatQuoteTable(comparison: QuoteComparison, request: TradeRequest): string {
+  const toToken = request.toToken.toUpperCase();
+  const rows = comparison.quotes.map((quote, i) => {
+    const gas = quote.gasCostUsd !== undefined ? `$${quote.gasCostUsd.toFixed(2)}` : 'n/a';
+    const net = quote.netAmountOut !== undefined ? quote.netAmountOut.toFixed(6) : 'n/a';
+    return `${i === 0 ? '★' : ' '} ${quote.source.padEnd(8)} | ${quote.amountOut.toFixed(6).padStart(16)} | ${gas.padStart(8)} | ${net.padStart(16)}${quote.indicative ? ' (indicative)' : ''}${quote.route ? ` via ${quote.route}` : ''}`;
+  });
+  const failures = comparison.failures.map(f => `  ${f.source}: unavailable (${f.error})`);
+
+  return [
+    `Quotes for ${request.amount} ${request.fromToken.toUpperCase()} → ${toToken}:`,
+    `  source   | ${`out (${toToken})`.padStart(16)} |      gas | ${`net (${toToken})`.padStart(16)}`,
+    ...rows,
+    ...failures,
+  ].join('\n');
+}
+
+export interface SwapAggregatorEnvironment {
+  priceSource: PriceSource;
+  logger: winston.Logger;
+  network: NetworkInfo;
+  tradeTool: () => StructuredTool | undefined;
+  wallet: () => EvmWalletProvider | undefined;
+  onApproval?: ZeroExQuoteAdapterOptions['onApproval'];
+}
+
+/**
+ * Aggregator configured from the environment: SWAP_QUOTE_SOURCES lists sources (cdp, 0x, mock;
+ * default "cdp,0x"), 0x only when ZEROEX_API_KEY is set, SWAP_QUOTE_TIMEOUT_MS bounds each quote,
+ * SWAP_APPROVAL_MODE picks exact (default) or unlimited token approvals
+ */
+export function createSwapAggregator(environment: SwapAggregatorEnvironment): SwapAggregator {
+  const names = (process.env.SWAP_QUOTE_SOURCES || 'cdp,0x')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const adapters = names.flatMap((name): SwapQuoteAdapter[] => {
+    switch (name) {
+      case 'cdp':
+        return [new CdpTradeQuoteAdapter({ priceSource: environment.priceSource, network: environment.network, tradeTool: environment.tradeTool })];
+      case '0x':
+        return process.env.ZEROEX_API_KEY
+          ? [new ZeroExQuoteAdapter({
+              apiKey: process.env.ZEROEX_API_KEY,
+              network: environment.network,
+              wallet: environment.wallet,
+              approvalMode: parseApprovalMode(process.env.SWAP_APPROVAL_MODE),
+              onApproval: environment.onApproval,
+            })]
+          : [];
+      case 'mock':
+        return [new MockQuoteAdapter({ priceSource: environment.priceSource, spreadBps: 50 })];
+      default:
+        throw new Error(`Unknown swap quote source: ${name}`);
+    }
+  });
+
+  return new SwapAggregator({
+    adapters,
+    priceSource: environment.priceSource,
+    logger: environment.logger,
+    nativeSymbol: environment.network.nativeSymbol,
+    timeoutMs: Number(process.env.SWAP_QUOTE_TIMEOUT_MS) || undefined,
+  });
+}
+
+export default SwapAggregator;
@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'bun:test';
+import { buildTaxReport, form8949Rows, taxYearRange } from './tax-report';
+import { TradeRecord } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let sequence = 0;
+
+function trade(createdAt: string, fields: Partial<TradeRecord> & Pick<TradeRecord, 'fromToken' | 'amountIn'>): TradeRecord {
+  sequence += 1;
+  return {
+    id: `trade_${sequence}`,
+    kind: 'swap',
+    action: 'trade',
+    agentName: 'TradingAgent',
+    userId: 'user',
+    conversationId: 'conversation',
+    network: 'base-sepolia',
+    status: 'confirmed',
+    params: {},
+    createdAt: new Date(createdAt),
+    updatedAt: new Date(createdAt),
+    ...fields,
+  };
+}
+
+const sell = (createdAt: string, amount: number, proceedsUsd: number) =>
+  trade(createdAt, { fromToken: 'ETH', toToken: 'USDC', amountIn: amount, executedAmountOut: proceedsUsd });
+
+describe('form8949Rows', () => {
+  test('split proceeds across lots and count over 365 days as long-term', () => {
+    const soldAt = new Date('2024-06-01T00:00:00Z');
+    const rows = form8949Rows([{
+      tradeId: 'sale',
+      token: 'ETH',
+      amount: 2,
+      proceedsUsd: 6000,
+      costBasisUsd: 3000,
+      pnlUsd: 3000,
+      unmatchedAmount: 0,
+      lots: [
+        { acquiredAt: new Date(soldAt.getTime() - 366 * DAY_MS), amount: 1.5, costUsd: 2000 },
+        { acquiredAt: new Date(soldAt.getTime() - 365 * DAY_MS), amount: 0.5, costUsd: 1000 },
+      ],
+      disposedAt: soldAt,
+    }]);
+
+    expect(rows.map(row => [row.description, row.proceedsUsd, row.gainUsd, row.term])).toEqual([
+      ['1.5 ETH', 4500, 2500, 'long'],
+      ['0.5 ETH', 1500, 500, 'short'],
+    ]);
+  });
+});
+
+describe('buildTaxReport', () => {
+  const trades = [
+    trade('2023-06-01T00:00:00Z', { fromToken: 'USDC', toToken: 'ETH', amountIn: 2000, executedAmountOut: 2 }),
+    sell('2023-12-31T23:59:59Z', 0.5, 1000),
+    sell('2024-01-01T00:00:00Z', 0.5, 1500),
+    sell('2024-07-01T00:00:00Z', 0.5, 2000),
+    sell('2025-01-01T00:00:00Z', 0.5, 3000),
+  ];
+
+  test('report disposals in the range against lots bought before it', () => {
+    const report = buildTaxReport(trades, { ...taxYearRange(2024), method: 'fifo', format: '8949' });
+
+    expect(report.summary).toMatchObject({
+      disposals: 2,
+      proceedsUsd: 3500,
+      costBasisUsd: 1000,
+      gainUsd: 2500,
+      shortTermGainUsd: 1000,
+      longTermGainUsd: 1500,
+      unmatchedDisposals: [],
+    });
+    expect(report.filename).toBe('form-8949_2024-01-01_2024-12-31.csv');
+    expect(report.csv.trim().split('\n')).toEqual([
+      'Description of Property,Date Acquired,Date Sold,Proceeds,Cost Basis,Gain or Loss,Term,Trade ID',
+      `0.5 ETH,2023-06-01,2024-01-01,1500.00,500.00,1000.00,Short-term,${trades[2].id}`,
+      `0.5 ETH,2023-06-01,2024-07-01,2000.00,500.00,1500.00,Long-term,${trades[3].id}`,
+    ]);
+  });
+
+  test('list unmatched disposals and skipped trades from the range only', () => {
+    const unvaluedBefore = trade('2023-07-01T00:00:00Z', { fromToken: 'ETH', toToken: 'AERO', amountIn: 0.1, executedAmountOut: 100 });
+    const unvaluedDuring = trade('2024-03-01T00:00:00Z', { fromToken: 'ETH', toToken: 'AERO', amountIn: 0.1, executedAmountOut: 100 });
+    const oversold = sell('2024-08-01T00:00:00Z', 5, 10000);
+
+    const { summary } = buildTaxReport([...trades, unvaluedBefore, unvaluedDuring, oversold], { ...taxYearRange(2024), method: 'fifo', format: '8949' });
+
+    expect(summary.skippedTrades).toEqual([unvaluedDuring.id]);
+    expect(summary.unmatchedDisposals).toEqual([{ tradeId: oversold.id, token: 'ETH', amount: 4.5 }]);
+  });
+
+  test('escape CSV cells with commas and quotes', () => {
+    const transfer = trade('2024-05-01T12:30:00Z', {
+      kind: 'transfer',
+      action: 'native_transfer',
+      fromToken: 'USDC',
+      amountIn: 25,
+      recipient: 'Alice, the "treasurer"',
+    });
+
+    const report = buildTaxReport([...trades, transfer], { ...taxYearRange(2024), method: 'fifo', format: 'koinly' });
+    const lines = report.csv.trim().split('\n');
+
+    expect(report.filename).toBe('koinly_2024-01-01_2024-12-31.csv');
+    expect(lines).toHaveLength(4);
+    expect(lines[2]).toBe('2024-05-01 12:30:00 UTC,25,USDC,,,,,,,,"Transfer to Alice, the ""treasurer""",');
+  });
+});
@@ -0,0 +1,180 @@
+import { CostBasisMethod, RealizedPnl, TradeRecord } from '../types';
+import { buildCostBasis } from './cost-basis';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TaxReportFormat = '8949' | 'koinly';
+
+export interface TaxReportOptions {
+  from: Date;
+  to: Date; // exclusive
+  method: CostBasisMethod;
+  format: TaxReportFormat;
+}
+
+export interface TaxReportSummary {
+  from: Date;
+  to: Date;
+  method: CostBasisMethod;
+  disposals: number;
+  proceedsUsd: number;
+  costBasisUsd: number;
+  gainUsd: number;
+  shortTermGainUsd: number;
+  longTermGainUsd: number;
+  unmatchedDisposals: Array<{ tradeId: string; token: string; amount: number }>; // sold without a known cost, not in the CSV
+  skippedTrades: string[];
+}
+
+export interface TaxReport {
+  format: TaxReportFormat;
+  filename: string;
+  csv: string;
+  summary: TaxReportSummary;
+}
+
+export interface Form8949Row {
+  description: string;
+  acquiredAt: Date;
+  soldAt: Date;
+  proceedsUsd: number;
+  costBasisUsd: number;
+  gainUsd: number;
+  term: 'short' | 'long';
+  tradeId: string;
+}
+
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: Array<Array<string | number | undefined>>): string {
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+const usd = (n: number) => n.toFixed(2);
+const date = (d: Date) => d.toISOString().slice(0, 10);
+
+/**
+ * One row per lot consumed by a disposal, with the disposal's proceeds split across its lots
+ * by amount. Held over a year is long-term.
+ */
+export function form8949Rows(realized: RealizedPnl[]): Form8949Row[] {
+  return realized.flatMap(disposal => {
+    const matched = disposal.lots.reduce((sum, lot) => sum + lot.amount, 0);
+    return disposal.lots.map(lot => {
+      const proceedsUsd = matched > 0 ? disposal.proceedsUsd * (lot.amount / matched) : 0;
+      return {
+        description: `${Number(lot.amount.toFixed(8))} ${disposal.token}`,
+        acquiredAt: lot.acquiredAt,
+        soldAt: disposal.disposedAt,
+        proceedsUsd,
+        costBasisUsd: lot.costUsd,
+        gainUsd: proceedsUsd - lot.costUsd,
+        term: disposal.disposedAt.getTime() - lot.acquiredAt.getTime() > 365 * DAY_MS ? 'long' : 'short',
+        tradeId: disposal.tradeId,
+      };
+    });
+  });
+}
+
+/**
+ * Generic Form 8949-style columns
+ */
+function form8949Csv(rows: Form8949Row[]): string {
+  return toCsv(
+    ['Description of Property', 'Date Acquired', 'Date Sold', 'Proceeds', 'Cost Basis', 'Gain or Loss', 'Term', 'Trade ID'],
+    rows.map(row => [
+      row.description,
+      date(row.acquiredAt),
+      date(row.soldAt),
+      usd(row.proceedsUsd),
+      usd(row.costBasisUsd),
+      usd(row.gainUsd),
+      row.term === 'long' ? 'Long-term' : 'Short-term',
+      row.tradeId,
+    ])
+  );
+}
+
+/**
+ * Koinly universal import layout. Koinly works out gains itself, so this lists the
+ * transactions in the range rather than the disposals.
+ */
+function koinlyCsv(trades: TradeRecord[]): string {
+  return toCsv(
+    [
+      'Date', 'Sent Amount', 'Sent Currency', 'Received Amount', 'Received Currency',
+      'Fee Amount', 'Fee Currency', 'Net Worth Amount', 'Net Worth Currency', 'Label', 'Description', 'TxHash',
+    ],
+    trades.map(trade => {
+      const received = trade.kind === 'transfer' ? undefined : trade.executedAmountOut ?? trade.quotedAmountOut;
+      return [
+        `${trade.createdAt.toISOString().slice(0, 19).replace('T', ' ')} UTC`,
+        trade.amountIn,
+        trade.fromToken,
+        received,
+        trade.kind === 'transfer' ? undefined : trade.toToken,
+        undefined,
+        undefined,
+        trade.usdValue !== undefined ? usd(trade.usdValue) : undefined,
+        trade.usdValue !== undefined ? 'USD' : undefined,
+        undefined,
+        trade.kind === 'transfer' ? `Transfer to ${trade.recipient}` : `${trade.kind} via ${trade.action}`,
+        trade.txHash,
+      ];
+    })
+  );
+}
+
+/**
+ * Tax export of the disposals (8949) or transactions (Koinly) in a date range. Cost basis is
+ * built from every trade before the end of the range, so lots bought in earlier years count.
+ */
+export function buildTaxReport(trades: TradeRecord[], options: TaxReportOptions): TaxReport {
+  const { from, to, method, format } = options;
+  const inRange = (d: Date) => d >= from && d < to;
+
+  const history = trades.filter(trade => trade.createdAt < to);
+  const ledger = buildCostBasis(history, method);
+  const realized = ledger.realized.filter(disposal => inRange(disposal.disposedAt));
+  const rows = form8949Rows(realized);
+
+  const sum = (values: number[]) => values.reduce((total, n) => total + n, 0);
+  const summary: TaxReportSummary = {
+    from,
+    to,
+    method,
+    disposals: realized.length,
+    proceedsUsd: sum(rows.map(row => row.proceedsUsd)),
+    costBasisUsd: sum(rows.map(row => row.costBasisUsd)),
+    gainUsd: sum(rows.map(row => row.gainUsd)),
+    shortTermGainUsd: sum(rows.filter(row => row.term === 'short').map(row => row.gainUsd)),
+    longTermGainUsd: sum(rows.filter(row => row.term === 'long').map(row => row.gainUsd)),
+    unmatchedDisposals: realized
+      .filter(disposal => disposal.unmatchedAmount > 0)
+      .map(disposal => ({ tradeId: disposal.tradeId, token: disposal.token, amount: disposal.unmatchedAmount })),
+    skippedTrades: ledger.skippedTrades.filter(id => history.some(trade => trade.id === id && inRange(trade.createdAt))),
+  };
+
+  const csv = format === 'koinly'
+    ? koinlyCsv(history.filter(trade => trade.status === 'confirmed' && inRange(trade.createdAt))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()))
+    : form8949Csv(rows);
+
+  return {
+    format,
+    filename: `${format === 'koinly' ? 'koinly' : 'form-8949'}_${date(from)}_${date(new Date(to.getTime() - 1))}.csv`,
+    csv,
+    summary,
+  };
+}
+
+/**
+ * Start and (exclusive) end of a calendar year in UTC
+ */
+export function taxYearRange(year: number): { from: Date; to: Date } {
+  return { from: new Date(Date.UTC(year, 0, 1)), to: new Date(Date.UTC(year + 1, 0, 1)) };
+}
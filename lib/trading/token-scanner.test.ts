@@ -0,0 +1,134 @@
+import { describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { Hex, PublicClient, toFunctionSelector, zeroAddress } from 'viem';
+import { TokenScanner, isUnknownTokenAddress, scoreFindings } from './token-scanner';
+import { getNetwork } from './networks';
+
+const logger = winston.createLogger({ silent: true });
+const network = getNetwork('base-sepolia');
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const IMPLEMENTATION = '0x2222222222222222222222222222222222222222';
+const OWNER = '0x3333333333333333333333333333333333333333';
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+// Runtime code whose dispatcher pushes the selectors of the given functions
+const bytecode = (...signatures: string[]): Hex =>
+  `0x6080${signatures.map(signature => `63${toFunctionSelector(signature).slice(2)}`).join('')}`;
+
+interface TokenContract {
+  code: Hex;
+  owner?: string;
+  erc20?: boolean;
+  implementation?: { address: string; code: Hex };
+}
+
+function scanner(contract: TokenContract) {
+  let reads = 0;
+  const client = {
+    getBytecode: async ({ address }: { address: string }) =>
+      address.toLowerCase() === contract.implementation?.address ? contract.implementation.code : contract.code,
+    readContract: async ({ functionName }: { functionName: string }) => {
+      reads += 1;
+      if (functionName === 'owner') {
+        if (!contract.owner) throw new Error('execution reverted');
+        return contract.owner;
+      }
+      if (contract.erc20 === false) throw new Error('execution reverted');
+      return { name: 'Test Token', symbol: 'TEST', decimals: 18, totalSupply: BigInt('1000000000000000000000000') }[functionName];
+    },
+    getStorageAt: async ({ slot }: { slot: string }) =>
+      slot === IMPLEMENTATION_SLOT && contract.implementation
+        ? `0x000000000000000000000000${contract.implementation.address.slice(2)}`
+        : `0x${'0'.repeat(64)}`,
+  } as unknown as PublicClient;
+  return { tokenScanner: new TokenScanner({ logger, createClient: () => client }), reads: () => reads };
+}
+
+describe('scoreFindings', () => {
+  test('add points by severity and cap them at 100', () => {
+    expect(scoreFindings([])).toEqual({ riskScore: 0, riskLevel: 'low' });
+    expect(scoreFindings([{ code: 'MINTABLE', severity: 'medium', message: '' }, { code: 'OWNED', severity: 'info', message: '' }]))
+      .toEqual({ riskScore: 20, riskLevel: 'low' });
+    expect(scoreFindings([{ code: 'MINTABLE', severity: 'medium', message: '' }, { code: 'PAUSABLE', severity: 'low', message: '' }]))
+      .toEqual({ riskScore: 25, riskLevel: 'medium' });
+    expect(scoreFindings([{ code: 'BLACKLIST', severity: 'high', message: '' }, { code: 'UPGRADEABLE_PROXY', severity: 'high', message: '' }]))
+      .toEqual({ riskScore: 70, riskLevel: 'high' });
+    expect(scoreFindings(Array(4).fill({ code: 'NOT_ERC20', severity: 'high', message: '' })).riskScore).toBe(100);
+  });
+});
+
+describe('TokenScanner', () => {
+  test('flag owner privileges found in the bytecode', async () => {
+    const { tokenScanner } = scanner({ code: bytecode('transfer(address,uint256)', 'mint(address,uint256)', 'pause()', 'blacklist(address)'), owner: OWNER });
+
+    const report = await tokenScanner.scan(TOKEN, network);
+
+    expect(report.findings.map(finding => [finding.code, finding.severity])).toEqual([
+      ['MINTABLE', 'medium'],
+      ['PAUSABLE', 'medium'],
+      ['BLACKLIST', 'high'],
+      ['OWNED', 'info'],
+    ]);
+    expect(report).toMatchObject({ symbol: 'TEST', totalSupply: 1000000, riskScore: 75, riskLevel: 'high' });
+    expect(report.functions).toEqual(['mint(address,uint256)', 'pause()', 'blacklist(address)']);
+  });
+
+  test('lower privilege findings once ownership is renounced', async () => {
+    const { tokenScanner } = scanner({ code: bytecode('mint(address,uint256)', 'pause()'), owner: zeroAddress });
+
+    const report = await tokenScanner.scan(TOKEN, network);
+
+    expect(report.findings.map(finding => [finding.code, finding.severity])).toEqual([
+      ['MINTABLE', 'low'],
+      ['PAUSABLE', 'low'],
+      ['OWNERSHIP_RENOUNCED', 'info'],
+    ]);
+    expect(report).toMatchObject({ riskScore: 10, riskLevel: 'low' });
+  });
+
+  test('score an upgradeable proxy on the privileges of its implementation', async () => {
+    const { tokenScanner } = scanner({
+      code: bytecode(),
+      owner: OWNER,
+      implementation: { address: IMPLEMENTATION, code: bytecode('mint(address,uint256)') },
+    });
+
+    const report = await tokenScanner.scan(TOKEN, network);
+
+    expect(report.proxy).toMatchObject({ kind: 'eip1967' });
+    expect(report.findings.map(finding => finding.code)).toEqual(['UPGRADEABLE_PROXY', 'MINTABLE', 'OWNED']);
+    expect(report.riskScore).toBe(55);
+  });
+
+  test('rate an address without code or ERC-20 calls as high risk', async () => {
+    const empty = await scanner({ code: '0x' }).tokenScanner.scan(TOKEN, network);
+    expect(empty).toMatchObject({ isContract: false, riskScore: 100, riskLevel: 'high' });
+
+    const notToken = await scanner({ code: bytecode(), erc20: false }).tokenScanner.scan(TOKEN, network);
+    expect(notToken.findings.map(finding => finding.code)).toEqual(['NOT_ERC20']);
+    expect(notToken.riskScore).toBe(35);
+  });
+
+  test('cache reports per address regardless of case', async () => {
+    const { tokenScanner, reads } = scanner({ code: bytecode() });
+
+    const first = await tokenScanner.scan(TOKEN, network);
+    const readsAfterFirst = reads();
+    const second = await tokenScanner.scan(TOKEN.toUpperCase().replace('0X', '0x'), network);
+
+    expect(second).toBe(first);
+    expect(reads()).toBe(readsAfterFirst);
+  });
+
+  test('reject something that is not an address', async () => {
+    await expect(scanner({ code: '0x' }).tokenScanner.scan('DEGEN', network)).rejects.toThrow('Invalid token address: DEGEN');
+  });
+});
+
+describe('isUnknownTokenAddress', () => {
+  test('only treat addresses outside the token list as unknown', () => {
+    expect(isUnknownTokenAddress(network, TOKEN)).toBe(true);
+    expect(isUnknownTokenAddress(network, '0x036CbD53842c5426634e7929541eC2318f3dCF7e')).toBe(false);
+    expect(isUnknownTokenAddress(network, 'USDC')).toBe(false);
+  });
+});
@@ -0,0 +1,254 @@
+import winston from 'winston';
+import { Hex, PublicClient, erc20Abi, formatUnits, getAddress, isAddress, parseAbi, toFunctionSelector, zeroAddress } from 'viem';
+import { TokenScanFinding, TokenScanReport } from '../types';
+import { NetworkInfo, createNetworkClient, findToken, getNetwork } from './networks';
+
+// EIP-1967 storage slots holding the implementation and admin of a proxy
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+const ADMIN_SLOT = '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+
+// EIP-1167 minimal proxy runtime code, with the implementation address between prefix and suffix
+const MINIMAL_PROXY = /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/i;
+
+const OWNABLE_ABI = parseAbi(['function owner() view returns (address)']);
+
+const SEVERITY_POINTS: Record<TokenScanFinding['severity'], number> = { info: 0, low: 5, medium: 20, high: 35 };
+
+type PrivilegeCode = 'MINTABLE' | 'PAUSABLE' | 'BLACKLIST';
+
+/**
+ * Privileged functions looked for in the bytecode, with the finding each group raises. The
+ * severity applies while the contract has an owner; renounced ownership lowers it.
+ */
+const PRIVILEGES: Array<{ code: PrivilegeCode; severity: TokenScanFinding['severity']; message: string; signatures: string[] }> = [
+  {
+    code: 'MINTABLE',
+    severity: 'medium',
+    message: 'New tokens can be minted, diluting holders',
+    signatures: ['mint(address,uint256)', 'mint(uint256)', 'mintTo(address,uint256)', 'issue(uint256)'],
+  },
+  {
+    code: 'PAUSABLE',
+    severity: 'medium',
+    message: 'Transfers can be paused',
+    signatures: ['pause()', 'unpause()'],
+  },
+  {
+    code: 'BLACKLIST',
+    severity: 'high',
+    message: 'Addresses can be blacklisted from transferring',
+    signatures: [
+      'blacklist(address)',
+      'addBlackList(address)',
+      'addToBlacklist(address)',
+      'setBlacklist(address,bool)',
+      'isBlacklisted(address)',
+      'isBlackListed(address)',
+    ],
+  },
+];
+
+export interface TokenScannerOptions {
+  logger: winston.Logger;
+  createClient?: (network: NetworkInfo) => PublicClient;
+  cacheTtlMs?: number;
+}
+
+/**
+ * Whether a function is in a contract's dispatcher: Solidity compares the call's selector
+ * against a PUSH4 of each external function's selector
+ */
+function hasFunction(bytecode: string, signature: string): boolean {
+  return bytecode.toLowerCase().includes(`63${toFunctionSelector(signature).slice(2)}`);
+}
+
+/**
+ * Address stored right-aligned in a 32-byte storage slot, or undefined when the slot is empty
+ */
+function slotAddress(value: Hex | undefined): string | undefined {
+  if (!value || BigInt(value) === BigInt(0)) return undefined;
+  return getAddress(`0x${value.slice(-40)}`);
+}
+
+/**
+ * Risk score from findings: each adds points by severity, capped at 100
+ */
+export function scoreFindings(findings: TokenScanFinding[]): Pick<TokenScanReport, 'riskScore' | 'riskLevel'> {
+  const riskScore = Math.min(100, findings.reduce((sum, finding) => sum + SEVERITY_POINTS[finding.severity], 0));
+  return { riskScore, riskLevel: riskScore >= 60 ? 'high' : riskScore >= 25 ? 'medium' : 'low' };
+}
+
+/**
+ * Whether a swap target is a contract address outside the network's known token list, i.e.
+ * one worth scanning before buying
+ */
+export function isUnknownTokenAddress(network: NetworkInfo, token: string): boolean {
+  return isAddress(token, { strict: false }) && !findToken(network, token);
+}
+
+/**
+ * Chat-friendly summary of a scan
+ */
+export function describeTokenScan(report: TokenScanReport): string {
+  const icon = { low: '🟢', medium: '🟡', high: '🔴' }[report.riskLevel];
+  const token = report.symbol ? `${report.name ? `${report.name} ` : ''}(${report.symbol})` : report.address;
+  const supply = report.totalSupply !== undefined ? `\nSupply: ${report.totalSupply.toLocaleString('en-US')}${report.decimals !== undefined ? `, ${report.decimals} decimals` : ''}` : '';
+  const owner = report.owner ? `\nOwner: ${report.owner === zeroAddress ? 'renounced' : report.owner}` : '';
+  const findings = report.findings.length > 0
+    ? report.findings.map(finding => `• [${finding.severity}] ${finding.message}`).join('\n')
+    : '• Nothing flagged';
+
+  return `${icon} ${token} on ${report.network}: ${report.riskLevel} risk (${report.riskScore}/100)
+Contract: ${report.address}${supply}${owner}
+${findings}
+Bytecode checks only find common function names; this is not an audit.`;
+}
+
+/**
+ * Reads a token contract's metadata and bytecode to flag what its owner could do to holders:
+ * swap out its code behind a proxy, mint, pause transfers or blacklist addresses
+ */
+export class TokenScanner {
+  private logger: winston.Logger;
+  private createClient: (network: NetworkInfo) => PublicClient;
+  private cacheTtlMs: number;
+  private clients: Map<string, PublicClient> = new Map();
+  private cache: Map<string, TokenScanReport> = new Map();
+
+  constructor(options: TokenScannerOptions) {
+    this.logger = options.logger;
+    this.createClient = options.createClient || createNetworkClient;
+    this.cacheTtlMs = options.cacheTtlMs ?? 10 * 60 * 1000;
+  }
+
+  /**
+   * Scan a token contract. Results are cached per network and address for a few minutes.
+   */
+  async scan(address: string, network: NetworkInfo = getNetwork()): Promise<TokenScanReport> {
+    if (!isAddress(address, { strict: false })) {
+      throw new Error(`Invalid token address: ${address}`);
+    }
+    const token = getAddress(address.toLowerCase());
+    const key = `${network.id}:${token}`;
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.scannedAt.getTime() < this.cacheTtlMs) {
+      return cached;
+    }
+
+    const report = await this.inspect(token, network);
+    this.cache.set(key, report);
+    this.logger.info('Token scanned', { address: token, network: network.id, riskScore: report.riskScore });
+    return report;
+  }
+
+  private async inspect(address: `0x${string}`, network: NetworkInfo): Promise<TokenScanReport> {
+    const client = this.clientFor(network);
+    const bytecode = await client.getBytecode({ address });
+    const scannedAt = new Date();
+
+    if (!bytecode || bytecode === '0x') {
+      const findings: TokenScanFinding[] = [{ code: 'NOT_A_CONTRACT', severity: 'high', message: 'No contract is deployed at this address' }];
+      return { address, network: network.id, isContract: false, functions: [], riskScore: 100, riskLevel: 'high', findings, scannedAt };
+    }
+
+    const read = <T>(functionName: 'name' | 'symbol' | 'decimals' | 'totalSupply'): Promise<T | undefined> =>
+      client.readContract({ address, abi: erc20Abi, functionName }).then(value => value as T, () => undefined);
+
+    const [name, symbol, decimals, supply, owner, proxy] = await Promise.all([
+      read<string>('name'),
+      read<string>('symbol'),
+      read<number>('decimals'),
+      read<bigint>('totalSupply'),
+      client.readContract({ address, abi: OWNABLE_ABI, functionName: 'owner' }).then(value => getAddress(value), () => undefined),
+      this.findProxy(client, address, bytecode),
+    ]);
+
+    // The privileged functions of a proxy live in its implementation
+    const implementationCode = proxy
+      ? await client.getBytecode({ address: proxy.implementation as `0x${string}` }).catch(() => undefined)
+      : undefined;
+    const code = `${bytecode}${implementationCode?.slice(2) ?? ''}`;
+    const renounced = owner === zeroAddress;
+    const findings: TokenScanFinding[] = [];
+    const functions: string[] = [];
+
+    if (symbol === undefined || decimals === undefined || supply === undefined) {
+      findings.push({ code: 'NOT_ERC20', severity: 'high', message: 'The contract does not answer the standard ERC-20 symbol, decimals and totalSupply calls' });
+    }
+
+    // Minimal proxies (clones) point at fixed code; only EIP-1967 proxies can be upgraded
+    if (proxy?.kind === 'eip1967') {
+      findings.push({
+        code: 'UPGRADEABLE_PROXY',
+        severity: 'high',
+        message: `Upgradeable proxy for ${proxy.implementation}${proxy.admin ? ` (admin ${proxy.admin})` : ''}: its code can be changed`,
+      });
+    }
+
+    for (const privilege of PRIVILEGES) {
+      const found = privilege.signatures.filter(signature => hasFunction(code, signature));
+      if (found.length === 0) continue;
+      functions.push(...found);
+      findings.push({
+        code: privilege.code,
+        severity: renounced ? 'low' : privilege.severity,
+        message: `${privilege.message} (${found.join(', ')})${renounced ? ', though ownership is renounced' : ''}`,
+      });
+    }
+
+    if (owner && !renounced) {
+      findings.push({ code: 'OWNED', severity: 'info', message: `Owned by ${owner}` });
+    } else if (renounced) {
+      findings.push({ code: 'OWNERSHIP_RENOUNCED', severity: 'info', message: 'Ownership is renounced' });
+    }
+
+    return {
+      address,
+      network: network.id,
+      isContract: true,
+      name,
+      symbol,
+      decimals,
+      totalSupply: supply !== undefined && decimals !== undefined ? Number(formatUnits(supply, decimals)) : undefined,
+      owner,
+      proxy,
+      functions,
+      findings,
+      ...scoreFindings(findings),
+      scannedAt,
+    };
+  }
+
+  /**
+   * EIP-1167 clones are recognised by their bytecode, EIP-1967 proxies by their storage slots
+   */
+  private async findProxy(client: PublicClient, address: `0x${string}`, bytecode: Hex): Promise<TokenScanReport['proxy']> {
+    const clone = bytecode.match(MINIMAL_PROXY);
+    if (clone) {
+      return { kind: 'eip1167', implementation: getAddress(`0x${clone[1]}`) };
+    }
+
+    try {
+      const [implementation, admin] = await Promise.all([
+        client.getStorageAt({ address, slot: IMPLEMENTATION_SLOT }),
+        client.getStorageAt({ address, slot: ADMIN_SLOT }),
+      ]);
+      const implementationAddress = slotAddress(implementation);
+      return implementationAddress ? { kind: 'eip1967', implementation: implementationAddress, admin: slotAddress(admin) } : undefined;
+    } catch (error) {
+      this.logger.warn('Could not read proxy slots', { error, address });
+      return undefined;
+    }
+  }
+
+  private clientFor(network: NetworkInfo): PublicClient {
+    let client = this.clients.get(network.id);
+    if (!client) {
+      client = this.createClient(network);
+      this.clients.set(network.id, client);
+    }
+    return client;
+  }
+}
+
+export default TokenScanner;
@@ -0,0 +1,161 @@
+import { describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { EventReminderEvent, EventScheduler, EventStatusEvent, eventStatusAt, formatTimeUntil, parseReminderOffsets } from './event-scheduler';
+import { MemoryGroupStore } from '../storage/groups';
+import { EventPlan } from '../types';
+
+const logger = winston.createLogger({ silent: true });
+const START = new Date('2025-06-01T18:00:00Z');
+const minutesBefore = (minutes: number) => new Date(START.getTime() - minutes * 60 * 1000);
+const minutesAfter = (minutes: number) => new Date(START.getTime() + minutes * 60 * 1000);
+
+const event = (overrides: Partial<EventPlan> = {}): EventPlan => ({
+  id: 'event_1',
+  conversationId: 'group',
+  createdBy: 'alice',
+  title: 'Dinner',
+  description: 'Team dinner',
+  dateTime: START,
+  participants: ['alice', 'bob'],
+  expenses: [],
+  status: 'confirmed',
+  rsvps: {},
+  remindersSent: [],
+  ...overrides,
+});
+
+function scheduler(store: MemoryGroupStore, pollIntervalMs?: number) {
+  const events = new EventScheduler({ store, logger, reminderOffsetsMinutes: [1440, 60], pollIntervalMs });
+  const reminders: EventReminderEvent[] = [];
+  const statuses: EventStatusEvent[] = [];
+  events.on('reminder', reminder => reminders.push(reminder));
+  events.on('status', status => statuses.push(status));
+  return { events, reminders, statuses };
+}
+
+describe('EventScheduler', () => {
+  test('send each reminder once as its time comes', async () => {
+    const store = new MemoryGroupStore();
+    await store.saveEvent(event());
+    const { events, reminders } = scheduler(store);
+
+    await events.checkEvents(minutesBefore(2000));
+    await events.checkEvents(minutesBefore(1440));
+    await events.checkEvents(minutesBefore(1000));
+    await events.checkEvents(minutesBefore(30));
+
+    expect(reminders.map(reminder => reminder.minutesBefore)).toEqual([1440, 60]);
+    expect((await store.getEvent('event_1'))?.remindersSent).toEqual([1440, 60]);
+  });
+
+  test('pick up the reminders already sent after a restart', async () => {
+    const store = new MemoryGroupStore();
+    await store.saveEvent(event());
+    await scheduler(store).events.checkEvents(minutesBefore(1440));
+
+    const { events, reminders } = scheduler(store);
+    await events.checkEvents(minutesBefore(1400));
+    await events.checkEvents(minutesBefore(60));
+
+    expect(reminders.map(reminder => reminder.minutesBefore)).toEqual([60]);
+  });
+
+  test('collapse reminders that came due while the server was down into one', async () => {
+    const store = new MemoryGroupStore();
+    await store.saveEvent(event());
+    const { events, reminders } = scheduler(store);
+
+    await events.checkEvents(minutesBefore(10));
+
+    expect(reminders.map(reminder => reminder.minutesBefore)).toEqual([60]);
+    expect((await store.getEvent('event_1'))?.remindersSent).toEqual([1440, 60]);
+  });
+
+  test('start and complete an event at its times, then stop checking it', async () => {
+    const store = new MemoryGroupStore();
+    await store.saveEvent(event({ remindersSent: [1440, 60], endTime: minutesAfter(90) }));
+    const { events, reminders, statuses } = scheduler(store);
+
+    await events.checkEvents(minutesAfter(1));
+    await events.checkEvents(minutesAfter(30));
+    await events.checkEvents(minutesAfter(90));
+    await events.checkEvents(minutesAfter(120));
+
+    expect(statuses.map(status => [status.previous, status.event.status])).toEqual([
+      ['confirmed', 'in_progress'],
+      ['in_progress', 'completed'],
+    ]);
+    expect(reminders).toEqual([]);
+    expect(await store.listScheduledEvents()).toEqual([]);
+  });
+
+  test('skip straight to completed and send no reminders once the event is over', async () => {
+    const store = new MemoryGroupStore();
+    await store.saveEvent(event({ status: 'planning' }));
+    const { events, reminders, statuses } = scheduler(store);
+
+    await events.checkEvents(minutesAfter(4 * 60));
+
+    expect(statuses.map(status => [status.previous, status.event.status])).toEqual([['planning', 'completed']]);
+    expect(reminders).toEqual([]);
+  });
+
+  test('leave cancelled events alone', async () => {
+    const store = new MemoryGroupStore();
+    await store.saveEvent(event({ status: 'cancelled' }));
+    const { events, reminders, statuses } = scheduler(store);
+
+    await events.checkEvents(minutesBefore(30));
+    await events.checkEvents(minutesAfter(30));
+
+    expect(reminders).toEqual([]);
+    expect(statuses).toEqual([]);
+  });
+
+  test('keep checking other events when one cannot be saved', async () => {
+    const store = new MemoryGroupStore();
+    await store.saveEvent(event({ id: 'event_broken', dateTime: minutesBefore(10) }));
+    await store.saveEvent(event({ id: 'event_ok' }));
+    const saveEvent = store.saveEvent.bind(store);
+    store.saveEvent = async plan => {
+      if (plan.id === 'event_broken') throw new Error('disk full');
+      return saveEvent(plan);
+    };
+    const { events, reminders } = scheduler(store);
+
+    await events.checkEvents(minutesBefore(30));
+
+    expect(reminders.map(reminder => reminder.event.id)).toEqual(['event_ok']);
+  });
+
+  test('check events on its own once started', async () => {
+    const store = new MemoryGroupStore();
+    await store.saveEvent(event({ dateTime: new Date(Date.now() + 30 * 60 * 1000) }));
+    const { events, reminders } = scheduler(store, 5);
+
+    events.start();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    events.stop();
+
+    expect(reminders.map(reminder => reminder.minutesBefore)).toEqual([60]);
+  });
+});
+
+describe('event scheduling helpers', () => {
+  test('parse reminder offsets largest first, dropping invalid ones', () => {
+    expect(parseReminderOffsets(undefined)).toEqual([1440, 60]);
+    expect(parseReminderOffsets('15, 60,abc,-5,60')).toEqual([60, 15]);
+  });
+
+  test('end an event without an end time after the default duration', () => {
+    expect(eventStatusAt(event(), minutesAfter(179))).toBe('in_progress');
+    expect(eventStatusAt(event(), minutesAfter(180))).toBe('completed');
+    expect(eventStatusAt(event({ status: 'planning' }), minutesBefore(1))).toBe('planning');
+  });
+
+  test('round the time left to the largest whole unit', () => {
+    expect(formatTimeUntil(36 * 60 * 60 * 1000)).toBe('2 days');
+    expect(formatTimeUntil(60 * 60 * 1000)).toBe('1 hour');
+    expect(formatTimeUntil(10 * 1000)).toBe('1 minute');
+  });
+});
@@ -0,0 +1,214 @@
+import { EventEmitter } from 'events';
+import winston from 'winston';
+import { EventPlan, EventRsvp, GroupStore } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// How long an event without an end time runs before it is completed
+export const DEFAULT_EVENT_DURATION_MS = 3 * HOUR_MS;
+
+export interface EventStatusEvent {
+  event: EventPlan;
+  previous: EventPlan['status'];
+}
+
+export interface EventReminderEvent {
+  event: EventPlan;
+  minutesBefore: number;
+}
+
+export interface EventSchedulerOptions {
+  store: GroupStore;
+  logger: winston.Logger;
+  reminderOffsetsMinutes?: number[];
+  pollIntervalMs?: number;
+}
+
+/**
+ * Reminder offsets from EVENT_REMINDER_OFFSETS_MINUTES, e.g. "1440,60" for a day and an hour
+ * before. Largest first; invalid entries are dropped.
+ */
+export function parseReminderOffsets(value: string | undefined): number[] {
+  const offsets = (value ?? '1440,60')
+    .split(',')
+    .map(entry => Number(entry.trim()))
+    .filter(offset => Number.isFinite(offset) && offset > 0);
+  return Array.from(new Set(offsets)).sort((a, b) => b - a);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Date and time in a time zone, falling back to UTC for zones the runtime does not know
+ */
+export function formatEventTime(date: Date, timeZone: string = 'UTC'): string {
+  return date.toLocaleString('en-US', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : 'UTC',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+}
+
+/**
+ * Rough time left, e.g. "2 days", "3 hours", "45 minutes"
+ */
+export function formatTimeUntil(ms: number): string {
+  const [value, unit]: [number, string] = ms >= DAY_MS
+    ? [Math.round(ms / DAY_MS), 'day']
+    : ms >= HOUR_MS
+      ? [Math.round(ms / HOUR_MS), 'hour']
+      : [Math.max(1, Math.round(ms / MINUTE_MS)), 'minute'];
+  return `${value} ${unit}${value === 1 ? '' : 's'}`;
+}
+
+export function eventEndTime(event: Pick<EventPlan, 'dateTime' | 'endTime'>): Date {
+  return event.endTime ?? new Date(event.dateTime.getTime() + DEFAULT_EVENT_DURATION_MS);
+}
+
+/**
+ * Status an event should have at `now`: in progress from its start, completed from its end.
+ * Cancelled and completed events stay as they are.
+ */
+export function eventStatusAt(event: Pick<EventPlan, 'status' | 'dateTime' | 'endTime'>, now: Date): EventPlan['status'] {
+  if (event.status === 'cancelled' || event.status === 'completed') return event.status;
+  if (now >= eventEndTime(event)) return 'completed';
+  if (now >= event.dateTime) return 'in_progress';
+  return event.status;
+}
+
+/**
+ * Participant an RSVP is for, matched case-insensitively against the event's list
+ */
+export function findParticipant(event: Pick<EventPlan, 'participants'>, participant: string): string | undefined {
+  return event.participants.find(p => p.toLowerCase() === participant.toLowerCase());
+}
+
+export function rsvpCounts(event: Pick<EventPlan, 'participants' | 'rsvps'>): Record<EventRsvp | 'pending', number> {
+  const counts = { yes: 0, no: 0, maybe: 0, pending: 0 };
+  for (const participant of event.participants) {
+    counts[event.rsvps[participant] ?? 'pending'] += 1;
+  }
+  return counts;
+}
+
+/**
+ * Chat-friendly event summary with times in the reader's time zone
+ */
+export function describeEvent(event: EventPlan, timeZone: string = 'UTC'): string {
+  const counts = rsvpCounts(event);
+  return `📅 ${event.title} (${event.id}) - ${event.status}
+🗓️ ${formatEventTime(event.dateTime, timeZone)} → ${formatEventTime(eventEndTime(event), timeZone)}
+📍 ${event.location || 'TBD'}
+👥 RSVPs: ${counts.yes} yes, ${counts.maybe} maybe, ${counts.no} no, ${counts.pending} pending${event.budget ? `\n💰 Budget: ${event.budget} USDC` : ''}`;
+}
+
+/**
+ * Moves events through their lifecycle and sends reminders. Events live in the GroupStore,
+ * so transitions and reminders already sent survive restarts; reminders that came due while
+ * the server was down collapse into one. Emits `status` with an EventStatusEvent when an event
+ * starts or ends and `reminder` with an EventReminderEvent before it starts.
+ */
+export class EventScheduler extends EventEmitter {
+  private store: GroupStore;
+  private logger: winston.Logger;
+  private reminderOffsetsMinutes: number[];
+  private pollIntervalMs: number;
+  private pollInterval?: NodeJS.Timeout;
+  private isRunning = false;
+
+  constructor(options: EventSchedulerOptions) {
+    super();
+    this.store = options.store;
+    this.logger = options.logger;
+    this.reminderOffsetsMinutes = options.reminderOffsetsMinutes ?? parseReminderOffsets(undefined);
+    this.pollIntervalMs = options.pollIntervalMs ?? 60000;
+  }
+
+  /**
+   * Reminder offsets (minutes before start) whose time has come but not yet the start itself
+   */
+  remindersDue(event: Pick<EventPlan, 'dateTime' | 'remindersSent'>, now: Date): number[] {
+    if (now >= event.dateTime) return [];
+    return this.reminderOffsetsMinutes.filter(offset =>
+      !event.remindersSent.includes(offset) && now.getTime() >= event.dateTime.getTime() - offset * MINUTE_MS
+    );
+  }
+
+  /**
+   * Start checking events
+   */
+  start(): void {
+    if (this.pollInterval) return;
+
+    this.pollInterval = setInterval(() => {
+      this.checkEvents().catch(error => {
+        this.logger.error('Event scheduler tick failed', { error });
+      });
+    }, this.pollIntervalMs);
+  }
+
+  /**
+   * Stop checking events
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
+
+  /**
+   * Apply due status transitions and send due reminders for every scheduled event
+   */
+  async checkEvents(now: Date = new Date()): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      for (const event of await this.store.listScheduledEvents()) {
+        try {
+          await this.checkEvent(event, now);
+        } catch (error) {
+          this.logger.warn('Could not check event', { error, eventId: event.id });
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async checkEvent(event: EventPlan, now: Date): Promise<void> {
+    const previous = event.status;
+    const status = eventStatusAt(event, now);
+    const due = this.remindersDue(event, now);
+    if (status === previous && due.length === 0) return;
+
+    // Saved before anything is sent so a crash can never repeat a reminder
+    event.status = status;
+    event.remindersSent = [...event.remindersSent, ...due];
+    await this.store.saveEvent(event);
+
+    if (due.length > 0) {
+      this.emit('reminder', { event, minutesBefore: Math.min(...due) } as EventReminderEvent);
+    }
+    if (status !== previous) {
+      this.logger.info('Event status changed', { eventId: event.id, previous, status });
+      this.emit('status', { event, previous } as EventStatusEvent);
+    }
+  }
+}
+
+export default EventScheduler;
@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'bun:test';
+import { computeGroupBalances, describeGroupBalances, simplifyDebts } from './group-ledger';
+import { Expense } from '../types';
+
+let sequence = 0;
+
+function expense(amount: number, paidBy: string, sharedWith: string[]): Expense {
+  sequence += 1;
+  return {
+    id: `expense_${sequence}`,
+    conversationId: 'group',
+    description: `expense ${sequence}`,
+    amount,
+    currency: 'USDC',
+    paidBy,
+    sharedWith,
+    category: 'general',
+    timestamp: new Date(),
+  };
+}
+
+const totalCents = (balances: Array<{ net: number }>) => balances.reduce((sum, b) => sum + Math.round(b.net * 100), 0);
+
+describe('computeGroupBalances', () => {
+  test('give leftover cents to the first participants', () => {
+    const balances = computeGroupBalances([expense(10, 'alice', ['alice', 'bob', 'carol'])]);
+
+    expect(balances).toEqual([
+      { participant: 'alice', net: 6.66 },
+      { participant: 'bob', net: -3.33 },
+      { participant: 'carol', net: -3.33 },
+    ]);
+  });
+
+  test('merge addresses that differ only in case, keeping the first spelling', () => {
+    const balances = computeGroupBalances([
+      expense(30, '0xAbC', ['0xabc', '0xDEF']),
+      expense(10, '0xdef', ['0xABC']),
+    ]);
+
+    expect(balances).toEqual([
+      { participant: '0xAbC', net: 5 },
+      { participant: '0xDEF', net: -5 },
+    ]);
+  });
+
+  test('net every set of expenses to zero', () => {
+    const people = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+    const expenses = [
+      expense(0.01, 'a', ['b', 'c']),
+      expense(100, 'b', people),
+      expense(33.33, 'c', ['a', 'd', 'e']),
+      expense(7.77, 'g', ['f', 'g']),
+      expense(12.345, 'e', people.slice(1)),
+    ];
+
+    for (let i = 1; i <= expenses.length; i++) {
+      expect(totalCents(computeGroupBalances(expenses.slice(0, i)))).toBe(0);
+    }
+  });
+
+  test('ignore expenses shared with nobody', () => {
+    expect(computeGroupBalances([expense(20, 'alice', [])])).toEqual([]);
+  });
+});
+
+describe('simplifyDebts', () => {
+  const balances = computeGroupBalances([
+    expense(120, 'alice', ['alice', 'bob', 'carol', 'dave', 'erin']),
+    expense(45.5, 'bob', ['carol', 'dave']),
+    expense(9.99, 'erin', ['alice', 'bob', 'carol']),
+  ]);
+
+  test('settle everyone in at most one transfer fewer than the people involved', () => {
+    const settlements = simplifyDebts(balances);
+    const open = balances.filter(b => b.net !== 0);
+
+    expect(settlements.length).toBeLessThanOrEqual(open.length - 1);
+    expect(settlements.every(s => s.amount > 0)).toBe(true);
+  });
+
+  test('leave every balance at zero once the transfers are made', () => {
+    const remaining = new Map(balances.map(b => [b.participant, Math.round(b.net * 100)]));
+    for (const settlement of simplifyDebts(balances)) {
+      const cents = Math.round(settlement.amount * 100);
+      remaining.set(settlement.from, remaining.get(settlement.from)! + cents);
+      remaining.set(settlement.to, remaining.get(settlement.to)! - cents);
+    }
+
+    expect(Array.from(remaining.values()).every(cents => cents === 0)).toBe(true);
+  });
+
+  test('describe a settled group', () => {
+    expect(describeGroupBalances(computeGroupBalances([expense(10, 'alice', ['alice'])]), 'USDC')).toBe('Everyone is settled up.');
+  });
+});
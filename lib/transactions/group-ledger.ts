@@ -0,0 +1,83 @@
+import { Expense } from '../types';
+
+export interface Settlement {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export interface GroupBalance {
+  participant: string;
+  net: number; // positive when the group owes them, negative when they owe the group
+}
+
+/**
+ * Net position of every participant across a set of expenses: what they paid less their
+ * share of everything. Shares are split evenly in cents, leftover cents going to the first
+ * participants, so every expense nets to exactly zero. Addresses compare case-insensitively;
+ * the first spelling seen is kept.
+ */
+export function computeGroupBalances(expenses: Expense[]): GroupBalance[] {
+  const cents: Map<string, number> = new Map();
+  const names: Map<string, string> = new Map();
+  const add = (participant: string, amount: number) => {
+    const key = participant.toLowerCase();
+    if (!names.has(key)) names.set(key, participant);
+    cents.set(key, (cents.get(key) ?? 0) + amount);
+  };
+
+  for (const expense of expenses) {
+    if (expense.sharedWith.length === 0) continue;
+
+    const total = Math.round(expense.amount * 100);
+    const each = Math.floor(total / expense.sharedWith.length);
+    const leftover = total - each * expense.sharedWith.length;
+    add(expense.paidBy, total);
+    expense.sharedWith.forEach((participant, i) => add(participant, -(each + (i < leftover ? 1 : 0))));
+  }
+
+  return Array.from(cents.entries())
+    .map(([key, net]) => ({ participant: names.get(key)!, net: net / 100 }))
+    .sort((a, b) => b.net - a.net);
+}
+
+/**
+ * Fewest transfers that settle the balances: the largest debtor repeatedly pays the largest
+ * creditor, so everyone is settled in at most one transfer fewer than there are people with
+ * a non-zero balance
+ */
+export function simplifyDebts(balances: GroupBalance[]): Settlement[] {
+  const creditors = balances.filter(b => b.net > 0).map(b => ({ participant: b.participant, cents: Math.round(b.net * 100) }));
+  const debtors = balances.filter(b => b.net < 0).map(b => ({ participant: b.participant, cents: Math.round(-b.net * 100) }));
+  const settlements: Settlement[] = [];
+
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.cents - a.cents);
+    debtors.sort((a, b) => b.cents - a.cents);
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const cents = Math.min(creditor.cents, debtor.cents);
+
+    settlements.push({ from: debtor.participant, to: creditor.participant, amount: cents / 100 });
+    creditor.cents -= cents;
+    debtor.cents -= cents;
+    if (creditor.cents === 0) creditors.shift();
+    if (debtor.cents === 0) debtors.shift();
+  }
+
+  return settlements;
+}
+
+/**
+ * Chat-friendly group balances with the transfers that would settle them
+ */
+export function describeGroupBalances(balances: GroupBalance[], currency: string): string {
+  const open = balances.filter(b => Math.abs(b.net) >= 0.005);
+  if (open.length === 0) return 'Everyone is settled up.';
+
+  const settlements = simplifyDebts(open);
+  return `${open.map(b => `• ${b.participant}: ${b.net > 0 ? `is owed ${b.net.toFixed(2)}` : `owes ${(-b.net).toFixed(2)}`} ${currency}`).join('\n')}
+
+Settle up in ${settlements.length} transfer${settlements.length === 1 ? '' : 's'}:
+${settlements.map(s => `• ${s.from} → ${s.to}: ${s.amount.toFixed(2)} ${currency}`).join('\n')}`;
+}
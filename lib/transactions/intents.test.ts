@@ -0,0 +1,19 @@
+import { describe, expect, test } from 'bun:test';
+import { SWAP_ACTION, isValueMovingAction } from './intents';
+
+describe('isValueMovingAction', () => {
+  test('treat every action not known to be read-only as moving value', () => {
+    for (const action of [
+      SWAP_ACTION,
+      'ERC20ActionProvider_transfer',
+      'Erc721ActionProvider_transfer',
+      'Erc721ActionProvider_mint',
+      'OpenseaActionProvider_list_nft',
+      'SomeNewActionProvider_do_something',
+    ]) {
+      expect(isValueMovingAction(action)).toBe(true);
+    }
+    expect(isValueMovingAction('ERC20ActionProvider_get_balance')).toBe(false);
+    expect(isValueMovingAction('PythActionProvider_fetch_price')).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { formatEther, formatUnits } from 'viem';
+import { TransactionIntent } from '../types';
+import { NetworkInfo, findToken } from '../trading/networks';
+
+/**
+ * AgentKit action used for token swaps
+ */
+export const SWAP_ACTION = 'CdpWalletActionProvider_trade';
+
+/**
+ * AgentKit actions (as exposed to LangChain) known to only read. Every other action - NFT
+ * transfers, mints and listings, lending deposits, actions added by a new provider - is treated
+ * as able to move value out of the agent wallet and needs confirmation.
+ */
+export const READ_ONLY_ACTIONS = new Set([
+  'WalletActionProvider_get_wallet_details',
+  'ERC20ActionProvider_get_balance',
+  'Erc721ActionProvider_get_balance',
+  'PythActionProvider_fetch_price_feed',
+  'PythActionProvider_fetch_price',
+  'CdpApiActionProvider_address_reputation',
+  'OpenseaActionProvider_get_nfts_by_account',
+  'AlloraActionProvider_get_all_topics',
+  'AlloraActionProvider_get_inference_by_topic_id',
+  'AlloraActionProvider_get_price_inference',
+  'DefiLlamaActionProvider_find_protocol',
+  'DefiLlamaActionProvider_get_protocol',
+  'DefiLlamaActionProvider_get_token_prices',
+  'MessariActionProvider_research_question',
+  'TwitterActionProvider_account_details',
+  'TwitterActionProvider_account_mentions',
+]);
+
+export function isValueMovingAction(action: string): boolean {
+  return !READ_ONLY_ACTIONS.has(action);
+}
+
+/**
+ * Translate the arguments of a value-moving AgentKit action into a TransactionIntent
+ */
+export function extractTransactionIntent(
+  action: string,
+  args: Record<string, unknown>,
+  userId: string,
+  network: NetworkInfo
+): TransactionIntent | null {
+  switch (action) {
+    case 'WalletActionProvider_native_transfer':
+      return {
+        kind: 'transfer',
+        action,
+        fromToken: network.nativeSymbol,
+        amount: Number(args.value),
+        recipient: String(args.to),
+        userId,
+        network: network.id,
+      };
+    case 'ERC20ActionProvider_transfer': {
+      const token = findToken(network, String(args.contractAddress));
+      return {
+        kind: 'transfer',
+        action,
+        fromToken: token?.symbol || String(args.contractAddress),
+        amount: token ? Number(formatUnits(BigInt(String(args.amount)), token.decimals)) : Number(args.amount),
+        recipient: String(args.destination),
+        userId,
+        network: network.id,
+      };
+    }
+    case SWAP_ACTION:
+      return {
+        kind: 'swap',
+        action,
+        fromToken: String(args.fromAssetId).toUpperCase(),
+        toToken: String(args.toAssetId).toUpperCase(),
+        amount: Number(args.amount),
+        userId,
+        network: network.id,
+      };
+    case 'WethActionProvider_wrap_eth':
+      return {
+        kind: 'wrap',
+        action,
+        fromToken: 'ETH',
+        toToken: 'WETH',
+        amount: Number(formatEther(BigInt(String(args.amountToWrap)))),
+        userId,
+        network: network.id,
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * One-line human readable description of an intent, e.g. "Swap 0.5 ETH → USDC (~$1,500.00)"
+ */
+export function describeTransactionIntent(intent: TransactionIntent, usdValue?: number | null): string {
+  const usd = usdValue != null ? ` (~$${usdValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })})` : '';
+
+  switch (intent.kind) {
+    case 'swap':
+      return `Swap ${intent.amount} ${intent.fromToken} → ${intent.toToken}${usd}`;
+    case 'wrap':
+      return `Wrap ${intent.amount} ${intent.fromToken} → ${intent.toToken}${usd}`;
+    default:
+      return `Transfer ${intent.amount} ${intent.fromToken} to ${intent.recipient}${usd}`;
+  }
+}
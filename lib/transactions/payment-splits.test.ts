@@ -0,0 +1,172 @@
+import { describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { PublicClient, getAddress, parseUnits } from 'viem';
+import { PaymentCollector, SplitPaymentEvent, computeSplitShares, describeSplit, paymentRequestUri, recordSplitPayment } from './payment-splits';
+import { findToken, getNetwork } from '../trading/networks';
+import { PaymentSplit } from '../types';
+
+const logger = winston.createLogger({ silent: true });
+const network = getNetwork('base-sepolia');
+const ALICE = '0x00000000000000000000000000000000000000a1';
+const BOB = '0x00000000000000000000000000000000000000b2';
+const CAROL = '0x00000000000000000000000000000000000000c3';
+const PAYEE = '0x00000000000000000000000000000000000000d4';
+
+function split(method: PaymentSplit['method'], participants: Parameters<typeof computeSplitShares>[1], totalAmount?: number): PaymentSplit {
+  const shares = computeSplitShares(method, participants, totalAmount);
+  return {
+    id: 'split-1',
+    description: 'Dinner',
+    totalAmount: shares.totalAmount,
+    currency: 'USDC',
+    participants: shares.participants,
+    method,
+    status: 'pending',
+    payee: PAYEE,
+    network: network.id,
+    createdBy: 'alice',
+    conversationId: 'conversation',
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+}
+
+describe('computeSplitShares', () => {
+  test('hand the leftover cents of an equal split to the first participants', () => {
+    const { totalAmount, participants } = computeSplitShares('equal', [{ address: ALICE }, { address: BOB }, { address: CAROL }], 100);
+
+    expect(participants.map(p => p.amount)).toEqual([33.34, 33.33, 33.33]);
+    expect(totalAmount).toBe(100);
+    expect(participants[0]).toEqual({ address: getAddress(ALICE), amount: 33.34, percent: undefined, paidAmount: 0, paid: false });
+  });
+
+  test('let the last participant of a percentage split absorb the rounding', () => {
+    const rounded = computeSplitShares('percentage', [{ address: ALICE, percent: 33.33 }, { address: BOB, percent: 33.33 }, { address: CAROL, percent: 33.34 }], 10);
+    expect(rounded.participants.map(p => [p.amount, p.percent])).toEqual([[3.33, 33.33], [3.33, 33.33], [3.34, 33.34]]);
+
+    // 2.5 cents each rounds up for both, so the last gives a cent back
+    const overshoot = computeSplitShares('percentage', [{ address: ALICE, percent: 50 }, { address: BOB, percent: 50 }], 0.05);
+    expect(overshoot.participants.map(p => p.amount)).toEqual([0.03, 0.02]);
+    expect(overshoot.totalAmount).toBe(0.05);
+  });
+
+  test('take custom amounts as given and check them against the total', () => {
+    const { totalAmount, participants } = computeSplitShares('custom', [{ address: ALICE, amount: 12.5 }, { address: BOB, amount: 7.5 }]);
+    expect(participants.map(p => p.amount)).toEqual([12.5, 7.5]);
+    expect(totalAmount).toBe(20);
+
+    expect(() => computeSplitShares('custom', [{ address: ALICE, amount: 12.5 }, { address: BOB, amount: 7.5 }], 25))
+      .toThrow('Custom amounts add up to 20, not the total of 25');
+  });
+
+  test('reject participants and shares that cannot be split', () => {
+    expect(() => computeSplitShares('equal', [], 10)).toThrow('A split needs at least one participant');
+    expect(() => computeSplitShares('equal', [{ address: 'alice.eth' }], 10)).toThrow('Invalid participant address: alice.eth');
+    expect(() => computeSplitShares('equal', [{ address: ALICE }, { address: ALICE.toUpperCase().replace('0X', '0x') }], 10))
+      .toThrow('Each participant can only appear once in a split');
+    expect(() => computeSplitShares('equal', [{ address: ALICE }], 0)).toThrow('An equal split needs a total amount greater than zero');
+    expect(() => computeSplitShares('percentage', [{ address: ALICE, percent: 60 }, { address: BOB, percent: 30 }], 10))
+      .toThrow('Percentages must add up to 100 (got 90)');
+    expect(() => computeSplitShares('custom', [{ address: ALICE, amount: 5 }, { address: BOB }]))
+      .toThrow('Every participant of a custom split needs an amount greater than zero');
+  });
+});
+
+describe('recordSplitPayment', () => {
+  test('credit partial payments until the share is covered', () => {
+    const dinner = split('equal', [{ address: ALICE }, { address: BOB }], 20);
+    const now = new Date(1000);
+
+    const partial = recordSplitPayment(dinner, ALICE, 4, '0x01', now);
+    expect(partial).toMatchObject({ paidAmount: 4, paid: false });
+    expect(dinner.status).toBe('partial');
+    expect(describeSplit(dinner)).toContain(`⏳ ${getAddress(ALICE)}: owes 10.00 USDC, 4.00 received`);
+
+    const settled = recordSplitPayment(dinner, ALICE.toUpperCase().replace('0X', '0x'), 6, '0x02', now);
+    expect(settled).toMatchObject({ paidAmount: 10, paid: true, transactionHash: '0x02', paidAt: now });
+    expect(dinner.status).toBe('partial');
+
+    recordSplitPayment(dinner, BOB, 10, '0x03', now);
+    expect(dinner.status).toBe('completed');
+    expect(dinner.updatedAt).toBe(now);
+  });
+
+  test('ignore payments from someone who owes nothing', () => {
+    const dinner = split('equal', [{ address: ALICE }], 10);
+
+    expect(recordSplitPayment(dinner, CAROL, 10, '0x01')).toBeUndefined();
+    recordSplitPayment(dinner, ALICE, 10, '0x02');
+    expect(recordSplitPayment(dinner, ALICE, 10, '0x03')).toBeUndefined();
+    expect(dinner.participants[0].paidAmount).toBe(10);
+  });
+});
+
+describe('paymentRequestUri', () => {
+  test('encode the token transfer in base units', () => {
+    const usdc = findToken(network, 'USDC')!;
+
+    expect(paymentRequestUri(network, usdc, PAYEE, 12.5))
+      .toBe(`ethereum:${usdc.address}@${network.chain.id}/transfer?address=${getAddress(PAYEE)}&uint256=12500000`);
+  });
+});
+
+describe('PaymentCollector', () => {
+  interface TransferLog {
+    from: string;
+    value: bigint;
+    block: bigint;
+    hash: string;
+  }
+
+  function collector(chain: { latestBlock: bigint; transfers: TransferLog[] }) {
+    const ranges: Array<[bigint, bigint]> = [];
+    const client = {
+      getBlockNumber: async () => chain.latestBlock,
+      getLogs: async ({ args, fromBlock, toBlock }: { args: { from: string[] }; fromBlock: bigint; toBlock: bigint }) => {
+        ranges.push([fromBlock, toBlock]);
+        return chain.transfers
+          .filter(log => log.block >= fromBlock && log.block <= toBlock && args.from.includes(getAddress(log.from)))
+          .map(log => ({ args: { from: log.from, value: log.value }, transactionHash: log.hash }));
+      },
+    } as unknown as PublicClient;
+    return { payments: new PaymentCollector({ logger, network, createClient: () => client }), ranges };
+  }
+
+  test('credit transfers from participants since the last check and stop once everyone has paid', async () => {
+    const chain = { latestBlock: BigInt(100), transfers: [] as TransferLog[] };
+    const { payments, ranges } = collector(chain);
+    const dinner = split('equal', [{ address: ALICE }, { address: BOB }], 20);
+    const received: SplitPaymentEvent[] = [];
+    const completed: PaymentSplit[] = [];
+    payments.on('payment', event => received.push(event));
+    payments.on('completed', done => completed.push(done));
+
+    await payments.watch(dinner);
+    chain.latestBlock = BigInt(105);
+    chain.transfers.push({ from: ALICE, value: parseUnits('10', 6), block: BigInt(103), hash: '0xa' });
+    await payments.checkPayments();
+
+    expect(ranges).toEqual([[BigInt(101), BigInt(105)]]);
+    expect(received.map(event => [event.participant.address, event.amount, event.txHash])).toEqual([[getAddress(ALICE), 10, '0xa']]);
+    expect(dinner.status).toBe('partial');
+
+    chain.latestBlock = BigInt(110);
+    chain.transfers.push({ from: BOB, value: parseUnits('10', 6), block: BigInt(108), hash: '0xb' });
+    await payments.checkPayments();
+
+    expect(ranges[1]).toEqual([BigInt(106), BigInt(110)]);
+    expect(received).toHaveLength(2);
+    expect(completed).toEqual([dinner]);
+
+    chain.latestBlock = BigInt(120);
+    await payments.checkPayments();
+    expect(ranges).toHaveLength(2);
+  });
+
+  test('refuse to watch a split in a token the network does not know', async () => {
+    const { payments } = collector({ latestBlock: BigInt(1), transfers: [] });
+
+    await expect(payments.watch({ ...split('equal', [{ address: ALICE }], 10), currency: 'PEPE' }))
+      .rejects.toThrow('PEPE is not a known token on base-sepolia');
+  });
+});
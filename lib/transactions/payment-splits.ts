@@ -0,0 +1,287 @@
+import { EventEmitter } from 'events';
+import winston from 'winston';
+import { PublicClient, formatUnits, getAddress, isAddress, parseAbiItem, parseUnits } from 'viem';
+import { PaymentParticipant, PaymentSplit } from '../types';
+import { NetworkInfo, TokenInfo, createNetworkClient, findToken } from '../trading/networks';
+
+const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
+
+export interface SplitParticipantInput {
+  address: string;
+  amount?: number; // custom splits
+  percent?: number; // percentage splits
+}
+
+export interface SplitPaymentEvent {
+  split: PaymentSplit;
+  participant: PaymentParticipant;
+  amount: number;
+  txHash: string;
+}
+
+export interface PaymentCollectorOptions {
+  logger: winston.Logger;
+  network: NetworkInfo;
+  createClient?: (network: NetworkInfo) => PublicClient;
+  pollIntervalMs?: number;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * What each participant owes, in cents so the shares add up to the total exactly. Equal
+ * splits hand leftover cents to the first participants; percentage splits round every share
+ * and let the last absorb the difference.
+ */
+export function computeSplitShares(
+  method: PaymentSplit['method'],
+  participants: SplitParticipantInput[],
+  totalAmount?: number
+): { totalAmount: number; participants: PaymentParticipant[] } {
+  if (participants.length === 0) {
+    throw new Error('A split needs at least one participant');
+  }
+  const invalid = participants.find(p => !isAddress(p.address, { strict: false }));
+  if (invalid) {
+    throw new Error(`Invalid participant address: ${invalid.address}`);
+  }
+  const addresses = participants.map(p => getAddress(p.address.toLowerCase()));
+  if (new Set(addresses).size !== addresses.length) {
+    throw new Error('Each participant can only appear once in a split');
+  }
+
+  let cents: number[];
+  switch (method) {
+    case 'equal': {
+      if (!(totalAmount && totalAmount > 0)) {
+        throw new Error('An equal split needs a total amount greater than zero');
+      }
+      const total = toCents(totalAmount);
+      const each = Math.floor(total / participants.length);
+      cents = participants.map((_, i) => each + (i < total - each * participants.length ? 1 : 0));
+      break;
+    }
+    case 'percentage': {
+      if (!(totalAmount && totalAmount > 0)) {
+        throw new Error('A percentage split needs a total amount greater than zero');
+      }
+      if (participants.some(p => !(p.percent && p.percent > 0))) {
+        throw new Error('Every participant of a percentage split needs a percentage greater than zero');
+      }
+      const percentTotal = participants.reduce((sum, p) => sum + p.percent!, 0);
+      if (Math.abs(percentTotal - 100) > 0.01) {
+        throw new Error(`Percentages must add up to 100 (got ${percentTotal})`);
+      }
+      const total = toCents(totalAmount);
+      cents = participants.map(p => Math.round((total * p.percent!) / 100));
+      cents[cents.length - 1] += total - cents.reduce((sum, c) => sum + c, 0);
+      break;
+    }
+    case 'custom': {
+      if (participants.some(p => !(p.amount && p.amount > 0))) {
+        throw new Error('Every participant of a custom split needs an amount greater than zero');
+      }
+      cents = participants.map(p => toCents(p.amount!));
+      const sum = cents.reduce((total, c) => total + c, 0);
+      if (totalAmount !== undefined && sum !== toCents(totalAmount)) {
+        throw new Error(`Custom amounts add up to ${sum / 100}, not the total of ${totalAmount}`);
+      }
+      break;
+    }
+  }
+
+  return {
+    totalAmount: cents.reduce((sum, c) => sum + c, 0) / 100,
+    participants: participants.map((p, i) => ({
+      address: addresses[i],
+      amount: cents[i] / 100,
+      percent: method === 'percentage' ? p.percent : undefined,
+      paidAmount: 0,
+      paid: false,
+    })),
+  };
+}
+
+/**
+ * Status from the participants: completed once everyone has paid, partial once anyone has
+ */
+export function splitStatus(split: Pick<PaymentSplit, 'participants'>): PaymentSplit['status'] {
+  if (split.participants.every(p => p.paid)) return 'completed';
+  return split.participants.some(p => p.paid || (p.paidAmount ?? 0) > 0) ? 'partial' : 'pending';
+}
+
+/**
+ * Credit an incoming payment to the participant who sent it. Returns the participant, or
+ * undefined when the sender owes nothing on this split.
+ */
+export function recordSplitPayment(split: PaymentSplit, from: string, amount: number, txHash: string, now: Date = new Date()): PaymentParticipant | undefined {
+  const participant = split.participants.find(p => !p.paid && p.address.toLowerCase() === from.toLowerCase());
+  if (!participant) return undefined;
+
+  participant.paidAmount = (participant.paidAmount ?? 0) + amount;
+  if (toCents(participant.paidAmount) >= toCents(participant.amount)) {
+    participant.paid = true;
+    participant.transactionHash = txHash;
+    participant.paidAt = now;
+  }
+  split.status = splitStatus(split);
+  split.updatedAt = now;
+  return participant;
+}
+
+/**
+ * EIP-681 link that opens a wallet with the token transfer to the payee filled in
+ */
+export function paymentRequestUri(network: NetworkInfo, token: TokenInfo, payee: string, amount: number): string {
+  const raw = parseUnits(amount.toFixed(token.decimals), token.decimals);
+  return `ethereum:${token.address}@${network.chain.id}/transfer?address=${getAddress(payee)}&uint256=${raw}`;
+}
+
+/**
+ * Chat-friendly summary of who has paid and who still owes
+ */
+export function describeSplit(split: PaymentSplit): string {
+  const paid = split.participants.filter(p => p.paid).length;
+  const lines = split.participants.map(p => {
+    const share = p.percent !== undefined ? ` (${p.percent}%)` : '';
+    if (p.paid) {
+      return `✅ ${p.address}: ${p.amount.toFixed(2)} ${split.currency}${share} paid${p.transactionHash ? ` (TX: ${p.transactionHash})` : ''}`;
+    }
+    const received = p.paidAmount ? `, ${p.paidAmount.toFixed(2)} received` : '';
+    return `⏳ ${p.address}: owes ${p.amount.toFixed(2)} ${split.currency}${share}${received}`;
+  });
+
+  return `Split ${split.id}${split.description ? ` - ${split.description}` : ''}
+Total: ${split.totalAmount.toFixed(2)} ${split.currency} (${split.method}), paid to ${split.payee}
+Status: ${split.status} (${paid}/${split.participants.length} paid)
+${lines.join('\n')}`;
+}
+
+/**
+ * Watches the payee of open splits for incoming token transfers from participants who still
+ * owe, crediting each to its split. Emits `payment` with a SplitPaymentEvent for every
+ * credited transfer and `completed` with the PaymentSplit once everyone has paid.
+ */
+export class PaymentCollector extends EventEmitter {
+  private logger: winston.Logger;
+  private network: NetworkInfo;
+  private client: PublicClient;
+  private pollIntervalMs: number;
+  private pollInterval?: NodeJS.Timeout;
+  private isChecking = false;
+  private splits: Map<string, PaymentSplit> = new Map();
+  private cursors: Map<string, bigint> = new Map(); // split id -> last block checked
+
+  constructor(options: PaymentCollectorOptions) {
+    super();
+    this.logger = options.logger;
+    this.network = options.network;
+    this.client = (options.createClient || createNetworkClient)(options.network);
+    this.pollIntervalMs = options.pollIntervalMs ?? 15000;
+  }
+
+  /**
+   * Start watching a split for payments made from now on
+   */
+  async watch(split: PaymentSplit): Promise<void> {
+    if (!findToken(this.network, split.currency)) {
+      throw new Error(`${split.currency} is not a known token on ${this.network.id}`);
+    }
+    this.splits.set(split.id, split);
+    try {
+      this.cursors.set(split.id, await this.client.getBlockNumber());
+    } catch (error) {
+      // Picked up from the latest block on the next check instead
+      this.logger.warn('Could not read the block number for a new split', { error, splitId: split.id });
+    }
+  }
+
+  unwatch(splitId: string): void {
+    this.splits.delete(splitId);
+    this.cursors.delete(splitId);
+  }
+
+  /**
+   * Start polling for payments
+   */
+  start(): void {
+    if (this.pollInterval) return;
+
+    this.pollInterval = setInterval(() => {
+      this.checkPayments().catch(error => {
+        this.logger.error('Payment collector tick failed', { error });
+      });
+    }, this.pollIntervalMs);
+  }
+
+  /**
+   * Stop polling for payments
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
+
+  /**
+   * Read the transfers to every watched split's payee since its last check
+   */
+  async checkPayments(): Promise<void> {
+    if (this.isChecking || this.splits.size === 0) return;
+    this.isChecking = true;
+
+    try {
+      const latest = await this.client.getBlockNumber();
+      for (const split of Array.from(this.splits.values())) {
+        const cursor = this.cursors.get(split.id);
+        if (cursor === undefined) {
+          this.cursors.set(split.id, latest);
+          continue;
+        }
+        if (cursor >= latest) continue;
+
+        try {
+          await this.checkSplit(split, cursor + BigInt(1), latest);
+          this.cursors.set(split.id, latest);
+        } catch (error) {
+          this.logger.warn('Could not check split payments', { error, splitId: split.id });
+        }
+      }
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async checkSplit(split: PaymentSplit, fromBlock: bigint, toBlock: bigint): Promise<void> {
+    const token = findToken(this.network, split.currency)!;
+    const owing = split.participants.filter(p => !p.paid).map(p => getAddress(p.address));
+    if (owing.length === 0) return;
+
+    const logs = await this.client.getLogs({
+      address: token.address,
+      event: TRANSFER_EVENT,
+      args: { from: owing, to: getAddress(split.payee) },
+      fromBlock,
+      toBlock,
+    });
+
+    for (const log of logs) {
+      if (!log.args.from || log.args.value === undefined || !log.transactionHash) continue;
+
+      const amount = Number(formatUnits(log.args.value, token.decimals));
+      const participant = recordSplitPayment(split, log.args.from, amount, log.transactionHash);
+      if (!participant) continue;
+
+      this.logger.info('Split payment received', { splitId: split.id, from: participant.address, amount, txHash: log.transactionHash });
+      this.emit('payment', { split, participant, amount, txHash: log.transactionHash } as SplitPaymentEvent);
+      if (split.status === 'completed') {
+        this.unwatch(split.id);
+        this.emit('completed', split);
+        break;
+      }
+    }
+  }
+}
+
+export default PaymentCollector;
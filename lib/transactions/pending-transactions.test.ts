@@ -0,0 +1,116 @@
+import { describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { PendingTransactionStore, ProposeTransactionParams, parseConfirmationCommand } from './pending-transactions';
+
+const logger = winston.createLogger({ silent: true });
+
+function propose(store: PendingTransactionStore, overrides: Partial<ProposeTransactionParams> = {}) {
+  let runs = 0;
+  const transaction = store.propose({
+    agentName: 'TradingAgent',
+    userId: 'alice',
+    conversationId: 'conversation',
+    action: 'trade',
+    summary: 'Swap 1 ETH for USDC',
+    execute: async () => {
+      runs += 1;
+      return 'Traded 1 ETH';
+    },
+    ...overrides,
+  });
+  return { transaction, runs: () => runs };
+}
+
+describe('parseConfirmationCommand', () => {
+  test('read confirm and cancel replies and their synonyms', () => {
+    expect(parseConfirmationCommand('Confirm #A1B2C3')).toEqual({ verb: 'confirm', id: 'a1b2c3' });
+    expect(parseConfirmationCommand('reject a1b2c3 please')).toEqual({ verb: 'cancel', id: 'a1b2c3' });
+    expect(parseConfirmationCommand('confirm the swap')).toBeNull();
+  });
+});
+
+describe('PendingTransactionStore', () => {
+  test('execute a proposal once its user confirms it', async () => {
+    const store = new PendingTransactionStore({ logger });
+    const { transaction, runs } = propose(store);
+
+    const result = await store.confirm(transaction.id.toUpperCase(), 'alice');
+
+    expect(result).toMatchObject({ success: true, message: 'Traded 1 ETH' });
+    expect(store.get(transaction.id)?.status).toBe('executed');
+    expect(runs()).toBe(1);
+  });
+
+  test('refuse a confirmation or cancellation from another user', async () => {
+    const store = new PendingTransactionStore({ logger });
+    const { transaction, runs } = propose(store);
+
+    expect((await store.confirm(transaction.id, 'mallory')).success).toBe(false);
+    expect(store.cancel(transaction.id, 'mallory').message).toContain('only be confirmed or cancelled by the user who requested it');
+    expect(store.get(transaction.id)?.status).toBe('pending');
+    expect(runs()).toBe(0);
+  });
+
+  test('expire a proposal past its deadline', async () => {
+    const store = new PendingTransactionStore({ logger });
+    const { transaction, runs } = propose(store, { ttlMs: -1 });
+
+    const result = await store.confirm(transaction.id, 'alice');
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('expired');
+    expect(store.listPending()).toHaveLength(0);
+    expect(runs()).toBe(0);
+  });
+
+  test('run a proposal only once when it is confirmed twice while executing', async () => {
+    const store = new PendingTransactionStore({ logger });
+    let finish: (value: string) => void = () => {};
+    let runs = 0;
+    const { transaction } = propose(store, {
+      execute: () => {
+        runs += 1;
+        return new Promise<string>(resolve => { finish = resolve; });
+      },
+    });
+
+    const first = store.confirm(transaction.id, 'alice');
+    const second = await store.confirm(transaction.id, 'alice');
+    expect(second).toEqual({ success: false, message: `Transaction ${transaction.id} is already executing.` });
+    expect(store.cancel(transaction.id, 'alice').success).toBe(false);
+
+    finish('done');
+    expect((await first).success).toBe(true);
+    expect(runs).toBe(1);
+  });
+
+  test('record a failed execution and refuse to retry it', async () => {
+    const store = new PendingTransactionStore({ logger });
+    const { transaction } = propose(store, { execute: async () => { throw new Error('insufficient funds'); } });
+
+    expect(await store.confirm(transaction.id, 'alice')).toMatchObject({
+      success: false,
+      message: `Transaction ${transaction.id} failed: insufficient funds`,
+    });
+    expect((await store.confirm(transaction.id, 'alice')).message).toBe(`Transaction ${transaction.id} is already failed.`);
+  });
+
+  test('cancel a proposal so it can no longer be confirmed', async () => {
+    const store = new PendingTransactionStore({ logger });
+    const { transaction, runs } = propose(store);
+
+    expect(store.cancel(transaction.id, 'alice').success).toBe(true);
+    expect((await store.confirm(transaction.id, 'alice')).success).toBe(false);
+    expect(runs()).toBe(0);
+  });
+
+  test('list pending proposals by user and conversation', () => {
+    const store = new PendingTransactionStore({ logger });
+    propose(store);
+    propose(store, { userId: 'bob' });
+    propose(store, { conversationId: 'other' });
+
+    expect(store.listPending({ userId: 'alice' })).toHaveLength(2);
+    expect(store.listPending({ userId: 'alice', conversationId: 'conversation' })).toHaveLength(1);
+  });
+});
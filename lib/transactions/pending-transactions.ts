@@ -0,0 +1,233 @@
+import { randomBytes } from 'crypto';
+import winston from 'winston';
+import { AgentAction, AgentContext, AgentResponse, PendingTransaction } from '../types';
+
+export interface ProposeTransactionParams {
+  agentName: string;
+  userId: string;
+  conversationId: string;
+  action: string;
+  summary: string;
+  metadata?: Record<string, any>;
+  ttlMs?: number;
+  execute: () => Promise<string>;
+}
+
+export interface ConfirmationCommand {
+  verb: 'confirm' | 'cancel';
+  id: string;
+}
+
+export interface ConfirmationResult {
+  success: boolean;
+  message: string;
+  transaction?: PendingTransaction;
+}
+
+export interface PendingTransactionStoreOptions {
+  logger: winston.Logger;
+  defaultTtlMs?: number;
+}
+
+// How long settled proposals are kept around for lookups before being dropped
+const RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * Parse "confirm <id>" / "cancel <id>" replies (also "approve" / "reject")
+ */
+export function parseConfirmationCommand(text: string): ConfirmationCommand | null {
+  const match = text.trim().match(/^(confirm|approve|cancel|reject)\s+#?([a-f0-9]{6})\b/i);
+  if (!match) return null;
+
+  const verb = match[1].toLowerCase();
+  return {
+    verb: verb === 'confirm' || verb === 'approve' ? 'confirm' : 'cancel',
+    id: match[2].toLowerCase(),
+  };
+}
+
+/**
+ * AgentAction that lets clients render Approve / Cancel for a proposal
+ */
+export function toTransactionAction(transaction: PendingTransaction): AgentAction {
+  return {
+    type: 'transaction',
+    payload: {
+      proposalId: transaction.id,
+      summary: transaction.summary,
+      expiresAt: transaction.expiresAt.toISOString(),
+      agentName: transaction.agentName,
+    },
+    confirmation: true,
+  };
+}
+
+/**
+ * Holds value-moving transactions proposed by agents until the requesting user confirms them.
+ * Shared between agents so a confirmation can be routed to whichever agent made the proposal.
+ */
+export class PendingTransactionStore {
+  private logger: winston.Logger;
+  private defaultTtlMs: number;
+  private transactions: Map<string, PendingTransaction> = new Map();
+  private executors: Map<string, () => Promise<string>> = new Map();
+
+  constructor(options: PendingTransactionStoreOptions) {
+    this.logger = options.logger;
+    this.defaultTtlMs = options.defaultTtlMs ?? 10 * 60 * 1000;
+  }
+
+  /**
+   * Record a proposal. Nothing is executed until confirm() is called by the same user.
+   */
+  propose(params: ProposeTransactionParams): PendingTransaction {
+    this.prune();
+
+    let id: string;
+    do {
+      id = randomBytes(3).toString('hex');
+    } while (this.transactions.has(id));
+
+    const now = new Date();
+    const transaction: PendingTransaction = {
+      id,
+      agentName: params.agentName,
+      userId: params.userId,
+      conversationId: params.conversationId,
+      action: params.action,
+      summary: params.summary,
+      status: 'pending',
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + (params.ttlMs ?? this.defaultTtlMs)),
+      metadata: params.metadata,
+    };
+
+    this.transactions.set(id, transaction);
+    this.executors.set(id, params.execute);
+    this.logger.info('Transaction proposed', { proposalId: id, agentName: params.agentName, userId: params.userId, action: params.action });
+
+    return transaction;
+  }
+
+  /**
+   * Look up a proposal, marking it expired if its deadline has passed
+   */
+  get(id: string): PendingTransaction | undefined {
+    const transaction = this.transactions.get(id.toLowerCase());
+    if (transaction) this.expireIfDue(transaction);
+    return transaction;
+  }
+
+  /**
+   * Pending proposals, optionally filtered by user and/or conversation
+   */
+  listPending(filter: { userId?: string; conversationId?: string } = {}): PendingTransaction[] {
+    return Array.from(this.transactions.values()).filter(transaction => {
+      this.expireIfDue(transaction);
+      return transaction.status === 'pending'
+        && (!filter.userId || transaction.userId === filter.userId)
+        && (!filter.conversationId || transaction.conversationId === filter.conversationId);
+    });
+  }
+
+  /**
+   * Proposals an agent created in a conversation since the given time
+   */
+  createdSince(agentName: string, conversationId: string, since: Date): PendingTransaction[] {
+    return this.listPending({ conversationId }).filter(
+      transaction => transaction.agentName === agentName && transaction.createdAt >= since
+    );
+  }
+
+  /**
+   * Execute a proposal on behalf of the user who made it
+   */
+  async confirm(id: string, userId: string): Promise<ConfirmationResult> {
+    const transaction = this.get(id);
+    const rejection = this.checkActionable(transaction, userId);
+    if (rejection || !transaction) {
+      return { success: false, message: rejection || `No transaction ${id} found.` };
+    }
+
+    const execute = this.executors.get(transaction.id)!;
+    transaction.status = 'executing';
+    this.logger.info('Transaction confirmed', { proposalId: transaction.id, userId });
+
+    try {
+      transaction.result = await execute();
+      transaction.status = 'executed';
+      return { success: true, message: transaction.result, transaction };
+    } catch (error) {
+      transaction.status = 'failed';
+      transaction.result = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error('Confirmed transaction failed', { error, proposalId: transaction.id });
+      return { success: false, message: `Transaction ${transaction.id} failed: ${transaction.result}`, transaction };
+    } finally {
+      this.executors.delete(transaction.id);
+    }
+  }
+
+  /**
+   * Cancel a proposal on behalf of the user who made it
+   */
+  cancel(id: string, userId: string): ConfirmationResult {
+    const transaction = this.get(id);
+    const rejection = this.checkActionable(transaction, userId);
+    if (rejection || !transaction) {
+      return { success: false, message: rejection || `No transaction ${id} found.` };
+    }
+
+    transaction.status = 'cancelled';
+    this.executors.delete(transaction.id);
+    this.logger.info('Transaction cancelled', { proposalId: transaction.id, userId });
+
+    return { success: true, message: `Cancelled ${transaction.id}: ${transaction.summary}`, transaction };
+  }
+
+  /**
+   * Answer a confirm/cancel reply with an AgentResponse
+   */
+  async respond(command: ConfirmationCommand, context: AgentContext, handledBy: string): Promise<AgentResponse> {
+    const result = command.verb === 'confirm'
+      ? await this.confirm(command.id, context.userId)
+      : this.cancel(command.id, context.userId);
+
+    const prefix = result.success ? (command.verb === 'confirm' ? '✅' : '🚫') : '⚠️';
+    return {
+      message: `${prefix} ${result.message}`,
+      metadata: {
+        handledBy,
+        proposalId: command.id,
+        proposalStatus: result.transaction?.status,
+      },
+      actions: [],
+    };
+  }
+
+  private checkActionable(transaction: PendingTransaction | undefined, userId: string): string | null {
+    if (!transaction) return 'No such transaction. It may have expired or the ID is wrong.';
+    if (transaction.userId !== userId) return `Transaction ${transaction.id} can only be confirmed or cancelled by the user who requested it.`;
+    if (transaction.status === 'expired') return `Transaction ${transaction.id} expired at ${transaction.expiresAt.toLocaleTimeString()}. Please request it again.`;
+    if (transaction.status !== 'pending') return `Transaction ${transaction.id} is already ${transaction.status}.`;
+    return null;
+  }
+
+  private expireIfDue(transaction: PendingTransaction): void {
+    if (transaction.status === 'pending' && transaction.expiresAt.getTime() <= Date.now()) {
+      transaction.status = 'expired';
+      this.executors.delete(transaction.id);
+    }
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - RETENTION_MS;
+    for (const [id, transaction] of this.transactions) {
+      this.expireIfDue(transaction);
+      if (transaction.status !== 'pending' && transaction.status !== 'executing' && transaction.expiresAt.getTime() < cutoff) {
+        this.transactions.delete(id);
+      }
+    }
+  }
+}
+
+export default PendingTransactionStore;
@@ -0,0 +1,117 @@
+import { describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { BaseError, PublicClient, parseUnits } from 'viem';
+import { TransactionSimulator, describeSimulation } from './simulator';
+import { getNetwork } from '../trading/networks';
+import { TransactionIntent } from '../types';
+
+const logger = winston.createLogger({ silent: true });
+const SENDER = '0x0000000000000000000000000000000000000001';
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD';
+
+interface ChainState {
+  eth?: number;
+  usdc?: number;
+  revert?: string;
+  gasPriceFails?: boolean;
+}
+
+function simulator(state: ChainState = {}) {
+  const client = {
+    call: async () => {
+      if (state.revert) throw new BaseError(state.revert);
+      return { data: undefined };
+    },
+    estimateGas: async () => BigInt(21000),
+    getGasPrice: async () => {
+      if (state.gasPriceFails) throw new Error('rate limited');
+      return parseUnits('1', 9);
+    },
+    getBalance: async () => parseUnits(String(state.eth ?? 1), 18),
+    readContract: async () => parseUnits(String(state.usdc ?? 100), 6),
+  } as unknown as PublicClient;
+  return new TransactionSimulator({
+    priceSource: { name: 'test', getPrices: async () => ({ ETH: 2000 }) },
+    logger,
+    network: getNetwork('base-sepolia'),
+    client,
+  });
+}
+
+const transfer = (fromToken: string, amount: number, recipient = RECIPIENT): TransactionIntent =>
+  ({ kind: 'transfer', action: 'transfer', fromToken, amount, recipient, userId: 'user' });
+
+describe('TransactionSimulator', () => {
+  test('price the gas of a transfer that would succeed', async () => {
+    const result = await simulator().simulate(transfer('USDC', 25), SENDER);
+
+    expect(result).toMatchObject({
+      success: true,
+      method: 'eth_call',
+      balanceChanges: [{ token: 'USDC', amount: -25 }],
+      gasEstimate: '21000',
+      gasCostNative: 0.000021,
+    });
+    expect(result.gasCostUsd).toBeCloseTo(0.042);
+    expect(describeSimulation(result)).toBe('-25 USDC; gas ≈ 0.000021 ETH ($0.04)');
+  });
+
+  test('fail with the revert reason of the call', async () => {
+    const result = await simulator({ revert: 'ERC20: transfer amount exceeds balance' }).simulate(transfer('USDC', 25), SENDER);
+
+    expect(result).toMatchObject({ success: false, method: 'eth_call', revertReason: 'ERC20: transfer amount exceeds balance' });
+    expect(describeSimulation(result)).toBe('Simulation failed: ERC20: transfer amount exceeds balance');
+  });
+
+  test('fail on a sender, recipient or token that cannot be used', async () => {
+    const simulation = simulator();
+
+    expect((await simulation.simulate(transfer('USDC', 1), 'alice.eth')).revertReason).toBe('Sender alice.eth is not an address');
+    expect((await simulation.simulate(transfer('USDC', 1, 'bob'), SENDER)).revertReason).toBe('Recipient bob is not an address');
+    expect((await simulation.simulate({ ...transfer('USDC', 1), recipient: undefined }, SENDER)).revertReason).toBe('Recipient (missing) is not an address');
+    expect((await simulation.simulate(transfer('PEPE', 1), SENDER)).revertReason).toBe('Unknown token PEPE on base-sepolia');
+  });
+
+  test('fail a swap the wallet cannot fund', async () => {
+    const swap: TransactionIntent = { kind: 'swap', action: 'trade', fromToken: 'USDC', toToken: 'ETH', amount: 150, userId: 'user' };
+
+    const result = await simulator({ usdc: 100 }).simulate(swap, SENDER, 0.06);
+
+    expect(result).toMatchObject({
+      success: false,
+      method: 'balance_check',
+      balanceChanges: [{ token: 'USDC', amount: -150 }, { token: 'ETH', amount: 0.06 }],
+      revertReason: 'Insufficient USDC balance: 100 available, 150 needed',
+    });
+  });
+
+  test('fail when the native balance covers the value but not the gas', async () => {
+    const result = await simulator({ eth: 0.5 }).simulate(transfer('ETH', 0.5), SENDER);
+
+    expect(result.success).toBe(false);
+    expect(result.revertReason).toBe('Insufficient ETH for gas: 0.5 available, 0.500021 needed');
+  });
+
+  test('fail when the gas price cannot be read', async () => {
+    const result = await simulator({ gasPriceFails: true }).simulate(transfer('USDC', 1), SENDER);
+
+    expect(result.revertReason).toBe('Could not fetch the gas price: rate limited');
+  });
+
+  test('fail a batch the wallet can fund one by one but not together', async () => {
+    const result = await simulator({ usdc: 50 }).simulateBatch([transfer('USDC', 30), transfer('USDC', 30)], SENDER);
+
+    expect(result).toMatchObject({
+      success: false,
+      balanceChanges: [{ token: 'USDC', amount: -60 }],
+      gasEstimate: '42000',
+      revertReason: 'Insufficient USDC balance for all 2 transfers: 50 available, 60 needed',
+    });
+  });
+
+  test('name the recipient of the transfer that fails in a batch', async () => {
+    const result = await simulator().simulateBatch([transfer('USDC', 1), transfer('USDC', 1, 'carol')], SENDER);
+
+    expect(result.revertReason).toBe('Transfer to carol: Recipient carol is not an address');
+  });
+});
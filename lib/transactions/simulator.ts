@@ -0,0 +1,292 @@
+import {
+  BaseError,
+  PublicClient,
+  createPublicClient,
+  encodeFunctionData,
+  erc20Abi,
+  formatUnits,
+  http,
+  isAddress,
+  parseAbi,
+  parseUnits,
+} from 'viem';
+import winston from 'winston';
+import { BalanceChange, PriceSource, SimulationResult, TransactionIntent } from '../types';
+import { NetworkInfo, createNetworkClient, findToken, getNetwork } from '../trading/networks';
+
+export interface TransactionSimulatorOptions {
+  priceSource: PriceSource;
+  logger: winston.Logger;
+  network?: NetworkInfo;
+  rpcUrl?: string; // e.g. a local fork node; defaults to the network's RPC
+  client?: PublicClient; // takes precedence over rpcUrl
+}
+
+interface CallRequest {
+  to: `0x${string}`;
+  data?: `0x${string}`;
+  value?: bigint;
+}
+
+const WETH_ABI = parseAbi(['function deposit() payable']);
+
+// Typical gas of a single-hop DEX swap, used where the route is not known up front
+export const SWAP_GAS_ESTIMATE = BigInt(250000);
+
+/**
+ * Most specific explanation viem has for a failed call
+ */
+function revertReason(error: unknown): string {
+  if (error instanceof BaseError) {
+    return error.shortMessage || error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Amount as a plain decimal string that parseUnits accepts
+ */
+function toDecimalString(amount: number, decimals: number): string {
+  return amount.toFixed(decimals).replace(/\.?0+$/, '') || '0';
+}
+
+/**
+ * Expected balance changes of an intent, excluding gas
+ */
+export function expectedBalanceChanges(intent: TransactionIntent, quotedAmountOut?: number): BalanceChange[] {
+  const changes: BalanceChange[] = [{ token: intent.fromToken.toUpperCase(), amount: -intent.amount }];
+  if (intent.toToken) {
+    const received = intent.kind === 'wrap' ? intent.amount : quotedAmountOut;
+    if (received !== undefined) {
+      changes.push({ token: intent.toToken.toUpperCase(), amount: received });
+    }
+  }
+  return changes;
+}
+
+/**
+ * One-line preview of a simulation, e.g. "-0.5 ETH, +1250.2 USDC; gas ≈ 0.00003 ETH ($0.09)"
+ */
+export function describeSimulation(simulation: SimulationResult, nativeSymbol = 'ETH'): string {
+  if (!simulation.success) {
+    return `Simulation failed: ${simulation.revertReason || 'unknown reason'}`;
+  }
+
+  const changes = simulation.balanceChanges
+    .map(change => `${change.amount >= 0 ? '+' : ''}${Number(change.amount.toPrecision(8))} ${change.token}`)
+    .join(', ');
+  const gas = simulation.gasCostNative !== undefined
+    ? `; gas ≈ ${Number(simulation.gasCostNative.toPrecision(3))} ${nativeSymbol}${simulation.gasCostUsd !== undefined ? ` ($${simulation.gasCostUsd.toFixed(2)})` : ''}`
+    : '';
+  const estimated = simulation.method === 'balance_check' ? ' (balance checked; swap route is priced at execution)' : '';
+  return `${changes}${gas}${estimated}`;
+}
+
+/**
+ * Dry-runs transactions before they are proposed or executed: eth_call for reverts, gas
+ * estimation priced in USD, and balance checks. Swaps are routed by the CDP trade API at
+ * execution time, so they are checked against balances with a typical swap gas figure.
+ */
+export class TransactionSimulator {
+  private client: PublicClient;
+  private network: NetworkInfo;
+  private priceSource: PriceSource;
+  private logger: winston.Logger;
+
+  constructor(options: TransactionSimulatorOptions) {
+    this.network = options.network || getNetwork(process.env.NETWORK_ID);
+    this.priceSource = options.priceSource;
+    this.logger = options.logger;
+    this.client = options.client || (options.rpcUrl
+      ? createPublicClient({ chain: this.network.chain, transport: http(options.rpcUrl) }) as PublicClient
+      : createNetworkClient(this.network));
+  }
+
+  /**
+   * Simulate one transaction sent from `from`
+   */
+  async simulate(intent: TransactionIntent, from: string, quotedAmountOut?: number): Promise<SimulationResult> {
+    const balanceChanges = expectedBalanceChanges(intent, quotedAmountOut);
+    const fail = (reason: string, method: SimulationResult['method'] = 'eth_call'): SimulationResult => {
+      this.logger.info('Transaction simulation failed', { action: intent.action, reason });
+      return { success: false, method, balanceChanges, revertReason: reason, simulatedAt: new Date() };
+    };
+
+    if (!isAddress(from)) {
+      return fail(`Sender ${from} is not an address`);
+    }
+
+    let call: CallRequest | undefined;
+    try {
+      call = this.buildCall(intent);
+    } catch (error) {
+      return fail(revertReason(error));
+    }
+
+    const method: SimulationResult['method'] = call ? 'eth_call' : 'balance_check';
+    let gas: bigint;
+    try {
+      if (call) {
+        await this.client.call({ account: from, ...call });
+        gas = await this.client.estimateGas({ account: from, ...call });
+      } else {
+        const balance = await this.readBalance(from, intent.fromToken);
+        if (balance < intent.amount) {
+          return fail(`Insufficient ${intent.fromToken.toUpperCase()} balance: ${balance} available, ${intent.amount} needed`, method);
+        }
+        gas = SWAP_GAS_ESTIMATE;
+      }
+    } catch (error) {
+      return fail(revertReason(error), method);
+    }
+
+    let gasCostNative: number;
+    try {
+      gasCostNative = Number(formatUnits(gas * await this.client.getGasPrice(), 18));
+    } catch (error) {
+      return fail(`Could not fetch the gas price: ${revertReason(error)}`, method);
+    }
+
+    // The wallet must cover the gas on top of any native value it sends
+    const nativeOut = balanceChanges
+      .filter(change => change.token === this.network.nativeSymbol && change.amount < 0)
+      .reduce((sum, change) => sum - change.amount, 0);
+    const nativeBalance = await this.readBalance(from, this.network.nativeSymbol).catch(() => undefined);
+    if (nativeBalance !== undefined && nativeBalance < nativeOut + gasCostNative) {
+      return fail(`Insufficient ${this.network.nativeSymbol} for gas: ${nativeBalance} available, ${nativeOut + gasCostNative} needed`, method);
+    }
+
+    const nativePrice = await this.priceSource.getPrices([this.network.nativeSymbol])
+      .then(prices => prices[this.network.nativeSymbol])
+      .catch(() => undefined);
+
+    return {
+      success: true,
+      method,
+      balanceChanges,
+      gasEstimate: gas.toString(),
+      gasCostNative,
+      gasCostUsd: nativePrice !== undefined ? gasCostNative * nativePrice : undefined,
+      simulatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Simulate transactions that will be sent one after another, e.g. the payouts of a split.
+   * Each must succeed on its own and the wallet must hold enough for all of them together.
+   */
+  async simulateBatch(intents: TransactionIntent[], from: string): Promise<SimulationResult> {
+    if (!isAddress(from)) {
+      return { success: false, method: 'eth_call', balanceChanges: [], revertReason: `Sender ${from} is not an address`, simulatedAt: new Date() };
+    }
+
+    const results: SimulationResult[] = [];
+    for (const intent of intents) {
+      const result = await this.simulate(intent, from);
+      if (!result.success) {
+        return { ...result, revertReason: `${intent.recipient ? `Transfer to ${intent.recipient}: ` : ''}${result.revertReason}` };
+      }
+      results.push(result);
+    }
+
+    const totals = new Map<string, number>();
+    for (const change of results.flatMap(result => result.balanceChanges)) {
+      totals.set(change.token, (totals.get(change.token) || 0) + change.amount);
+    }
+    const gasCostNative = results.reduce((sum, result) => sum + (result.gasCostNative || 0), 0);
+    const aggregate: SimulationResult = {
+      success: true,
+      method: results.some(result => result.method === 'balance_check') ? 'balance_check' : 'eth_call',
+      balanceChanges: Array.from(totals.entries()).map(([token, amount]) => ({ token, amount })),
+      gasEstimate: results.reduce((sum, result) => sum + BigInt(result.gasEstimate || 0), BigInt(0)).toString(),
+      gasCostNative,
+      gasCostUsd: results.every(result => result.gasCostUsd !== undefined)
+        ? results.reduce((sum, result) => sum + result.gasCostUsd!, 0)
+        : undefined,
+      simulatedAt: new Date(),
+    };
+
+    for (const [token, amount] of totals) {
+      if (amount >= 0) continue;
+      const needed = -amount + (token === this.network.nativeSymbol ? gasCostNative : 0);
+      const balance = await this.readBalance(from, token).catch(() => undefined);
+      if (balance !== undefined && balance < needed) {
+        return { ...aggregate, success: false, revertReason: `Insufficient ${token} balance for all ${intents.length} transfers: ${balance} available, ${needed} needed` };
+      }
+    }
+    return aggregate;
+  }
+
+  /**
+   * The raw call an intent makes, or undefined where it cannot be built locally (swaps)
+   */
+  private buildCall(intent: TransactionIntent): CallRequest | undefined {
+    const native = this.network.nativeSymbol;
+
+    switch (intent.kind) {
+      case 'swap':
+        return undefined;
+      case 'wrap': {
+        const weth = findToken(this.network, 'WETH');
+        if (!weth) {
+          throw new Error(`WETH is not available on ${this.network.id}`);
+        }
+        return {
+          to: weth.address,
+          data: encodeFunctionData({ abi: WETH_ABI, functionName: 'deposit' }),
+          value: parseUnits(toDecimalString(intent.amount, 18), 18),
+        };
+      }
+      default: {
+        if (!intent.recipient || !isAddress(intent.recipient)) {
+          throw new Error(`Recipient ${intent.recipient || '(missing)'} is not an address`);
+        }
+        if (intent.fromToken.toUpperCase() === native) {
+          return { to: intent.recipient, value: parseUnits(toDecimalString(intent.amount, 18), 18) };
+        }
+
+        const token = findToken(this.network, intent.fromToken);
+        if (!token) {
+          throw new Error(`Unknown token ${intent.fromToken} on ${this.network.id}`);
+        }
+        return {
+          to: token.address,
+          data: encodeFunctionData({
+            abi: erc20Abi,
+            functionName: 'transfer',
+            args: [intent.recipient, parseUnits(toDecimalString(intent.amount, token.decimals), token.decimals)],
+          }),
+        };
+      }
+    }
+  }
+
+  private async readBalance(address: `0x${string}`, symbol: string): Promise<number> {
+    if (symbol.toUpperCase() === this.network.nativeSymbol) {
+      return Number(formatUnits(await this.client.getBalance({ address }), 18));
+    }
+
+    const token = findToken(this.network, symbol);
+    if (!token) {
+      throw new Error(`Unknown token ${symbol} on ${this.network.id}`);
+    }
+    const balance = await this.client.readContract({ address: token.address, abi: erc20Abi, functionName: 'balanceOf', args: [address] });
+    return Number(formatUnits(balance, token.decimals));
+  }
+}
+
+/**
+ * Simulator configured from the environment, or undefined when SIMULATION_ENABLED=false.
+ * SIMULATION_RPC_URL only applies to the default network.
+ */
+export function createTransactionSimulator(
+  priceSource: PriceSource,
+  logger: winston.Logger,
+  network: NetworkInfo = getNetwork()
+): TransactionSimulator | undefined {
+  if (process.env.SIMULATION_ENABLED === 'false') {
+    return undefined;
+  }
+  const rpcUrl = network.id === getNetwork().id ? process.env.SIMULATION_RPC_URL || undefined : undefined;
+  return new TransactionSimulator({ priceSource, logger, network, rpcUrl });
+}
@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { PublicClient, TransactionReceiptNotFoundError } from 'viem';
+import { TradeEntry, TradeLedger } from './trade-ledger';
+import { TransactionTracker } from './transaction-tracker';
+import { MemoryTradeHistoryStore } from '../storage/trade-history';
+import { TradeRecord } from '../types';
+
+const logger = winston.createLogger({ silent: true });
+const HASH = `0x${'b'.repeat(64)}`;
+const HOUR_MS = 60 * 60 * 1000;
+
+const entry: TradeEntry = {
+  kind: 'swap',
+  action: 'trade',
+  agentName: 'TradingAgent',
+  userId: 'user',
+  conversationId: 'conversation',
+  network: 'base-sepolia',
+  fromToken: 'eth',
+  toToken: 'usdc',
+  amountIn: 1,
+  params: {},
+};
+
+function ledger(receipt?: { status: 'success' | 'reverted'; blockNumber: bigint; gasUsed: bigint }) {
+  const client = {
+    getTransactionReceipt: async ({ hash }: { hash: `0x${string}` }) => {
+      if (!receipt) throw new TransactionReceiptNotFoundError({ hash });
+      return receipt;
+    },
+  } as unknown as PublicClient;
+  const store = new MemoryTradeHistoryStore();
+  const tracker = new TransactionTracker({ logger, createClient: () => client, timeoutMs: HOUR_MS });
+  const timeouts: string[] = [];
+  tracker.on('timeout', tracked => timeouts.push(tracked.hash));
+  return { store, tracker, timeouts, tradeLedger: new TradeLedger({ store, logger, tracker }) };
+}
+
+// Let the ledger's event handlers finish their store writes
+const settled = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('TradeLedger', () => {
+  test('record the executed amount and settle the trade when the tracker confirms it', async () => {
+    const { store, tracker, tradeLedger } = ledger({ status: 'success', blockNumber: BigInt(9), gasUsed: BigInt(120000) });
+
+    const { trade } = await tradeLedger.execute(entry, async () => `Traded 1 of eth for 2500.5 of usdc. Transaction hash: ${HASH}`);
+    expect(trade).toMatchObject({ status: 'pending', txHash: HASH, executedAmountOut: 2500.5, fromToken: 'ETH' });
+
+    await tracker.checkPending();
+    await settled();
+
+    expect(await store.get(trade.id)).toMatchObject({ status: 'confirmed', gasUsed: '120000' });
+  });
+
+  test('record a run that throws as failed', async () => {
+    const { store, tradeLedger } = ledger();
+
+    await expect(tradeLedger.execute(entry, async () => { throw new Error('insufficient funds'); })).rejects.toThrow('insufficient funds');
+
+    const [trade] = await store.query({});
+    expect(trade).toMatchObject({ status: 'failed', error: 'insufficient funds' });
+  });
+
+  test('mark a trade unconfirmed when the tracker gives up on it', async () => {
+    const { store, tracker, tradeLedger } = ledger();
+    const { trade } = await tradeLedger.execute(entry, async () => `Transaction hash: ${HASH}`);
+
+    await tracker.checkPending(new Date(Date.now() + 2 * HOUR_MS));
+    await settled();
+
+    expect((await store.get(trade.id))?.status).toBe('unconfirmed');
+  });
+
+  test('time out resumed trades from when they were sent, and only once across restarts', async () => {
+    const { store, tracker, timeouts, tradeLedger } = ledger();
+    const sentAt = new Date(Date.now() - 2 * HOUR_MS);
+    const record: TradeRecord = { ...entry, id: 'trade', status: 'pending', txHash: HASH, createdAt: sentAt, updatedAt: new Date() };
+    await store.insert(record);
+
+    await tradeLedger.resumeTracking();
+    expect(tracker.listPending()[0].submittedAt).toEqual(sentAt);
+
+    await tracker.checkPending();
+    await settled();
+    expect(timeouts).toEqual([HASH]);
+
+    await tradeLedger.resumeTracking();
+    expect(tracker.listPending()).toHaveLength(0);
+  });
+});
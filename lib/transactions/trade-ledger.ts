@@ -0,0 +1,171 @@
+import { randomUUID } from 'crypto';
+import winston from 'winston';
+import { TrackedTransaction, TradeExecution, TradeHistoryQuery, TradeHistoryStore, TradeRecord } from '../types';
+import { TransactionTracker } from './transaction-tracker';
+
+export type TradeEntry = Omit<
+  TradeRecord,
+  'id' | 'status' | 'txHash' | 'gasUsed' | 'executedAmountOut' | 'error' | 'createdAt' | 'updatedAt'
+>;
+
+export interface TradeLedgerOptions {
+  store: TradeHistoryStore;
+  logger: winston.Logger;
+  tracker?: TransactionTracker; // follows confirmations in the background instead of waiting on receipts
+}
+
+export interface ReceiptReader {
+  waitForTransactionReceipt(hash: `0x${string}`): Promise<{ status?: string; gasUsed?: bigint } | undefined>;
+}
+
+const TX_HASH_PATTERN = /0x[a-fA-F0-9]{64}/;
+
+/**
+ * Amount received according to an AgentKit trade result ("Traded 1 of eth for 2500.1 of usdc")
+ */
+function parseExecutedAmount(entry: TradeEntry, result: string): number | undefined {
+  if (entry.kind !== 'swap') return entry.amountIn;
+
+  const match = result.match(/\bfor\s+([\d.]+)\s+of\b/i);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * One-line description of a trade, e.g. "swap 1 ETH → USDC"
+ */
+function describeTrade(trade: Pick<TradeRecord, 'kind' | 'amountIn' | 'fromToken' | 'toToken' | 'recipient'>): string {
+  const target = trade.toToken ? ` → ${trade.toToken}` : trade.recipient ? ` to ${trade.recipient}` : '';
+  return `${trade.kind} ${trade.amountIn} ${trade.fromToken}${target}`;
+}
+
+/**
+ * Records every transaction an agent executes: a pending entry before it runs, then the
+ * outcome (tx hash, executed amount, gas, status) once it has. With a tracker the entry
+ * stays pending until the tracker sees the receipt, or becomes unconfirmed when it gives up.
+ */
+export class TradeLedger {
+  private store: TradeHistoryStore;
+  private logger: winston.Logger;
+  private tracker?: TransactionTracker;
+
+  constructor(options: TradeLedgerOptions) {
+    this.store = options.store;
+    this.logger = options.logger;
+    this.tracker = options.tracker;
+    this.tracker?.on('confirmed', (tracked: TrackedTransaction) => this.settle(tracked));
+    this.tracker?.on('failed', (tracked: TrackedTransaction) => this.settle(tracked));
+    this.tracker?.on('timeout', (tracked: TrackedTransaction) => this.settle(tracked));
+  }
+
+  /**
+   * Run a transaction and record it. Returns the run's raw result with the recorded trade;
+   * failures are recorded and rethrown. Receipts are only awaited without a tracker.
+   */
+  async execute(entry: TradeEntry, run: () => Promise<string>, receipts?: ReceiptReader): Promise<TradeExecution> {
+    const now = new Date();
+    const record: TradeRecord = {
+      ...entry,
+      id: randomUUID(),
+      fromToken: entry.fromToken.toUpperCase(),
+      toToken: entry.toToken?.toUpperCase(),
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.save(() => this.store.insert(record), record.id);
+
+    let result: string;
+    try {
+      result = await run();
+    } catch (error) {
+      await this.save(
+        () => this.store.update(record.id, { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' }),
+        record.id
+      );
+      throw error;
+    }
+
+    const txHash = result.match(TX_HASH_PATTERN)?.[0];
+    const changes: Partial<TradeRecord> = {
+      txHash,
+      executedAmountOut: parseExecutedAmount(entry, result),
+    };
+
+    if (txHash && this.tracker) {
+      this.tracker.track({
+        hash: txHash,
+        network: record.network,
+        agentName: record.agentName,
+        userId: record.userId,
+        conversationId: record.conversationId,
+        tradeId: record.id,
+        description: describeTrade(record),
+      });
+    } else if (txHash && receipts) {
+      try {
+        const receipt = await receipts.waitForTransactionReceipt(txHash as `0x${string}`);
+        changes.status = receipt?.status === 'reverted' ? 'failed' : 'confirmed';
+        changes.gasUsed = receipt?.gasUsed !== undefined ? String(receipt.gasUsed) : undefined;
+      } catch (error) {
+        this.logger.warn('Could not read transaction receipt', { error, txHash });
+      }
+    }
+
+    await this.save(() => this.store.update(record.id, changes), record.id);
+    return { result, trade: { ...record, ...changes, updatedAt: new Date() } };
+  }
+
+  /**
+   * Hand transactions a previous run left pending back to the tracker. Their timeout counts
+   * from when they were sent, not from the restart.
+   */
+  async resumeTracking(): Promise<void> {
+    if (!this.tracker) return;
+
+    const trades = await this.store.query({ status: 'pending', limit: 1000 });
+    for (const trade of trades) {
+      if (!trade.txHash) continue;
+      this.tracker.track({
+        hash: trade.txHash,
+        network: trade.network,
+        agentName: trade.agentName,
+        userId: trade.userId,
+        conversationId: trade.conversationId,
+        tradeId: trade.id,
+        description: describeTrade(trade),
+        submittedAt: trade.createdAt,
+      });
+    }
+  }
+
+  /**
+   * Query recorded trades, newest first
+   */
+  query(query: TradeHistoryQuery): Promise<TradeRecord[]> {
+    return this.store.query(query);
+  }
+
+  private async settle(tracked: TrackedTransaction): Promise<void> {
+    if (!tracked.tradeId) return;
+
+    await this.save(
+      () => this.store.update(tracked.tradeId!, {
+        status: tracked.status === 'pending' ? 'unconfirmed' : tracked.status,
+        gasUsed: tracked.gasUsed !== undefined ? String(tracked.gasUsed) : undefined,
+        error: tracked.error,
+      }),
+      tracked.tradeId
+    );
+  }
+
+  // Bookkeeping must never turn a transaction that went out into an error for the user
+  private async save(write: () => Promise<unknown>, tradeId: string): Promise<void> {
+    try {
+      await write();
+    } catch (error) {
+      this.logger.error('Failed to write trade history', { error, tradeId });
+    }
+  }
+}
+
+export default TradeLedger;
@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'bun:test';
+import winston from 'winston';
+import { PublicClient, TransactionReceiptNotFoundError } from 'viem';
+import { TransactionTracker } from './transaction-tracker';
+import { TrackedTransaction } from '../types';
+
+const logger = winston.createLogger({ silent: true });
+const HASH = `0x${'a'.repeat(64)}`;
+
+type Receipt = { status: 'success' | 'reverted'; blockNumber: bigint; gasUsed: bigint };
+
+function tracker(receipts: Map<string, Receipt>, timeoutMs = 60000) {
+  const client = {
+    getTransactionReceipt: async ({ hash }: { hash: `0x${string}` }) => {
+      const receipt = receipts.get(hash);
+      if (!receipt) throw new TransactionReceiptNotFoundError({ hash });
+      return receipt;
+    },
+  } as unknown as PublicClient;
+  const events: Array<[string, TrackedTransaction]> = [];
+  const transactionTracker = new TransactionTracker({ logger, createClient: () => client, timeoutMs });
+  for (const kind of ['confirmed', 'failed', 'timeout']) {
+    transactionTracker.on(kind, (tracked: TrackedTransaction) => events.push([kind, { ...tracked }]));
+  }
+  return { transactionTracker, events };
+}
+
+function params(submittedAt?: Date) {
+  return {
+    hash: HASH.toUpperCase().replace('0X', '0x'),
+    network: 'base-sepolia',
+    agentName: 'TradingAgent',
+    userId: 'user',
+    conversationId: 'conversation',
+    description: 'swap 1 ETH → USDC',
+    submittedAt,
+  };
+}
+
+describe('TransactionTracker', () => {
+  test('emit confirmed with the receipt details once mined', async () => {
+    const receipts = new Map<string, Receipt>();
+    const { transactionTracker, events } = tracker(receipts);
+    transactionTracker.track(params());
+
+    await transactionTracker.checkPending();
+    expect(events).toHaveLength(0);
+
+    receipts.set(HASH, { status: 'success', blockNumber: BigInt(42), gasUsed: BigInt(21000) });
+    await transactionTracker.checkPending();
+
+    expect(events).toHaveLength(1);
+    expect(events[0][0]).toBe('confirmed');
+    expect(events[0][1]).toMatchObject({ hash: HASH, status: 'confirmed', blockNumber: 42, gasUsed: BigInt(21000) });
+    expect(transactionTracker.listPending()).toHaveLength(0);
+  });
+
+  test('emit failed for a reverted transaction', async () => {
+    const receipts = new Map<string, Receipt>([[HASH, { status: 'reverted', blockNumber: BigInt(7), gasUsed: BigInt(50000) }]]);
+    const { transactionTracker, events } = tracker(receipts);
+    transactionTracker.track(params());
+
+    await transactionTracker.checkPending();
+
+    expect(events.map(([kind]) => kind)).toEqual(['failed']);
+    expect(events[0][1]).toMatchObject({ status: 'failed', error: 'Transaction reverted' });
+  });
+
+  test('emit timeout once when no receipt arrives in time', async () => {
+    const { transactionTracker, events } = tracker(new Map(), 60000);
+    const submittedAt = new Date('2025-01-01T00:00:00Z');
+    transactionTracker.track(params(submittedAt));
+
+    await transactionTracker.checkPending(new Date(submittedAt.getTime() + 30000));
+    expect(events).toHaveLength(0);
+
+    await transactionTracker.checkPending(new Date(submittedAt.getTime() + 90000));
+    await transactionTracker.checkPending(new Date(submittedAt.getTime() + 120000));
+
+    expect(events.map(([kind]) => kind)).toEqual(['timeout']);
+    expect(transactionTracker.listPending()).toHaveLength(0);
+  });
+
+  test('prefer a late receipt over a timeout', async () => {
+    const receipts = new Map<string, Receipt>([[HASH, { status: 'success', blockNumber: BigInt(1), gasUsed: BigInt(1) }]]);
+    const { transactionTracker, events } = tracker(receipts, 60000);
+    transactionTracker.track(params(new Date(Date.now() - 3600000)));
+
+    await transactionTracker.checkPending();
+
+    expect(events.map(([kind]) => kind)).toEqual(['confirmed']);
+  });
+
+  test('ignore a hash that is already tracked', () => {
+    const { transactionTracker } = tracker(new Map());
+    const first = transactionTracker.track(params());
+    const second = transactionTracker.track({ ...params(), hash: HASH });
+
+    expect(second).toBe(first);
+    expect(transactionTracker.listPending()).toHaveLength(1);
+  });
+});
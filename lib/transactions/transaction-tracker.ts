@@ -0,0 +1,161 @@
+import { EventEmitter } from 'events';
+import winston from 'winston';
+import { PublicClient } from 'viem';
+import { TrackedTransaction } from '../types';
+import { NetworkInfo, createNetworkClient, explorerTxUrl, getNetwork } from '../trading/networks';
+
+export type TrackTransactionParams = Omit<TrackedTransaction, 'status' | 'blockNumber' | 'gasUsed' | 'error' | 'submittedAt' | 'settledAt'> & {
+  submittedAt?: Date;
+};
+
+export interface TransactionTrackerOptions {
+  logger: winston.Logger;
+  createClient?: (network: NetworkInfo) => PublicClient;
+  pollIntervalMs?: number;
+  timeoutMs?: number; // give up waiting for a receipt after this long
+}
+
+/**
+ * Follows submitted transactions until they are mined. Receipts are polled on an interval
+ * rather than awaited, so nothing that sends a transaction blocks on confirmation. Emits
+ * `confirmed` and `failed` with the TrackedTransaction once its receipt is in, and `timeout`
+ * when none arrived within the timeout.
+ */
+export class TransactionTracker extends EventEmitter {
+  private pending: Map<string, TrackedTransaction> = new Map();
+  private clients: Map<string, PublicClient> = new Map();
+  private logger: winston.Logger;
+  private createClient: (network: NetworkInfo) => PublicClient;
+  private pollIntervalMs: number;
+  private timeoutMs: number;
+  private pollInterval?: NodeJS.Timeout;
+  private isPolling = false;
+
+  constructor(options: TransactionTrackerOptions) {
+    super();
+    this.logger = options.logger;
+    this.createClient = options.createClient || createNetworkClient;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.timeoutMs = options.timeoutMs ?? 10 * 60 * 1000;
+  }
+
+  /**
+   * Start following a submitted transaction. Tracking the same hash twice is a no-op.
+   */
+  track(params: TrackTransactionParams): TrackedTransaction {
+    const hash = params.hash.toLowerCase();
+    const existing = this.pending.get(hash);
+    if (existing) return existing;
+
+    const tracked: TrackedTransaction = {
+      ...params,
+      hash,
+      status: 'pending',
+      submittedAt: params.submittedAt || new Date(),
+    };
+    this.pending.set(hash, tracked);
+    this.logger.info('Tracking transaction', { hash, network: tracked.network, tradeId: tracked.tradeId });
+    return tracked;
+  }
+
+  /**
+   * Transactions still waiting for a receipt
+   */
+  listPending(): TrackedTransaction[] {
+    return Array.from(this.pending.values());
+  }
+
+  /**
+   * Start polling for receipts
+   */
+  start(): void {
+    if (this.pollInterval) return;
+
+    this.pollInterval = setInterval(() => {
+      this.checkPending().catch(error => {
+        this.logger.error('Transaction tracker tick failed', { error });
+      });
+    }, this.pollIntervalMs);
+  }
+
+  /**
+   * Stop polling; tracked transactions are kept
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
+
+  /**
+   * Check every pending transaction for a receipt once
+   */
+  async checkPending(now: Date = new Date()): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      for (const tracked of Array.from(this.pending.values())) {
+        await this.check(tracked, now);
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async check(tracked: TrackedTransaction, now: Date): Promise<void> {
+    let receipt: Awaited<ReturnType<PublicClient['getTransactionReceipt']>> | undefined;
+    try {
+      receipt = await this.clientFor(tracked.network).getTransactionReceipt({ hash: tracked.hash as `0x${string}` });
+    } catch (error) {
+      // Not mined yet looks the same as an RPC hiccup from here; both are retried on the next tick
+      if (!(error instanceof Error && error.name === 'TransactionReceiptNotFoundError')) {
+        this.logger.warn('Could not read transaction receipt', { error, hash: tracked.hash });
+      }
+    }
+
+    if (receipt) {
+      tracked.status = receipt.status === 'success' ? 'confirmed' : 'failed';
+      tracked.blockNumber = Number(receipt.blockNumber);
+      tracked.gasUsed = receipt.gasUsed;
+      tracked.error = receipt.status === 'success' ? undefined : 'Transaction reverted';
+      tracked.settledAt = now;
+      this.pending.delete(tracked.hash);
+      this.emit(tracked.status, tracked);
+      return;
+    }
+
+    if (now.getTime() - tracked.submittedAt.getTime() > this.timeoutMs) {
+      this.pending.delete(tracked.hash);
+      this.logger.warn('Gave up waiting for transaction receipt', { hash: tracked.hash, tradeId: tracked.tradeId });
+      this.emit('timeout', tracked);
+    }
+  }
+
+  private clientFor(networkId: string): PublicClient {
+    let client = this.clients.get(networkId);
+    if (!client) {
+      client = this.createClient(getNetwork(networkId));
+      this.clients.set(networkId, client);
+    }
+    return client;
+  }
+}
+
+/**
+ * Follow-up message for a settled or timed-out transaction, with its explorer link
+ */
+export function describeTransactionOutcome(kind: 'confirmed' | 'failed' | 'timeout', tracked: TrackedTransaction): string {
+  const link = explorerTxUrl(getNetwork(tracked.network), tracked.hash);
+  switch (kind) {
+    case 'confirmed':
+      return `✅ Transaction confirmed in block ${tracked.blockNumber}: ${tracked.description}${tracked.gasUsed !== undefined ? ` (gas used ${tracked.gasUsed})` : ''}\n${link}`;
+    case 'failed':
+      return `❌ Transaction failed: ${tracked.description}${tracked.error ? ` - ${tracked.error}` : ''}\n${link}`;
+    case 'timeout':
+      return `⏳ Transaction still unconfirmed after ${Math.round((Date.now() - tracked.submittedAt.getTime()) / 60000)} minutes: ${tracked.description}. It may yet confirm; check the explorer:\n${link}`;
+  }
+}
+
+export default TransactionTracker;
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { PublicClient, decodeFunctionData, erc20Abi } from 'viem';
+import { TokenTransfers, TransferWallet } from './transfers';
+import { getNetwork } from '../trading/networks';
+
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD';
+const network = getNetwork('base-sepolia');
+const usdc = network.tokens.find(token => token.symbol === 'USDC')!;
+
+function transfers() {
+  const sent: Array<{ to?: string; data?: `0x${string}`; value?: bigint }> = [];
+  const wallet = {
+    getAddress: () => '0x0000000000000000000000000000000000000001',
+    sendTransaction: async (transaction: { to?: string; data?: `0x${string}`; value?: bigint }) => {
+      sent.push(transaction);
+      return '0xabc' as `0x${string}`;
+    },
+  } as unknown as TransferWallet;
+  const client = {
+    readContract: async () => BigInt(2500000),
+    getBalance: async () => BigInt('1500000000000000000'),
+  } as unknown as PublicClient;
+  return { sent, transfers: new TokenTransfers({ network, wallet: () => wallet, client }) };
+}
+
+describe('TokenTransfers', () => {
+  test('send ERC-20 transfer calldata in base units', async () => {
+    const { sent, transfers: service } = transfers();
+
+    const result = await service.transfer(RECIPIENT.toLowerCase(), 12.5, 'usdc');
+
+    expect(result).toMatchObject({ hash: '0xabc', to: RECIPIENT, token: 'USDC', amount: 12.5, network: 'base-sepolia' });
+    expect(sent[0].to).toBe(usdc.address);
+    expect(decodeFunctionData({ abi: erc20Abi, data: sent[0].data! }).args).toEqual([RECIPIENT, BigInt(12500000)]);
+  });
+
+  test('send the native asset as a value transfer', async () => {
+    const { sent, transfers: service } = transfers();
+
+    await service.transfer(RECIPIENT, 0.25, 'ETH');
+
+    expect(sent[0]).toEqual({ to: RECIPIENT, value: BigInt('250000000000000000') });
+  });
+
+  test('refuse unknown tokens and invalid recipients before sending', async () => {
+    const { sent, transfers: service } = transfers();
+
+    await expect(service.transfer(RECIPIENT, 1, 'DOGE')).rejects.toThrow('Unknown token on base-sepolia');
+    await expect(service.transfer('not-an-address', 1, 'USDC')).rejects.toThrow('Invalid recipient address');
+    expect(sent).toHaveLength(0);
+  });
+
+  test('read balances in whole units', async () => {
+    const { transfers: service } = transfers();
+
+    expect((await service.balanceOf(RECIPIENT, 'USDC')).balance).toBe(2.5);
+    expect(await service.balanceOf(RECIPIENT, 'ETH')).toMatchObject({ balance: 1.5, raw: '1500000000000000000' });
+  });
+});
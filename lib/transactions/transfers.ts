@@ -0,0 +1,117 @@
+import { EvmWalletProvider } from '@coinbase/agentkit';
+import { PublicClient, encodeFunctionData, erc20Abi, formatUnits, getAddress, isAddress, parseUnits } from 'viem';
+import { NetworkInfo, createNetworkClient, findToken } from '../trading/networks';
+
+export type TransferWallet = Pick<EvmWalletProvider, 'getAddress' | 'sendTransaction'>;
+
+export interface TransferResult {
+  hash: `0x${string}`;
+  from: string;
+  to: string;
+  token: string; // symbol
+  amount: number;
+  network: string;
+}
+
+export interface BalanceResult {
+  address: string;
+  token: string; // symbol
+  balance: number;
+  raw: string; // base units as a decimal string
+  network: string;
+}
+
+export interface TokenTransfersOptions {
+  network: NetworkInfo;
+  wallet: () => TransferWallet | undefined; // available once the wallet provider is configured
+  client?: PublicClient;
+}
+
+interface ResolvedToken {
+  symbol: string;
+  address?: `0x${string}`; // undefined for the native asset
+  decimals: number;
+}
+
+/**
+ * Sends transfers and reads balances with typed calls: ERC-20 transfer calldata or a native
+ * value transfer through the wallet provider, and balanceOf / eth_getBalance over RPC.
+ * Tokens are given by symbol or contract address and resolved against the network.
+ */
+export class TokenTransfers {
+  public readonly network: NetworkInfo;
+  private wallet: () => TransferWallet | undefined;
+  private client: PublicClient;
+
+  constructor(options: TokenTransfersOptions) {
+    this.network = options.network;
+    this.wallet = options.wallet;
+    this.client = options.client || createNetworkClient(options.network);
+  }
+
+  /**
+   * Send `amount` whole units of a token from the wallet. Resolves once the transaction is
+   * submitted; confirmation is left to the caller.
+   */
+  async transfer(to: string, amount: number, token: string): Promise<TransferResult> {
+    const wallet = this.wallet();
+    if (!wallet) {
+      throw new Error('Wallet provider not initialized');
+    }
+    if (!isAddress(to, { strict: false })) {
+      throw new Error(`Invalid recipient address: ${to}`);
+    }
+    if (!(amount > 0)) {
+      throw new Error('Transfer amount must be greater than zero');
+    }
+
+    const resolved = this.resolveToken(token);
+    const recipient = getAddress(to.toLowerCase());
+    const value = parseUnits(amount.toFixed(resolved.decimals), resolved.decimals);
+    const hash = resolved.address
+      ? await wallet.sendTransaction({
+          to: resolved.address,
+          data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [recipient, value] }),
+        })
+      : await wallet.sendTransaction({ to: recipient, value });
+
+    return { hash, from: wallet.getAddress(), to: recipient, token: resolved.symbol, amount, network: this.network.id };
+  }
+
+  /**
+   * Balance of a token held by any address
+   */
+  async balanceOf(address: string, token: string): Promise<BalanceResult> {
+    if (!isAddress(address, { strict: false })) {
+      throw new Error(`Invalid address: ${address}`);
+    }
+
+    const resolved = this.resolveToken(token);
+    const owner = getAddress(address.toLowerCase());
+    const raw = resolved.address
+      ? await this.client.readContract({ address: resolved.address, abi: erc20Abi, functionName: 'balanceOf', args: [owner] })
+      : await this.client.getBalance({ address: owner });
+
+    return {
+      address: owner,
+      token: resolved.symbol,
+      balance: Number(formatUnits(raw, resolved.decimals)),
+      raw: raw.toString(),
+      network: this.network.id,
+    };
+  }
+
+  private resolveToken(token: string): ResolvedToken {
+    if (token.toUpperCase() === this.network.nativeSymbol) {
+      return { symbol: this.network.nativeSymbol, decimals: 18 };
+    }
+
+    const known = findToken(this.network, token);
+    if (!known) {
+      throw new Error(`Unknown token on ${this.network.id}: ${token}`);
+    }
+    return known;
+  }
+}
+
+export default TokenTransfers;
@@ -86,6 +86,8 @@ export interface UtilityTask {
 
 export interface EventPlan {
   id: string;
+  conversationId: string; // group the event belongs to
+  createdBy: string;
   title: string;
   description: string;
   dateTime: Date;
@@ -94,10 +96,17 @@ export interface EventPlan {
   budget?: number;
   expenses: Expense[];
   status: 'planning' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled';
+  endTime?: Date; // when it moves to completed; a default duration after dateTime if unset
+  rsvps: Record<string, EventRsvp>; // participant -> response
+  remindersSent: number[]; // minutes-before-start of the reminders already delivered
 }
 
+export type EventRsvp = 'yes' | 'no' | 'maybe';
+
 export interface Expense {
   id: string;
+  conversationId: string; // group whose ledger the expense is in
+  eventId?: string;
   description: string;
   amount: number;
   currency: string;
@@ -109,24 +118,48 @@ export interface Expense {
 
 export interface PaymentSplit {
   id: string;
+  description?: string;
   totalAmount: number;
   currency: string;
   participants: PaymentParticipant[];
   method: 'equal' | 'custom' | 'percentage';
   status: 'pending' | 'partial' | 'completed';
+  payee: string; // address the participants pay
+  network: string;
+  createdBy: string;
+  conversationId: string;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface PaymentParticipant {
   address: string;
-  amount: number;
+  amount: number; // owed to the payee
+  percent?: number; // share of the total, for percentage splits
+  paidAmount?: number; // received so far
   paid: boolean;
-  transactionHash?: string;
+  transactionHash?: string; // payment that settled the share
+  paidAt?: Date;
+}
+
+export interface GroupStore {
+  saveEvent(event: EventPlan): Promise<void>; // expenses are stored with addExpense
+  getEvent(id: string): Promise<EventPlan | undefined>; // with its expenses
+  listEvents(conversationId: string): Promise<EventPlan[]>;
+  listScheduledEvents(): Promise<EventPlan[]>; // not completed or cancelled, across all groups
+  saveSplit(split: PaymentSplit): Promise<void>;
+  getSplit(id: string): Promise<PaymentSplit | undefined>;
+  listSplits(conversationId: string): Promise<PaymentSplit[]>;
+  listOpenSplits(): Promise<PaymentSplit[]>; // not yet completed, across every conversation
+  addExpense(expense: Expense): Promise<void>;
+  listExpenses(conversationId: string, eventId?: string): Promise<Expense[]>; // oldest first
 }
 
 // Trading Agent
 export interface TradingAgentConfig extends BaseAgentConfig {
   supportedNetworks: string[];
   maxTransactionValue: number;
+  maxDailyValue: number; // rolling 24h USD cap across all transactions from the agent wallet
   riskTolerance: 'low' | 'medium' | 'high';
   tradingPairs: string[];
 }
@@ -137,6 +170,7 @@ export interface Portfolio {
   totalValue: number;
   lastUpdated: Date;
   performance: PerformanceMetrics;
+  networks?: string[]; // networks whose balances are included
 }
 
 export interface TokenBalance {
@@ -146,6 +180,8 @@ export interface TokenBalance {
   value: number;
   price: number;
   change24h: number;
+  network?: string; // network id the balance is held on
+  verified?: boolean; // false for contracts outside the known token list, which are never priced
 }
 
 export interface PerformanceMetrics {
@@ -156,15 +192,96 @@ export interface PerformanceMetrics {
   volatility: number;
 }
 
+export interface PortfolioSnapshot {
+  address: string;
+  totalValue: number;
+  prices: Record<string, number>; // "network:contract address" -> USD price at snapshot time
+  timestamp: Date;
+}
+
+export interface PortfolioSnapshotStore {
+  append(snapshot: PortfolioSnapshot, keep: number): Promise<void>; // drops all but the latest `keep` for the address
+  list(address: string): Promise<PortfolioSnapshot[]>; // oldest first
+}
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+export interface TaxLot {
+  token: string;
+  amount: number;
+  costUsd: number; // total cost of the remaining amount
+  acquiredAt: Date;
+  tradeId: string;
+}
+
+export interface RealizedPnl {
+  tradeId: string;
+  token: string;
+  amount: number;
+  proceedsUsd: number;
+  costBasisUsd: number; // of the matched amount only
+  pnlUsd: number;
+  unmatchedAmount: number; // disposed without a known acquisition, excluded from PnL
+  lots: Array<{ acquiredAt: Date; amount: number; costUsd: number }>; // lots the disposal consumed
+  disposedAt: Date;
+}
+
+export interface TokenPnl {
+  token: string;
+  amount: number; // still held according to trade history
+  costBasisUsd: number;
+  averageCostUsd: number;
+  price?: number;
+  marketValueUsd?: number;
+  unrealizedPnlUsd?: number; // undefined when the token could not be priced
+  realizedPnlUsd: number;
+  unmatchedAmount: number;
+}
+
+export interface PnlReport {
+  method: CostBasisMethod;
+  tokens: TokenPnl[];
+  realized: RealizedPnl[]; // oldest first
+  totalRealizedPnlUsd: number;
+  totalUnrealizedPnlUsd: number;
+  totalCostBasisUsd: number; // open positions
+  totalReturn: number; // percent of the cost basis of everything sold or held
+  skippedTrades: string[]; // ids of trades that could not be valued
+  asOf: Date;
+}
+
 export interface TradeRequest {
   fromToken: string;
   toToken: string;
   amount: number;
-  slippage: number;
-  deadline: number;
+  slippage: number; // percent
+  deadline: number; // unix seconds after which the swap must not execute
   userAddress: string;
 }
 
+export interface SwapQuote {
+  source: string; // adapter that produced the quote
+  fromToken: string;
+  toToken: string;
+  amountIn: number;
+  amountOut: number; // toToken before gas
+  gasCostNative?: number;
+  gasCostUsd?: number;
+  netAmountOut?: number; // amountOut less gas valued in toToken, when both can be priced
+  indicative?: boolean; // priced off the market rate rather than a firm route
+  route?: string;
+  quotedAt: Date;
+  raw?: Record<string, any>; // adapter data needed to execute the quote
+}
+
+export interface SwapQuoteAdapter {
+  name: string;
+  quote(request: TradeRequest): Promise<SwapQuote | null>; // null when the source has no route
+  // Returns AgentKit-style output ("Traded 1 of eth for 2500 of usdc ... 0x<hash>"); must not
+  // fill below minAmountOut
+  execute(quote: SwapQuote, request: TradeRequest, minAmountOut: number): Promise<string>;
+}
+
 export interface PriceAlert {
   id: string;
   tokenSymbol: string;
@@ -172,6 +289,344 @@ export interface PriceAlert {
   targetPrice: number;
   isActive: boolean;
   createdBy: string;
+  conversationId: string;
+  mode: 'once' | 'rearm';
+  armed: boolean; // false while a re-arming alert waits for price to cross back
+  triggerCount: number;
+  createdAt: Date;
+  lastTriggeredAt?: Date;
+}
+
+export interface PriceAlertStore {
+  save(alert: PriceAlert): Promise<void>;
+  get(id: string): Promise<PriceAlert | undefined>;
+  listByUser(userId: string): Promise<PriceAlert[]>;
+  listActive(): Promise<PriceAlert[]>;
+}
+
+export interface PriceAlertTrigger {
+  alert: PriceAlert;
+  price: number;
+  triggeredAt: Date;
+}
+
+export interface PriceSource {
+  name: string;
+  getPrices(symbols: string[]): Promise<Record<string, number>>;
+}
+
+export interface PriceQuote {
+  symbol: string;
+  price: number; // USD
+  change24h?: number; // percent, when the provider reports it
+  source: string; // provider name
+  updatedAt: Date; // when the provider last updated the price
+  stale?: boolean; // set by PriceService when older than its staleness limit
+}
+
+export interface PriceProvider {
+  name: string;
+  getQuotes(symbols: string[]): Promise<Record<string, PriceQuote>>;
+}
+
+export interface TransactionIntent {
+  kind: 'transfer' | 'swap' | 'wrap';
+  action: string;
+  fromToken: string;
+  toToken?: string;
+  amount: number; // whole units of fromToken
+  slippage?: number; // percent
+  recipient?: string;
+  userId: string;
+  network?: string; // network id, the default network when absent
+}
+
+export interface PolicyViolation {
+  code: 'MAX_TRANSACTION_VALUE' | 'DAILY_LIMIT' | 'PAIR_NOT_ALLOWED' | 'SLIPPAGE_TOO_HIGH' | 'UNPRICED_ASSET' | 'LARGE_TRANSACTION';
+  message: string;
+  limit?: number;
+  actual?: number;
+}
+
+export interface PolicyDecision {
+  outcome: 'allow' | 'reject' | 'escalate';
+  usdValue: number | null;
+  violations: PolicyViolation[];
+}
+
+export interface BalanceChange {
+  token: string;
+  amount: number; // negative when it leaves the wallet
+}
+
+export interface SimulationResult {
+  success: boolean;
+  method: 'eth_call' | 'balance_check'; // swaps are routed by the trade API, so only balances can be checked
+  balanceChanges: BalanceChange[]; // excluding gas
+  gasEstimate?: string; // gas units, decimal string
+  gasCostNative?: number;
+  gasCostUsd?: number;
+  revertReason?: string;
+  simulatedAt: Date;
+}
+
+export interface TradeRecord {
+  id: string;
+  kind: TransactionIntent['kind'];
+  action: string;
+  agentName: string;
+  userId: string;
+  conversationId: string;
+  network: string;
+  fromToken: string;
+  toToken?: string;
+  amountIn: number;
+  quotedAmountOut?: number;
+  executedAmountOut?: number;
+  recipient?: string;
+  usdValue?: number;
+  txHash?: string;
+  gasUsed?: string; // decimal string so records stay JSON-serializable
+  status: 'pending' | 'confirmed' | 'failed' | 'unconfirmed'; // unconfirmed: sent, but no receipt before the tracker gave up
+  error?: string;
+  params: Record<string, any>; // raw tool arguments
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TradeHistoryQuery {
+  userId?: string;
+  token?: string; // matches either side of the trade
+  from?: Date;
+  to?: Date;
+  status?: TradeRecord['status'];
+  limit?: number;
+}
+
+export interface TradeHistoryStore {
+  insert(record: TradeRecord): Promise<void>;
+  update(id: string, changes: Partial<Omit<TradeRecord, 'id' | 'createdAt'>>): Promise<TradeRecord | undefined>;
+  get(id: string): Promise<TradeRecord | undefined>;
+  query(query: TradeHistoryQuery): Promise<TradeRecord[]>;
+}
+
+export interface TradeExecution {
+  result: string; // raw output of the executing action
+  trade: TradeRecord;
+}
+
+export interface DcaPlan {
+  id: string;
+  userId: string;
+  conversationId: string;
+  fromToken: string; // token spent each fill, e.g. USDC
+  toToken: string; // token bought, e.g. ETH
+  amount: number; // whole units of fromToken per fill
+  cadence: 'hourly' | 'daily' | 'weekly' | 'monthly';
+  dayOfWeek?: number; // 0 (Sunday) - 6, weekly plans only
+  hourUtc: number;
+  maxSlippage: number; // percent, measured against the pre-trade quote
+  status: 'active' | 'paused' | 'cancelled';
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  fillCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DcaPlanStore {
+  save(plan: DcaPlan): Promise<void>;
+  get(id: string): Promise<DcaPlan | undefined>;
+  listByUser(userId: string): Promise<DcaPlan[]>;
+  listDue(now: Date): Promise<DcaPlan[]>;
+}
+
+export interface ConditionalOrder {
+  id: string;
+  userId: string;
+  conversationId: string;
+  type: 'limit_buy' | 'limit_sell' | 'stop_loss' | 'take_profit';
+  token: string; // asset bought or sold, e.g. ETH
+  quoteToken: string; // asset paid with or received, e.g. USDC
+  amount: number; // whole units of token
+  triggerPrice: number; // USD price of token
+  maxSlippage: number; // percent
+  ocoGroupId?: string; // orders sharing a group cancel each other once one triggers
+  status: 'open' | 'triggered' | 'filled' | 'failed' | 'cancelled';
+  createdAt: Date;
+  triggeredAt?: Date;
+  triggerPriceObserved?: number;
+  tradeId?: string;
+  error?: string;
+  updatedAt: Date;
+}
+
+export interface ConditionalOrderStore {
+  save(order: ConditionalOrder): Promise<void>;
+  get(id: string): Promise<ConditionalOrder | undefined>;
+  listByUser(userId: string): Promise<ConditionalOrder[]>;
+  listOpen(): Promise<ConditionalOrder[]>;
+  listGroup(ocoGroupId: string): Promise<ConditionalOrder[]>;
+}
+
+export interface AllocationProfile {
+  id: string;
+  userId: string;
+  conversationId: string;
+  targets: Record<string, number>; // token symbol -> percent of the allocated value, summing to 100
+  tolerance: number; // percentage points a token may drift from its target before rebalancing
+  maxSlippage: number; // percent, per rebalance swap
+  cadence?: DcaPlan['cadence']; // scheduled drift checks, none when unset
+  dayOfWeek?: number;
+  hourUtc: number;
+  status: 'active' | 'cancelled';
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AllocationProfileStore {
+  save(profile: AllocationProfile): Promise<void>;
+  get(id: string): Promise<AllocationProfile | undefined>;
+  getActiveByUser(userId: string): Promise<AllocationProfile | undefined>;
+  listDue(now: Date): Promise<AllocationProfile[]>;
+}
+
+export interface AllocationDrift {
+  token: string;
+  valueUsd: number;
+  currentPercent: number;
+  targetPercent: number;
+  drift: number; // percentage points, positive when overweight
+}
+
+export interface RebalanceSwap {
+  fromToken: string;
+  toToken: string;
+  amount: number; // whole units of fromToken
+  valueUsd: number;
+}
+
+export interface RebalancePlan {
+  totalValueUsd: number; // of the tokens in the profile
+  drift: AllocationDrift[];
+  withinTolerance: boolean;
+  swaps: RebalanceSwap[];
+}
+
+export interface TokenScanFinding {
+  code: 'NOT_A_CONTRACT' | 'NOT_ERC20' | 'UPGRADEABLE_PROXY' | 'MINTABLE' | 'PAUSABLE' | 'BLACKLIST' | 'OWNED' | 'OWNERSHIP_RENOUNCED';
+  severity: 'info' | 'low' | 'medium' | 'high';
+  message: string;
+}
+
+export interface TokenScanReport {
+  address: string;
+  network: string;
+  isContract: boolean;
+  name?: string;
+  symbol?: string;
+  decimals?: number;
+  totalSupply?: number; // whole tokens
+  owner?: string; // owner() if the contract has one
+  proxy?: { kind: 'eip1967' | 'eip1167'; implementation: string; admin?: string };
+  functions: string[]; // privileged functions found in the bytecode, e.g. "mint(address,uint256)"
+  riskScore: number; // 0 (no findings) to 100
+  riskLevel: 'low' | 'medium' | 'high';
+  findings: TokenScanFinding[];
+  scannedAt: Date;
+}
+
+export interface TrackedApproval {
+  network: string;
+  owner: string;
+  token: string; // token contract address
+  spender: string;
+  txHash?: string; // approval transaction, when the agent sent it
+  recordedAt: Date;
+}
+
+export interface ApprovalRegistry {
+  record(approval: TrackedApproval): Promise<void>;
+  list(owner: string, network: string): Promise<TrackedApproval[]>;
+}
+
+export interface TokenApproval {
+  network: string;
+  owner: string;
+  token: string;
+  symbol?: string;
+  spender: string;
+  allowance: string; // raw token units as a decimal string
+  amount?: number; // whole tokens; undefined for unlimited approvals
+  unlimited: boolean;
+  txHash?: string;
+}
+
+export interface Candle {
+  timestamp: Date; // candle open time
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type CandleInterval = '5m' | '1h' | '1d';
+
+export interface CandleQuery {
+  from?: Date;
+  to?: Date;
+  limit?: number; // the most recent candles in the range
+}
+
+export interface CandleStore {
+  upsert(token: string, interval: CandleInterval, candles: Candle[]): Promise<void>;
+  list(token: string, interval: CandleInterval, query?: CandleQuery): Promise<Candle[]>; // oldest first
+  latest(token: string, interval: CandleInterval): Promise<Candle | undefined>;
+}
+
+export interface TechnicalIndicators {
+  token: string;
+  interval: CandleInterval;
+  candles: number; // candles the indicators were computed from
+  asOf: Date; // open time of the latest candle
+  close: number;
+  sma20?: number;
+  sma50?: number;
+  ema12?: number;
+  ema26?: number;
+  rsi14?: number;
+  macd?: { macd: number; signal: number; histogram: number };
+  bollinger?: { upper: number; middle: number; lower: number; percentB: number; bandwidth: number };
+  atr14?: number;
+  signals: string[]; // plain-language readings, e.g. "RSI 74.2: overbought"
+}
+
+export interface BacktestTrade {
+  timestamp: Date;
+  side: 'buy' | 'sell';
+  price: number; // fill price after slippage, in the quote token
+  amount: number; // base token bought or sold
+  fee: number; // in the quote token
+  reason: string;
+}
+
+export interface BacktestResult {
+  strategy: string;
+  token: string;
+  quoteToken: string;
+  start: Date;
+  end: Date;
+  initialCapital: number;
+  finalEquity: number;
+  invested: number; // quote token spent on buys
+  totalReturn: number; // percent of initial capital
+  maxDrawdown: number; // percent, peak to trough of the equity curve
+  sharpeRatio: number; // annualized, zero risk-free rate
+  feesPaid: number;
+  trades: BacktestTrade[];
 }
 
 // Gaming Agent
@@ -274,6 +729,11 @@ export interface NotificationPreferences {
   systemUpdates: boolean;
 }
 
+export interface UserPreferencesStore {
+  get(userId: string): Promise<UserPreferences | undefined>;
+  save(userId: string, preferences: UserPreferences): Promise<void>;
+}
+
 // MiniApp Agent
 export interface MiniAppAgentConfig extends BaseAgentConfig {
   supportedApps: MiniAppDefinition[];
@@ -314,6 +774,20 @@ export interface TransactionRequest {
   nonce?: number;
 }
 
+export interface PendingTransaction {
+  id: string; // short id the user echoes back, e.g. "confirm 3f9a1c"
+  agentName: string;
+  userId: string;
+  conversationId: string;
+  action: string;
+  summary: string;
+  status: 'pending' | 'executing' | 'executed' | 'failed' | 'cancelled' | 'expired';
+  createdAt: Date;
+  expiresAt: Date;
+  result?: string;
+  metadata?: Record<string, any>;
+}
+
 export interface TransactionResult {
   hash: string;
   status: 'pending' | 'confirmed' | 'failed';
@@ -322,6 +796,17 @@ export interface TransactionResult {
   error?: string;
 }
 
+export interface TrackedTransaction extends TransactionResult {
+  network: string;
+  agentName: string;
+  userId: string;
+  conversationId: string;
+  tradeId?: string; // trade history record updated with the outcome
+  description: string;
+  submittedAt: Date;
+  settledAt?: Date;
+}
+
 export interface WalletBalance {
   address: string;
   balances: {
@@ -405,6 +890,27 @@ export class BlockchainError extends BaseAgentError {
   }
 }
 
+export class PolicyViolationError extends BaseAgentError {
+  constructor(message: string, public violations: PolicyViolation[], metadata?: Record<string, any>) {
+    super(message, 'POLICY_VIOLATION', { violations, ...metadata });
+    this.name = 'PolicyViolationError';
+  }
+}
+
+export class SimulationFailedError extends BaseAgentError {
+  constructor(message: string, public simulation: SimulationResult, metadata?: Record<string, any>) {
+    super(message, 'SIMULATION_FAILED', { simulation, ...metadata });
+    this.name = 'SimulationFailedError';
+  }
+}
+
+export class SwapQuoteError extends BaseAgentError {
+  constructor(message: string, code: 'NO_ROUTE' | 'DEADLINE_EXCEEDED' | 'SLIPPAGE_EXCEEDED', metadata?: Record<string, any>) {
+    super(message, code, metadata);
+    this.name = 'SwapQuoteError';
+  }
+}
+
 export class AgentError extends BaseAgentError {
   constructor(message: string, agentName: string, metadata?: Record<string, any>) {
     super(message, 'AGENT_ERROR', { agentName, ...metadata });
@@ -20,6 +20,7 @@ const nextConfig: NextConfig = {
         'cpu-features': 'commonjs cpu-features',
         'node:crypto': 'commonjs node:crypto',
         'node:stream': 'commonjs node:stream',
+        'better-sqlite3': 'commonjs better-sqlite3',
       });
     }
     